@@ -5,7 +5,8 @@
  * @date October 2025
  */
 
-import type { APIType } from './RemoteAPI';
+import type { APIRequestConfig, APIType, RemoteAPIErrorCategory, ResponseCacheInfo } from './RemoteAPI';
+import type { LiteralType } from '@/lib/SQLParser';
 
 /**
  * Tenant credentials from SQLite database
@@ -73,17 +74,358 @@ export interface APIGatewayMetadata {
   service?: string;
   /** Entity name (for REST APIs) */
   entity?: string;
+  /** Whether the records came from the response cache (hit or revalidated) */
+  cacheHit?: boolean;
+  /** Response cache details (tables with a cache TTL only) */
+  cache?: ResponseCacheInfo;
+  /** Caveats about the returned records, e.g. an aggregate over a truncated fetch */
+  warnings?: string[];
 }
 
+/**
+ * Stable error codes returned by the API Gateway
+ * Upstream failures are mapped from RemoteAPIError (see IONErrorParser.toGatewayError)
+ * @type APIGatewayErrorCode
+ */
+export type APIGatewayErrorCode =
+  | 'BAD_REQUEST'
+  | 'TENANT_NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'UPSTREAM_TIMEOUT'
+  | 'ODATA_ERROR'
+  | 'SOAP_FAULT'
+  | 'VALIDATION_ERROR'
+  | 'PARSE_ERROR'
+  | 'CANCELLED'
+  | 'INTERNAL_ERROR';
+
 /**
  * Error information from API Gateway
  * @interface APIGatewayError
  */
 export interface APIGatewayError {
   /** Error code for categorization */
-  code: string;
+  code: APIGatewayErrorCode;
   /** Human-readable error message */
   message: string;
-  /** Additional error details (only in development) */
+  /** Where the error came from (transport, auth, throttling, odata, soap_fault, ...) */
+  category?: RemoteAPIErrorCategory;
+  /** Error code reported by ION (OData error.code, SOAP faultcode or LN message code) */
+  remoteCode?: string;
+  /** Field the error refers to, when ION names one */
+  target?: string;
+  /** Seconds to wait before retrying (throttling) */
+  retryAfterSeconds?: number;
+  /** Additional error details (OData details[], LN messages; internal errors only in development) */
   details?: any;
 }
+
+/**
+ * Access granted to a gateway API key
+ * 'write' also allows reads
+ * @type GatewayApiKeyScope
+ */
+export type GatewayApiKeyScope = 'read' | 'write';
+
+/**
+ * Tenant-scoped API key for machine clients of the API Gateway
+ * Maps to the 'gateway_api_keys' table in midport_query_platform.db (only the hash of the key is stored)
+ * @interface GatewayApiKey
+ */
+export interface GatewayApiKey {
+  /** Unique identifier */
+  id: number;
+  /** Tenant the key can query */
+  tenant: string;
+  /** Display name (e.g. 'Power BI sales dashboard') */
+  name: string;
+  /** First characters of the key, shown to identify it */
+  keyPrefix: string;
+  /** Tables/entities the key may query ('*' allows all tables of the tenant) */
+  allowedTables: string[];
+  /** Read-only or read/write access */
+  scope: GatewayApiKeyScope;
+  /** Username of the admin who created the key */
+  createdBy: string;
+  /** Creation timestamp */
+  createdAt: string;
+  /** Last time the key was accepted by the gateway (ISO) */
+  lastUsedAt: string | null;
+  /** Time the key stops being accepted (ISO), null for no expiry */
+  expiresAt: string | null;
+  /** Time the key was revoked (ISO) */
+  revokedAt: string | null;
+}
+
+/**
+ * Newly created or rotated API key, the only time the plaintext key is available
+ * @interface GatewayApiKeySecret
+ */
+export interface GatewayApiKeySecret {
+  /** Stored key details */
+  apiKey: GatewayApiKey;
+  /** Plaintext key to hand to the client */
+  key: string;
+}
+
+/**
+ * Caller of the API Gateway, authenticated by session cookie or API key
+ * @interface GatewayPrincipal
+ */
+export interface GatewayPrincipal {
+  /** How the caller authenticated */
+  type: 'session' | 'api_key';
+  /** Username, or 'apikey:<name>' for API keys */
+  username: string;
+  /** Tenant of the user or key */
+  tenant: string;
+  /** Roles of the user (empty for API keys) */
+  roles: string[];
+  /** The API key used (API key callers only) */
+  apiKey?: GatewayApiKey;
+}
+
+/**
+ * Operators of a gateway filter tree condition (ION operators, see SQLParser.createCondition)
+ * @type GatewayFilterOperator
+ */
+export type GatewayFilterOperator =
+  | 'eq' | 'ne' | 'gt' | 'ge' | 'lt' | 'le'
+  | 'like' | 'ilike' | 'in' | 'between' | 'is_null' | 'is_not_null';
+
+/**
+ * JSON filter tree accepted by POST /api/gateway (alternative to a SQL WHERE clause)
+ *
+ * @example
+ * // (Status = 'Open' OR Status = 'Hold') AND OrderDate BETWEEN 2024-01-01 AND 2024-03-31
+ * // { and: [
+ * //   { or: [ { field: 'Status', op: 'eq', value: 'Open' }, { field: 'Status', op: 'eq', value: 'Hold' } ] },
+ * //   { field: 'OrderDate', op: 'between', value: '2024-01-01', value2: '2024-03-31', type: 'date' }
+ * // ] }
+ * @type GatewayFilterNode
+ */
+export type GatewayFilterNode =
+  | {
+      /** Field/column name */
+      field: string;
+      /** Comparison operator */
+      op: GatewayFilterOperator;
+      /** Value (an array for 'in', omitted for null checks) */
+      value?: string | number | boolean | Array<string | number>;
+      /** Upper bound for 'between' */
+      value2?: string | number;
+      /** Value type (date, datetime, guid, enum, ...); untyped when absent */
+      type?: LiteralType;
+      /** Qualified enum type for type 'enum' (e.g. tdsls.OrderStatus) */
+      enumType?: string;
+    }
+  | { and: GatewayFilterNode[] }
+  | { or: GatewayFilterNode[] }
+  | { not: GatewayFilterNode };
+
+/**
+ * JSON body of POST /api/gateway
+ * `sql` and `filter` are alternatives; select, expand, orderby and paging override the SQL ones
+ * @interface APIGatewayQueryRequest
+ */
+export interface APIGatewayQueryRequest {
+  /** Tenant ID or name (API keys default to their own tenant) */
+  tenant?: string;
+  /** Table/Service name (not with `query`) */
+  table?: string;
+  /** 'soap' or 'rest' (defaults to 'rest') */
+  apiType?: APIType;
+  /** OData service name (REST) */
+  service?: string;
+  /** Entity name (REST) */
+  entity?: string;
+  /** SOAP action for filter queries (defaults to 'List'; SQL statements choose their own) */
+  action?: string;
+  /** SQL statement, parsed like the query editor (SELECT, or INSERT/UPDATE/DELETE with a write key) */
+  sql?: string;
+  /** Slug of a saved query of the tenant, which supplies the table and SQL (see SavedQuery) */
+  query?: string;
+  /** Values of the named parameters of the saved query */
+  params?: Record<string, string | number | boolean>;
+  /** JSON filter tree */
+  filter?: GatewayFilterNode;
+  /** Columns, as a list or a SQL select list ("OrderNumber, OrderDate AS Date") */
+  select?: string | string[];
+  /** Navigation properties to expand (REST) */
+  expand?: string | string[];
+  /** Sort field with optional direction ("OrderDate desc") */
+  orderby?: string;
+  /** Maximum number of records (defaults to 15) */
+  limit?: number;
+  /** Number of records to skip */
+  offset?: number;
+  /** Fetch every page (bounded by the server-side record cap) */
+  fetchAll?: boolean;
+  /** Preview an INSERT/UPDATE/DELETE without sending it to ION */
+  dryRun?: boolean;
+}
+
+/**
+ * Query resolved from a GET query string or POST body, ready for execution
+ * @interface GatewayQuery
+ */
+export interface GatewayQuery {
+  /** Tenant ID or name */
+  tenant: string;
+  /** Table/Service name */
+  table: string;
+  /** 'soap' or 'rest' */
+  apiType: APIType;
+  /** SOAP action, or HTTP method for REST writes */
+  action: string;
+  /** OData service name (REST) */
+  oDataService?: string;
+  /** Entity name (REST) */
+  entityName?: string;
+  /** Parameters in the SQLParser.parseSQL() format */
+  parameters: NonNullable<APIRequestConfig['parameters']>;
+  /** Expand fields configured for the registered table (REST) */
+  expandFields?: string[];
+  /** Statement recorded in the query log */
+  sqlQuery: string;
+  /** 'write' for INSERT/UPDATE/DELETE */
+  scope: GatewayApiKeyScope;
+  /** Preview a write without sending it to ION */
+  dryRun?: boolean;
+}
+
+/**
+ * Type of a saved query parameter (the typed literals of SQLParser, without enums)
+ * @type SavedQueryParameterType
+ */
+export type SavedQueryParameterType = Exclude<LiteralType, 'enum'>;
+
+/**
+ * Named parameter of a saved query, written as `:name` in its SQL
+ * @interface SavedQueryParameter
+ */
+export interface SavedQueryParameter {
+  /** Name used in the SQL (`:customerId`) and the query string (`?customerId=`) */
+  name: string;
+  /** Type the value is checked against and written as (DATE '...', GUID '...', ...) */
+  type: SavedQueryParameterType;
+  /** Whether callers must pass a value (optional parameters without default are NULL) */
+  required: boolean;
+  /** Value used when the caller passes none */
+  defaultValue?: string | number | boolean;
+  /** Shown in the OpenAPI document and the API Explorer */
+  description?: string;
+}
+
+/**
+ * SELECT statement against a registered table, published as GET /api/gateway/queries/<slug>
+ * Maps to the 'gateway_saved_queries' table in midport_query_platform.db
+ *
+ * @example
+ * // GET /api/gateway/queries/open-service-calls?customerId=C000123
+ * // { slug: 'open-service-calls', table: 'ServiceCalls',
+ * //   sql: "SELECT * FROM ServiceCalls WHERE Customer = :customerId AND Status = 'Open'",
+ * //   parameters: [{ name: 'customerId', type: 'string', required: true }] }
+ * @interface SavedQuery
+ */
+export interface SavedQuery {
+  /** Unique identifier */
+  id: number;
+  /** Tenant the query belongs to (callers run it against their own tenant) */
+  tenant: string;
+  /** URL name, unique per tenant (lowercase letters, digits and dashes) */
+  slug: string;
+  /** Display name */
+  name: string;
+  /** What the query returns */
+  description: string;
+  /** Registered remote table the query runs against */
+  table: string;
+  /** SELECT statement with `:name` placeholders */
+  sql: string;
+  /** Declared parameters, one per placeholder */
+  parameters: SavedQueryParameter[];
+  /** Username of the user who saved the query */
+  createdBy: string;
+  /** Creation timestamp */
+  createdAt: string;
+  /** Last change timestamp */
+  updatedAt: string;
+}
+
+/**
+ * JSON Schema object (OpenAPI 3.1 uses JSON Schema 2020-12)
+ * @type OpenAPISchema
+ */
+export type OpenAPISchema = { [keyword: string]: unknown };
+
+/**
+ * Parameter of an OpenAPI operation
+ * @interface OpenAPIParameter
+ */
+export interface OpenAPIParameter {
+  /** Parameter name */
+  name: string;
+  /** Location of the parameter */
+  in: 'query' | 'path' | 'header' | 'cookie';
+  /** Description */
+  description?: string;
+  /** Whether the parameter is required */
+  required?: boolean;
+  /** Schema of the value */
+  schema: OpenAPISchema;
+  /** Example value */
+  example?: unknown;
+}
+
+/**
+ * Operation (method of a path) in an OpenAPI document
+ * @interface OpenAPIOperation
+ */
+export interface OpenAPIOperation {
+  /** Unique operation id */
+  operationId: string;
+  /** Short summary */
+  summary: string;
+  /** Longer description (Markdown) */
+  description?: string;
+  /** Tags used to group operations */
+  tags?: string[];
+  /** Query, path and header parameters */
+  parameters?: OpenAPIParameter[];
+  /** Request body (POST) */
+  requestBody?: OpenAPISchema;
+  /** Responses by HTTP status */
+  responses: Record<string, OpenAPISchema>;
+}
+
+/**
+ * OpenAPI 3.1 document describing the API Gateway and the registered tables of a tenant
+ * Served by GET /api/gateway/openapi.json (see OpenAPIGenerator)
+ * @interface OpenAPIDocument
+ */
+export interface OpenAPIDocument {
+  /** OpenAPI version */
+  openapi: '3.1.0';
+  /** API title, version and description */
+  info: { title: string; version: string; description?: string };
+  /** Base URL of the gateway */
+  servers: Array<{ url: string; description?: string }>;
+  /** Operation groups */
+  tags: Array<{ name: string; description?: string }>;
+  /** Operations per path */
+  paths: Record<string, Partial<Record<'get' | 'post', OpenAPIOperation>>>;
+  /** Shared schemas, responses and security schemes */
+  components: {
+    schemas: Record<string, OpenAPISchema>;
+    responses: Record<string, OpenAPISchema>;
+    securitySchemes: Record<string, OpenAPISchema>;
+  };
+  /** Accepted authentication methods (any one of them) */
+  security: Array<Record<string, string[]>>;
+}
@@ -5,6 +5,8 @@
  * @date October 2025
  */
 
+import type { SQLParameters } from '@/lib/SQLParser';
+
 /**
  * API types supported by the platform
  */
@@ -25,6 +27,10 @@ export interface RemoteAPITable {
   oDataService?: string;
   /** Entity name for REST APIs (e.g., 'Orders') */
   entityName?: string;
+  /** Response cache TTL in seconds (0 or unset: results are not cached) */
+  cacheTtlSeconds?: number;
+  /** Navigation properties configured for $expand (REST only) */
+  expandFields?: Array<{ name: string; description?: string; isActive?: boolean }>;
 }
 
 /**
@@ -132,6 +138,54 @@ export interface APIRequestConfig {
   entityName?: string;
   /** Expand fields for OData REST APIs (used to retrieve nested data) */
   expandFields?: string[];
+  /** Build an INSERT/UPDATE/DELETE request without sending it (returned as preview) */
+  dryRun?: boolean;
+  /** Aborts the ION requests of this query (set server-side from the incoming request; never serialized) */
+  signal?: AbortSignal;
+  /** Skip the response cache lookup (Cache-Control: no-cache); the fresh result is still stored */
+  noCache?: boolean;
+  /** ETag of a stale cached result; ION answers 304 when unchanged (REST only, set by ResponseCacheManager) */
+  ifNoneMatch?: string;
+  /** OData $batch only: INSERT/UPDATE/DELETE with the same change set are applied atomically (all or none) */
+  changeSet?: string;
+}
+
+/**
+ * Request an INSERT/UPDATE/DELETE would send, shown for confirmation before it runs
+ * @interface WriteRequestPreview
+ */
+export interface WriteRequestPreview {
+  /** SQL statement kind */
+  statement: 'insert' | 'update' | 'delete';
+  /** HTTP method (POST, PATCH, DELETE) or SOAP action (Create, Change, Delete) */
+  method: string;
+  /** Target URL (keyed entity URL for OData updates and deletes) */
+  url: string;
+  /** JSON body or SOAP envelope */
+  body?: string;
+}
+
+/**
+ * Translated request returned for an EXPLAIN statement instead of calling ION
+ * @interface QueryExplanation
+ */
+export interface QueryExplanation {
+  /** API the request is built for */
+  apiType: 'soap' | 'rest';
+  /** Parameters produced by SQLParser (WHERE condition tree, select, paging, joins, ...) */
+  parsed: SQLParameters;
+  /** HTTP method (REST) or SOAP action */
+  method: string;
+  /** Request URL as it would be sent */
+  url: string;
+  /** Request URL with the query options ($filter, $expand, ...) decoded */
+  decodedUrl: string;
+  /** Request headers with the bearer token redacted */
+  headers: Record<string, string>;
+  /** JSON body or SOAP envelope */
+  body?: string;
+  /** Clauses that are ignored or evaluated locally instead of by ION */
+  warnings: string[];
 }
 
 /**
@@ -177,6 +231,129 @@ export interface RemoteAPIQueryResult {
   schema?: import('../lib/utils/SchemaExtractor').TableSchema;
   /** Array of records for backward compatibility */
   records?: any[];
+  /** Request of an INSERT/UPDATE/DELETE (set for dry runs and executed writes) */
+  preview?: WriteRequestPreview;
+  /** Translated request (EXPLAIN statements only; nothing was sent to ION) */
+  explanation?: QueryExplanation;
+  /** Structured error (failed queries only) */
+  error?: RemoteAPIError;
+  /** ETag returned by ION (single-page OData responses) */
+  etag?: string;
+  /** Whether ION had more matching records than were fetched (record cap reached) */
+  truncated?: boolean;
+  /** Caveats about the returned records, e.g. an aggregate over truncated source rows */
+  warnings?: string[];
+  /** Response cache status (tables with a cache TTL only) */
+  cache?: ResponseCacheInfo;
+  /** Progress of a streamed query (POST /api/remote-query/stream only) */
+  stream?: QueryStreamInfo;
+}
+
+/**
+ * Progress of a streamed query
+ * @interface QueryStreamInfo
+ */
+export interface QueryStreamInfo {
+  /** Whether records are still arriving */
+  active: boolean;
+  /** Records received so far */
+  rowsReceived: number;
+  /** Pages fetched from ION so far */
+  pagesFetched: number;
+  /** Total number of matching records reported by ION (@odata.count), when known */
+  totalAvailable?: number;
+  /** Whether the stream was stopped before all records were received */
+  stopped?: boolean;
+}
+
+/**
+ * Event of a streamed query, sent as one NDJSON line
+ * - page: records of one page fetched from ION
+ * - done: the result without its records (summary, schema, note) and the updated token
+ * - error: the query failed; records sent before remain valid
+ * @type QueryStreamEvent
+ */
+export type QueryStreamEvent =
+  | { type: 'page'; records: Record<string, unknown>[]; page: number; rowsReceived: number; totalAvailable?: number }
+  | { type: 'done'; result: RemoteAPIQueryResult; token?: StoredOAuth2Token }
+  | { type: 'error'; apiError: RemoteAPIError };
+
+/**
+ * How a query result was served by the response cache
+ * - hit: fresh cached result, ION was not called
+ * - revalidated: stale cached result that ION confirmed unchanged (304 Not Modified)
+ * - miss: fetched from ION and stored
+ * - bypass: lookup skipped (Cache-Control: no-cache), fetched from ION and stored
+ * @type ResponseCacheStatus
+ */
+export type ResponseCacheStatus = 'hit' | 'revalidated' | 'miss' | 'bypass';
+
+/**
+ * Response cache information of a query result
+ * @interface ResponseCacheInfo
+ */
+export interface ResponseCacheInfo {
+  /** How the result was served */
+  status: ResponseCacheStatus;
+  /** Seconds since the result was fetched from (or confirmed by) ION */
+  ageSeconds: number;
+  /** Cache TTL of the table in seconds */
+  ttlSeconds: number;
+  /** Time the cached result becomes stale (ISO 8601) */
+  expiresAt: string;
+  /** ETag of the result, used for revalidation */
+  etag?: string;
+}
+
+/**
+ * Origin of a failed remote API request
+ * - transport: network failure, timeout or unavailable ION gateway
+ * - auth: token could not be obtained or was rejected (401/403)
+ * - throttling: ION API gateway rate limit (429)
+ * - odata: OData error payload (error.code, details[], innererror)
+ * - soap_fault: SOAP fault (faultcode, faultstring, LN messages in detail)
+ * - validation: request rejected before calling ION (unknown field, operation)
+ * - parse: response could not be read
+ * - cancelled: the query was cancelled by the user
+ * - internal: any other error
+ * @type RemoteAPIErrorCategory
+ */
+export type RemoteAPIErrorCategory = 'transport' | 'auth' | 'throttling' | 'odata' | 'soap_fault' | 'validation' | 'parse' | 'cancelled' | 'internal';
+
+/**
+ * One message of a remote error (OData details[] entry or LN message in a SOAP fault)
+ * @interface RemoteAPIErrorDetail
+ */
+export interface RemoteAPIErrorDetail {
+  /** OData detail code or LN message code */
+  code?: string;
+  message: string;
+  /** Field the message refers to */
+  target?: string;
+}
+
+/**
+ * Structured error of a remote API request, carried on RemoteAPIQueryResult.error
+ * @interface RemoteAPIError
+ */
+export interface RemoteAPIError {
+  category: RemoteAPIErrorCategory;
+  /** Stable code, also returned by the API Gateway */
+  code: import('./Gateway').APIGatewayErrorCode;
+  /** Human-readable message (OData error.message, SOAP faultstring, ...) */
+  message: string;
+  /** HTTP status returned by ION */
+  httpStatus?: number;
+  /** Error code reported by ION (OData error.code, SOAP faultcode) */
+  remoteCode?: string;
+  /** Field the error refers to, highlighted in the query editor */
+  target?: string;
+  /** OData details[] or the LN messages of a SOAP fault */
+  details?: RemoteAPIErrorDetail[];
+  /** OData innererror (service specific) */
+  innerError?: unknown;
+  /** Seconds to wait before retrying (Retry-After of a throttled request) */
+  retryAfterSeconds?: number;
 }
 
 /**
@@ -226,3 +403,59 @@ export interface RemoteAPIDatabase {
   /** Last update timestamp (auto-updated) */
   updatedAt: Date;
 }
+
+/**
+ * Entity set offered by an OData service in the tenant's service catalog
+ * @interface CatalogEntitySet
+ */
+export interface CatalogEntitySet {
+  /** Entity set name, registered as the table's entityName (e.g., "Orders") */
+  name: string;
+  /** OData service the set belongs to, registered as the table's oDataService */
+  oDataService: string;
+  /** Key property names from $metadata */
+  keys: string[];
+  /** Navigation properties from $metadata, suggested as expand fields */
+  navigationProperties: string[];
+  /** Core.Description of the entity type, when $metadata provides one */
+  description?: string;
+}
+
+/**
+ * OData service listed by the LN lnapi/odata service document
+ * @interface CatalogODataService
+ */
+export interface CatalogODataService {
+  /** Service name (e.g., "tsapi.socServiceOrders") */
+  name: string;
+  /** Human-readable title from the service document, if any */
+  title?: string;
+  /** Entity sets, loaded on demand per service */
+  entitySets?: CatalogEntitySet[];
+}
+
+/**
+ * SOAP business interface listed by the LN c4ws services page
+ * @interface CatalogSOAPService
+ */
+export interface CatalogSOAPService {
+  /** Business interface name, registered as the table name (e.g., "ServiceCall_v2") */
+  name: string;
+}
+
+/**
+ * APIs available to a tenant, as listed by ION
+ * @interface ServiceCatalog
+ */
+export interface ServiceCatalog {
+  /** Tenant configuration id (TenantConfigManager) */
+  tenantId: string;
+  /** Tenant name used in ION URLs (e.g., "MIDPORT_DEM") */
+  tenantName: string;
+  /** ION API base URL the services are reached through */
+  baseUrl: string;
+  odataServices: CatalogODataService[];
+  soapServices: CatalogSOAPService[];
+  /** Listing errors (one API type can fail while the other is still listed) */
+  errors: string[];
+}
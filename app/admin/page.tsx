@@ -7,10 +7,11 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Shield, Unlock, Search, CheckCircle, XCircle, Clock, AlertCircle, Building2, Power } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Shield, Unlock, Search, CheckCircle, XCircle, Clock, AlertCircle, Building2, Power, KeyRound, RefreshCw, Trash2, Copy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useSession } from 'next-auth/react';
+import type { GatewayApiKey, GatewayApiKeyScope } from '@/Entities/Gateway';
 
 interface AccountStatus {
   username: string;
@@ -39,10 +40,19 @@ export default function AdminPage() {
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [loadingTenants, setLoadingTenants] = useState(false);
+  const [apiKeys, setApiKeys] = useState<GatewayApiKey[]>([]);
+  const [loadingApiKeys, setLoadingApiKeys] = useState(false);
+  const [keyName, setKeyName] = useState('');
+  const [keyTenant, setKeyTenant] = useState('');
+  const [keyTables, setKeyTables] = useState('');
+  const [keyScope, setKeyScope] = useState<GatewayApiKeyScope>('read');
+  const [keyExpiryDays, setKeyExpiryDays] = useState('90');
+  const [issuedKey, setIssuedKey] = useState<{ name: string; key: string } | null>(null);
   
   // Check if user is superadmin
   const userRoles = session?.user?.roles || [];
   const isSuperAdmin = userRoles.includes('superadmin');
+  const isAdmin = isSuperAdmin || userRoles.includes('admin');
 
   /**
    * Check account lock status
@@ -177,6 +187,111 @@ export default function AdminPage() {
     }
   };
   
+  /**
+   * Load gateway API keys (admin: own tenant, superadmin: all tenants)
+   */
+  const loadApiKeys = useCallback(async () => {
+    if (!isAdmin) return;
+
+    setLoadingApiKeys(true);
+    try {
+      const response = await fetch('/api/admin/api-keys');
+      if (!response.ok) throw new Error('Failed to load API keys');
+
+      const data = await response.json();
+      setApiKeys(data.apiKeys || []);
+    } catch (err) {
+      console.error('Error loading API keys:', err);
+    } finally {
+      setLoadingApiKeys(false);
+    }
+  }, [isAdmin]);
+
+  /**
+   * Create a gateway API key; the key is shown once
+   */
+  const createApiKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccessMessage(null);
+    setIssuedKey(null);
+
+    const allowedTables = keyTables.split(',').map(table => table.trim()).filter(Boolean);
+    if (!keyName.trim() || allowedTables.length === 0) {
+      setError('Please enter a key name and at least one table (or *)');
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/admin/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: keyName.trim(),
+          tenant: isSuperAdmin && keyTenant.trim() ? keyTenant.trim() : undefined,
+          allowedTables,
+          scope: keyScope,
+          expiresAt: keyExpiryDays
+            ? new Date(Date.now() + Number(keyExpiryDays) * 24 * 60 * 60 * 1000).toISOString()
+            : null,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to create API key');
+
+      setIssuedKey({ name: data.apiKey.name, key: data.key });
+      setSuccessMessage(data.message);
+      setKeyName('');
+      setKeyTables('');
+      await loadApiKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    }
+  };
+
+  /**
+   * Rotate (new secret, same settings) or revoke a gateway API key
+   */
+  const updateApiKey = async (apiKey: GatewayApiKey, action: 'rotate' | 'revoke') => {
+    const warning = action === 'rotate'
+      ? `Rotate API key "${apiKey.name}"? Clients using the current key will stop working.`
+      : `Revoke API key "${apiKey.name}"? This cannot be undone.`;
+    if (!confirm(warning)) {
+      return;
+    }
+
+    setError(null);
+    setSuccessMessage(null);
+    setIssuedKey(null);
+
+    try {
+      const response = await fetch(`/api/admin/api-keys/${apiKey.id}`, action === 'rotate'
+        ? { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ action: 'rotate' }) }
+        : { method: 'DELETE' });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || `Failed to ${action} API key`);
+
+      if (data.key) {
+        setIssuedKey({ name: data.apiKey.name, key: data.key });
+      }
+      setSuccessMessage(data.message);
+      await loadApiKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} API key`);
+    }
+  };
+
+  /**
+   * Display status of an API key
+   */
+  const getApiKeyStatus = (apiKey: GatewayApiKey): 'Active' | 'Revoked' | 'Expired' => {
+    if (apiKey.revokedAt) return 'Revoked';
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) return 'Expired';
+    return 'Active';
+  };
+  
   // Load tenants on mount if superadmin
   useEffect(() => {
     if (isSuperAdmin) {
@@ -184,6 +299,13 @@ export default function AdminPage() {
     }
   }, [isSuperAdmin]);
 
+  // Load API keys on mount if admin
+  useEffect(() => {
+    if (isAdmin) {
+      loadApiKeys();
+    }
+  }, [isAdmin, loadApiKeys]);
+
   return (
     <div className="min-h-screen p-8" style={{ backgroundColor: '#004766' }}>
       <div className="max-w-4xl mx-auto">
@@ -440,6 +562,191 @@ export default function AdminPage() {
           </div>
         )}
 
+        {/* API Keys Section - Admin Only */}
+        {isAdmin && (
+          <div className="mt-8 bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-3">
+                <KeyRound className="w-6 h-6 text-amber-400" />
+                <h2 className="text-xl font-semibold text-white">API Keys</h2>
+              </div>
+              <Button
+                onClick={loadApiKeys}
+                disabled={loadingApiKeys}
+                className="bg-amber-600 hover:bg-amber-700 text-white"
+              >
+                {loadingApiKeys ? 'Loading...' : 'Refresh'}
+              </Button>
+            </div>
+            <p className="text-sm text-gray-300 mb-4">
+              Keys for machine clients of <code className="text-amber-200">/api/gateway</code> (Power BI, scripts),
+              sent as <code className="text-amber-200">Authorization: Bearer &lt;key&gt;</code> or <code className="text-amber-200">X-API-Key</code>.
+            </p>
+
+            {/* Issued Key (shown once) */}
+            {issuedKey && (
+              <div className="bg-amber-500/20 border border-amber-500/50 rounded-lg p-4 mb-4">
+                <p className="text-sm text-amber-100 mb-2">
+                  Key for &quot;{issuedKey.name}&quot; - copy it now, it will not be shown again:
+                </p>
+                <div className="flex items-center space-x-2">
+                  <code className="flex-1 px-3 py-2 bg-slate-800 rounded text-amber-200 text-sm break-all">{issuedKey.key}</code>
+                  <Button
+                    onClick={() => navigator.clipboard.writeText(issuedKey.key)}
+                    className="bg-slate-700 hover:bg-slate-600 text-white"
+                    title="Copy key"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Create Key Form */}
+            <form onSubmit={createApiKey} className="space-y-4 mb-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={keyName}
+                    onChange={(e) => setKeyName(e.target.value)}
+                    className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g. Power BI sales dashboard"
+                  />
+                </div>
+                {isSuperAdmin && (
+                  <div>
+                    <label className="block text-sm font-medium text-white mb-2">
+                      Tenant
+                    </label>
+                    <input
+                      type="text"
+                      value={keyTenant}
+                      onChange={(e) => setKeyTenant(e.target.value.toUpperCase())}
+                      className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder={session?.user?.tenant || 'Own tenant'}
+                    />
+                  </div>
+                )}
+                <div className={isSuperAdmin ? 'md:col-span-2' : ''}>
+                  <label className="block text-sm font-medium text-white mb-2">
+                    Allowed tables / entities
+                  </label>
+                  <input
+                    type="text"
+                    value={keyTables}
+                    onChange={(e) => setKeyTables(e.target.value)}
+                    className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Orders, ServiceCall_v2 (comma separated, * for all)"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">
+                    Access
+                  </label>
+                  <select
+                    value={keyScope}
+                    onChange={(e) => setKeyScope(e.target.value as GatewayApiKeyScope)}
+                    className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="read">Read only</option>
+                    <option value="write">Read and write</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">
+                    Expires
+                  </label>
+                  <select
+                    value={keyExpiryDays}
+                    onChange={(e) => setKeyExpiryDays(e.target.value)}
+                    className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="30">In 30 days</option>
+                    <option value="90">In 90 days</option>
+                    <option value="365">In 1 year</option>
+                    <option value="">Never</option>
+                  </select>
+                </div>
+              </div>
+              <Button
+                type="submit"
+                className="w-full bg-amber-600 hover:bg-amber-700 text-white font-medium"
+              >
+                <div className="flex items-center justify-center space-x-2">
+                  <KeyRound className="w-4 h-4" />
+                  <span>Create API Key</span>
+                </div>
+              </Button>
+            </form>
+
+            {/* Key List */}
+            <div className="space-y-3">
+              {apiKeys.map((apiKey) => {
+                const status = getApiKeyStatus(apiKey);
+                return (
+                  <div
+                    key={apiKey.id}
+                    className="bg-slate-700/50 rounded-lg p-4 flex items-center justify-between"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-3">
+                        <h3 className="text-lg font-semibold text-white truncate">{apiKey.name}</h3>
+                        <span className={`px-2 py-1 text-xs rounded-full border ${
+                          status === 'Active'
+                            ? 'bg-green-500/20 border-green-500/50 text-green-300'
+                            : 'bg-red-500/20 border-red-500/50 text-red-300'
+                        }`}>
+                          {status}
+                        </span>
+                        <span className="px-2 py-1 bg-slate-600/50 text-gray-200 text-xs rounded-full">
+                          {apiKey.scope === 'write' ? 'Read/Write' : 'Read only'}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-400 mt-1">
+                        <code>{apiKey.keyPrefix}…</code> • {apiKey.tenant} • Tables: {apiKey.allowedTables.join(', ')}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Last used: {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : 'Never'} •
+                        Expires: {apiKey.expiresAt ? new Date(apiKey.expiresAt).toLocaleDateString() : 'Never'}
+                        {apiKey.revokedAt && ` • Revoked: ${new Date(apiKey.revokedAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+
+                    {!apiKey.revokedAt && (
+                      <div className="flex items-center space-x-2 ml-4">
+                        <Button
+                          onClick={() => updateApiKey(apiKey, 'rotate')}
+                          className="bg-slate-600 hover:bg-slate-500 text-white"
+                          title="Rotate key"
+                        >
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                          Rotate
+                        </Button>
+                        <Button
+                          onClick={() => updateApiKey(apiKey, 'revoke')}
+                          className="bg-red-600 hover:bg-red-700 text-white"
+                          title="Revoke key"
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Revoke
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              {apiKeys.length === 0 && !loadingApiKeys && (
+                <p className="text-center text-gray-400 py-8">No API keys created</p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Info Section */}
         <div className="mt-8 bg-blue-500/20 border border-blue-500/50 rounded-lg p-6">
           <h3 className="text-lg font-semibold text-white mb-2 flex items-center space-x-2">
@@ -453,6 +760,7 @@ export default function AdminPage() {
             <li>• Admins can manually unlock accounts using this interface</li>
             <li>• All unlock actions are logged in the audit log</li>
             {isSuperAdmin && <li>• Superadmins can activate/deactivate entire tenants</li>}
+            {isAdmin && <li>• API keys are stored hashed; creating, rotating and revoking keys is logged in the audit log</li>}
           </ul>
         </div>
       </div>
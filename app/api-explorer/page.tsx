@@ -0,0 +1,379 @@
+/**
+ * @fileoverview API Explorer Page - Interactive documentation of the API Gateway
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ *
+ * Renders GET /api/gateway/openapi.json (operations per table, parameters, schemas)
+ * and runs requests against the gateway with the session or an API key. Signed-in users
+ * publish saved queries here.
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { BookOpen, ChevronDown, ChevronRight, Download, Play, RefreshCw, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import SavedQueriesPanel from '@/components/query/SavedQueriesPanel';
+import { useSession } from 'next-auth/react';
+import type { OpenAPIDocument, OpenAPIOperation } from '@/Entities/Gateway';
+
+interface ExplorerOperation {
+  id: string;
+  method: 'get' | 'post';
+  path: string;
+  operation: OpenAPIOperation;
+}
+
+interface ExplorerResponse {
+  status: number;
+  statusText: string;
+  durationMs: number;
+  body: string;
+}
+
+/**
+ * Example body of a POST operation (first example of the JSON request body)
+ */
+function getExampleBody(operation: OpenAPIOperation): string {
+  const content = (operation.requestBody?.content as Record<string, { examples?: Record<string, { value: unknown }> }> | undefined)?.['application/json'];
+  const example = content?.examples ? Object.values(content.examples)[0]?.value : undefined;
+  return example ? JSON.stringify(example, null, 2) : '{\n  "table": ""\n}';
+}
+
+export default function APIExplorerPage() {
+  const { data: session } = useSession();
+  const [spec, setSpec] = useState<OpenAPIDocument | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [apiKey, setApiKey] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, Record<string, string>>>({});
+  const [bodies, setBodies] = useState<Record<string, string>>({});
+  const [responses, setResponses] = useState<Record<string, ExplorerResponse>>({});
+  const [executing, setExecuting] = useState<string | null>(null);
+
+  /**
+   * Request headers: the API key when one is entered, else the session cookie is used
+   */
+  const authHeaders = (): Record<string, string> =>
+    apiKey.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {};
+
+  /**
+   * Load the OpenAPI document with the given credentials
+   */
+  const fetchSpec = useCallback(async (headers: Record<string, string>) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/gateway/openapi.json', { headers });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'Failed to load the OpenAPI document');
+      }
+      setSpec(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the OpenAPI document');
+      setSpec(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Load the OpenAPI document with the entered API key or the session
+   */
+  const loadSpec = () => fetchSpec(authHeaders());
+
+  // Signed-in users see the document of their tenant right away
+  useEffect(() => {
+    if (session) {
+      fetchSpec({});
+    }
+  }, [session, fetchSpec]);
+
+  const operations: ExplorerOperation[] = spec
+    ? Object.entries(spec.paths).flatMap(([path, methods]) =>
+        (['get', 'post'] as const)
+          .filter(method => methods[method])
+          .map(method => ({ id: `${method} ${path}`, method, path, operation: methods[method]! }))
+      )
+    : [];
+
+  // Registered tables described by the document (one path each)
+  const tables = spec
+    ? Object.keys(spec.paths)
+        .filter(path => path.startsWith('/api/gateway/tables/'))
+        .map(path => decodeURIComponent(path.slice('/api/gateway/tables/'.length)))
+    : [];
+
+  /**
+   * Build the request URL of an operation from the entered parameter values
+   */
+  const buildUrl = (item: ExplorerOperation): string => {
+    const query = new URLSearchParams();
+    for (const [name, value] of Object.entries(values[item.id] || {})) {
+      if (value.trim()) {
+        query.set(name, value.trim());
+      }
+    }
+    const queryString = query.toString();
+    return `${item.path}${queryString ? `?${queryString}` : ''}`;
+  };
+
+  /**
+   * Equivalent curl command (with a placeholder when no API key is entered)
+   */
+  const buildCurl = (item: ExplorerOperation): string => {
+    const url = `${spec?.servers[0]?.url || ''}${buildUrl(item)}`;
+    const auth = `-H "Authorization: Bearer ${apiKey.trim() || 'mqk_...'}"`;
+    if (item.method === 'post') {
+      const body = (bodies[item.id] ?? getExampleBody(item.operation)).replace(/'/g, `'"'"'`);
+      return `curl -X POST "${url}" ${auth} -H "Content-Type: application/json" -d '${body}'`;
+    }
+    return `curl "${url}" ${auth}`;
+  };
+
+  /**
+   * Run an operation against the gateway
+   */
+  const execute = async (item: ExplorerOperation) => {
+    setExecuting(item.id);
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(buildUrl(item), {
+        method: item.method.toUpperCase(),
+        headers: item.method === 'post' ? { ...authHeaders(), 'Content-Type': 'application/json' } : authHeaders(),
+        body: item.method === 'post' ? bodies[item.id] ?? getExampleBody(item.operation) : undefined,
+      });
+      const text = await response.text();
+      let body = text;
+      try {
+        body = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON (e.g. 304 without body)
+      }
+      setResponses(prev => ({
+        ...prev,
+        [item.id]: { status: response.status, statusText: response.statusText, durationMs: Date.now() - startedAt, body },
+      }));
+    } catch (err) {
+      setResponses(prev => ({
+        ...prev,
+        [item.id]: { status: 0, statusText: 'Network error', durationMs: Date.now() - startedAt, body: err instanceof Error ? err.message : String(err) },
+      }));
+    } finally {
+      setExecuting(null);
+    }
+  };
+
+  const setValue = (operationId: string, name: string, value: string) => {
+    setValues(prev => ({ ...prev, [operationId]: { ...prev[operationId], [name]: value } }));
+  };
+
+  return (
+    <div className="p-4 lg:p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold text-white mb-2">
+          API Explorer
+        </h1>
+        <div className="w-20 h-1 bg-gradient-to-r from-blue-400 to-blue-500 rounded-full"></div>
+        <p className="text-slate-300 mt-4 text-sm lg:text-base">
+          Operations of the API Gateway for the registered tables of your tenant, generated from the OpenAPI 3.1 document
+        </p>
+      </div>
+
+      {/* Authentication and document */}
+      <div className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg p-6">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              API Key (optional)
+            </label>
+            <input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="mqk_... (leave empty to use your session)"
+            />
+          </div>
+          <Button
+            onClick={loadSpec}
+            disabled={loading}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-medium"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Reload
+          </Button>
+          <a
+            href="/api/gateway/openapi.json"
+            target="_blank"
+            rel="noreferrer"
+            className="inline-flex items-center justify-center px-4 py-2 rounded-md border border-white/30 text-white text-sm hover:bg-white/10"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            openapi.json
+          </a>
+        </div>
+        {spec && (
+          <div className="mt-4 text-sm text-slate-300">
+            <span className="font-semibold text-white">{spec.info.title}</span> · version {spec.info.version} · {operations.length} operations
+          </div>
+        )}
+      </div>
+
+      {!session && !apiKey && (
+        <div className="bg-orange-500/20 border border-orange-500/50 rounded-lg p-4 text-orange-100">
+          Sign in or enter an API key to load the API description.
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4">
+          <div className="flex items-start space-x-2">
+            <XCircle className="w-5 h-5 text-red-500 mt-0.5 flex-shrink-0" />
+            <div className="text-red-100">{error}</div>
+          </div>
+        </div>
+      )}
+
+      {/* Saved queries (session only, API keys cannot manage them) */}
+      {session && spec && !apiKey.trim() && (
+        <SavedQueriesPanel
+          tables={tables}
+          username={session.user?.username}
+          isAdmin={(session.user?.roles || []).some(role => role === 'admin' || role === 'superadmin')}
+          onChange={loadSpec}
+        />
+      )}
+
+      {/* Operations per tag */}
+      {spec?.tags.map(tag => {
+        const tagged = operations.filter(item => item.operation.tags?.includes(tag.name));
+        if (tagged.length === 0) return null;
+
+        return (
+          <div key={tag.name} className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg p-6">
+            <div className="flex items-center space-x-2 mb-1">
+              <BookOpen className="w-5 h-5 text-blue-300" />
+              <h2 className="text-xl font-semibold text-white">{tag.name}</h2>
+            </div>
+            {tag.description && <p className="text-sm text-slate-400 mb-4">{tag.description}</p>}
+
+            <div className="space-y-2">
+              {tagged.map(item => {
+                const isOpen = expanded === item.id;
+                const response = responses[item.id];
+                return (
+                  <div key={item.id} className="border border-slate-600 rounded-lg overflow-hidden">
+                    <button
+                      type="button"
+                      onClick={() => setExpanded(isOpen ? null : item.id)}
+                      className="w-full flex items-center space-x-3 px-4 py-3 bg-slate-800/60 hover:bg-slate-700/60 text-left"
+                    >
+                      {isOpen ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                      <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${item.method === 'get' ? 'bg-blue-600 text-white' : 'bg-green-600 text-white'}`}>
+                        {item.method}
+                      </span>
+                      <span className="font-mono text-sm text-white break-all">{item.path}</span>
+                      <span className="text-sm text-slate-400 hidden md:inline">{item.operation.summary}</span>
+                    </button>
+
+                    {isOpen && (
+                      <div className="p-4 space-y-4 bg-slate-900/40">
+                        {item.operation.description && (
+                          <p className="text-sm text-slate-300">{item.operation.description}</p>
+                        )}
+
+                        {/* Parameters */}
+                        {item.operation.parameters && item.operation.parameters.length > 0 && (
+                          <div>
+                            <h3 className="text-sm font-semibold text-white mb-2">Parameters</h3>
+                            <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+                              {item.operation.parameters.map(parameter => (
+                                <div key={parameter.name} className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-2 items-center">
+                                  <div>
+                                    <div className="font-mono text-sm text-white">
+                                      {parameter.name}{parameter.required && <span className="text-red-400">*</span>}
+                                    </div>
+                                    <div className="text-xs text-slate-400">
+                                      {String(parameter.schema.format || parameter.schema.type || 'string')}
+                                    </div>
+                                  </div>
+                                  <input
+                                    type="text"
+                                    value={values[item.id]?.[parameter.name] ?? ''}
+                                    onChange={(e) => setValue(item.id, parameter.name, e.target.value)}
+                                    className="w-full px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    placeholder={[parameter.description, parameter.schema.default !== undefined ? `default: ${parameter.schema.default}` : '']
+                                      .filter(Boolean)
+                                      .join(' · ')}
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Request body */}
+                        {item.method === 'post' && (
+                          <div>
+                            <h3 className="text-sm font-semibold text-white mb-2">Request body (application/json)</h3>
+                            <textarea
+                              value={bodies[item.id] ?? getExampleBody(item.operation)}
+                              onChange={(e) => setBodies(prev => ({ ...prev, [item.id]: e.target.value }))}
+                              rows={12}
+                              className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          </div>
+                        )}
+
+                        <div className="flex items-center space-x-3">
+                          <Button
+                            onClick={() => execute(item)}
+                            disabled={executing === item.id}
+                            className="bg-blue-600 hover:bg-blue-700 text-white font-medium"
+                          >
+                            <Play className="w-4 h-4 mr-2" />
+                            {executing === item.id ? 'Executing...' : 'Execute'}
+                          </Button>
+                        </div>
+
+                        <div>
+                          <h3 className="text-sm font-semibold text-white mb-2">curl</h3>
+                          <pre className="bg-slate-800 rounded-md p-3 text-xs text-slate-200 overflow-x-auto whitespace-pre-wrap break-all">
+                            {buildCurl(item)}
+                          </pre>
+                        </div>
+
+                        {/* Response */}
+                        {response && (
+                          <div>
+                            <h3 className="text-sm font-semibold text-white mb-2">
+                              Response{' '}
+                              <span className={response.status >= 200 && response.status < 400 ? 'text-green-400' : 'text-red-400'}>
+                                {response.status} {response.statusText}
+                              </span>
+                              <span className="text-slate-400 font-normal"> · {response.durationMs} ms</span>
+                            </h3>
+                            <pre className="bg-slate-800 rounded-md p-3 text-xs text-slate-200 overflow-auto max-h-96">
+                              {response.body || '(empty)'}
+                            </pre>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
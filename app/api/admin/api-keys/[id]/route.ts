@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Admin API - Rotate and Revoke Gateway API Keys
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ *
+ * Admin endpoints to rotate (new secret, same settings) and revoke an API key
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/app/auth';
+import { SQLiteManager } from '@/lib/sqlite';
+import { ApiKeyManager } from '@/lib/ApiKeyManager';
+import { AuditEventType, logApiKeyChange } from '@/lib/utils/audit-logger';
+import type { GatewayApiKey } from '@/Entities/Gateway';
+
+/**
+ * Loads the key of the route and checks that the caller may manage it
+ * (admin: keys of their own tenant, superadmin: all keys)
+ */
+async function getManagedKey(
+  params: Promise<{ id: string }>
+): Promise<{ apiKey: GatewayApiKey; username: string } | NextResponse> {
+  const session = await auth();
+  if (!session) {
+    return NextResponse.json(
+      { message: 'Unauthorized - Admin access required' },
+      { status: 401 }
+    );
+  }
+
+  const userRoles = session.user?.roles || [];
+  const isSuperAdmin = userRoles.includes('superadmin');
+  const isAdmin = userRoles.includes('admin');
+
+  if (!isAdmin && !isSuperAdmin) {
+    return NextResponse.json(
+      { message: 'Forbidden - Administrator access required' },
+      { status: 403 }
+    );
+  }
+
+  const { id } = await params;
+  const apiKey = Number.isInteger(Number(id)) ? await SQLiteManager.getGatewayApiKeyById(Number(id)) : null;
+  if (!apiKey) {
+    return NextResponse.json(
+      { message: 'API key not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!isSuperAdmin && apiKey.tenant !== session.user?.tenant) {
+    return NextResponse.json(
+      { message: 'Forbidden - You can only manage API keys of your own tenant' },
+      { status: 403 }
+    );
+  }
+
+  return { apiKey, username: session.user?.username || '' };
+}
+
+/**
+ * POST /api/admin/api-keys/[id]
+ * Rotate an API key (admin only); the new plaintext key is only returned in this response
+ *
+ * Body: { action: 'rotate' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const managed = await getManagedKey(params);
+    if (managed instanceof NextResponse) {
+      return managed;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.action !== 'rotate') {
+      return NextResponse.json(
+        { message: 'Invalid action. Use "rotate"' },
+        { status: 400 }
+      );
+    }
+
+    const rotated = await ApiKeyManager.rotate(managed.apiKey.id);
+    if (!rotated) {
+      return NextResponse.json(
+        { message: 'Revoked API keys cannot be rotated' },
+        { status: 409 }
+      );
+    }
+
+    logApiKeyChange(
+      AuditEventType.API_KEY_ROTATED,
+      managed.username,
+      rotated.apiKey.tenant,
+      rotated.apiKey,
+      request.headers.get('x-forwarded-for') || undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `API key "${rotated.apiKey.name}" rotated. The previous key no longer works.`,
+      apiKey: rotated.apiKey,
+      key: rotated.key,
+    });
+
+  } catch (error) {
+    console.error('Rotate API key error:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/api-keys/[id]
+ * Revoke an API key (admin only); the key is kept for the audit trail
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const managed = await getManagedKey(params);
+    if (managed instanceof NextResponse) {
+      return managed;
+    }
+
+    const revoked = await ApiKeyManager.revoke(managed.apiKey.id);
+    if (!revoked) {
+      return NextResponse.json(
+        { message: 'API key is already revoked' },
+        { status: 409 }
+      );
+    }
+
+    logApiKeyChange(
+      AuditEventType.API_KEY_REVOKED,
+      managed.username,
+      managed.apiKey.tenant,
+      managed.apiKey,
+      request.headers.get('x-forwarded-for') || undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `API key "${managed.apiKey.name}" revoked`,
+    });
+
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
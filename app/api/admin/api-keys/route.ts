@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Admin API - Gateway API Keys
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ *
+ * Admin endpoints to list and create tenant-scoped API keys for /api/gateway
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/app/auth';
+import { SQLiteManager } from '@/lib/sqlite';
+import { ApiKeyManager } from '@/lib/ApiKeyManager';
+import { AuditEventType, logApiKeyChange } from '@/lib/utils/audit-logger';
+
+/**
+ * GET /api/admin/api-keys
+ * List API keys (admin: own tenant, superadmin: all tenants or ?tenant=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check if user is authenticated and has admin/superadmin role
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized - Admin access required' },
+        { status: 401 }
+      );
+    }
+
+    const userRoles = session.user?.roles || [];
+    const isSuperAdmin = userRoles.includes('superadmin');
+    const isAdmin = userRoles.includes('admin');
+
+    if (!isAdmin && !isSuperAdmin) {
+      return NextResponse.json(
+        { message: 'Forbidden - Administrator access required' },
+        { status: 403 }
+      );
+    }
+
+    const requestedTenant = request.nextUrl.searchParams.get('tenant') || undefined;
+    const tenant = isSuperAdmin ? requestedTenant : session.user?.tenant;
+
+    const apiKeys = await SQLiteManager.getGatewayApiKeys(tenant);
+
+    return NextResponse.json({ apiKeys });
+
+  } catch (error) {
+    console.error('List API keys error:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/api-keys
+ * Create an API key (admin only); the plaintext key is only returned in this response
+ *
+ * Body: { name, tenant?, allowedTables: string[] ('*' for all), scope: 'read' | 'write', expiresAt?: ISO date | null }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check if user is authenticated and has admin/superadmin role
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized - Admin access required' },
+        { status: 401 }
+      );
+    }
+
+    const userRoles = session.user?.roles || [];
+    const isSuperAdmin = userRoles.includes('superadmin');
+    const isAdmin = userRoles.includes('admin');
+
+    if (!isAdmin && !isSuperAdmin) {
+      return NextResponse.json(
+        { message: 'Forbidden - Administrator access required' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const tenant = (typeof body.tenant === 'string' && body.tenant.trim()) || session.user?.tenant || '';
+    const scope = body.scope || 'read';
+    const allowedTables: string[] = Array.isArray(body.allowedTables)
+      ? body.allowedTables.map((table: unknown) => String(table).trim()).filter(Boolean)
+      : [];
+    const expiresAt = body.expiresAt ? new Date(body.expiresAt) : null;
+
+    // Validation
+    if (!name || !tenant) {
+      return NextResponse.json(
+        { message: 'Name and tenant are required' },
+        { status: 400 }
+      );
+    }
+
+    if (allowedTables.length === 0) {
+      return NextResponse.json(
+        { message: 'At least one table is required (use * for all tables)' },
+        { status: 400 }
+      );
+    }
+
+    if (scope !== 'read' && scope !== 'write') {
+      return NextResponse.json(
+        { message: 'Scope must be "read" or "write"' },
+        { status: 400 }
+      );
+    }
+
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now())) {
+      return NextResponse.json(
+        { message: 'Expiry must be a date in the future' },
+        { status: 400 }
+      );
+    }
+
+    // Ensure admin can only create keys for their own tenant (unless superadmin)
+    if (!isSuperAdmin && tenant !== session.user?.tenant) {
+      return NextResponse.json(
+        { message: 'Forbidden - You can only create API keys for your own tenant' },
+        { status: 403 }
+      );
+    }
+
+    const { apiKey, key } = await ApiKeyManager.create({
+      tenant,
+      name,
+      allowedTables,
+      scope,
+      expiresAt: expiresAt ? expiresAt.toISOString() : null,
+      createdBy: session.user?.username || '',
+    });
+
+    logApiKeyChange(
+      AuditEventType.API_KEY_CREATED,
+      session.user?.username || '',
+      tenant,
+      apiKey,
+      request.headers.get('x-forwarded-for') || undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `API key "${apiKey.name}" created. Copy it now, it will not be shown again.`,
+      apiKey,
+      key,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create API key error:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
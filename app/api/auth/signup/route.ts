@@ -67,7 +67,7 @@ export async function POST(request: NextRequest) {
     
     // Note: We don't check auth here because signup is a public endpoint
     // Rate limiting is only applied to prevent abuse
-    const rateLimitResult = checkRateLimit(rateLimitKey);
+    const rateLimitResult = await checkRateLimit(rateLimitKey);
     
     if (!rateLimitResult.success) {
       const resetMinutes = Math.ceil((rateLimitResult.resetTime - Date.now()) / 60000);
@@ -144,7 +144,7 @@ export async function POST(request: NextRequest) {
     db.close();
 
     // Reset rate limit and log successful signup
-    resetRateLimit(rateLimitKey);
+    await resetRateLimit(rateLimitKey);
     logSignupSuccess(username, tenant, clientIP);
 
     // Return user data (without password)
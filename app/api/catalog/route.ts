@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Service Catalog API Endpoint
+ * Lists the OData services (LN lnapi/odata service document) and SOAP business
+ * interfaces (LN c4ws services page) available to a tenant, and the entity sets of
+ * one OData service, so they can be registered without pasting full URLs
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { UnifiedAPIManager } from '@/lib/UnifiedAPIManager';
+import { TenantConfigManager } from '@/lib/TenantConfigManager';
+
+/**
+ * GET endpoint for the tenant service catalog
+ * GET /api/catalog?tenantId=[id] - OData services and SOAP business interfaces of the tenant
+ * GET /api/catalog?tenantId=[id]&service=[oDataService] - Entity sets of one OData service,
+ *   with keys and navigation properties (suggested expand fields) from $metadata
+ *
+ * Only administrators can browse the catalog, and only for their own tenant (unless superadmin).
+ *
+ * @async
+ * @function GET
+ * @param {NextRequest} request - HTTP request with tenantId and optional service query parameters
+ * @returns {Promise<NextResponse>} ServiceCatalog, or { entitySets: CatalogEntitySet[] } when service is given
+ *
+ * @example
+ * ```http
+ * GET /api/catalog?tenantId=1&service=tsapi.socServiceOrders
+ *
+ * Response:
+ * {
+ *   "entitySets": [
+ *     { "name": "Orders", "oDataService": "tsapi.socServiceOrders", "keys": ["ServiceOrder"], "navigationProperties": ["Lines"] }
+ *   ]
+ * }
+ * ```
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { auth } = await import('@/app/auth');
+    const session = await auth();
+
+    if (!session?.user?.tenant) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Please log in to browse the service catalog' },
+        { status: 401 }
+      );
+    }
+
+    const userRoles = session.user.roles || [];
+    const isSuperAdmin = userRoles.includes('superadmin');
+    const isAdmin = userRoles.includes('admin');
+
+    if (!isAdmin && !isSuperAdmin) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only administrators can browse the service catalog' },
+        { status: 403 }
+      );
+    }
+
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+    const service = request.nextUrl.searchParams.get('service');
+
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: tenantId' },
+        { status: 400 }
+      );
+    }
+
+    const tenantConfig = await TenantConfigManager.getTenantById(tenantId);
+    if (!tenantConfig) {
+      return NextResponse.json(
+        { error: `Tenant not found: ${tenantId}` },
+        { status: 404 }
+      );
+    }
+
+    if (!isSuperAdmin && tenantConfig.tenantName !== session.user.tenant) {
+      return NextResponse.json(
+        { error: 'Forbidden: You can only browse the catalog of your own tenant' },
+        { status: 403 }
+      );
+    }
+
+    if (service) {
+      const entitySets = await UnifiedAPIManager.getCatalogEntitySets(tenantConfig.id, service);
+      return NextResponse.json({ entitySets });
+    }
+
+    const catalog = await UnifiedAPIManager.getServiceCatalog(tenantConfig.id);
+    return NextResponse.json(catalog);
+  } catch (error) {
+    console.error('❌ Service catalog request failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load service catalog',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview API Gateway - OpenAPI Specification
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ *
+ * OpenAPI 3.1 document of the gateway and the tables registered for a tenant,
+ * for client generators and the API Explorer page
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyManager } from '@/lib/ApiKeyManager';
+import { OpenAPIGenerator } from '@/lib/OpenAPIGenerator';
+import { IONErrorParser } from '@/lib/utils/IONErrorParser';
+import type { GatewayPrincipal } from '@/Entities/Gateway';
+
+/**
+ * GET /api/gateway/openapi.json
+ * OpenAPI 3.1 document of a tenant (default: the caller's tenant)
+ *
+ * Authentication is the same as the gateway (session cookie or API key). Only superadmins can
+ * request another tenant (?tenant=); API keys only see the tables on their allow-list.
+ *
+ * @example
+ * curl -H "Authorization: Bearer mqk_..." http://localhost:3000/api/gateway/openapi.json
+ */
+export async function GET(request: NextRequest) {
+  try {
+    let principal: GatewayPrincipal;
+    try {
+      principal = await ApiKeyManager.authenticateGatewayRequest(request);
+    } catch (error) {
+      const apiError = IONErrorParser.fromException(error);
+      if (apiError.category !== 'auth') {
+        throw error;
+      }
+      const status = IONErrorParser.toHttpStatus(apiError);
+      return NextResponse.json(
+        { success: false, error: IONErrorParser.toGatewayError(apiError) },
+        {
+          status,
+          headers: status === 401 ? { 'WWW-Authenticate': 'Bearer realm="Midport API Gateway"' } : undefined,
+        }
+      );
+    }
+
+    const tenant = request.nextUrl.searchParams.get('tenant') || principal.tenant;
+    if (!tenant) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required parameter: tenant', hint: 'Example: ?tenant=MIDPORT_DEM' },
+        { status: 400 }
+      );
+    }
+
+    if (!principal.roles.includes('superadmin') && tenant.toUpperCase() !== principal.tenant.toUpperCase()) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: `Not allowed to read the API of tenant ${tenant}` } },
+        { status: 403 }
+      );
+    }
+
+    const document = await OpenAPIGenerator.generate({
+      tenant,
+      serverUrl: request.nextUrl.origin,
+      apiKey: principal.apiKey,
+    });
+
+    return NextResponse.json(document, {
+      headers: { 'Cache-Control': 'private, no-cache' },
+    });
+
+  } catch (error) {
+    console.error('[API Gateway] OpenAPI generation failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to generate the OpenAPI document',
+          details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview API Gateway - Saved Query Endpoints
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ *
+ * Run, change and delete one saved query of a tenant
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { POST as gatewayPOST } from '@/app/api/gateway/route';
+import { ApiKeyManager } from '@/lib/ApiKeyManager';
+import { SavedQueryManager } from '@/lib/SavedQueryManager';
+import { IONErrorParser } from '@/lib/utils/IONErrorParser';
+import type { APIGatewayQueryRequest, GatewayPrincipal, SavedQuery } from '@/Entities/Gateway';
+
+/**
+ * GET /api/gateway/queries/[slug]
+ * Runs a saved query of the caller's tenant with the parameters from the query string
+ *
+ * Same as POST /api/gateway with { query: slug, params }: the parameters are type-checked
+ * (400 VALIDATION_ERROR listing missing, invalid and unknown ones) and the statement runs
+ * through UnifiedAPIManager with the gateway's authentication, rate limits and caching.
+ * `limit`, `offset` and `fetchAll` page the result; superadmins can pass `tenant`.
+ *
+ * @example
+ * GET /api/gateway/queries/open-service-calls?customerId=C000123&limit=50
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const searchParams = request.nextUrl.searchParams;
+
+  const values: Record<string, string> = {};
+  const body: APIGatewayQueryRequest = { query: slug, params: values };
+  for (const [name, value] of searchParams) {
+    if (name === 'tenant') {
+      body.tenant = value;
+    } else if (name === 'limit' || name === 'offset') {
+      body[name] = value.trim() === '' ? NaN : Number(value);
+    } else if (name === 'fetchAll') {
+      body.fetchAll = value === 'true';
+    } else {
+      values[name] = value;
+    }
+  }
+
+  const url = new URL(request.url);
+  url.pathname = '/api/gateway';
+  url.search = '';
+
+  const headers = new Headers(request.headers);
+  headers.set('Content-Type', 'application/json');
+
+  return gatewayPOST(new NextRequest(url, { method: 'POST', headers, body: JSON.stringify(body), signal: request.signal }));
+}
+
+/**
+ * PUT /api/gateway/queries/[slug]
+ * Replace the definition of a saved query (its creator or an admin of the tenant)
+ *
+ * Body: { name, description?, table, sql, parameters } (as for POST /api/gateway/queries)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const saved = await authorizeChange(request, slug);
+    if (saved instanceof NextResponse) {
+      return saved;
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return errorResponse(400, 'BAD_REQUEST', 'Request body must be a JSON object');
+    }
+
+    const query = await SavedQueryManager.update(saved, body);
+
+    return NextResponse.json({ success: true, message: `Saved query "${query.name}" updated`, query });
+
+  } catch (error) {
+    const apiError = IONErrorParser.fromException(error);
+    if (apiError.category === 'validation') {
+      return NextResponse.json({ success: false, error: IONErrorParser.toGatewayError(apiError) }, { status: 400 });
+    }
+    console.error('Update saved query error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to update the saved query');
+  }
+}
+
+/**
+ * DELETE /api/gateway/queries/[slug]
+ * Delete a saved query (its creator or an admin of the tenant); its endpoint stops working
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const saved = await authorizeChange(request, slug);
+    if (saved instanceof NextResponse) {
+      return saved;
+    }
+
+    await SavedQueryManager.delete(saved);
+
+    return NextResponse.json({ success: true, message: `Saved query "${saved.name}" deleted` });
+
+  } catch (error) {
+    console.error('Delete saved query error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to delete the saved query');
+  }
+}
+
+/**
+ * Looks up a saved query the caller may change: signed-in users change their own queries,
+ * admins those of their tenant and superadmins those of any tenant (?tenant=)
+ * Returns the error response otherwise.
+ */
+async function authorizeChange(request: NextRequest, slug: string): Promise<SavedQuery | NextResponse> {
+  let principal: GatewayPrincipal;
+  try {
+    principal = await ApiKeyManager.authenticateGatewayRequest(request);
+  } catch (error) {
+    const apiError = IONErrorParser.fromException(error);
+    if (apiError.category !== 'auth') {
+      throw error;
+    }
+    const status = IONErrorParser.toHttpStatus(apiError);
+    return NextResponse.json(
+      { success: false, error: IONErrorParser.toGatewayError(apiError) },
+      {
+        status,
+        headers: status === 401 ? { 'WWW-Authenticate': 'Bearer realm="Midport API Gateway"' } : undefined,
+      }
+    );
+  }
+
+  if (principal.type !== 'session') {
+    return errorResponse(403, 'FORBIDDEN', 'API keys cannot change saved queries; sign in to manage saved queries');
+  }
+
+  const isSuperAdmin = principal.roles.includes('superadmin');
+  const tenant = (isSuperAdmin && request.nextUrl.searchParams.get('tenant')) || principal.tenant;
+  const query = await SavedQueryManager.get(tenant, slug);
+  if (!query) {
+    return errorResponse(404, 'NOT_FOUND', `Saved query not found: ${slug}`);
+  }
+
+  if (!isSuperAdmin && !principal.roles.includes('admin') && query.createdBy !== principal.username) {
+    return errorResponse(403, 'FORBIDDEN', 'Only the creator of a saved query or an administrator can change it');
+  }
+
+  return query;
+}
+
+/**
+ * Error response in the gateway format
+ */
+function errorResponse(status: number, code: string, message: string): NextResponse {
+  return NextResponse.json({ success: false, error: { code, message } }, { status });
+}
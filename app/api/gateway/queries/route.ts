@@ -0,0 +1,138 @@
+/**
+ * @fileoverview API Gateway - Saved Queries
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ *
+ * List and create the saved queries of a tenant; each one is published as
+ * GET /api/gateway/queries/<slug> (see SavedQueryManager)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyManager } from '@/lib/ApiKeyManager';
+import { SavedQueryManager } from '@/lib/SavedQueryManager';
+import { UnifiedAPIManager } from '@/lib/UnifiedAPIManager';
+import { IONErrorParser } from '@/lib/utils/IONErrorParser';
+import type { GatewayPrincipal } from '@/Entities/Gateway';
+
+/**
+ * GET /api/gateway/queries
+ * Saved queries of a tenant (default: the caller's tenant; only superadmins can pass ?tenant=)
+ * API keys only see the queries of the tables on their allow-list.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const principal = await authenticate(request);
+    if (principal instanceof NextResponse) {
+      return principal;
+    }
+
+    const tenant = request.nextUrl.searchParams.get('tenant') || principal.tenant;
+    if (!principal.roles.includes('superadmin') && tenant.toUpperCase() !== principal.tenant.toUpperCase()) {
+      return errorResponse(403, 'FORBIDDEN', `Not allowed to read the saved queries of tenant ${tenant}`);
+    }
+
+    let queries = await SavedQueryManager.list(tenant);
+
+    const apiKey = principal.apiKey;
+    if (apiKey) {
+      const tables = await UnifiedAPIManager.getRegisteredTables(tenant);
+      queries = queries.filter(query => {
+        const table = tables.find(registered => registered.name === query.table);
+        return !!table && ApiKeyManager.isRegisteredTableAllowed(apiKey, table);
+      });
+    }
+
+    return NextResponse.json({ success: true, tenant, queries });
+
+  } catch (error) {
+    console.error('List saved queries error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to list saved queries');
+  }
+}
+
+/**
+ * POST /api/gateway/queries
+ * Save a query (signed-in users, for their own tenant; superadmins can pass "tenant")
+ *
+ * Body: { slug, name, description?, table, sql, parameters: [{ name, type, required?, defaultValue?, description? }] }
+ *
+ * @example
+ * {
+ *   "slug": "open-service-calls", "name": "Open service calls of a customer", "table": "ServiceCalls",
+ *   "sql": "SELECT * FROM ServiceCalls WHERE Customer = :customerId AND Status = 'Open' ORDER BY CallDate DESC",
+ *   "parameters": [{ "name": "customerId", "type": "string", "description": "Business partner code" }]
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await authenticate(request);
+    if (principal instanceof NextResponse) {
+      return principal;
+    }
+
+    if (principal.type !== 'session') {
+      return errorResponse(403, 'FORBIDDEN', 'API keys cannot save queries; sign in to manage saved queries');
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return errorResponse(400, 'BAD_REQUEST', 'Request body must be a JSON object');
+    }
+
+    const tenant = (typeof body.tenant === 'string' && body.tenant.trim()) || principal.tenant;
+    if (!principal.roles.includes('superadmin') && tenant.toUpperCase() !== principal.tenant.toUpperCase()) {
+      return errorResponse(403, 'FORBIDDEN', 'You can only save queries for your own tenant');
+    }
+
+    if (typeof body.slug === 'string' && await SavedQueryManager.get(tenant, body.slug.trim())) {
+      return errorResponse(409, 'CONFLICT', `A saved query with slug ${body.slug.trim()} already exists`);
+    }
+
+    const query = await SavedQueryManager.create({ ...body, tenant, createdBy: principal.username });
+
+    return NextResponse.json({
+      success: true,
+      message: `Saved query "${query.name}" is available at /api/gateway/queries/${query.slug}`,
+      query,
+    }, { status: 201 });
+
+  } catch (error) {
+    const apiError = IONErrorParser.fromException(error);
+    if (apiError.category === 'validation') {
+      return NextResponse.json({ success: false, error: IONErrorParser.toGatewayError(apiError) }, { status: 400 });
+    }
+    console.error('Create saved query error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to save the query');
+  }
+}
+
+/**
+ * Authenticates the caller like the gateway (session cookie or API key)
+ * Returns the 401/403 response for rejected callers.
+ */
+async function authenticate(request: NextRequest): Promise<GatewayPrincipal | NextResponse> {
+  try {
+    return await ApiKeyManager.authenticateGatewayRequest(request);
+  } catch (error) {
+    const apiError = IONErrorParser.fromException(error);
+    if (apiError.category !== 'auth') {
+      throw error;
+    }
+    const status = IONErrorParser.toHttpStatus(apiError);
+    return NextResponse.json(
+      { success: false, error: IONErrorParser.toGatewayError(apiError) },
+      {
+        status,
+        headers: status === 401 ? { 'WWW-Authenticate': 'Bearer realm="Midport API Gateway"' } : undefined,
+      }
+    );
+  }
+}
+
+/**
+ * Error response in the gateway format
+ */
+function errorResponse(status: number, code: string, message: string): NextResponse {
+  return NextResponse.json({ success: false, error: { code, message } }, { status });
+}
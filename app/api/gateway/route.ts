@@ -1,6 +1,7 @@
 /**
- * @fileoverview API Gateway Entry Point for External Clients (GET-based)
- * @description Provides external API access to ION APIs using GET requests
+ * @fileoverview API Gateway Entry Point for External Clients
+ * @description Provides external API access to ION APIs using GET requests (query string filters)
+ * and POST requests (SQL or JSON filter tree)
  * @author Mulugeta Forsido
  * @company Midport Scandinavia
  * @date October 2025
@@ -12,11 +13,20 @@ import path from 'path';
 import { TenantConfigManager } from '@/lib/TenantConfigManager';
 import { OAuth2ConfigManager } from '@/lib/OAuth2ConfigManager';
 import { UnifiedAPIManager } from '@/lib/UnifiedAPIManager';
-import type { APIRequestConfig } from '@/Entities/RemoteAPI';
+import { RemoteAPIManager } from '@/lib/RemoteAPIManager';
+import { SQLParser, type ExpandItem, type FilterCondition, type SQLStatementType } from '@/lib/SQLParser';
+import { ApiKeyManager } from '@/lib/ApiKeyManager';
+import { SavedQueryManager } from '@/lib/SavedQueryManager';
+import { IONErrorParser } from '@/lib/utils/IONErrorParser';
+import { checkGatewayRateLimit, getRateLimitHeaders, toRateLimitError } from '@/lib/utils/rate-limiter';
+import type { APIRequestConfig, APIType } from '@/Entities/RemoteAPI';
 import type { TenantConfig } from '@/Entities/TenantConfig';
 import type { 
   TenantCredentials, 
-  APIGatewayResponse 
+  APIGatewayResponse,
+  APIGatewayQueryRequest,
+  GatewayPrincipal,
+  GatewayQuery
 } from '@/Entities/Gateway';
 
 // ============================================================================
@@ -24,6 +34,9 @@ import type {
 // This follows the codebase convention of defining all interfaces in Entities/
 // ============================================================================
 
+/** Fields of a POST request that runs a saved query; everything else comes from the saved query */
+const SAVED_QUERY_FIELDS = ['query', 'params', 'tenant', 'limit', 'offset', 'fetchAll'];
+
 // ============================================================================
 // Database Helper
 // ============================================================================
@@ -105,32 +118,75 @@ function getTenantCredentials(tenantName: string): Promise<TenantCredentials | n
  * 
  * @param {string} tenant - Tenant ID or name (required)
  * @param {string} table - Table/Service name (required)
- * @param {string} apiType - 'soap' or 'rest' (optional, defaults to 'rest')
- * @param {string} service - OData service name (required for REST, e.g., 'tdapi.slsSalesOrder')
- * @param {string} entity - Entity name (required for REST, e.g., 'Orders')
+ * @param {string} apiType - 'soap' or 'rest' (optional, defaults to the registered table's type, else 'rest')
+ * @param {string} service - OData service name (required for unregistered REST tables, e.g., 'tdapi.slsSalesOrder')
+ * @param {string} entity - Entity name (required for unregistered REST tables, e.g., 'Orders')
  * @param {string} action - SOAP action (optional for SOAP, defaults to 'List'. Not used for REST)
  * @param {string} expand - Comma-separated expand fields for REST (optional)
- * @param {string} select - Comma-separated select fields for REST (optional)
- * @param {string} orderby - Order by clause for REST (optional)
+ * @param {string} select - Comma-separated select fields, optionally with AS aliases (optional)
+ * @param {string} orderby - Sort field with optional direction for REST, e.g. 'OrderDate desc' (optional)
  * @param {number} limit - Result limit (optional, defaults to 15)
  * @param {number} offset - Result offset for pagination (optional)
+ *
+ * Errors return success: false with a stable error.code (APIGatewayErrorCode), e.g.
+ * ODATA_ERROR (400 with the OData error.code in remoteCode and the field in target),
+ * SOAP_FAULT (502 with the LN messages in details), RATE_LIMITED (429 with Retry-After),
+ * UNAUTHORIZED, UPSTREAM_UNAVAILABLE or UPSTREAM_TIMEOUT.
+ *
+ * Tables with a cache TTL (remote database settings) are served from the response cache:
+ * metadata.cacheHit / metadata.cache and the X-Cache header (HIT, REVALIDATED, MISS, BYPASS)
+ * report how. `Cache-Control: no-cache` (or `Pragma: no-cache`) fetches from ION again.
+ * When ION returned an ETag it is passed on, and a matching If-None-Match is answered with 304.
+ *
+ * Authentication: the browser session cookie, or a tenant-scoped API key (Admin Panel → API Keys)
+ * in `Authorization: Bearer <key>` or `X-API-Key: <key>`. API keys default `tenant` to their own
+ * tenant and only reach the registered tables on their allow-list, without overriding their
+ * apiType, service or entity (401 UNAUTHORIZED / 403 FORBIDDEN otherwise).
+ *
+ * Tables registered for the tenant (remote API databases) only need `table`; their apiType,
+ * service and entity are filled in. GET /api/gateway/tables/{table} is the same query with the
+ * table in the path, as described per table by GET /api/gateway/openapi.json.
+ *
+ * Rate limits: a token bucket and a daily quota per API key (or user), plus a daily quota per
+ * tenant. Responses carry RateLimit-Limit/-Remaining/-Reset/-Policy; exceeding a limit is
+ * answered with 429 RATE_LIMITED and Retry-After.
  */
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
 
   try {
+    // === PHASE 0: AUTHENTICATION (session cookie or API key) ===
+    let principal: GatewayPrincipal;
+    try {
+      principal = await ApiKeyManager.authenticateGatewayRequest(request);
+    } catch (error) {
+      return authErrorResponse(error, startTime);
+    }
+
     // Parse query parameters
     const { searchParams } = new URL(request.url);
     
-    // Extract required parameters
-    const tenant = searchParams.get('tenant');
+    // Extract required parameters (API keys default to their own tenant)
+    const tenant = searchParams.get('tenant') || principal.apiKey?.tenant || null;
     const table = searchParams.get('table');
+
+    // Registered tables of the tenant supply their own apiType, service and entity
+    const registered = tenant && table ? await UnifiedAPIManager.findRegisteredTable(tenant, table) : null;
+
+    // API keys query registered tables as registered: their apiType, service and entity cannot be overridden
+    const requestedTarget = {
+      apiType: searchParams.get('apiType') || searchParams.get('type'),
+      service: searchParams.get('service'),
+      entity: searchParams.get('entity'),
+    };
+    const pinned = !!principal.apiKey;
+
     // Default to 'rest' if apiType is not provided
-    const apiType = searchParams.get('apiType') || searchParams.get('type') || 'rest';
+    const apiType = (!pinned && requestedTarget.apiType) || registered?.apiType || 'rest';
     
     // Extract REST-specific parameters
-    const oDataService = searchParams.get('service');
-    const entityName = searchParams.get('entity');
+    const oDataService = (!pinned && requestedTarget.service) || registered?.oDataService || null;
+    const entityName = (!pinned && requestedTarget.entity) || registered?.entityName || null;
     
     // Extract optional parameters
     const actionParam = searchParams.get('action');
@@ -163,6 +219,12 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    try {
+      ApiKeyManager.authorizeTarget(principal, registered, { tenant, table, ...requestedTarget });
+    } catch (error) {
+      return authErrorResponse(error, startTime);
+    }
+
     if (!apiType || (apiType !== 'soap' && apiType !== 'rest')) {
       return NextResponse.json(
         {
@@ -201,35 +263,64 @@ export async function GET(request: NextRequest) {
     // === PHASE 3: EXTRACT FILTER PARAMETERS ===
     const reservedParams = ['tenant', 'table', 'apiType', 'service', 'entity', 'action', 'expand', 'select', 'orderby', 'limit', 'offset'];
     const parameters: Record<string, any> = {};
+    const conditions: FilterCondition[] = [];
 
+    // Conditions are kept in query string order, so the same field may appear
+    // more than once (e.g. OrderDate_ge=2024-01-01&OrderDate_lt=2024-02-01)
     searchParams.forEach((value, key) => {
       if (!reservedParams.includes(key)) {
         // Handle operator suffixes (e.g., OrderDate_gt for "greater than")
         if (key.endsWith('_gt') || key.endsWith('_lt') || key.endsWith('_ge') || key.endsWith('_le') || key.endsWith('_ne')) {
-          const operator = key.slice(-3);
+          const operator = key.slice(-2);
           const fieldName = key.slice(0, -3);
-          parameters[fieldName] = value;
-          parameters[`${fieldName}_operator`] = operator.substring(1); // Remove underscore (gt, lt, etc.)
+          conditions.push(SQLParser.createCondition(fieldName, operator, value));
         } else {
-          parameters[key] = value;
+          conditions.push(SQLParser.createCondition(key, 'eq', value));
         }
       }
     });
 
+    if (conditions.length > 0) {
+      parameters.conditions = conditions;
+    }
+
     // Add REST-specific parameters
     if (apiType === 'rest') {
       if (expand) {
         parameters.expand = expand.split(',').map(f => f.trim());
       }
-      if (select) {
-        parameters.select = select.split(',').map(f => f.trim());
-      }
       if (orderby) {
-        parameters.orderby = orderby.split(',').map(f => f.trim());
+        const order = parseOrderBy(orderby);
+        if (!order) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: 'Invalid orderby parameter',
+              hint: 'Example: &orderby=OrderDate desc',
+            },
+            { status: 400 }
+          );
+        }
+        Object.assign(parameters, order);
       }
     }
     
     // Add common parameters
+    if (select) {
+      // $select for REST, client-side projection for SOAP
+      try {
+        parameters.select = SQLParser.parseSelectList(select);
+      } catch (error) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Invalid select parameter: ${error instanceof Error ? error.message : String(error)}`,
+            hint: 'Example: &select=OrderNumber,OrderDate AS Date',
+          },
+          { status: 400 }
+        );
+      }
+    }
     if (limit) {
       parameters.limit = parseInt(limit);
     }
@@ -237,123 +328,591 @@ export async function GET(request: NextRequest) {
       parameters.offset = parseInt(offset);
     }
 
-    // === PHASE 4: TENANT RESOLUTION (Direct Database Access) ===
-    console.log(`[API Gateway] Resolving tenant from database: ${tenant}`);
-    
-    const credentials = await getTenantCredentials(tenant);
+    return await executeGatewayQuery(request, principal, startTime, {
+      tenant,
+      table,
+      apiType: apiType as APIType,
+      action,
+      oDataService: oDataService || undefined,
+      entityName: entityName || undefined,
+      parameters,
+      expandFields: registered?.expandFields?.map(field => field.name),
+      sqlQuery: apiType === 'soap' ? `${action} ${table}` : `GET ${table}`,
+      // SOAP actions other than List/Show/Read/... change data
+      scope: RemoteAPIManager.isReadAction(action) ? 'read' : 'write',
+    });
 
-    if (!credentials) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Tenant not found: ${tenant}`,
-          hint: 'Check available tenants: GET /api/tenants',
-          timestamp: new Date().toISOString(),
-        },
-        { status: 404 }
+  } catch (error) {
+    return internalErrorResponse(error, startTime);
+  }
+}
+
+/**
+ * POST /api/gateway - Queries with SQL or a JSON filter tree
+ *
+ * @description
+ * The same query as GET, with the filter in the JSON body (APIGatewayQueryRequest), so
+ * clients can use OR, NOT, IN, BETWEEN, LIKE/ILIKE and null checks. The filter is either:
+ * - `sql`: a statement parsed like the query editor (SQLParser.parseSQL). INSERT/UPDATE/DELETE
+ *   need a write API key and accept `dryRun`
+ * - `filter`: a JSON filter tree (GatewayFilterNode, see SQLParser.parseFilterTree)
+ *
+ * - `query`: the slug of a saved query of the caller's tenant, with its `params`
+ *   (see SavedQueryManager; GET /api/gateway/queries/<slug> forwards here). Only `tenant`,
+ *   `limit`, `offset` and `fetchAll` can be sent with it; the table and its target are the saved ones
+ *
+ * `select`, `expand`, `orderby`, `limit`, `offset` and `fetchAll` override the values of the
+ * SQL statement. Authentication, rate limits, caching and the response are the same as GET.
+ *
+ * @example
+ * POST /api/gateway
+ * {
+ *   "tenant": "MIDPORT_DEM", "table": "Orders", "service": "tdapi.slsSalesOrder", "entity": "Orders",
+ *   "sql": "SELECT OrderNumber, OrderDate FROM Orders WHERE Status IN ('Open', 'Hold') OR SoldToBP LIKE 'C1%' ORDER BY OrderDate DESC LIMIT 50"
+ * }
+ *
+ * @example
+ * POST /api/gateway
+ * {
+ *   "tenant": "MIDPORT_DEM", "table": "Orders", "service": "tdapi.slsSalesOrder", "entity": "Orders",
+ *   "filter": { "or": [
+ *     { "field": "OrderDate", "op": "between", "value": "2024-01-01", "value2": "2024-03-31", "type": "date" },
+ *     { "field": "PlannedDeliveryDate", "op": "is_null" }
+ *   ] },
+ *   "select": ["OrderNumber", "OrderDate"], "expand": ["LineRefs"], "orderby": "OrderDate desc", "limit": 20
+ * }
+ *
+ * @example
+ * POST /api/gateway
+ * { "query": "open-service-calls", "params": { "customerId": "C000123" }, "limit": 50 }
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    // === PHASE 0: AUTHENTICATION (session cookie or API key) ===
+    let principal: GatewayPrincipal;
+    try {
+      principal = await ApiKeyManager.authenticateGatewayRequest(request);
+    } catch (error) {
+      return authErrorResponse(error, startTime);
+    }
+
+    let body: APIGatewayQueryRequest | null = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return badRequestResponse(
+        'Request body must be a JSON object',
+        'Example: { "table": "Orders", "service": "tdapi.slsSalesOrder", "entity": "Orders", "sql": "SELECT * FROM Orders" }'
       );
     }
 
-    console.log(`[API Gateway] Tenant resolved: ${credentials.tenant_name}`);
+    // Saved queries of the caller's tenant (any tenant for superadmins) supply the table and the SQL with the parameter values
+    if (body.query !== undefined) {
+      const overrides = Object.keys(body).filter(field => !SAVED_QUERY_FIELDS.includes(field));
+      if (overrides.length > 0) {
+        return badRequestResponse(
+          `A saved query supplies its own table, target and SQL; not allowed: ${overrides.join(', ')}`,
+          `Send only ${SAVED_QUERY_FIELDS.map(field => `"${field}"`).join(', ')}, e.g. { "query": "open-service-calls", "params": { "customerId": "C000123" } }`
+        );
+      }
+
+      const savedTenant = (principal.roles.includes('superadmin') && body.tenant) || principal.tenant;
+      const savedQuery = typeof body.query === 'string' ? await SavedQueryManager.get(savedTenant, body.query) : null;
+      if (!savedQuery) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Saved query not found: ${String(body.query)}`,
+            hint: 'List the saved queries of your tenant: GET /api/gateway/queries',
+            timestamp: new Date().toISOString(),
+          },
+          { status: 404 }
+        );
+      }
 
-    // Get tenant config for additional metadata if needed
-    let tenantConfig = await TenantConfigManager.getTenantByName(credentials.tenant_name);
-    if (!tenantConfig) {
-      console.warn(`[API Gateway] Tenant config not found in TenantConfigManager, using database credentials only`);
+      const params = body.params && typeof body.params === 'object' && !Array.isArray(body.params) ? body.params : {};
+      try {
+        body = {
+          tenant: savedTenant,
+          table: savedQuery.table,
+          sql: SavedQueryManager.bindParameters(savedQuery, params),
+          limit: body.limit,
+          offset: body.offset,
+          fetchAll: body.fetchAll,
+        };
+      } catch (error) {
+        return validationErrorResponse(error, savedTenant, startTime);
+      }
     }
 
-    // === PHASE 5: AUTHENTICATION ===
-    console.log(`[API Gateway] Obtaining OAuth2 token`);
-    
-    const token = await OAuth2ConfigManager.getValidTokenForTenant(tenantConfig.id);
+    // API keys default to their own tenant
+    const tenant = body.tenant || principal.apiKey?.tenant || null;
+    const table = body.table;
 
-    if (!token || !token.accessToken) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Failed to obtain OAuth2 token',
-        },
-        { status: 401 }
-      );
+    // Registered tables of the tenant supply their own apiType, service and entity
+    const registered = tenant && typeof table === 'string' && table ? await UnifiedAPIManager.findRegisteredTable(tenant, table) : null;
+
+    // API keys query registered tables as registered: their apiType, service and entity cannot be overridden
+    const pinned = !!principal.apiKey;
+    const apiType = (!pinned && body.apiType) || registered?.apiType || 'rest';
+    const oDataService = (!pinned && body.service) || registered?.oDataService;
+    const entityName = (!pinned && body.entity) || registered?.entityName;
+
+    // === PHASE 1: INPUT VALIDATION ===
+    if (!tenant) {
+      return badRequestResponse('Missing required field: tenant', 'Example: { "tenant": "MIDPORT_DEM" }');
     }
 
-    console.log(`[API Gateway] OAuth2 token obtained`);
+    if (!table || typeof table !== 'string') {
+      return badRequestResponse('Missing required field: table', 'SOAP example: "table": "ServiceCall_v2" | REST example: "table": "Orders"');
+    }
 
-    // === PHASE 6: REQUEST EXECUTION ===
-    console.log(`[API Gateway] Executing ${apiType.toUpperCase()} query: ${table}${apiType === 'soap' ? ` (action: ${action})` : ''}`);
-    
-    const apiConfig: APIRequestConfig = {
-      tenant: tenantConfig.tenantName,
-      table: table,
-      action: action,
-      apiType: apiType as 'soap' | 'rest',
-      parameters: parameters,
+    try {
+      ApiKeyManager.authorizeTarget(principal, registered, { tenant, table, apiType: body.apiType, service: body.service, entity: body.entity });
+    } catch (error) {
+      return authErrorResponse(error, startTime);
+    }
+
+    if (apiType !== 'soap' && apiType !== 'rest') {
+      return badRequestResponse('Invalid apiType', 'apiType must be either "soap" or "rest"');
+    }
+
+    if (apiType === 'rest' && (!oDataService || !entityName)) {
+      return badRequestResponse('REST queries require "service" and "entity" fields', 'Example: "service": "tdapi.slsSalesOrder", "entity": "Orders"');
+    }
+
+    if (body.sql !== undefined && body.filter !== undefined) {
+      return badRequestResponse('Use either "sql" or "filter", not both', 'Put the conditions in the SQL WHERE clause or in the filter tree');
+    }
+
+    if (body.sql !== undefined && typeof body.sql !== 'string') {
+      return badRequestResponse('Field "sql" must be a string', 'Example: "sql": "SELECT * FROM Orders WHERE Status = \'Open\'"');
+    }
+
+    // === PHASE 2: PARSE SQL OR FILTER TREE ===
+    const sql = body.sql?.trim() || '';
+    const statementType: SQLStatementType = sql ? SQLParser.getStatementType(sql) : 'select';
+    let parameters: GatewayQuery['parameters'] = {};
+
+    if (sql) {
+      try {
+        parameters = SQLParser.parseSQL(sql);
+      } catch (error) {
+        return badRequestResponse(
+          `Invalid sql: ${error instanceof Error ? error.message : String(error)}`,
+          'The statement is parsed like the query editor, e.g. SELECT OrderNumber FROM Orders WHERE Status IN (\'Open\', \'Hold\')'
+        );
+      }
+    } else if (body.filter !== undefined) {
+      try {
+        const where = SQLParser.parseFilterTree(body.filter);
+        if (where) {
+          parameters.where = where;
+        }
+      } catch (error) {
+        return badRequestResponse(
+          `Invalid filter: ${error instanceof Error ? error.message : String(error)}`,
+          'Example: { "or": [ { "field": "Status", "op": "in", "value": ["Open", "Hold"] }, { "field": "ShipDate", "op": "is_null" } ] }'
+        );
+      }
+    }
+
+    // === PHASE 3: DETERMINE ACTION BASED ON API TYPE AND STATEMENT ===
+    // Reads use "List" like GET; writes use the HTTP method (REST) or business interface action (SOAP)
+    const action = statementType === 'select'
+      ? (apiType === 'soap' && body.action) || 'List'
+      : apiType === 'rest'
+        ? { insert: 'POST', update: 'PATCH', delete: 'DELETE' }[statementType]
+        : { insert: 'Create', update: 'Change', delete: 'Delete' }[statementType];
+
+    // === PHASE 4: QUERY OPTIONS (override the SQL statement) ===
+    if (body.select !== undefined) {
+      // $select for REST, client-side projection for SOAP
+      try {
+        parameters.select = SQLParser.parseSelectList(Array.isArray(body.select) ? body.select.join(', ') : String(body.select));
+      } catch (error) {
+        return badRequestResponse(
+          `Invalid select: ${error instanceof Error ? error.message : String(error)}`,
+          'Example: "select": ["OrderNumber", "OrderDate AS Date"]'
+        );
+      }
+    }
+
+    if (apiType === 'rest' && body.expand !== undefined) {
+      parameters.expand = (Array.isArray(body.expand) ? body.expand : String(body.expand).split(','))
+        .map(field => String(field).trim())
+        .filter(Boolean);
+    }
+
+    if (body.orderby !== undefined) {
+      const order = parseOrderBy(String(body.orderby));
+      if (!order) {
+        return badRequestResponse('Invalid orderby', 'Example: "orderby": "OrderDate desc"');
+      }
+      Object.assign(parameters, order);
+    }
+
+    for (const option of ['limit', 'offset'] as const) {
+      const value = body[option];
+      if (value !== undefined && (!Number.isInteger(value) || value < (option === 'limit' ? 1 : 0))) {
+        return badRequestResponse(`Invalid ${option}: expected a ${option === 'limit' ? 'positive' : 'non-negative'} integer`, `Example: "${option}": 20`);
+      }
+      if (value !== undefined) {
+        parameters[option] = value;
+      }
+    }
+
+    if (body.fetchAll !== undefined) {
+      parameters.fetchAll = body.fetchAll === true;
+    }
+
+    // Default limit of 15 records, as in the query editor (SELECT only)
+    if (statementType === 'select' && !parameters.limit && !parameters.fetchAll) {
+      parameters.limit = 15;
+    }
+
+    return await executeGatewayQuery(request, principal, startTime, {
+      tenant,
+      table,
+      apiType,
+      action,
       oDataService: oDataService || undefined,
       entityName: entityName || undefined,
-      company: tenantConfig.ionConfig.lnCompany,
-      sqlQuery: apiType === 'soap' ? `${action} ${table}` : `GET ${table}`,
+      parameters,
+      expandFields: registered?.expandFields?.map(field => field.name),
+      sqlQuery: sql || (apiType === 'soap' ? `${action} ${table}` : `GET ${table}`),
+      scope: statementType === 'select' && RemoteAPIManager.isReadAction(action) ? 'read' : 'write',
+      dryRun: statementType !== 'select' && body.dryRun === true,
+    });
+
+  } catch (error) {
+    return internalErrorResponse(error, startTime);
+  }
+}
+
+/**
+ * Runs a gateway query: API key authorization, rate limits, tenant resolution,
+ * OAuth2 token, execution and the APIGatewayResponse (shared by GET and POST)
+ */
+async function executeGatewayQuery(
+  request: NextRequest,
+  principal: GatewayPrincipal,
+  startTime: number,
+  query: GatewayQuery
+): Promise<NextResponse> {
+  const { tenant, table, apiType, action, oDataService, entityName, parameters } = query;
+
+  // API keys are limited to their tenant, allow-listed tables and scope
+  try {
+    // REST queries read the entity, SOAP queries the service named by the table
+    ApiKeyManager.authorize(principal, { tenant, tables: [apiType === 'rest' ? entityName || table : table], scope: query.scope });
+    if (apiType === 'rest') {
+      // Expanded navigation properties read other entities than the queried one
+      ApiKeyManager.authorizeExpand(principal, { tenant, table, expandFields: query.expandFields || [], ...getExpandedProperties(parameters) });
+    }
+  } catch (error) {
+    return authErrorResponse(error, startTime);
+  }
+
+  // Rate limits per API key (or user) and per tenant protect the tenant's ION quota
+  const rateLimit = await checkGatewayRateLimit(request, principal, tenant);
+  const rateLimitHeaders = getRateLimitHeaders(rateLimit);
+  if (!rateLimit.allowed) {
+    const apiError = toRateLimitError(rateLimit).error;
+    console.warn(`[API Gateway] ${apiError.code}: ${apiError.message}`);
+
+    const response: APIGatewayResponse = {
+      success: false,
+      timestamp: new Date().toISOString(),
+      tenant,
+      apiType: apiType as APIType,
+      error: IONErrorParser.toGatewayError(apiError),
+      metadata: {
+        executionTimeMs: Date.now() - startTime,
+        table: table,
+      },
     };
+    return NextResponse.json(response, { status: 429, headers: rateLimitHeaders });
+  }
 
-    const result = await UnifiedAPIManager.executeQueryWithOAuth2(
-      apiConfig,
-      '',
-      '',
-      token
+  // === PHASE 4: TENANT RESOLUTION (Direct Database Access) ===
+  console.log(`[API Gateway] Resolving tenant from database: ${tenant}`);
+  
+  const credentials = await getTenantCredentials(tenant);
+
+  if (!credentials) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Tenant not found: ${tenant}`,
+        hint: 'Check available tenants: GET /api/tenants',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 404 }
     );
+  }
 
-    // === PHASE 7: RESPONSE FORMATTING ===
-    const executionTime = Date.now() - startTime;
+  console.log(`[API Gateway] Tenant resolved: ${credentials.tenant_name}`);
 
-    console.log(`[API Gateway] Query completed in ${executionTime}ms`);
+  // The tenant config holds the OAuth2 client and LN company used below
+  const tenantConfig = await TenantConfigManager.getTenantByName(credentials.tenant_name);
+  if (!tenantConfig) {
+    console.warn(`[API Gateway] Tenant config not found in TenantConfigManager: ${credentials.tenant_name}`);
 
     const response: APIGatewayResponse = {
-      success: true,
+      success: false,
       timestamp: new Date().toISOString(),
       tenant: credentials.tenant_name,
       apiType: apiType as APIType,
-      data: result.data,
+      error: {
+        code: 'TENANT_NOT_FOUND',
+        message: `Tenant ${credentials.tenant_name} has no OAuth2 configuration`,
+      },
       metadata: {
-        recordCount: Array.isArray(result.data) 
-          ? result.data.length 
-          : (result.data?.value?.length || result.data?.recordCount || 0),
-        executionTimeMs: executionTime,
+        executionTimeMs: Date.now() - startTime,
         table: table,
-        action: apiType === 'soap' ? action : undefined,
-        service: oDataService || undefined,
-        entity: entityName || undefined,
       },
     };
+    return NextResponse.json(response, { status: 404, headers: rateLimitHeaders });
+  }
 
-    return NextResponse.json(response, { status: 200 });
+  // === PHASE 5: AUTHENTICATION ===
+  console.log(`[API Gateway] Obtaining OAuth2 token`);
+  
+  const token = await OAuth2ConfigManager.getValidTokenForTenant(tenantConfig.id);
 
-  } catch (error) {
-    const executionTime = Date.now() - startTime;
-    
-    console.error(`[API Gateway] Error:`, {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      executionTime,
-    });
+  if (!token || !token.accessToken) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to obtain OAuth2 token',
+      },
+      { status: 401 }
+    );
+  }
+
+  console.log(`[API Gateway] OAuth2 token obtained`);
+
+  // === PHASE 6: REQUEST EXECUTION ===
+  console.log(`[API Gateway] Executing ${apiType.toUpperCase()} query: ${table}${apiType === 'soap' ? ` (action: ${action})` : ''}`);
+  
+  const apiConfig: APIRequestConfig = {
+    tenant: tenantConfig.tenantName,
+    table: table,
+    action: action,
+    apiType: apiType as 'soap' | 'rest',
+    parameters: parameters,
+    oDataService: oDataService || undefined,
+    entityName: entityName || undefined,
+    company: tenantConfig.ionConfig.lnCompany,
+    sqlQuery: query.sqlQuery,
+    dryRun: query.dryRun,
+    signal: request.signal,
+    noCache: /\bno-cache\b/i.test(request.headers.get('cache-control') || '') || /\bno-cache\b/i.test(request.headers.get('pragma') || ''),
+  };
+
+  const result = await UnifiedAPIManager.executeQueryWithOAuth2(
+    apiConfig,
+    '',
+    '',
+    token
+  );
+
+  // === PHASE 7: RESPONSE FORMATTING ===
+  const executionTime = Date.now() - startTime;
+
+  console.log(`[API Gateway] Query completed in ${executionTime}ms`);
+
+  // Failed ION requests are answered with their stable error code and matching HTTP status
+  if (!result.success) {
+    const apiError = result.error || IONErrorParser.fromException(new Error(result.data?.message || result.note));
+    console.warn(`[API Gateway] ${apiError.code} (${apiError.category}): ${apiError.message}`);
 
     const response: APIGatewayResponse = {
       success: false,
       timestamp: new Date().toISOString(),
-      tenant: 'unknown',
-      apiType: 'rest' as APIType,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: 'An unexpected error occurred',
-        details: process.env.NODE_ENV === 'development' 
-          ? (error instanceof Error ? error.message : String(error))
-          : undefined,
-      },
+      tenant: credentials.tenant_name,
+      apiType: apiType as APIType,
+      error: IONErrorParser.toGatewayError(apiError),
       metadata: {
         executionTimeMs: executionTime,
+        table: table,
+        action: apiType === 'soap' ? action : undefined,
+        service: oDataService || undefined,
+        entity: entityName || undefined,
       },
     };
 
-    return NextResponse.json(response, { status: 500 });
+    const headers: Record<string, string> = { ...rateLimitHeaders };
+    if (apiError.retryAfterSeconds !== undefined) {
+      headers['Retry-After'] = String(apiError.retryAfterSeconds);
+    }
+    return NextResponse.json(response, { status: IONErrorParser.toHttpStatus(apiError), headers });
+  }
+
+  const response: APIGatewayResponse = {
+    success: true,
+    timestamp: new Date().toISOString(),
+    tenant: credentials.tenant_name,
+    apiType: apiType as APIType,
+    data: result.data,
+    metadata: {
+      recordCount: Array.isArray(result.data) 
+        ? result.data.length 
+        : (result.data?.value?.length || result.data?.recordCount || 0),
+      executionTimeMs: executionTime,
+      table: table,
+      action: apiType === 'soap' ? action : undefined,
+      service: oDataService || undefined,
+      entity: entityName || undefined,
+      cacheHit: result.cache ? result.cache.status === 'hit' || result.cache.status === 'revalidated' : undefined,
+      cache: result.cache,
+      warnings: result.warnings,
+    },
+  };
+
+  const headers: Record<string, string> = { ...rateLimitHeaders };
+  if (result.cache) {
+    headers['X-Cache'] = result.cache.status.toUpperCase();
+    headers['Age'] = String(result.cache.ageSeconds);
+  }
+  const etag = result.cache?.etag || result.etag;
+  if (etag) {
+    headers['ETag'] = etag;
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch && ifNoneMatch.split(',').some(candidate => candidate.trim() === etag || candidate.trim() === '*')) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+  }
+
+  return NextResponse.json(response, { status: 200, headers });
+}
+
+/**
+ * Navigation properties a REST query expands: `expand` / `$expand` names and SQL JOINs
+ * (top level), and the JOINs nested in those (nested)
+ */
+function getExpandedProperties(parameters: GatewayQuery['parameters']): { expanded: string[]; nested: string[] } {
+  const expanded: string[] = [];
+  const nested: string[] = [];
+
+  [parameters.expand, parameters['$expand']].forEach(value => {
+    const names: unknown[] = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    expanded.push(...names.map(name => String(name).trim()).filter(Boolean));
+  });
+
+  const collectNested = (items: ExpandItem[]) => items.forEach(item => {
+    nested.push(item.navigationProperty);
+    collectNested(item.expand);
+  });
+  const items: ExpandItem[] = Array.isArray(parameters.expandItems) ? parameters.expandItems : [];
+  items.forEach(item => {
+    expanded.push(item.navigationProperty);
+    collectNested(item.expand);
+  });
+
+  return { expanded, nested };
+}
+
+/**
+ * Gateway response for an unexpected error (details only in development)
+ */
+function internalErrorResponse(error: unknown, startTime: number): NextResponse {
+  const executionTime = Date.now() - startTime;
+
+  console.error(`[API Gateway] Error:`, {
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    executionTime,
+  });
+
+  // Structured errors (e.g. OAuth2 token failures) keep their code; anything else is internal
+  const apiError = IONErrorParser.fromException(error);
+
+  const response: APIGatewayResponse = {
+    success: false,
+    timestamp: new Date().toISOString(),
+    tenant: 'unknown',
+    apiType: 'rest' as APIType,
+    error: apiError.category === 'internal'
+      ? {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: process.env.NODE_ENV === 'development' 
+            ? apiError.message
+            : undefined,
+        }
+      : IONErrorParser.toGatewayError(apiError),
+    metadata: {
+      executionTimeMs: executionTime,
+    },
+  };
+
+  return NextResponse.json(response, { status: IONErrorParser.toHttpStatus(apiError) });
+}
+
+/**
+ * Reads a sort clause ("OrderDate" or "OrderDate desc") into the orderBy/orderDirection
+ * parameters of SQLParser.parseSQL(), which the API managers turn into $orderby
+ */
+function parseOrderBy(value: string): { orderBy: string; orderDirection: 'asc' | 'desc' } | null {
+  const match = /^\s*([\w.$]+)(?:\s+(asc|desc))?\s*$/i.exec(value);
+  return match ? { orderBy: match[1], orderDirection: match[2]?.toLowerCase() === 'desc' ? 'desc' : 'asc' } : null;
+}
+
+/**
+ * 400 gateway response for a VALIDATION_ERROR, with the individual problems in error.details
+ * Other errors are rethrown to the generic error handling
+ */
+function validationErrorResponse(error: unknown, tenant: string, startTime: number): NextResponse {
+  const apiError = IONErrorParser.fromException(error);
+  if (apiError.category !== 'validation') {
+    throw error;
   }
+  const response: APIGatewayResponse = {
+    success: false,
+    timestamp: new Date().toISOString(),
+    tenant,
+    apiType: 'rest' as APIType,
+    error: IONErrorParser.toGatewayError(apiError),
+    metadata: {
+      executionTimeMs: Date.now() - startTime,
+    },
+  };
+  return NextResponse.json(response, { status: 400 });
+}
+
+/**
+ * 400 response for invalid POST input, in the same format as the GET validation errors
+ */
+function badRequestResponse(error: string, hint: string): NextResponse {
+  return NextResponse.json({ success: false, error, hint }, { status: 400 });
+}
+
+/**
+ * Gateway response for a rejected caller (401 with a Bearer challenge, or 403)
+ * Other errors (e.g. the key lookup failing) are rethrown to the generic error handling
+ */
+function authErrorResponse(error: unknown, startTime: number): NextResponse {
+  const apiError = IONErrorParser.fromException(error);
+  if (apiError.category !== 'auth') {
+    throw error;
+  }
+  const response: APIGatewayResponse = {
+    success: false,
+    timestamp: new Date().toISOString(),
+    tenant: 'unknown',
+    apiType: 'rest' as APIType,
+    error: IONErrorParser.toGatewayError(apiError),
+    metadata: {
+      executionTimeMs: Date.now() - startTime,
+    },
+  };
+  const status = IONErrorParser.toHttpStatus(apiError);
+  return NextResponse.json(response, {
+    status,
+    headers: status === 401 ? { 'WWW-Authenticate': 'Bearer realm="Midport API Gateway"' } : undefined,
+  });
 }
 
 // ============================================================================
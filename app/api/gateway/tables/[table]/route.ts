@@ -0,0 +1,32 @@
+/**
+ * @fileoverview API Gateway - Table Paths
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ *
+ * One path per registered table, as described by GET /api/gateway/openapi.json
+ */
+
+import { NextRequest } from 'next/server';
+import { GET as gatewayGET } from '@/app/api/gateway/route';
+
+/**
+ * GET /api/gateway/tables/[table]
+ * Same as GET /api/gateway?table=[table]: the registered table supplies apiType, service and
+ * entity, and the query string carries tenant, filters, select, expand, orderby and paging
+ *
+ * @example
+ * GET /api/gateway/tables/Orders?tenant=MIDPORT_DEM&Status=Open&OrderDate_ge=2024-01-01&limit=20
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ table: string }> }
+) {
+  const { table } = await params;
+
+  const url = new URL(request.url);
+  url.pathname = '/api/gateway';
+  url.searchParams.set('table', table);
+
+  return gatewayGET(new NextRequest(url, request));
+}
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview API endpoint for clearing the response cache of a remote API database
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SQLiteManager } from '@/lib/sqlite';
+import { ResponseCacheManager } from '@/lib/ResponseCacheManager';
+import type { RemoteAPITable } from '@/Entities/RemoteAPI';
+
+/**
+ * DELETE endpoint to clear cached query results of a remote API database
+ *
+ * @async
+ * @function DELETE
+ * @param {NextRequest} request - HTTP request; `?table=<name>` clears a single table
+ * @param {Object} params - Route parameters
+ * @param {string} params.id - Remote API database ID
+ *
+ * @returns {Promise<NextResponse>} JSON response containing:
+ * @returns {boolean} success - Whether the cache was cleared
+ * @returns {number} removed - Number of removed cache entries
+ *
+ * @throws {NextResponse} 401 - Not logged in
+ * @throws {NextResponse} 403 - Not an administrator of the database's tenant
+ * @throws {NextResponse} 404 - Database or table not found
+ * @throws {NextResponse} 500 - Clearing the cache failed
+ *
+ * @example
+ * ```http
+ * DELETE /api/remote-databases/1/cache?table=tdapi.slsSalesOrder%2FOrders
+ *
+ * Response:
+ * { "success": true, "removed": 3 }
+ * ```
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth } = await import('@/app/auth');
+    const session = await auth();
+
+    if (!session?.user?.tenant) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Please log in' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const database = await SQLiteManager.getRemoteAPIDatabaseById(id);
+    if (!database) {
+      return NextResponse.json(
+        { error: 'Database not found' },
+        { status: 404 }
+      );
+    }
+
+    // Same rules as updating the database: administrators of its tenant, or superadmin
+    const userRoles = session.user.roles || [];
+    const isSuperAdmin = userRoles.includes('superadmin');
+    const isAdmin = userRoles.includes('admin');
+    if ((!isAdmin && !isSuperAdmin) || (!isSuperAdmin && database.tenantName !== session.user.tenant)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only administrators of this tenant can clear its cache' },
+        { status: 403 }
+      );
+    }
+
+    const tableName = new URL(request.url).searchParams.get('table');
+    if (!tableName) {
+      const removed = await ResponseCacheManager.invalidate(database.tenantName);
+      return NextResponse.json({ success: true, removed });
+    }
+
+    const table = database.tables.find((t: RemoteAPITable) => t.name === tableName);
+    if (!table) {
+      return NextResponse.json(
+        { error: 'Table not found' },
+        { status: 404 }
+      );
+    }
+
+    // Entries are stored under the OData entity name or the SOAP endpoint
+    const removed = await ResponseCacheManager.invalidate(database.tenantName, table.entityName || table.endpoint);
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error('❌ API: Error clearing response cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear response cache' },
+      { status: 500 }
+    );
+  }
+}
@@ -63,7 +63,8 @@ export async function PUT(
       services: data.services,
       tables: data.tables,
       expandFields: data.expandFields,
-      status: data.status
+      status: data.status,
+      cacheTtls: data.cacheTtls
     });
 
     return NextResponse.json(updatedDb);
@@ -93,6 +93,7 @@ export async function GET(request: NextRequest) {
  * @param {string} request.body.baseUrl - Base API URL
  * @param {string} request.body.services - Services path
  * @param {string[]} request.body.tables - Array of table/service names
+ * @param {Record<string, string[]>} [request.body.tableExpandFields] - Expand fields per table (e.g., from the service catalog)
  * 
  * @returns {Promise<NextResponse>} JSON response containing:
  * @returns {string} id - Generated database ID
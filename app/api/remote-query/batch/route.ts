@@ -0,0 +1,151 @@
+/**
+ * @fileoverview API route for executing several remote API queries in one call (OData $batch)
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { UnifiedAPIManager } from '@/lib/UnifiedAPIManager';
+import { OAuth2ConfigManager } from '@/lib/OAuth2ConfigManager';
+import { IONErrorParser } from '@/lib/utils/IONErrorParser';
+import { checkRemoteQueryRateLimit, getRateLimitHeaders, toRateLimitError } from '@/lib/utils/rate-limiter';
+import type { APIRequestConfig, StoredOAuth2Token } from '@/Entities/RemoteAPI';
+
+/** Maximum number of requests accepted in one batch */
+const MAX_BATCH_REQUESTS = Number(process.env.ION_ODATA_MAX_BATCH_REQUESTS) || 100;
+
+/**
+ * POST endpoint to execute several queries and writes of one tenant
+ *
+ * @description
+ * REST requests of the same OData service are sent to ION in a single OData $batch
+ * request (JSON batch format). This endpoint:
+ * - Accepts an array of APIRequestConfig of the same tenant
+ * - Applies INSERT/UPDATE/DELETE requests with the same `changeSet` atomically
+ * - Runs SOAP requests, aggregate queries, EXPLAIN and dry runs one by one
+ * - Returns one RemoteAPIQueryResult per request, in request order; a failed
+ *   request has success false and its structured error in result.error
+ * - Aborts the ION requests when the client cancels (closes) the request
+ *
+ * @async
+ * @function POST
+ * @param {NextRequest} request - The incoming HTTP request
+ *
+ * @param {Object} request.body - Request body containing:
+ * @param {APIRequestConfig[]} request.body.requests - Request configurations (see POST /api/remote-query)
+ * @param {string} [request.body.requests[].changeSet] - Change set of an INSERT/UPDATE/DELETE (OData REST only)
+ * @param {StoredOAuth2Token|null} [request.body.currentToken] - Current OAuth2 token
+ *
+ * @returns {Promise<NextResponse>} JSON response containing:
+ * @returns {boolean} success - Whether the batch was executed
+ * @returns {RemoteAPIQueryResult[]} [results] - One result per request
+ * @returns {StoredOAuth2Token} [token] - Updated OAuth2 token
+ * @returns {string} [error] - Error message (if failed)
+ * @returns {string} [details] - Error details (if failed)
+ * @returns {RemoteAPIError} [apiError] - Structured error (if failed)
+ *
+ * @throws {NextResponse} 400 Bad Request - Missing requests, too many requests, several tenants or an invalid change set
+ * @throws {NextResponse} 401 Unauthorized - OAuth2 authentication failed
+ * @throws {NextResponse} 429 Too Many Requests - Rate limit of the user or daily quota of the tenant exceeded (each request counts)
+ * @throws {NextResponse} 499 Client Closed Request - The client cancelled the batch (apiError.code CANCELLED)
+ * @throws {NextResponse} 500 Internal Server Error - Batch execution failed (status follows apiError.code)
+ *
+ * @example
+ * ```typescript
+ * // Request body: two reads and an atomic change set against tdapi.slsSalesOrder
+ * {
+ *   "requests": [
+ *     { "tenant": "MIDPORT_DEM", "table": "Orders", "apiType": "rest", "action": "GET",
+ *       "oDataService": "tdapi.slsSalesOrder", "entityName": "Orders", "parameters": { "limit": 10 } },
+ *     { "tenant": "MIDPORT_DEM", "table": "OrderLines", "apiType": "rest", "action": "GET",
+ *       "oDataService": "tdapi.slsSalesOrder", "entityName": "OrderLines", "parameters": { "limit": 50 } },
+ *     { "tenant": "MIDPORT_DEM", "table": "Orders", "apiType": "rest", "action": "PATCH",
+ *       "oDataService": "tdapi.slsSalesOrder", "entityName": "Orders", "changeSet": "release",
+ *       "parameters": { "statement": "update", "key": [...], "values": { "Status": "Free" } } }
+ *   ],
+ *   "currentToken": { "accessToken": "...", "expiresAt": 1234567890 }
+ * }
+ * ```
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const data = await request.json();
+
+    // Validate required fields
+    if (!Array.isArray(data.requests) || data.requests.length === 0) {
+      return NextResponse.json(
+        { error: 'Missing required requests array' },
+        { status: 400 }
+      );
+    }
+    if (data.requests.length > MAX_BATCH_REQUESTS) {
+      return NextResponse.json(
+        { error: `A batch can contain at most ${MAX_BATCH_REQUESTS} requests` },
+        { status: 400 }
+      );
+    }
+
+    const configs: APIRequestConfig[] = data.requests;
+    for (const config of configs) {
+      try {
+        UnifiedAPIManager.validateConfig(config);
+      } catch (validationError) {
+        return NextResponse.json(
+          { error: 'Invalid request in batch', details: validationError instanceof Error ? validationError.message : String(validationError) },
+          { status: 400 }
+        );
+      }
+    }
+
+    const currentToken: StoredOAuth2Token | null = data.currentToken || null;
+
+    // Every request of the batch counts against the rate limits of the user and tenant
+    const rateLimit = await checkRemoteQueryRateLimit(request, configs[0].tenant || 'unknown', configs.length);
+    const rateLimitHeaders = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+      const apiError = toRateLimitError(rateLimit).error;
+      return NextResponse.json(
+        { error: 'Too many remote API queries', details: apiError.message, apiError },
+        { status: 429, headers: rateLimitHeaders }
+      );
+    }
+
+    // Load OAuth2 configuration from database (with fallback to environment variables)
+    const oauth2Config = await OAuth2ConfigManager.loadConfig();
+
+    // Get or refresh OAuth2 token
+    const token = await OAuth2ConfigManager.getValidToken(currentToken, oauth2Config);
+
+    if (!token || !token.accessToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'No access token available. Please check your OAuth2 credentials and try again.',
+        details: 'Unable to obtain valid access token for ION API authentication'
+      }, { status: 401 });
+    }
+
+    // The client's abort tears down the ION requests
+    const results = await UnifiedAPIManager.executeBatchWithOAuth2(configs, token, request.signal);
+
+    return NextResponse.json({
+      success: true,
+      results,
+      token: token // Return the token for client to store
+    }, { headers: rateLimitHeaders });
+
+  } catch (error) {
+    const apiError = IONErrorParser.fromException(error);
+    if (apiError.code === 'CANCELLED') {
+      console.log('🛑 Remote API batch cancelled by the client');
+    }
+    return NextResponse.json(
+      {
+        error: 'Failed to execute remote API batch',
+        details: apiError.message,
+        apiError
+      },
+      { status: IONErrorParser.toHttpStatus(apiError) }
+    );
+  }
+}
@@ -8,6 +8,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { UnifiedAPIManager } from '@/lib/UnifiedAPIManager';
 import { OAuth2ConfigManager } from '@/lib/OAuth2ConfigManager';
+import { IONErrorParser } from '@/lib/utils/IONErrorParser';
+import { checkRemoteQueryRateLimit, getRateLimitHeaders, toRateLimitError } from '@/lib/utils/rate-limiter';
 import type { APIRequestConfig, StoredOAuth2Token } from '@/Entities/RemoteAPI';
 
 
@@ -20,6 +22,8 @@ import type { APIRequestConfig, StoredOAuth2Token } from '@/Entities/RemoteAPI';
  * - Manages OAuth2 token lifecycle (refresh if needed)
  * - Routes requests to appropriate SOAP or REST API managers
  * - Returns structured API responses with updated tokens
+ * - EXPLAIN statements (parameters.explain) return the translated request without calling ION
+ * - Aborts the ION requests when the client cancels (closes) the request
  * 
  * @async
  * @function POST
@@ -30,22 +34,26 @@ import type { APIRequestConfig, StoredOAuth2Token } from '@/Entities/RemoteAPI';
  * @param {string} request.body.config.tenant - ION API tenant name
  * @param {string} request.body.config.table - Table/service name to query
  * @param {'soap'|'rest'} request.body.config.apiType - API type to use
- * @param {string} request.body.config.action - API action (List, Create, Update, Delete)
+ * @param {string} request.body.config.action - API action (List, Create, Change, Delete / GET, POST, PATCH, DELETE)
  * @param {Object} [request.body.config.parameters] - Query parameters
+ * @param {boolean} [request.body.config.dryRun] - INSERT/UPDATE/DELETE: return the request preview without sending it
  * @param {string} [request.body.config.oDataService] - OData service name (REST only)
  * @param {string} [request.body.config.entityName] - OData entity name (REST only)
  * @param {StoredOAuth2Token|null} [request.body.currentToken] - Current OAuth2 token
  * 
  * @returns {Promise<NextResponse>} JSON response containing:
  * @returns {boolean} success - Whether the operation succeeded
- * @returns {Object} [result] - Query result data (if successful)
+ * @returns {Object} [result] - Query result data; failed ION requests have success false and the structured error in result.error
  * @returns {StoredOAuth2Token} [token] - Updated OAuth2 token
  * @returns {string} [error] - Error message (if failed)
  * @returns {string} [details] - Error details (if failed)
+ * @returns {RemoteAPIError} [apiError] - Structured error (if failed)
  * 
  * @throws {NextResponse} 400 Bad Request - Missing or invalid configuration
  * @throws {NextResponse} 401 Unauthorized - OAuth2 authentication failed
- * @throws {NextResponse} 500 Internal Server Error - Query execution failed
+ * @throws {NextResponse} 429 Too Many Requests - Rate limit of the user or daily quota of the tenant exceeded (Retry-After)
+ * @throws {NextResponse} 499 Client Closed Request - The client cancelled the query (apiError.code CANCELLED)
+ * @throws {NextResponse} 500 Internal Server Error - Query execution failed (status follows apiError.code)
  * 
  * @example
  * ```typescript
@@ -74,9 +82,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const config: APIRequestConfig = data.config;
+    // The client's abort (Cancel button, page reload) tears down the ION requests
+    const config: APIRequestConfig = { ...data.config, signal: request.signal };
     const currentToken: StoredOAuth2Token | null = data.currentToken || null;
 
+    // Rate limits per user and per tenant protect the tenant's ION quota
+    const rateLimit = await checkRemoteQueryRateLimit(request, config.tenant || 'unknown');
+    const rateLimitHeaders = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+      const apiError = toRateLimitError(rateLimit).error;
+      return NextResponse.json(
+        { error: 'Too many remote API queries', details: apiError.message, apiError },
+        { status: 429, headers: rateLimitHeaders }
+      );
+    }
+
     // Load OAuth2 configuration from database (with fallback to environment variables)
     const oauth2Config = await OAuth2ConfigManager.loadConfig();
 
@@ -98,15 +118,20 @@ export async function POST(request: NextRequest) {
       success: true,
       result: result,
       token: token // Return the token for client to store
-    });
+    }, { headers: rateLimitHeaders });
 
   } catch (error) {
+    const apiError = IONErrorParser.fromException(error);
+    if (apiError.code === 'CANCELLED') {
+      console.log('🛑 Remote API query cancelled by the client');
+    }
     return NextResponse.json(
       { 
         error: 'Failed to execute remote API query', 
-        details: error instanceof Error ? error.message : String(error) 
+        details: apiError.message,
+        apiError
       },
-      { status: 500 }
+      { status: IONErrorParser.toHttpStatus(apiError) }
     );
   }
 }
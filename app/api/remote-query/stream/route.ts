@@ -0,0 +1,149 @@
+/**
+ * @fileoverview API route for streaming remote API query results as NDJSON
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { UnifiedAPIManager } from '@/lib/UnifiedAPIManager';
+import { OAuth2ConfigManager } from '@/lib/OAuth2ConfigManager';
+import { IONErrorParser } from '@/lib/utils/IONErrorParser';
+import { checkRemoteQueryRateLimit, getRateLimitHeaders, toRateLimitError } from '@/lib/utils/rate-limiter';
+import type { APIRequestConfig, QueryStreamEvent, StoredOAuth2Token } from '@/Entities/RemoteAPI';
+
+/**
+ * POST endpoint to execute a remote API query and stream its records
+ *
+ * @description
+ * Same request body as POST /api/remote-query, but the response is a stream of
+ * newline-delimited JSON events (application/x-ndjson) instead of one buffered result:
+ * - `{"type":"page","records":[...],"page":1,"rowsReceived":500,"totalAvailable":12000}` per ION page
+ * - `{"type":"done","result":{...},"token":{...}}` with the result without its records
+ * - `{"type":"error","apiError":{...}}` when the query fails (records sent before remain valid)
+ *
+ * REST SELECTs are paged through ION and each page is sent as soon as it arrives; other
+ * queries are sent as a single page. The next page is only requested once the client has
+ * read the previous one, and closing the request (stop early) aborts the ION requests.
+ *
+ * @async
+ * @function POST
+ * @param {NextRequest} request - The incoming HTTP request
+ *
+ * @param {Object} request.body - Request body containing:
+ * @param {APIRequestConfig} request.body.config - API request configuration (see POST /api/remote-query)
+ * @param {StoredOAuth2Token|null} [request.body.currentToken] - Current OAuth2 token
+ *
+ * @returns {Promise<Response>} NDJSON stream of QueryStreamEvent
+ *
+ * @throws {NextResponse} 400 Bad Request - Missing or invalid configuration
+ * @throws {NextResponse} 401 Unauthorized - OAuth2 authentication failed
+ * @throws {NextResponse} 429 Too Many Requests - Rate limit of the user or daily quota of the tenant exceeded (Retry-After)
+ *
+ * @example
+ * ```bash
+ * curl -N -X POST http://localhost:3000/api/remote-query/stream \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"config":{"tenant":"MIDPORT_DEM","table":"Orders","apiType":"rest","action":"GET","oDataService":"tdapi.slsSalesOrder","entityName":"Orders","parameters":{"fetchAll":true}}}'
+ * ```
+ */
+export async function POST(request: NextRequest) {
+  let config: APIRequestConfig;
+  let token: StoredOAuth2Token;
+  let rateLimitHeaders: Record<string, string>;
+
+  try {
+    const data = await request.json();
+
+    // Validate required fields
+    if (!data.config) {
+      return NextResponse.json(
+        { error: 'Missing required config object' },
+        { status: 400 }
+      );
+    }
+
+    const currentToken: StoredOAuth2Token | null = data.currentToken || null;
+
+    // Rate limits per user and per tenant protect the tenant's ION quota
+    const rateLimit = await checkRemoteQueryRateLimit(request, data.config.tenant || 'unknown');
+    rateLimitHeaders = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+      const apiError = toRateLimitError(rateLimit).error;
+      return NextResponse.json(
+        { error: 'Too many remote API queries', details: apiError.message, apiError },
+        { status: 429, headers: rateLimitHeaders }
+      );
+    }
+
+    // Load OAuth2 configuration from database (with fallback to environment variables)
+    const oauth2Config = await OAuth2ConfigManager.loadConfig();
+
+    // Get or refresh OAuth2 token
+    token = await OAuth2ConfigManager.getValidToken(currentToken, oauth2Config);
+
+    if (!token || !token.accessToken) {
+      return NextResponse.json({
+        success: false,
+        error: 'No access token available. Please check your OAuth2 credentials and try again.',
+        details: 'Unable to obtain valid access token for ION API authentication'
+      }, { status: 401 });
+    }
+
+    config = data.config;
+  } catch (error) {
+    const apiError = IONErrorParser.fromException(error);
+    return NextResponse.json(
+      {
+        error: 'Failed to execute remote API query',
+        details: apiError.message,
+        apiError
+      },
+      { status: IONErrorParser.toHttpStatus(apiError) }
+    );
+  }
+
+  // Closing the request or cancelling the stream (stop early) tears down the ION requests
+  const controller = new AbortController();
+  request.signal.addEventListener('abort', () => controller.abort(), { once: true });
+
+  const events = UnifiedAPIManager.streamQueryWithOAuth2({ ...config, signal: controller.signal }, token);
+  const encoder = new TextEncoder();
+  const encode = (event: QueryStreamEvent) => encoder.encode(`${JSON.stringify(event)}\n`);
+
+  const stream = new ReadableStream<Uint8Array>({
+    // Pull-based: the next ION page is only requested once the client has read this one
+    async pull(streamController) {
+      try {
+        const { value, done } = await events.next();
+        if (done) {
+          streamController.close();
+          return;
+        }
+        streamController.enqueue(encode(value));
+      } catch (error) {
+        const apiError = IONErrorParser.fromException(error);
+        if (apiError.code === 'CANCELLED') {
+          console.log('🛑 Remote API stream stopped by the client');
+        }
+        streamController.enqueue(encode({ type: 'error', apiError }));
+        streamController.close();
+      }
+    },
+    cancel() {
+      console.log('🛑 Remote API stream stopped by the client');
+      controller.abort();
+      events.return(undefined).catch(() => undefined);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...rateLimitHeaders,
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      // Keep proxies from buffering the stream
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Schema Metadata Extraction API Endpoint
+ * Provides DESCRIBE table functionality for remote APIs
+ * OData services are described from their $metadata document (cached per tenant/service),
+ * SOAP services from their WSDL (sampled from a single-record response when it is unavailable)
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { UnifiedAPIManager } from '@/lib/UnifiedAPIManager';
+import { SQLiteManager } from '@/lib/sqlite';
+import { SchemaExtractor, type TableSchema } from '@/lib/utils/SchemaExtractor';
+
+export interface SchemaResponse {
+  success: boolean;
+  schema?: TableSchema;
+  describeOutput?: string;
+  error?: string;
+  serviceName?: string;
+  timestamp?: string;
+}
+
+/**
+ * Schema extraction API endpoint
+ * GET /api/schema/[tenant]/[service]/describe - Get schema as DESCRIBE text
+ * GET /api/schema/[tenant]/[service]/json - Get schema as JSON
+ *
+ * - tenant: tenant name (e.g., MIDPORT_DEM) or remote API database id
+ * - service: table name, SOAP endpoint, or OData service and entity (tsapi.socServiceOrders/Orders)
+ * - ?refresh=1 fetches $metadata / the WSDL again instead of using the cache
+ *
+ * Signed-in users can only describe the services of their own tenant (unless superadmin).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ params: string[] }> }
+): Promise<NextResponse> {
+  try {
+    const { auth } = await import('@/app/auth');
+    const session = await auth();
+
+    if (!session?.user?.tenant) {
+      return NextResponse.json<SchemaResponse>(
+        { success: false, error: 'Unauthorized: Please log in to describe tables' },
+        { status: 401 }
+      );
+    }
+
+    const segments = (await params).params || [];
+
+    if (segments.length < 3) {
+      return NextResponse.json<SchemaResponse>(
+        { success: false, error: 'Invalid parameters. Expected: /api/schema/[tenant]/[service]/describe|json' },
+        { status: 400 }
+      );
+    }
+
+    const tenantId = segments[0];
+    const format = segments[segments.length - 1];
+    const serviceName = segments.slice(1, -1).join('/');
+
+    if (!tenantId || !serviceName || !['describe', 'json'].includes(format)) {
+      return NextResponse.json<SchemaResponse>(
+        { success: false, error: 'Invalid parameters. Format must be "describe" or "json"' },
+        { status: 400 }
+      );
+    }
+
+    // The tenant segment is a tenant name or the id of one of its remote API databases
+    const databases = await SQLiteManager.getRemoteAPIDatabases();
+    const tenantName = databases.find(db => db.id === tenantId)?.tenantName || tenantId;
+    if (!(session.user.roles || []).includes('superadmin') && tenantName.toLowerCase() !== session.user.tenant.toLowerCase()) {
+      return NextResponse.json<SchemaResponse>(
+        { success: false, error: 'Forbidden: You can only describe the tables of your own tenant' },
+        { status: 403 }
+      );
+    }
+
+    const refresh = ['1', 'true'].includes(request.nextUrl.searchParams.get('refresh') || '');
+
+    console.log('🔍 SCHEMA EXTRACTION REQUEST:', { tenantId, serviceName, format, refresh });
+
+    const schema = await UnifiedAPIManager.getTableSchema(tenantId, serviceName, { refresh });
+
+    console.log('✅ Schema extracted successfully:', {
+      tableName: schema.tableName,
+      serviceType: schema.serviceType,
+      source: schema.source,
+      totalFields: schema.totalFields,
+      extractedAt: schema.extractedAt
+    });
+
+    if (format === 'describe') {
+      // Plain text for the describe format
+      return new NextResponse(SchemaExtractor.generateDescribeTable(schema), {
+        status: 200,
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+      });
+    }
+
+    return NextResponse.json<SchemaResponse>({
+      success: true,
+      schema,
+      serviceName,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('❌ Schema extraction failed:', error);
+
+    return NextResponse.json<SchemaResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during schema extraction'
+      },
+      { status: 500 }
+    );
+  }
+}
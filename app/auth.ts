@@ -314,7 +314,9 @@ export const authConfig: NextAuthConfig = {
       const isOnProtectedRoute = 
         nextUrl.pathname.startsWith('/credentials') ||
         nextUrl.pathname.startsWith('/api/credentials') ||
-        nextUrl.pathname.startsWith('/api/tenants');
+        nextUrl.pathname.startsWith('/api/tenants') ||
+        nextUrl.pathname.startsWith('/api/schema') ||
+        nextUrl.pathname.startsWith('/api/catalog');
 
       if (isOnProtectedRoute) {
         if (isLoggedIn) return true;
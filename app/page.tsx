@@ -11,6 +11,7 @@ import React, { useState } from 'react';
 import QueryEditor from '@/components/query/QueryEditor';
 import QueryResults from '@/components/query/QueryResults';
 import AddDatabaseDialog from '@/components/query/AddDatabaseDialog';
+import WriteConfirmationDialog from '@/components/query/WriteConfirmationDialog';
 import SchemaViewer from '@/components/SchemaViewer';
 import { useDatabase } from '@/lib/DatabaseContext';
 import { useRemoteAPI } from '@/lib/RemoteAPIContext';
@@ -99,7 +100,11 @@ export default function QueryPlatform() {
         query={query}
         onChange={setQuery}
         onExecute={executeQuery}
+        onExplain={mode === 'remote' ? remoteAPI.explainQuery : undefined}
+        onStream={mode === 'remote' ? remoteAPI.streamQuery : undefined}
+        onCancel={mode === 'remote' ? remoteAPI.cancelQuery : undefined}
         isExecuting={isExecuting}
+        errorField={mode === 'remote' ? remoteAPI.apiError?.target : undefined}
       />
 
       {/* Tabbed Interface for Query Results and Schema */}
@@ -129,6 +134,7 @@ export default function QueryPlatform() {
           <QueryResults
             results={results || []}
             error={error || ''}
+            apiError={mode === 'remote' ? remoteAPI.apiError : null}
             isExecuting={isExecuting}
           />
 
@@ -159,7 +165,7 @@ export default function QueryPlatform() {
           {mode === 'remote' && selectedTenant ? (
             <SchemaViewer
               tenantId={selectedTenant.id}
-              serviceName={schema?.tableName || 'UnknownService'}
+              serviceName={remoteAPI.selectedTable?.name || schema?.tableName || 'UnknownService'}
               schema={schema || undefined}
               loading={schemaLoading}
               error={schemaError}
@@ -189,6 +195,16 @@ export default function QueryPlatform() {
         </TabsContent>
       </Tabs>
 
+      {/* INSERT/UPDATE/DELETE confirmation with dry-run preview */}
+      {mode === 'remote' && (
+        <WriteConfirmationDialog
+          preview={remoteAPI.pendingWrite?.preview ?? null}
+          table={remoteAPI.pendingWrite?.config.table ?? ''}
+          onConfirm={remoteAPI.confirmPendingWrite}
+          onCancel={remoteAPI.cancelPendingWrite}
+        />
+      )}
+
       {/* Add Database Dialog */}
       {showAddDialog && (
         <AddDatabaseDialog
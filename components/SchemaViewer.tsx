@@ -41,7 +41,7 @@ interface SchemaViewerProps {
 export function SchemaViewer({
   tenantId,
   serviceName,
-  schema,
+  schema: providedSchema,
   loading = false,
   error,
   onRefresh,
@@ -50,10 +50,14 @@ export function SchemaViewer({
   const [metadataOpen, setMetadataOpen] = useState(false);
   const [copyStatus, setCopyStatus] = useState<string>('');
   const [expandedSections, setExpandedSections] = useState<string[]>([]);
+  const [fetchedSchema, setFetchedSchema] = useState<TableSchema | null>(null);
+
+  // Schema passed by the parent takes precedence over the one fetched from /api/schema
+  const schema = providedSchema || fetchedSchema || undefined;
 
   const fetchSchema = async () => {
     try {
-      const response = await fetch(`/api/schema/${tenantId}/${serviceName}/json`);
+      const response = await fetch(`/api/schema/${encodeURIComponent(tenantId)}/${encodeURIComponent(serviceName)}/json`);
       
       if (!response.ok) {
         console.error(`Schema API returned ${response.status}: ${response.statusText}`);
@@ -67,8 +71,7 @@ export function SchemaViewer({
         return;
       }
       
-      // Schema would be handled by parent component state
-      console.log('Schema fetched:', data.schema);
+      setFetchedSchema(data.schema);
     } catch (err) {
       console.error('Failed to fetch schema:', err);
     }
@@ -76,7 +79,7 @@ export function SchemaViewer({
 
   // Auto-fetch schema if not provided
   useEffect(() => {
-    if (!schema && !loading && !error) {
+    if (!providedSchema && !loading && !error) {
       fetchSchema();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -116,11 +119,13 @@ export function SchemaViewer({
   };
 
   const getDataTypeIcon = (dataType: string): string => {
-    switch (dataType.toLowerCase()) {
-      case 'string': return '📝';
-      case 'integer': case 'numeric': case 'decimal': return '🔢';
+    // $metadata schemas carry Edm types (Edm.String, Edm.Int32, ...)
+    switch (dataType.toLowerCase().replace(/^edm\./, '')) {
+      case 'string': case 'guid': return '📝';
+      case 'integer': case 'numeric': case 'decimal':
+      case 'int16': case 'int32': case 'int64': case 'byte': case 'sbyte': case 'double': case 'single': return '🔢';
       case 'boolean': return '☑️';
-      case 'datetime': case 'date': return '📅';
+      case 'datetime': case 'date': case 'datetimeoffset': case 'timeofday': return '📅';
       case 'array': return '📋';
       case 'object': return '🗂️';
       default: return '❓';
@@ -479,6 +484,16 @@ export function SchemaViewer({
               >
                 {schema.serviceType}
               </Badge>
+              {schema.source && (
+                <Badge variant="outline" className="ml-1 text-xs">
+                  {schema.source === 'metadata' ? '$metadata' : schema.source === 'wsdl' ? 'WSDL' : 'sampled'}
+                </Badge>
+              )}
+              {schema.operations?.map(operation => (
+                <Badge key={operation} variant="secondary" className="ml-1 text-xs">
+                  {operation}
+                </Badge>
+              ))}
             </CardTitle>
             
             <div className="flex items-center gap-2">
@@ -10,7 +10,7 @@
 import React, { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Settings, Home, Database, LogIn, UserPlus, User, LogOut, Shield } from 'lucide-react';
+import { Settings, Home, Database, LogIn, UserPlus, User, LogOut, Shield, BookOpen } from 'lucide-react';
 import { LoginDialog } from './LoginDialog';
 import { SignUpDialog } from './SignUpDialog';
 import { Button } from '@/components/ui/button';
@@ -72,6 +72,12 @@ export function NavigationHeader() {
       icon: Settings,
       active: pathname === '/credentials'
     },
+    {
+      name: 'API Explorer',
+      href: '/api-explorer',
+      icon: BookOpen,
+      active: pathname === '/api-explorer'
+    },
     {
       name: 'Admin Panel',
       href: '/admin',
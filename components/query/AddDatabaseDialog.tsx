@@ -6,7 +6,7 @@
  */
 
 import React, { useState } from 'react';
-import { X, Plus } from 'lucide-react';
+import { X, Plus, Library } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -27,6 +27,7 @@ import {
 import { useDatabase } from '@/lib/DatabaseContext';
 import { useRemoteAPI } from '@/lib/RemoteAPIContext';
 import { useSidebarMode } from '@/lib/SidebarModeContext';
+import ServiceCatalogDialog from './ServiceCatalogDialog';
 
 /**
  * Props interface for AddDatabaseDialog component
@@ -53,6 +54,7 @@ export default function AddDatabaseDialog({ open, onClose, onSuccess }: AddDatab
   const { mode } = useSidebarMode();
   const { createDatabase } = useDatabase();
   const { createRemoteAPIDatabase } = useRemoteAPI();
+  const [catalogOpen, setCatalogOpen] = useState(false);
 
   // Reset form when dialog opens or mode changes
   React.useEffect(() => {
@@ -274,7 +276,8 @@ export default function AddDatabaseDialog({ open, onClose, onSuccess }: AddDatab
   };
 
   return (
-    <Dialog open={open} onOpenChange={onClose}>
+    <>
+    <Dialog open={open && !catalogOpen} onOpenChange={onClose}>
       <DialogContent className="w-[95vw] max-w-2xl sm:w-full bg-[#1a5f7a] border-[#0f3d4f] text-white max-h-[90vh] overflow-y-auto">
         <DialogHeader className="bg-[#1a5f7a] px-4 sm:px-6 py-4 -mx-4 sm:-mx-6 -mt-4 sm:-mt-6 mb-4">
           <DialogTitle className="text-white">
@@ -286,6 +289,18 @@ export default function AddDatabaseDialog({ open, onClose, onSuccess }: AddDatab
           {(mode === 'remote' || formData.type === 'api') ? (
               // Remote API Database Form
               <>
+              <div className="flex items-center justify-between gap-3 rounded border border-[#0f3d4f] bg-[#0f3d4f]/50 px-3 py-2">
+                <p className="text-xs text-[#8bb3cc]">Pick services from the tenant&apos;s ION catalog instead of pasting URLs</p>
+                <Button
+                  type="button"
+                  onClick={() => setCatalogOpen(true)}
+                  className="bg-[#1a5f7a] hover:bg-[#2a6b83] text-white border border-[#0f3d4f] text-sm px-3 h-9 shrink-0"
+                >
+                  <Library className="h-4 w-4 mr-2" />
+                  Browse Catalog
+                </Button>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="name" className="text-white">Database Name</Label>
                 <Input
@@ -543,5 +558,15 @@ export default function AddDatabaseDialog({ open, onClose, onSuccess }: AddDatab
         </form>
       </DialogContent>
     </Dialog>
+
+    <ServiceCatalogDialog
+      open={open && catalogOpen}
+      onClose={() => setCatalogOpen(false)}
+      onSuccess={() => {
+        onSuccess();
+        onClose();
+      }}
+    />
+    </>
   );
 }
\ No newline at end of file
@@ -23,8 +23,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from '../ui/select';
-import { X, Plus } from 'lucide-react';
+import { X, Plus, Timer, Trash2 } from 'lucide-react';
 import { useRemoteAPI } from '@/lib/RemoteAPIContext';
+import type { RemoteAPITable } from '@/Entities/RemoteAPI';
 
 /**
  * Props interface for EditDatabaseDialog component
@@ -69,6 +70,9 @@ export default function EditDatabaseDialog({ open, onClose, onSuccess, database
 
   const [isSaving, setIsSaving] = useState(false);
   const [newTable, setNewTable] = useState('');
+  // Response cache TTL in seconds per table (0 = not cached)
+  const [cacheTtls, setCacheTtls] = useState<Record<string, number>>({});
+  const [isClearingCache, setIsClearingCache] = useState(false);
 
   // Load database data when dialog opens
   useEffect(() => {
@@ -81,6 +85,9 @@ export default function EditDatabaseDialog({ open, onClose, onSuccess, database
         tables: database.tables?.map((t: any) => t.name) || [],
         status: database.status || 'active'
       });
+      setCacheTtls(Object.fromEntries(
+        (database.tables || []).map((t: RemoteAPITable) => [t.name, t.cacheTtlSeconds || 0])
+      ));
     }
   }, [open, database]);
 
@@ -117,7 +124,8 @@ export default function EditDatabaseDialog({ open, onClose, onSuccess, database
         services: formData.services,
         tables: formData.tables,
         expandFields: [], // No longer used - expand fields are per table
-        status: formData.status
+        status: formData.status,
+        cacheTtls: Object.fromEntries(formData.tables.map(table => [table, cacheTtls[table] || 0]))
       });
 
       onSuccess();
@@ -129,6 +137,24 @@ export default function EditDatabaseDialog({ open, onClose, onSuccess, database
     }
   };
 
+  // Clears the cached query results of all tables, or of one table
+  const clearCache = async (table?: string) => {
+    setIsClearingCache(true);
+    try {
+      const query = table ? `?table=${encodeURIComponent(table)}` : '';
+      const response = await fetch(`/api/remote-databases/${database.id}/cache${query}`, { method: 'DELETE' });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || `${response.status} ${response.statusText}`);
+      }
+      alert(`Cleared ${result.removed} cached ${result.removed === 1 ? 'result' : 'results'}${table ? ` of ${table}` : ''}`);
+    } catch (error) {
+      alert(`Failed to clear cache: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
+
   if (!database) return null;
 
   return (
@@ -239,6 +265,54 @@ export default function EditDatabaseDialog({ open, onClose, onSuccess, database
             </div>
           </div>
 
+          {/* Response Cache */}
+          {formData.tables.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-white flex items-center gap-2">
+                  <Timer className="h-4 w-4" />
+                  Response Cache (TTL in seconds)
+                </Label>
+                <Button
+                  type="button"
+                  onClick={() => clearCache()}
+                  disabled={isClearingCache}
+                  className="bg-[#1a5f7a] hover:bg-[#2a6b83] text-white border border-[#0f3d4f] h-8 px-3 text-xs"
+                  title="Remove all cached query results of this tenant"
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Clear cache
+                </Button>
+              </div>
+              <div className="bg-[#0f3d4f] p-3 rounded border border-[#1a5f7a] space-y-2">
+                {formData.tables.map(table => (
+                  <div key={table} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm text-white truncate" title={table}>{table}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={cacheTtls[table] || 0}
+                      onChange={(e) => setCacheTtls(prev => ({ ...prev, [table]: Math.max(0, Number(e.target.value) || 0) }))}
+                      className="w-28 bg-[#0f3d4f] border-[#1a5f7a] text-white focus:ring-2 focus:ring-blue-500 text-sm h-8"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => clearCache(table)}
+                      disabled={isClearingCache || !database.tables?.some((t: RemoteAPITable) => t.name === table)}
+                      className="p-1 text-[#8bb3cc] hover:text-red-300 disabled:opacity-40 transition-colors"
+                      title={`Clear cached results of ${table}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+                <p className="text-xs text-[#8bb3cc]">
+                  Query results are reused for this many seconds (0 = always query ION). Writes clear the table&apos;s cache; API clients can bypass it with Cache-Control: no-cache.
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Expand Fields Info */}
           {(formData.services.includes('lnapi') || formData.tables.some(table => table.includes('/'))) && (
             <div className="bg-[#0f3d4f] p-4 rounded border border-[#1a5f7a]">
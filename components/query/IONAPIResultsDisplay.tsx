@@ -8,8 +8,10 @@
 'use client';
 
 import React, { useState } from 'react';
-import { ChevronDown, ChevronRight, Database, FileText, AlertCircle, CheckCircle, Info, Copy, Eye } from 'lucide-react';
+import { ChevronDown, ChevronRight, Database, FileText, AlertCircle, AlertTriangle, CheckCircle, Info, Copy, Eye, SearchCode } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { QueryExplanation, QueryStreamInfo, RemoteAPIError, ResponseCacheInfo } from '@/Entities/RemoteAPI';
+import RemoteAPIErrorDetails from './RemoteAPIErrorDetails';
 
 /**
  * Props interface for IONAPIResultsDisplay component
@@ -36,6 +38,14 @@ interface IONAPIResultsDisplayProps {
     };
     rawResponse?: string;
     note: string;
+    /** Translated request of an EXPLAIN statement */
+    explanation?: QueryExplanation;
+    /** Structured error of a failed request */
+    error?: RemoteAPIError;
+    /** Response cache status (tables with a cache TTL only) */
+    cache?: ResponseCacheInfo;
+    /** Progress of a streamed query */
+    stream?: QueryStreamInfo;
   };
 }
 
@@ -268,6 +278,41 @@ export default function IONAPIResultsDisplay({ result }: IONAPIResultsDisplayPro
           </div>
         </div>
         
+        {result.cache && (
+          <div className="mt-3 flex flex-wrap gap-2 text-xs">
+            <span className={`px-2 py-0.5 rounded border ${
+              result.cache.status === 'hit' || result.cache.status === 'revalidated'
+                ? 'bg-green-500/20 border-green-500/40 text-green-200'
+                : 'bg-slate-700/50 border-slate-600/50 text-slate-300'
+            }`}>
+              Cache: {result.cache.status}
+            </span>
+            <span className="px-2 py-0.5 rounded bg-slate-700/50 text-slate-300">Age {result.cache.ageSeconds}s</span>
+            <span className="px-2 py-0.5 rounded bg-slate-700/50 text-slate-300">
+              Fresh until {new Date(result.cache.expiresAt).toLocaleTimeString()}
+            </span>
+          </div>
+        )}
+
+        {result.stream && (
+          <div className="mt-3 flex flex-wrap gap-2 text-xs">
+            <span className={`px-2 py-0.5 rounded border ${
+              result.stream.active
+                ? 'bg-blue-500/20 border-blue-500/40 text-blue-200 animate-pulse'
+                : result.stream.stopped
+                  ? 'bg-yellow-500/20 border-yellow-500/40 text-yellow-200'
+                  : 'bg-green-500/20 border-green-500/40 text-green-200'
+            }`}>
+              {result.stream.active ? 'Streaming...' : result.stream.stopped ? 'Stopped early' : 'Stream complete'}
+            </span>
+            <span className="px-2 py-0.5 rounded bg-slate-700/50 text-slate-300">
+              {result.stream.rowsReceived.toLocaleString()}
+              {result.stream.totalAvailable !== undefined && ` of ${result.stream.totalAvailable.toLocaleString()}`} rows
+            </span>
+            <span className="px-2 py-0.5 rounded bg-slate-700/50 text-slate-300">{result.stream.pagesFetched} page(s) fetched</span>
+          </div>
+        )}
+
         {result.data?.summary && (
           <div className="mt-3 p-2 bg-slate-700/50 rounded text-sm text-slate-300">
             {result.data.summary}
@@ -275,15 +320,86 @@ export default function IONAPIResultsDisplay({ result }: IONAPIResultsDisplayPro
         )}
       </div>
 
+      {/* EXPLAIN: translated request (nothing was sent to ION) */}
+      {result.explanation && (
+        <div className="bg-slate-800/50 rounded-lg border border-slate-600/50 p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-white font-semibold flex items-center gap-2">
+              <SearchCode className="w-4 h-4" />
+              Translated Request
+            </h4>
+            <button
+              onClick={() => copyToClipboard(result.explanation?.body || result.explanation?.decodedUrl || '')}
+              className="px-3 py-1 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded flex items-center gap-1 transition-colors duration-200"
+            >
+              <Copy className="w-3 h-3" />
+              Copy
+            </button>
+          </div>
+
+          {result.explanation.warnings.length > 0 && (
+            <div className="bg-yellow-900/20 border border-yellow-500/30 rounded p-3 space-y-1">
+              {result.explanation.warnings.map((warning, index) => (
+                <p key={index} className="text-yellow-300 text-sm flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{warning}</span>
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="text-sm space-y-1">
+            <div>
+              <span className="text-slate-400">{result.explanation.apiType === 'rest' ? 'Method:' : 'SOAP Action:'}</span>
+              <span className="text-white ml-2 font-mono">{result.explanation.method}</span>
+            </div>
+            <div className="break-all">
+              <span className="text-slate-400">URL:</span>
+              <span className="text-white ml-2 font-mono text-xs">{result.explanation.decodedUrl}</span>
+            </div>
+          </div>
+
+          <div>
+            <h5 className="text-white font-medium mb-2">Headers</h5>
+            <div className="bg-slate-900/50 p-3 rounded border border-slate-600/30 text-xs font-mono space-y-1">
+              {Object.entries(result.explanation.headers).map(([name, value]) => (
+                <div key={name} className="break-all">
+                  <span className="text-slate-400">{name}:</span>
+                  <span className="text-slate-300 ml-2">{value}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {result.explanation.body && (
+            <div>
+              <h5 className="text-white font-medium mb-2">{result.explanation.apiType === 'rest' ? 'Body' : 'SOAP Envelope'}</h5>
+              <pre className="bg-slate-900/50 p-4 rounded border border-slate-600/30 text-xs text-slate-300 overflow-x-auto whitespace-pre-wrap">
+                {result.explanation.body}
+              </pre>
+            </div>
+          )}
+
+          <div>
+            <h5 className="text-white font-medium mb-2">Parsed Query</h5>
+            <pre className="bg-slate-900/50 p-4 rounded border border-slate-600/30 text-xs text-slate-300 overflow-x-auto max-h-96">
+              {JSON.stringify(result.explanation.parsed, null, 2)}
+            </pre>
+          </div>
+        </div>
+      )}
+
       {/* Error Display */}
-      {result.data?.error && (
+      {(result.data?.error || result.error) && (
         <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-4">
           <div className="flex items-center gap-2 mb-2">
             <AlertCircle className="w-5 h-5 text-red-400" />
             <h4 className="text-red-400 font-semibold">Error</h4>
           </div>
-          <p className="text-red-300">{result.data.message}</p>
-          {result.data.type && (
+          <p className="text-red-300">{result.error?.message || result.data?.message}</p>
+          {result.error ? (
+            <RemoteAPIErrorDetails error={result.error} />
+          ) : result.data?.type && (
             <p className="text-red-400 text-sm mt-1">Type: {result.data.type}</p>
           )}
         </div>
@@ -381,7 +497,7 @@ export default function IONAPIResultsDisplay({ result }: IONAPIResultsDisplayPro
                         if (titleField) {
                           const actualKey = Object.keys(record).find(key => key.toLowerCase().includes(titleField.toLowerCase()));
                           const value = actualKey ? record[actualKey] : null;
-                          if (value && value !== null) {
+                          if (value && typeof value !== 'object') {
                             return `${actualKey}: ${value}`;
                           }
                         }
@@ -393,7 +509,7 @@ export default function IONAPIResultsDisplay({ result }: IONAPIResultsDisplayPro
                       const statusField = Object.keys(record).find(key => 
                         key.toLowerCase().includes('status') || key.toLowerCase().includes('description')
                       );
-                      if (statusField && record[statusField] && record[statusField] !== null) {
+                      if (statusField && record[statusField] && typeof record[statusField] !== 'object') {
                         return (
                           <span className="text-slate-400 text-xs">
                             {statusField}: {record[statusField]}
@@ -428,7 +544,9 @@ export default function IONAPIResultsDisplay({ result }: IONAPIResultsDisplayPro
                         <div className="mb-4 p-3 bg-slate-700/30 rounded">
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
                             {Object.entries(record)
-                              .filter(([key]) => {
+                              .filter(([key, value]) => {
+                                // Nested objects and arrays are shown under All Fields
+                                if (typeof value === 'object' && value !== null) return false;
                                 // Show important fields first based on common SOAP service patterns
                                 const importantFields = ['callID', 'id', 'name', 'status', 'description', 'serialNumber', 'item', 'customerName', 'orderNumber', 'callStatus', 'problemDescription', 'solutionTime'];
                                 return importantFields.some(field => key.toLowerCase().includes(field.toLowerCase()));
@@ -6,7 +6,7 @@
  */
 
 import React from 'react';
-import { Play, Code, Database, Table, Globe, Server } from 'lucide-react';
+import { Play, Code, Database, Table, Globe, Server, SearchCode, AlertTriangle, Square, Radio } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useDatabase } from '@/lib/DatabaseContext';
 import { useRemoteAPI } from '@/lib/RemoteAPIContext';
@@ -22,21 +22,52 @@ interface QueryEditorProps {
   onChange: (query: string) => void;
   /** Function to execute the query */
   onExecute: () => void;
+  /** Function to show the translated request without executing it (remote APIs only) */
+  onExplain?: () => void;
+  /** Function to run the query as a stream, showing records as they arrive (remote APIs only) */
+  onStream?: () => void;
+  /** Function to cancel the executing query (remote APIs only) */
+  onCancel?: () => void;
   /** Whether a query is currently executing */
   isExecuting: boolean;
+  /** Field named by the last error (RemoteAPIError.target); its occurrences are highlighted */
+  errorField?: string;
 }
 
+/**
+ * Finds the occurrences of a field name in the query (whole words, case-insensitive)
+ * Targets with a path (e.g. "Orders/Statuss", "LineRefs.Item") fall back to their last segment
+ * @private
+ */
+const findFieldOccurrences = (query: string, field?: string): { start: number; end: number }[] => {
+  if (!field) return [];
+
+  for (const candidate of [field, field.split(/[/.]/).pop() || '']) {
+    if (!/^[A-Za-z_][\w.]*$/.test(candidate)) continue;
+    const pattern = new RegExp(`(?<!\\w)${candidate.replace(/\./g, '\\.')}(?!\\w)`, 'gi');
+    const occurrences = [...query.matchAll(pattern)].map(match => ({
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length
+    }));
+    if (occurrences.length > 0) return occurrences;
+  }
+  return [];
+};
+
 /**
  * SQL Query Editor component for writing and executing database queries
  * Provides a textarea for SQL input with database and table context information
  * Includes a run button that is disabled when no database/table is selected
+ * and, for remote APIs, an explain button showing the translated request and a
+ * stream button showing the records while they arrive (Stop keeps them).
+ * The field named by the last error is highlighted behind the query text
  * @component QueryEditor
  * @param {QueryEditorProps} props - Component props
  * @returns {JSX.Element} Query editor interface with SQL input and execution controls
  */
-export default function QueryEditor({ query, onChange, onExecute, isExecuting }: QueryEditorProps) {
+export default function QueryEditor({ query, onChange, onExecute, onExplain, onStream, onCancel, isExecuting, errorField }: QueryEditorProps) {
   const { selectedDatabase, selectedTable } = useDatabase();
-  const { selectedTenant, selectedTable: remoteSelectedTable, baseTableReference } = useRemoteAPI();
+  const { selectedTenant, selectedTable: remoteSelectedTable, baseTableReference, isStreaming } = useRemoteAPI();
   
   // Determine if we're in remote API mode and what type
   const isRemoteAPI = selectedTenant && remoteSelectedTable;
@@ -44,6 +75,21 @@ export default function QueryEditor({ query, onChange, onExecute, isExecuting }:
   const currentDatabase = isRemoteAPI ? selectedTenant : selectedDatabase;
   const currentTable = isRemoteAPI ? remoteSelectedTable : selectedTable;
 
+  // Highlight layer behind the (transparent) textarea, scrolled along with it
+  const highlightRef = React.useRef<HTMLDivElement>(null);
+  const errorOccurrences = React.useMemo(() => findFieldOccurrences(query, errorField), [query, errorField]);
+  const highlightSegments = React.useMemo(() => {
+    const segments: React.ReactNode[] = [];
+    let position = 0;
+    errorOccurrences.forEach(({ start, end }, index) => {
+      segments.push(query.slice(position, start));
+      segments.push(<mark key={index} className="bg-red-500/40 text-transparent rounded-sm">{query.slice(start, end)}</mark>);
+      position = end;
+    });
+    segments.push(`${query.slice(position)}\n`);
+    return segments;
+  }, [query, errorOccurrences]);
+
   // Get dynamic placeholder based on selected table and API type
   const getDynamicPlaceholder = () => {
     if (!currentTable) {
@@ -55,11 +101,11 @@ export default function QueryEditor({ query, onChange, onExecute, isExecuting }:
     if (isRemoteAPI && apiType === 'rest') {
       return `SELECT * FROM ${tableName} WHERE field = 'value'
 
-Supports: WHERE, JOIN, ORDER BY, LIMIT, BETWEEN, IS NULL`;
+Supports: WHERE, JOIN, GROUP BY, HAVING, ORDER BY, LIMIT, BETWEEN, IS NULL, EXPLAIN`;
     } else if (isRemoteAPI && apiType === 'soap') {
       return `SELECT * FROM ${tableName} WHERE field = 'value'
 
-Supports: WHERE, ORDER BY, LIMIT`;
+Supports: WHERE, GROUP BY, HAVING, ORDER BY, LIMIT, EXPLAIN`;
     } else {
       return `SELECT * FROM ${tableName} WHERE condition`;
     }
@@ -90,16 +136,53 @@ Supports: WHERE, ORDER BY, LIMIT`;
                 </div>
               )}
             </div>
-            <Button
-              onClick={onExecute}
-              disabled={isExecuting || !query.trim() || !currentDatabase || !currentTable}
-              className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm border border-blue-500"
-              size="sm"
-            >
-              <Play className="w-4 h-4 mr-1 sm:mr-2" />
-              <span className="hidden sm:inline">{isExecuting ? 'Executing...' : 'Run Query'}</span>
-              <span className="sm:hidden">{isExecuting ? 'Running...' : 'Run'}</span>
-            </Button>
+            <div className="flex items-center gap-2">
+              {isRemoteAPI && onExplain && (
+                <Button
+                  onClick={onExplain}
+                  disabled={isExecuting || !query.trim() || !currentDatabase || !currentTable}
+                  className="bg-[#0f3d4f] hover:bg-[#2a6b83] text-white shadow-sm border border-[#1a5f7a]"
+                  size="sm"
+                  title="Show the translated request without sending it to ION"
+                >
+                  <SearchCode className="w-4 h-4 mr-1 sm:mr-2" />
+                  <span>Explain</span>
+                </Button>
+              )}
+              <Button
+                onClick={onExecute}
+                disabled={isExecuting || !query.trim() || !currentDatabase || !currentTable}
+                className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm border border-blue-500"
+                size="sm"
+              >
+                <Play className="w-4 h-4 mr-1 sm:mr-2" />
+                <span className="hidden sm:inline">{isExecuting ? 'Executing...' : 'Run Query'}</span>
+                <span className="sm:hidden">{isExecuting ? 'Running...' : 'Run'}</span>
+              </Button>
+              {isRemoteAPI && onStream && !isExecuting && (
+                <Button
+                  onClick={onStream}
+                  disabled={!query.trim() || !currentDatabase || !currentTable}
+                  className="bg-[#0f3d4f] hover:bg-[#2a6b83] text-white shadow-sm border border-[#1a5f7a]"
+                  size="sm"
+                  title="Run the query and show the records while the pages arrive"
+                >
+                  <Radio className="w-4 h-4 mr-1 sm:mr-2" />
+                  <span>Stream</span>
+                </Button>
+              )}
+              {onCancel && isExecuting && (
+                <Button
+                  onClick={onCancel}
+                  className="bg-red-600 hover:bg-red-700 text-white shadow-sm border border-red-500"
+                  size="sm"
+                  title={isStreaming ? 'Stop the stream and keep the records received so far' : 'Stop the query and abort the ION request'}
+                >
+                  <Square className="w-4 h-4 mr-1 sm:mr-2" />
+                  <span>{isStreaming ? 'Stop' : 'Cancel'}</span>
+                </Button>
+              )}
+            </div>
           </div>
 
           {/* Database and Table selection info */}
@@ -142,14 +225,28 @@ Supports: WHERE, ORDER BY, LIMIT`;
       </div>
       
       <div className="p-3 sm:p-4">
-        <textarea
-          value={query}
-          onChange={(e) => onChange(e.target.value)}
-          placeholder={getDynamicPlaceholder()}
-          className="w-full h-40 sm:h-48 md:h-56 px-3 sm:px-4 py-2 sm:py-3 bg-[#0f3d4f] border border-[#1a5f7a] rounded-lg font-mono text-sm text-white placeholder:text-[#8bb3cc]/60 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y min-h-[120px]"
-          spellCheck={false}
-          rows={8}
-        />
+        <div className="relative bg-[#0f3d4f] rounded-lg">
+          {errorOccurrences.length > 0 && (
+            <div
+              ref={highlightRef}
+              aria-hidden="true"
+              className="absolute inset-0 overflow-hidden px-3 sm:px-4 py-2 sm:py-3 border border-transparent rounded-lg font-mono text-sm text-transparent whitespace-pre-wrap break-words pointer-events-none"
+            >
+              {highlightSegments}
+            </div>
+          )}
+          <textarea
+            value={query}
+            onChange={(e) => onChange(e.target.value)}
+            onScroll={(e) => {
+              if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+            }}
+            placeholder={getDynamicPlaceholder()}
+            className="relative block w-full h-40 sm:h-48 md:h-56 px-3 sm:px-4 py-2 sm:py-3 bg-transparent border border-[#1a5f7a] rounded-lg font-mono text-sm text-white placeholder:text-[#8bb3cc]/60 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y min-h-[120px]"
+            spellCheck={false}
+            rows={8}
+          />
+        </div>
         <div className="mt-2 flex items-center justify-between text-xs">
           <p className="text-[#9bc5d4]">
             {baseTableReference ? (
@@ -168,6 +265,12 @@ Supports: WHERE, ORDER BY, LIMIT`;
               'Select a table to start querying'
             )}
           </p>
+          {errorOccurrences.length > 0 && (
+            <p className="flex items-center gap-1 text-red-300">
+              <AlertTriangle className="w-3 h-3" />
+              <span>Rejected field: <span className="font-mono">{errorField}</span></span>
+            </p>
+          )}
           {query.trim() && (
             <p className="text-[#8bb3cc]">
               {query.split('\n').length} {query.split('\n').length === 1 ? 'line' : 'lines'}
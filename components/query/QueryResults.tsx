@@ -10,7 +10,9 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { AlertCircle, CheckCircle2 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import IONAPIResultsDisplay from './IONAPIResultsDisplay';
+import RemoteAPIErrorDetails from './RemoteAPIErrorDetails';
 import { useSidebarMode } from '@/lib/SidebarModeContext';
+import type { RemoteAPIError } from '@/Entities/RemoteAPI';
 
 /**
  * Props interface for QueryResults component
@@ -21,6 +23,8 @@ interface QueryResultsProps {
   results: any[];
   /** Error message if query failed */
   error: string;
+  /** Structured error of a failed remote API request */
+  apiError?: RemoteAPIError | null;
   /** Whether a query is currently executing */
   isExecuting: boolean;
 }
@@ -33,10 +37,13 @@ interface QueryResultsProps {
  * @param {QueryResultsProps} props - Component props
  * @returns {JSX.Element} Results display with loading, error, or data table
  */
-export default function QueryResults({ results, error, isExecuting }: QueryResultsProps) {
+export default function QueryResults({ results, error, apiError, isExecuting }: QueryResultsProps) {
   const { mode } = useSidebarMode();
   
-  if (isExecuting) {
+  // A streaming query shows its records while they arrive
+  const isStreaming = mode === 'remote' && results.some(result => result?.stream?.active);
+
+  if (isExecuting && !isStreaming) {
     return (
       <div className="bg-[#2a6b83] border border-[#1a5f7a] rounded-lg shadow-lg p-8 backdrop-blur-sm">
         <div className="flex items-center justify-center">
@@ -57,6 +64,7 @@ export default function QueryResults({ results, error, isExecuting }: QueryResul
           <div>
             <h3 className="font-semibold text-white">Error</h3>
             <p className="text-sm text-red-300 mt-1">{error}</p>
+            {apiError && <RemoteAPIErrorDetails error={apiError} />}
           </div>
         </div>
       </div>
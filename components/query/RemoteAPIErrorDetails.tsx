@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Remote API Error Details Component for structured ION errors
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import React from 'react';
+import type { RemoteAPIError, RemoteAPIErrorCategory } from '@/Entities/RemoteAPI';
+
+/**
+ * Props interface for RemoteAPIErrorDetails component
+ * @interface RemoteAPIErrorDetailsProps
+ */
+interface RemoteAPIErrorDetailsProps {
+  /** Structured error of the failed request */
+  error: RemoteAPIError;
+}
+
+/**
+ * Display labels per error category
+ * @private
+ */
+const CATEGORY_LABELS: Record<RemoteAPIErrorCategory, string> = {
+  transport: 'Connection',
+  auth: 'Authentication',
+  throttling: 'Rate limit',
+  odata: 'OData error',
+  soap_fault: 'SOAP fault',
+  validation: 'Validation',
+  parse: 'Response parsing',
+  cancelled: 'Cancelled',
+  internal: 'Internal'
+};
+
+/**
+ * Shows the code, category, offending field and messages of a structured ION error
+ * (OData details[]/innererror or the LN messages of a SOAP fault)
+ * @component RemoteAPIErrorDetails
+ * @param {RemoteAPIErrorDetailsProps} props - Component props
+ * @returns {JSX.Element} Error badges and message list
+ */
+export default function RemoteAPIErrorDetails({ error }: RemoteAPIErrorDetailsProps) {
+  return (
+    <div className="mt-2 space-y-2 text-sm">
+      <div className="flex flex-wrap gap-2 text-xs">
+        <span className="px-2 py-0.5 rounded bg-red-500/20 border border-red-500/40 text-red-200 font-mono">{error.code}</span>
+        <span className="px-2 py-0.5 rounded bg-slate-700/50 text-slate-300">{CATEGORY_LABELS[error.category]}</span>
+        {error.remoteCode && (
+          <span className="px-2 py-0.5 rounded bg-slate-700/50 text-slate-300 font-mono">ION: {error.remoteCode}</span>
+        )}
+        {error.httpStatus && (
+          <span className="px-2 py-0.5 rounded bg-slate-700/50 text-slate-300">HTTP {error.httpStatus}</span>
+        )}
+        {error.target && (
+          <span className="px-2 py-0.5 rounded bg-yellow-500/20 border border-yellow-500/40 text-yellow-200">
+            Field: <span className="font-mono">{error.target}</span>
+          </span>
+        )}
+        {error.retryAfterSeconds !== undefined && (
+          <span className="px-2 py-0.5 rounded bg-slate-700/50 text-slate-300">Retry after {error.retryAfterSeconds}s</span>
+        )}
+      </div>
+
+      {error.details && error.details.length > 0 && (
+        <ul className="space-y-1">
+          {error.details.map((detail, index) => (
+            <li key={index} className="text-red-300">
+              {detail.code && <span className="font-mono text-red-400 mr-2">{detail.code}</span>}
+              {detail.message}
+              {detail.target && <span className="text-yellow-200 ml-2">({detail.target})</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error.innerError !== undefined && (
+        <details className="text-xs text-slate-400">
+          <summary className="cursor-pointer">Inner error</summary>
+          <pre className="mt-1 bg-slate-900/50 p-2 rounded border border-slate-600/30 overflow-x-auto max-h-48">
+            {JSON.stringify(error.innerError, null, 2)}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
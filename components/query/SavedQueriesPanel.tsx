@@ -0,0 +1,359 @@
+/**
+ * @fileoverview Saved Queries Panel Component for publishing parameterized SQL queries
+ * as API Gateway endpoints (/api/gateway/queries/<slug>)
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Pencil, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { SavedQuery, SavedQueryParameter, SavedQueryParameterType } from '@/Entities/Gateway';
+
+/**
+ * Props interface for SavedQueriesPanel component
+ * @interface SavedQueriesPanelProps
+ */
+interface SavedQueriesPanelProps {
+  /** Registered tables of the tenant the queries can run against */
+  tables: string[];
+  /** Username of the signed-in user (creators can change their own queries) */
+  username?: string;
+  /** Whether the user is an admin or superadmin (can change every query of the tenant) */
+  isAdmin: boolean;
+  /** Function to call after a query was saved or deleted (e.g. to reload the OpenAPI document) */
+  onChange: () => void;
+}
+
+const PARAMETER_TYPES: SavedQueryParameterType[] = ['string', 'number', 'boolean', 'date', 'datetime', 'guid'];
+
+const inputClassName = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Names of the :name placeholders of a statement, ignoring string literals
+ * (the server checks the same rules in SavedQueryManager)
+ */
+function findPlaceholders(sql: string): string[] {
+  const withoutStrings = sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"/g, "''");
+  const names: string[] = [];
+  for (const match of withoutStrings.matchAll(/(^|[^\w:]):([A-Za-z_][A-Za-z0-9_]*)/g)) {
+    if (!names.includes(match[2])) {
+      names.push(match[2]);
+    }
+  }
+  return names;
+}
+
+/**
+ * List, create, edit and delete the saved queries of the tenant
+ *
+ * @param {SavedQueriesPanelProps} props - Component props
+ * @returns {JSX.Element} The rendered panel
+ */
+export default function SavedQueriesPanel({ tables, username, isAdmin, onChange }: SavedQueriesPanelProps) {
+  const [queries, setQueries] = useState<SavedQuery[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [editingSlug, setEditingSlug] = useState<string | null>(null);
+  const [slug, setSlug] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [table, setTable] = useState('');
+  const [sql, setSql] = useState('');
+  const [parameters, setParameters] = useState<SavedQueryParameter[]>([]);
+
+  /**
+   * Load the saved queries of the tenant
+   */
+  const loadQueries = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/gateway/queries');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Failed to load saved queries');
+      setQueries(data.queries || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load saved queries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueries();
+  }, []);
+
+  /**
+   * Keep one parameter per placeholder of the SQL, preserving the settings of existing ones
+   */
+  const updateSql = (value: string) => {
+    setSql(value);
+    setParameters(prev => findPlaceholders(value).map(placeholder =>
+      prev.find(parameter => parameter.name === placeholder) || { name: placeholder, type: 'string', required: true }
+    ));
+  };
+
+  const updateParameter = (index: number, changes: Partial<SavedQueryParameter>) => {
+    setParameters(prev => prev.map((parameter, i) => (i === index ? { ...parameter, ...changes } : parameter)));
+  };
+
+  const resetForm = () => {
+    setEditingSlug(null);
+    setSlug('');
+    setName('');
+    setDescription('');
+    setTable('');
+    setSql('');
+    setParameters([]);
+  };
+
+  const editQuery = (query: SavedQuery) => {
+    setEditingSlug(query.slug);
+    setSlug(query.slug);
+    setName(query.name);
+    setDescription(query.description);
+    setTable(query.table);
+    setSql(query.sql);
+    setParameters(query.parameters);
+    setError(null);
+    setSuccessMessage(null);
+  };
+
+  /**
+   * Create or update a saved query; validation problems of the server are listed
+   */
+  const saveQuery = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch(editingSlug ? `/api/gateway/queries/${editingSlug}` : '/api/gateway/queries', {
+        method: editingSlug ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          slug: slug.trim(),
+          name: name.trim(),
+          description: description.trim(),
+          table,
+          sql,
+          parameters: parameters.map(parameter => ({
+            ...parameter,
+            defaultValue: parameter.defaultValue === '' ? undefined : parameter.defaultValue,
+          })),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        const problems: Array<{ message: string }> = data.error?.details?.messages || [];
+        throw new Error(problems.length > 0 ? problems.map(problem => problem.message).join('\n') : data.error?.message || 'Failed to save the query');
+      }
+
+      setSuccessMessage(data.message);
+      resetForm();
+      await loadQueries();
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the query');
+    }
+  };
+
+  const deleteQuery = async (query: SavedQuery) => {
+    if (!confirm(`Delete saved query "${query.name}"? Clients calling /api/gateway/queries/${query.slug} will get 404.`)) {
+      return;
+    }
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch(`/api/gateway/queries/${query.slug}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Failed to delete the query');
+
+      setSuccessMessage(data.message);
+      if (editingSlug === query.slug) resetForm();
+      await loadQueries();
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the query');
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg p-6">
+      <div className="flex items-center space-x-2 mb-1">
+        <Save className="w-5 h-5 text-blue-300" />
+        <h2 className="text-xl font-semibold text-white">Saved Queries</h2>
+      </div>
+      <p className="text-sm text-slate-400 mb-4">
+        Publish a SELECT statement with named parameters (<code className="text-blue-200">:customerId</code>) as{' '}
+        <code className="text-blue-200">GET /api/gateway/queries/&lt;slug&gt;?customerId=...</code>. Callers run it against their own tenant.
+      </p>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-3 mb-4 text-sm text-red-100 whitespace-pre-line">{error}</div>
+      )}
+      {successMessage && (
+        <div className="bg-green-500/20 border border-green-500/50 rounded-lg p-3 mb-4 text-sm text-green-100">{successMessage}</div>
+      )}
+
+      {/* Create / Edit Form */}
+      <form onSubmit={saveQuery} className="space-y-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">Slug</label>
+            <input
+              type="text"
+              value={slug}
+              onChange={(e) => setSlug(e.target.value.toLowerCase())}
+              disabled={!!editingSlug}
+              className={`${inputClassName} disabled:opacity-60`}
+              placeholder="open-service-calls"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              placeholder="Open service calls of a customer"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">Table</label>
+            <select
+              value={table}
+              onChange={(e) => setTable(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">Select a registered table</option>
+              {tables.map(tableName => (
+                <option key={tableName} value={tableName}>{tableName}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-3">
+            <label className="block text-sm font-medium text-white mb-2">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClassName}
+              placeholder="Shown in the OpenAPI document"
+            />
+          </div>
+          <div className="md:col-span-3">
+            <label className="block text-sm font-medium text-white mb-2">SQL</label>
+            <textarea
+              value={sql}
+              onChange={(e) => updateSql(e.target.value)}
+              rows={4}
+              className={`${inputClassName} font-mono text-xs`}
+              placeholder="SELECT * FROM ServiceCalls WHERE Customer = :customerId AND Status = 'Open'"
+            />
+          </div>
+        </div>
+
+        {/* Parameters detected in the SQL */}
+        {parameters.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-white">Parameters</h3>
+            {parameters.map((parameter, index) => (
+              <div key={parameter.name} className="grid grid-cols-1 md:grid-cols-[10rem_8rem_6rem_1fr_1fr] gap-2 items-center">
+                <span className="font-mono text-sm text-white">:{parameter.name}</span>
+                <select
+                  value={parameter.type}
+                  onChange={(e) => updateParameter(index, { type: e.target.value as SavedQueryParameterType })}
+                  className={inputClassName}
+                >
+                  {PARAMETER_TYPES.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+                <label className="flex items-center space-x-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={parameter.required}
+                    onChange={(e) => updateParameter(index, { required: e.target.checked })}
+                  />
+                  <span>Required</span>
+                </label>
+                <input
+                  type="text"
+                  value={parameter.defaultValue === undefined ? '' : String(parameter.defaultValue)}
+                  onChange={(e) => updateParameter(index, { defaultValue: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Default value"
+                />
+                <input
+                  type="text"
+                  value={parameter.description || ''}
+                  onChange={(e) => updateParameter(index, { description: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Description"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center space-x-3">
+          <Button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white font-medium">
+            <Save className="w-4 h-4 mr-2" />
+            {editingSlug ? 'Update Query' : 'Save Query'}
+          </Button>
+          {editingSlug && (
+            <Button type="button" onClick={resetForm} className="bg-slate-600 hover:bg-slate-500 text-white">
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+
+      {/* Query List */}
+      <div className="space-y-3">
+        {queries.map(query => {
+          const canChange = isAdmin || query.createdBy === username;
+          return (
+            <div key={query.id} className="bg-slate-700/50 rounded-lg p-4 flex items-center justify-between">
+              <div className="flex-1 min-w-0">
+                <h3 className="text-lg font-semibold text-white truncate">{query.name}</h3>
+                <p className="text-sm text-gray-400 mt-1 break-all">
+                  <code className="text-blue-200">
+                    /api/gateway/queries/{query.slug}
+                    {query.parameters.length > 0 && `?${query.parameters.map(parameter => `${parameter.name}=`).join('&')}`}
+                  </code>{' '}
+                  • {query.table}
+                </p>
+                <p className="text-xs text-gray-500 mt-1 font-mono truncate">{query.sql}</p>
+              </div>
+
+              {canChange && (
+                <div className="flex items-center space-x-2 ml-4">
+                  <Button onClick={() => editQuery(query)} className="bg-slate-600 hover:bg-slate-500 text-white" title="Edit query">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button onClick={() => deleteQuery(query)} className="bg-red-600 hover:bg-red-700 text-white" title="Delete query">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {queries.length === 0 && !loading && (
+          <p className="text-center text-gray-400 py-4">No saved queries</p>
+        )}
+      </div>
+    </div>
+  );
+}
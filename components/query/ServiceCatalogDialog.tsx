@@ -0,0 +1,393 @@
+/**
+ * @fileoverview Service Catalog Dialog Component for registering tables from a tenant's available APIs
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, ChevronRight, Loader2, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { useRemoteAPI } from '@/lib/RemoteAPIContext';
+import type { CatalogEntitySet, ServiceCatalog } from '@/Entities/RemoteAPI';
+import type { TenantSummary } from '@/Entities/TenantConfig';
+
+/**
+ * Props interface for ServiceCatalogDialog component
+ * @interface ServiceCatalogDialogProps
+ */
+interface ServiceCatalogDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Function to call when dialog should be closed */
+  onClose: () => void;
+  /** Function to call when tables are successfully registered */
+  onSuccess: () => void;
+}
+
+/**
+ * Dialog component for browsing a tenant's service catalog
+ * Lists the OData services (with their entity sets, loaded on expand) and SOAP business
+ * interfaces available to the tenant; ticked entries are registered as remote API tables
+ * with oDataService/entityName filled in and navigation properties as expand fields
+ * @component ServiceCatalogDialog
+ * @param {ServiceCatalogDialogProps} props - Component props
+ * @returns {JSX.Element} Dialog component with the tenant's service catalog
+ */
+export default function ServiceCatalogDialog({ open, onClose, onSuccess }: ServiceCatalogDialogProps) {
+  const { createRemoteAPIDatabase } = useRemoteAPI();
+
+  const [tenants, setTenants] = useState<TenantSummary[]>([]);
+  const [tenantId, setTenantId] = useState('');
+  const [catalog, setCatalog] = useState<ServiceCatalog | null>(null);
+  const [name, setName] = useState('');
+  const [search, setSearch] = useState('');
+  const [entitySets, setEntitySets] = useState<Record<string, CatalogEntitySet[]>>({});
+  const [expandedServices, setExpandedServices] = useState<string[]>([]);
+  const [loadingServices, setLoadingServices] = useState<string[]>([]);
+  /** Selected OData tables ('oDataService/Entity') with their expand fields */
+  const [selectedEntities, setSelectedEntities] = useState<Record<string, string[]>>({});
+  const [selectedSoap, setSelectedSoap] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Load tenants when dialog opens, reset state when it closes
+  useEffect(() => {
+    if (open) {
+      loadTenants();
+    } else {
+      setTenantId('');
+      setCatalog(null);
+      setName('');
+      setSearch('');
+      setEntitySets({});
+      setExpandedServices([]);
+      setSelectedEntities({});
+      setSelectedSoap([]);
+      setErrorMessage(null);
+    }
+  }, [open]);
+
+  const loadTenants = async () => {
+    try {
+      const response = await fetch('/api/tenants');
+      if (response.ok) {
+        const summaries: TenantSummary[] = await response.json();
+        setTenants(summaries.filter(tenant => tenant.isActive));
+      }
+    } catch (error) {
+      console.error('Failed to load tenants:', error);
+    }
+  };
+
+  const loadCatalog = async (id: string) => {
+    setTenantId(id);
+    setCatalog(null);
+    setEntitySets({});
+    setExpandedServices([]);
+    setSelectedEntities({});
+    setSelectedSoap([]);
+    setErrorMessage(null);
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/catalog?tenantId=${encodeURIComponent(id)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Failed to load service catalog: ${response.status}`);
+      }
+      setCatalog(data);
+      setName(`${data.tenantName} - Catalog`);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load service catalog');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleService = async (service: string) => {
+    if (expandedServices.includes(service)) {
+      setExpandedServices(prev => prev.filter(s => s !== service));
+      return;
+    }
+
+    setExpandedServices(prev => [...prev, service]);
+    if (entitySets[service]) return;
+
+    setLoadingServices(prev => [...prev, service]);
+    try {
+      const response = await fetch(`/api/catalog?tenantId=${encodeURIComponent(tenantId)}&service=${encodeURIComponent(service)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Failed to load entity sets of ${service}`);
+      }
+      setEntitySets(prev => ({ ...prev, [service]: data.entitySets || [] }));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : `Failed to load entity sets of ${service}`);
+      setExpandedServices(prev => prev.filter(s => s !== service));
+    } finally {
+      setLoadingServices(prev => prev.filter(s => s !== service));
+    }
+  };
+
+  const toggleEntity = (entitySet: CatalogEntitySet) => {
+    const table = `${entitySet.oDataService}/${entitySet.name}`;
+    setSelectedEntities(prev => {
+      const next = { ...prev };
+      if (next[table]) {
+        delete next[table];
+      } else {
+        // Navigation properties are suggested as expand fields
+        next[table] = [...entitySet.navigationProperties];
+      }
+      return next;
+    });
+  };
+
+  const toggleExpandField = (table: string, field: string) => {
+    setSelectedEntities(prev => ({
+      ...prev,
+      [table]: prev[table].includes(field)
+        ? prev[table].filter(f => f !== field)
+        : [...prev[table], field]
+    }));
+  };
+
+  const toggleSoap = (service: string) => {
+    setSelectedSoap(prev => prev.includes(service) ? prev.filter(s => s !== service) : [...prev, service]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!catalog) return;
+
+    setIsSaving(true);
+    setErrorMessage(null);
+
+    const restTables = Object.keys(selectedEntities);
+    const databaseName = name.trim() || `${catalog.tenantName} - Catalog`;
+    const baseUrl = catalog.baseUrl.replace(/\/$/, '');
+
+    try {
+      // OData and SOAP tables are registered as separate databases (the services path decides the API type)
+      if (restTables.length > 0) {
+        await createRemoteAPIDatabase({
+          name: selectedSoap.length > 0 ? `${databaseName} (OData)` : databaseName,
+          fullUrl: `${baseUrl}/${catalog.tenantName}/LN/lnapi/${restTables[0]}`,
+          baseUrl: catalog.baseUrl,
+          tenantName: catalog.tenantName,
+          services: 'LN/lnapi',
+          tables: restTables,
+          tableExpandFields: selectedEntities
+        });
+      }
+
+      if (selectedSoap.length > 0) {
+        await createRemoteAPIDatabase({
+          name: restTables.length > 0 ? `${databaseName} (SOAP)` : databaseName,
+          fullUrl: `${baseUrl}/${catalog.tenantName}/LN/c4ws/services/${selectedSoap[0]}`,
+          baseUrl: catalog.baseUrl,
+          tenantName: catalog.tenantName,
+          services: 'LN/c4ws/services',
+          tables: selectedSoap
+        });
+      }
+
+      onSuccess();
+      onClose();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const matches = (value: string) => value.toLowerCase().includes(search.trim().toLowerCase());
+  const odataServices = catalog?.odataServices.filter(service =>
+    matches(service.name) || (service.title && matches(service.title)) || (entitySets[service.name] || []).some(entitySet => matches(entitySet.name))
+  ) || [];
+  const soapServices = catalog?.soapServices.filter(service => matches(service.name)) || [];
+  const selectedCount = Object.keys(selectedEntities).length + selectedSoap.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="w-[95vw] max-w-3xl sm:w-full bg-[#1a5f7a] border-[#0f3d4f] text-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="bg-[#1a5f7a] px-4 sm:px-6 py-4 -mx-4 sm:-mx-6 -mt-4 sm:-mt-6 mb-4">
+          <DialogTitle className="text-white">Service Catalog</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 px-4 sm:px-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            <div className="space-y-2">
+              <Label className="text-white">Tenant</Label>
+              <Select value={tenantId} onValueChange={loadCatalog}>
+                <SelectTrigger className="bg-[#0f3d4f] border-[#1a5f7a] text-white focus:ring-2 focus:ring-blue-500 text-sm sm:text-base h-10 sm:h-11">
+                  <SelectValue placeholder="Select a tenant" />
+                </SelectTrigger>
+                <SelectContent className="bg-[#1a5f7a] border-[#0f3d4f] text-white">
+                  {tenants.map(tenant => (
+                    <SelectItem key={tenant.id} value={tenant.id} className="text-white hover:bg-[#2a6b83] focus:bg-[#2a6b83]">
+                      {tenant.displayName} ({tenant.tenantName})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="catalog_name" className="text-white">Database Name</Label>
+              <Input
+                id="catalog_name"
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                placeholder="MIDPORT_DEM - Catalog"
+                disabled={!catalog}
+                className="bg-[#0f3d4f] border-[#1a5f7a] text-white placeholder:text-[#8bb3cc] focus:ring-2 focus:ring-blue-500 text-sm sm:text-base h-10 sm:h-11"
+              />
+            </div>
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center gap-2 text-[#8bb3cc] text-sm">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading services from ION...
+            </div>
+          )}
+
+          {catalog && (
+            <>
+              <Input
+                value={search}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+                placeholder="Filter services and entity sets..."
+                className="bg-[#0f3d4f] border-[#1a5f7a] text-white placeholder:text-[#8bb3cc] focus:ring-2 focus:ring-blue-500 text-sm h-10"
+              />
+
+              {catalog.errors.map(error => (
+                <p key={error} className="text-xs text-yellow-200">⚠️ {error}</p>
+              ))}
+
+              <div className="space-y-2">
+                <Label className="text-white">REST (OData) Services ({odataServices.length})</Label>
+                <div className="max-h-72 overflow-y-auto rounded border border-[#0f3d4f] bg-[#0f3d4f]/50">
+                  {odataServices.length === 0 && (
+                    <p className="px-3 py-2 text-xs text-[#8bb3cc]">No OData services found</p>
+                  )}
+                  {odataServices.map(service => (
+                    <div key={service.name} className="border-b border-[#1a5f7a] last:border-b-0">
+                      <button
+                        type="button"
+                        onClick={() => toggleService(service.name)}
+                        className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-[#2a6b83]"
+                      >
+                        {loadingServices.includes(service.name)
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : expandedServices.includes(service.name) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        <span className="font-mono">{service.name}</span>
+                        {service.title && <span className="text-xs text-[#8bb3cc]">{service.title}</span>}
+                      </button>
+
+                      {expandedServices.includes(service.name) && (entitySets[service.name] || []).map(entitySet => {
+                        const table = `${service.name}/${entitySet.name}`;
+                        const expandFields = selectedEntities[table];
+                        return (
+                          <div key={table} className="pl-9 pr-3 py-1">
+                            <label className="flex items-center space-x-2 text-sm">
+                              <input
+                                type="checkbox"
+                                checked={Boolean(expandFields)}
+                                onChange={() => toggleEntity(entitySet)}
+                                className="rounded border-gray-300 bg-gray-50 text-blue-600 focus:ring-2 focus:ring-blue-500 transition-colors"
+                              />
+                              <span className="font-mono">{entitySet.name}</span>
+                              {entitySet.keys.length > 0 && (
+                                <span className="text-xs text-[#8bb3cc]">key: {entitySet.keys.join(', ')}</span>
+                              )}
+                            </label>
+                            {expandFields && entitySet.navigationProperties.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1 ml-6">
+                                {entitySet.navigationProperties.map(field => (
+                                  <button
+                                    key={field}
+                                    type="button"
+                                    onClick={() => toggleExpandField(table, field)}
+                                    className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                                      expandFields.includes(field) ? 'bg-[#2a6b83] text-white' : 'bg-transparent border border-[#2a6b83] text-[#8bb3cc]'
+                                    }`}
+                                    title={expandFields.includes(field) ? 'Expanded by default' : 'Not expanded'}
+                                  >
+                                    {field}
+                                    {expandFields.includes(field) && <X className="inline h-3 w-3 ml-1" />}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-[#8bb3cc]">Expand a service to list its entity sets. Navigation properties are suggested as expand fields.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-white">SOAP Business Interfaces ({soapServices.length})</Label>
+                <div className="max-h-56 overflow-y-auto rounded border border-[#0f3d4f] bg-[#0f3d4f]/50 grid grid-cols-1 sm:grid-cols-2">
+                  {soapServices.length === 0 && (
+                    <p className="px-3 py-2 text-xs text-[#8bb3cc]">No SOAP services found</p>
+                  )}
+                  {soapServices.map(service => (
+                    <label key={service.name} className="flex items-center space-x-2 px-3 py-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selectedSoap.includes(service.name)}
+                        onChange={() => toggleSoap(service.name)}
+                        className="rounded border-gray-300 bg-gray-50 text-blue-600 focus:ring-2 focus:ring-blue-500 transition-colors"
+                      />
+                      <span className="font-mono">{service.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Error Message Display */}
+          {errorMessage && (
+            <div className="bg-red-500/20 border border-red-500/50 text-red-200 px-4 py-3 rounded relative">
+              <strong className="font-bold">Error: </strong>
+              <span className="block sm:inline">{errorMessage}</span>
+            </div>
+          )}
+
+          <DialogFooter className="bg-[#1a5f7a] px-4 sm:px-6 py-4 -mx-4 sm:-mx-6 -mb-4 sm:-mb-6 mt-4">
+            <Button type="button" variant="outline" onClick={onClose} className="border-[#1a5f7a] text-white hover:bg-[#2a6b83] hover:text-white bg-transparent text-sm sm:text-base px-3 sm:px-4 py-2">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || selectedCount === 0} className="bg-[#1a5f7a] hover:bg-[#2a6b83] text-white border border-[#0f3d4f] text-sm sm:text-base px-3 sm:px-4 py-2">
+              {isSaving ? 'Adding...' : `Add ${selectedCount} Table${selectedCount === 1 ? '' : 's'}`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
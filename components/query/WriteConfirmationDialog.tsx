@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Write Confirmation Dialog Component for INSERT/UPDATE/DELETE against remote APIs
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle } from 'lucide-react';
+import type { WriteRequestPreview } from '@/Entities/RemoteAPI';
+
+/**
+ * Props interface for WriteConfirmationDialog component
+ * @interface WriteConfirmationDialogProps
+ */
+interface WriteConfirmationDialogProps {
+  /** Dry-run preview of the pending write, or null when nothing is pending */
+  preview: WriteRequestPreview | null;
+  /** Target table name */
+  table: string;
+  /** Function to call when the write is confirmed */
+  onConfirm: () => void;
+  /** Function to call when the write is cancelled */
+  onCancel: () => void;
+}
+
+/**
+ * Formats a JSON body for display; SOAP envelopes are shown as is
+ * @private
+ */
+const formatBody = (body: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * Dialog asking for confirmation before an INSERT, UPDATE or DELETE is sent to ION
+ * Shows the dry-run preview: HTTP method or SOAP action, target URL and request body
+ * @component WriteConfirmationDialog
+ * @param {WriteConfirmationDialogProps} props - Component props
+ * @returns {JSX.Element} Confirmation dialog with the request preview
+ */
+export default function WriteConfirmationDialog({ preview, table, onConfirm, onCancel }: WriteConfirmationDialogProps) {
+  if (!preview) return null;
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent className="w-[90vw] max-w-2xl bg-[#1a5f7a] border-[#0f3d4f] text-white max-h-[80vh] overflow-y-auto">
+        <DialogHeader className="bg-[#1a5f7a] px-4 py-4 -mx-4 -mt-4 mb-4">
+          <DialogTitle className="text-white flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-400" />
+            Confirm {preview.statement.toUpperCase()} on {table}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 px-4">
+          <p className="text-sm text-yellow-200">
+            This request changes data in ION. Review the dry-run preview below before sending it.
+          </p>
+
+          <div className="space-y-2">
+            <Label className="text-white">Request</Label>
+            <div className="bg-[#0f3d4f] p-3 rounded border border-[#1a5f7a]">
+              <p className="text-sm text-gray-300">
+                <strong>Method:</strong> {preview.method}
+              </p>
+              <p className="text-sm text-gray-300 break-all">
+                <strong>URL:</strong> {decodeURIComponent(preview.url)}
+              </p>
+            </div>
+          </div>
+
+          {preview.body && (
+            <div className="space-y-2">
+              <Label className="text-white">Body</Label>
+              <pre className="bg-[#0f3d4f] p-3 rounded border border-[#1a5f7a] text-xs text-gray-200 font-mono whitespace-pre-wrap break-all">
+                {formatBody(preview.body)}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="bg-[#1a5f7a] px-4 py-4 -mx-4 -mb-4 mt-4">
+          <Button
+            type="button"
+            onClick={onCancel}
+            className="bg-[#1a5f7a] hover:bg-[#2a6b83] text-white border border-[#0f3d4f]"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={onConfirm}
+            className="bg-red-600 hover:bg-red-700 text-white border border-red-500"
+          >
+            Confirm {preview.statement.toUpperCase()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,329 @@
+/**
+ * @fileoverview Tenant-scoped API keys for machine clients of the API Gateway
+ * Keys are generated here, handed to the client once and only stored as a SHA-256
+ * hash in midport_query_platform.db. The gateway accepts them in the
+ * `Authorization: Bearer <key>` or `X-API-Key` header, next to the browser session.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { SQLiteManager } from './sqlite';
+import { IONAPIError } from './utils/IONErrorParser';
+import { logApiKeyRejected } from './utils/audit-logger';
+import type { GatewayApiKey, GatewayApiKeyScope, GatewayApiKeySecret, GatewayPrincipal } from '@/Entities/Gateway';
+import type { RemoteAPITable } from '@/Entities/RemoteAPI';
+
+/**
+ * API key management and gateway authentication
+ *
+ * @example
+ * const principal = await ApiKeyManager.authenticateGatewayRequest(request);
+ * ApiKeyManager.authorize(principal, { tenant: 'MIDPORT_DEM', tables: ['Orders'], scope: 'read' });
+ */
+export class ApiKeyManager {
+  /** Prefix of every key, so leaked keys are easy to recognize */
+  private static readonly KEY_PREFIX = 'mqk_';
+
+  /** Number of characters of the key stored in clear to identify it */
+  private static readonly DISPLAY_PREFIX_LENGTH = 12;
+
+  /**
+   * Creates an API key
+   * @static
+   * @async
+   * @param {Object} data - Key details
+   * @param {string} data.tenant - Tenant the key can query
+   * @param {string} data.name - Display name
+   * @param {string[]} data.allowedTables - Tables/entities the key may query ('*' for all)
+   * @param {GatewayApiKeyScope} data.scope - 'read' or 'write'
+   * @param {string | null} data.expiresAt - Expiry (ISO), null for none
+   * @param {string} data.createdBy - Username of the creating admin
+   * @returns {Promise<GatewayApiKeySecret>} Stored key and the plaintext key (only returned here)
+   */
+  static async create(data: { tenant: string; name: string; allowedTables: string[]; scope: GatewayApiKeyScope; expiresAt: string | null; createdBy: string }): Promise<GatewayApiKeySecret> {
+    const key = this.generateKey();
+    const apiKey = await SQLiteManager.createGatewayApiKey({
+      tenantName: data.tenant,
+      name: data.name,
+      keyPrefix: key.slice(0, this.DISPLAY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      allowedTables: data.allowedTables,
+      scope: data.scope,
+      createdBy: data.createdBy,
+      expiresAt: data.expiresAt
+    });
+    console.log(`🔑 API key created: ${apiKey.tenant}/${apiKey.name} (${apiKey.keyPrefix}…)`);
+    return { apiKey, key };
+  }
+
+  /**
+   * Replaces the secret of a key, keeping its tenant, tables, scope and expiry
+   * The old key stops working immediately.
+   * @static
+   * @async
+   * @param {number} id - Key ID
+   * @returns {Promise<GatewayApiKeySecret | null>} Key and new plaintext key, or null when missing or revoked
+   */
+  static async rotate(id: number): Promise<GatewayApiKeySecret | null> {
+    const key = this.generateKey();
+    const updated = await SQLiteManager.updateGatewayApiKeySecret(id, key.slice(0, this.DISPLAY_PREFIX_LENGTH), this.hashKey(key));
+    const apiKey = updated ? await SQLiteManager.getGatewayApiKeyById(id) : null;
+    if (!apiKey) {
+      return null;
+    }
+    console.log(`🔑 API key rotated: ${apiKey.tenant}/${apiKey.name} (${apiKey.keyPrefix}…)`);
+    return { apiKey, key };
+  }
+
+  /**
+   * Revokes a key
+   * @static
+   * @async
+   * @param {number} id - Key ID
+   * @returns {Promise<boolean>} True if the key was revoked (false when missing or already revoked)
+   */
+  static async revoke(id: number): Promise<boolean> {
+    return SQLiteManager.revokeGatewayApiKey(id);
+  }
+
+  /**
+   * Reads the API key of a request from `X-API-Key` or `Authorization: Bearer`
+   * @static
+   * @param {Headers} headers - Request headers
+   * @returns {string | null} Presented key, or null when the request carries none
+   */
+  static extractKey(headers: Headers): string | null {
+    const headerKey = headers.get('x-api-key')?.trim();
+    if (headerKey) {
+      return headerKey;
+    }
+    const match = /^Bearer\s+(\S+)$/i.exec(headers.get('authorization')?.trim() || '');
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Authenticates a gateway request by API key, or else by the NextAuth session cookie
+   * @static
+   * @async
+   * @param {Request} request - Incoming request
+   * @returns {Promise<GatewayPrincipal>} Authenticated caller
+   * @throws {IONAPIError} UNAUTHORIZED when no valid key or session is present
+   */
+  static async authenticateGatewayRequest(request: Request): Promise<GatewayPrincipal> {
+    const key = this.extractKey(request.headers);
+    if (key) {
+      const apiKey = await this.verify(key, this.getClientIp(request));
+      return { type: 'api_key', username: `apikey:${apiKey.name}`, tenant: apiKey.tenant, roles: [], apiKey };
+    }
+
+    const { auth } = await import('@/app/auth');
+    const session = await auth();
+    if (!session?.user) {
+      throw this.authError('UNAUTHORIZED', 'Authentication required: sign in or send an API key in the Authorization (Bearer) or X-API-Key header');
+    }
+    return {
+      type: 'session',
+      username: session.user.username || session.user.name || '',
+      tenant: session.user.tenant || '',
+      roles: session.user.roles || []
+    };
+  }
+
+  /**
+   * Checks that an API key caller may run a query; session callers are not restricted
+   * @static
+   * @param {GatewayPrincipal} principal - Authenticated caller
+   * @param {Object} access - Requested access
+   * @param {string} access.tenant - Queried tenant
+   * @param {string[]} access.tables - Queried tables or entities; every one must be allowed
+   * @param {GatewayApiKeyScope} access.scope - 'read' for queries, 'write' for INSERT/UPDATE/DELETE
+   * @throws {IONAPIError} FORBIDDEN when the key does not cover the tenant, table or scope
+   */
+  static authorize(principal: GatewayPrincipal, access: { tenant: string; tables: string[]; scope: GatewayApiKeyScope }): void {
+    const apiKey = principal.apiKey;
+    if (!apiKey) {
+      return;
+    }
+
+    let reason: string | null = null;
+    if (access.tenant.toUpperCase() !== apiKey.tenant.toUpperCase()) {
+      reason = `API key is not valid for tenant ${access.tenant}`;
+    } else if (!this.isTableAllowed(apiKey, access.tables)) {
+      const denied = access.tables.find(table => table && !this.isTableAllowed(apiKey, [table]));
+      reason = `API key does not allow table ${denied || ''}`.trim();
+    } else if (access.scope === 'write' && apiKey.scope !== 'write') {
+      reason = 'API key is read-only';
+    }
+
+    if (reason) {
+      logApiKeyRejected(apiKey.keyPrefix, access.tenant, reason);
+      throw this.authError('FORBIDDEN', reason);
+    }
+  }
+
+  /**
+   * Whether every queried table is on the allow-list of a key (case-insensitive)
+   * @static
+   * @param {GatewayApiKey} apiKey - API key
+   * @param {string[]} tables - Queried tables or entities (empty names are ignored)
+   * @returns {boolean} True if all are allowed
+   */
+  static isTableAllowed(apiKey: GatewayApiKey, tables: string[]): boolean {
+    const allowed = apiKey.allowedTables.map(table => table.toLowerCase());
+    const queried = tables.filter(Boolean);
+    return allowed.includes('*') || (queried.length > 0 && queried.every(table => allowed.includes(table.toLowerCase())));
+  }
+
+  /**
+   * Whether a key may query a registered table: its entity (REST) or its service (SOAP)
+   * @static
+   * @param {GatewayApiKey} apiKey - API key
+   * @param {RemoteAPITable} table - Registered table
+   * @returns {boolean} True if allowed
+   */
+  static isRegisteredTableAllowed(apiKey: GatewayApiKey, table: RemoteAPITable): boolean {
+    return this.isTableAllowed(apiKey, [table.apiType === 'rest' ? table.entityName || table.name : table.name]);
+  }
+
+  /**
+   * Checks that an API key caller queries a registered table as it is registered:
+   * the client may not redirect it to another API type, OData service or entity
+   * @static
+   * @param {GatewayPrincipal} principal - Authenticated caller
+   * @param {RemoteAPITable | null} registered - Registered definition of the requested table
+   * @param {Object} requested - Overrides sent by the client (apiType, service, entity)
+   * @throws {IONAPIError} FORBIDDEN when the table is not registered or an override differs
+   */
+  static authorizeTarget(
+    principal: GatewayPrincipal,
+    registered: RemoteAPITable | null,
+    requested: { tenant: string; table: string; apiType?: string | null; service?: string | null; entity?: string | null }
+  ): void {
+    const apiKey = principal.apiKey;
+    if (!apiKey) {
+      return;
+    }
+
+    let reason: string | null = null;
+    if (requested.tenant.toUpperCase() !== apiKey.tenant.toUpperCase()) {
+      reason = `API key is not valid for tenant ${requested.tenant}`;
+    } else if (!registered) {
+      reason = `API keys can only query registered tables; ${requested.table} is not registered`;
+    } else {
+      const overrides: Array<[string, string | null | undefined, string | undefined]> = [
+        ['apiType', requested.apiType, registered.apiType],
+        ['service', requested.service, registered.oDataService],
+        ['entity', requested.entity, registered.entityName],
+      ];
+      const changed = overrides.find(([, value, expected]) => value && value.toLowerCase() !== (expected || '').toLowerCase());
+      if (changed) {
+        reason = `API keys cannot override the ${changed[0]} of table ${registered.name}`;
+      }
+    }
+
+    if (reason) {
+      logApiKeyRejected(apiKey.keyPrefix, requested.tenant, reason);
+      throw this.authError('FORBIDDEN', reason);
+    }
+  }
+
+  /**
+   * Checks the navigation properties an API key caller expands in a REST query ($expand, JOINs)
+   * Top-level ones must be expand fields configured for the registered table or on the
+   * key's allow-list; nested ones must be on the allow-list.
+   * @static
+   * @param {GatewayPrincipal} principal - Authenticated caller
+   * @param {Object} access - Queried table, its configured expand fields and the expanded navigation properties
+   * @throws {IONAPIError} FORBIDDEN when a navigation property is not allowed
+   */
+  static authorizeExpand(
+    principal: GatewayPrincipal,
+    access: { tenant: string; table: string; expandFields: string[]; expanded: string[]; nested: string[] }
+  ): void {
+    const apiKey = principal.apiKey;
+    if (!apiKey) {
+      return;
+    }
+
+    const configured = access.expandFields.map(name => name.toLowerCase());
+    const denied = access.expanded.find(name => !configured.includes(name.toLowerCase()) && !this.isTableAllowed(apiKey, [name]))
+      ?? access.nested.find(name => !this.isTableAllowed(apiKey, [name]));
+
+    if (denied !== undefined) {
+      const reason = `API key is not allowed to expand ${denied} of table ${access.table}`;
+      logApiKeyRejected(apiKey.keyPrefix, access.tenant, reason);
+      throw this.authError('FORBIDDEN', reason);
+    }
+  }
+
+  /**
+   * Looks up a presented key and records its use
+   * @private
+   * @static
+   * @async
+   * @throws {IONAPIError} UNAUTHORIZED when the key is unknown, revoked or expired
+   */
+  private static async verify(key: string, ipAddress?: string): Promise<GatewayApiKey> {
+    const keyPrefix = key.slice(0, this.DISPLAY_PREFIX_LENGTH);
+    const apiKey = key.startsWith(this.KEY_PREFIX) ? await SQLiteManager.getGatewayApiKeyByHash(this.hashKey(key)) : null;
+
+    let reason: string | null = null;
+    if (!apiKey) {
+      reason = 'Invalid API key';
+    } else if (apiKey.revokedAt) {
+      reason = 'API key has been revoked';
+    } else if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) {
+      reason = 'API key has expired';
+    }
+
+    if (!apiKey || reason) {
+      logApiKeyRejected(keyPrefix, apiKey?.tenant || 'unknown', reason || 'Invalid API key', ipAddress);
+      throw this.authError('UNAUTHORIZED', reason || 'Invalid API key');
+    }
+
+    const usedAt = new Date().toISOString();
+    await SQLiteManager.touchGatewayApiKey(apiKey.id, usedAt).catch(error => {
+      console.warn('⚠️ API key last-used timestamp could not be saved:', error);
+    });
+    return { ...apiKey, lastUsedAt: usedAt };
+  }
+
+  /**
+   * Generates a new random key (mqk_ + 32 random bytes, base64url)
+   * @private
+   * @static
+   */
+  private static generateKey(): string {
+    return `${this.KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  }
+
+  /**
+   * SHA-256 hash of a key, as stored in the database
+   * Keys are random, so an unsalted fast hash is sufficient
+   * @private
+   * @static
+   */
+  private static hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Client IP address for the audit log
+   * @private
+   * @static
+   */
+  private static getClientIp(request: Request): string | undefined {
+    return request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined;
+  }
+
+  /**
+   * Authentication/authorization error in the gateway error format
+   * @private
+   * @static
+   */
+  private static authError(code: 'UNAUTHORIZED' | 'FORBIDDEN', message: string): IONAPIError {
+    return new IONAPIError({ category: 'auth', code, message });
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Shared HTTP client for ION API calls (OData REST and SOAP)
+ * Adds a per-attempt timeout, retries with exponential backoff and jitter (honouring
+ * Retry-After), and one token re-acquisition when ION answers 401. Requests that are
+ * not idempotent (POST, PATCH, SOAP Create/Change/Delete) are only retried when ION
+ * certainly did not process them: 429 throttling, 401 and refused connections.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { OAuth2ConfigManager } from './OAuth2ConfigManager';
+import { TenantConfigManager } from './TenantConfigManager';
+import type { StoredOAuth2Token } from '@/Entities/RemoteAPI';
+
+/**
+ * Options of one ION request
+ * @interface IONRequestOptions
+ */
+export interface IONRequestOptions {
+  /** Tenant name; on 401 a new token is acquired once for this tenant and the request resent */
+  tenant?: string;
+  /** Whether the request may be repeated after it could have reached ION (default: GET, HEAD, OPTIONS, PUT, DELETE) */
+  idempotent?: boolean;
+  /** Timeout of each attempt in milliseconds (default ION_HTTP_TIMEOUT_MS or 30000) */
+  timeoutMs?: number;
+  /** Retries after the first attempt (default ION_HTTP_MAX_RETRIES or 3) */
+  maxRetries?: number;
+  /** Signal of the caller; aborting it stops the request and any further retries */
+  signal?: AbortSignal;
+  /** Called with the new token after a 401 re-acquisition, so later requests can use it */
+  onTokenRefresh?: (token: StoredOAuth2Token) => void;
+}
+
+/**
+ * Reads a numeric environment setting; an empty or invalid value gives the default
+ * @private
+ */
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && process.env[name] !== '' && Number.isFinite(value) ? value : fallback;
+};
+
+/**
+ * HTTP client for ION API requests
+ *
+ * @example
+ * const response = await IONHttpClient.fetch(url, { method: 'GET', headers }, { tenant: 'MIDPORT_DEM' });
+ * if (!response.ok) { ... } // the last response is returned once retries are exhausted
+ */
+export class IONHttpClient {
+  private static readonly DEFAULT_TIMEOUT_MS = envNumber('ION_HTTP_TIMEOUT_MS', 30000);
+  private static readonly DEFAULT_MAX_RETRIES = envNumber('ION_HTTP_MAX_RETRIES', 3);
+  private static readonly RETRY_BASE_DELAY_MS = envNumber('ION_HTTP_RETRY_BASE_MS', 500);
+  private static readonly RETRY_MAX_DELAY_MS = envNumber('ION_HTTP_RETRY_MAX_MS', 30000);
+
+  /** Statuses worth retrying: request timeout, throttling and gateway/availability errors */
+  private static readonly RETRYABLE_STATUS = new Set([408, 429, 502, 503, 504]);
+
+  /** Methods that can be repeated without side effects beyond the first call */
+  private static readonly IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+  /** Connection errors raised before the request was sent */
+  private static readonly NOT_SENT_ERRORS = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT']);
+
+  /**
+   * Sends a request to ION with timeout, retries and 401 token re-acquisition
+   * @static
+   * @async
+   * @param {string} url - Request URL
+   * @param {RequestInit} init - Request (the body must be a string so it can be resent)
+   * @param {IONRequestOptions} [options] - Retry, timeout and token options
+   * @returns {Promise<Response>} Response of the last attempt (may be an error status)
+   * @throws {Error} TimeoutError when the last attempt timed out, AbortError when the caller aborted,
+   *   or the network error of the last attempt
+   */
+  static async fetch(url: string, init: RequestInit, options: IONRequestOptions = {}): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    const idempotent = options.idempotent ?? this.IDEMPOTENT_METHODS.has(method);
+    const maxRetries = Math.max(0, options.maxRetries ?? this.DEFAULT_MAX_RETRIES);
+    const timeoutMs = options.timeoutMs ?? this.DEFAULT_TIMEOUT_MS;
+
+    let headers = new Headers(init.headers);
+    let tokenRefreshed = false;
+    let attempt = 0;
+
+    while (true) {
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, { ...init, headers }, timeoutMs, options.signal);
+      } catch (error) {
+        if (options.signal?.aborted || attempt >= maxRetries || !this.canRetryError(error, idempotent)) {
+          throw error;
+        }
+        attempt++;
+        const delay = this.backoffDelay(attempt);
+        console.warn(`🔁 ION ${method} ${url} failed (${error instanceof Error ? error.message : String(error)}), retry ${attempt}/${maxRetries} in ${delay}ms`);
+        await this.sleep(delay, options.signal);
+        continue;
+      }
+
+      // 401: the token was rejected (revoked or expired early) and ION did not process the request
+      if (response.status === 401 && options.tenant && !tokenRefreshed) {
+        tokenRefreshed = true;
+        const token = await this.reacquireToken(options.tenant);
+        if (token) {
+          console.warn(`🔑 ION ${method} ${url} returned 401, resending with a new token for ${options.tenant}`);
+          headers = new Headers(headers);
+          headers.set('Authorization', OAuth2ConfigManager.getAuthorizationHeader(token));
+          options.onTokenRefresh?.(token);
+          // Release the connection of the rejected response
+          await response.body?.cancel().catch(() => undefined);
+          continue;
+        }
+        return response;
+      }
+
+      // 429 means the gateway rejected the request, so even non-idempotent requests can be resent
+      const retryable = this.RETRYABLE_STATUS.has(response.status) && (idempotent || response.status === 429);
+      if (!retryable || attempt >= maxRetries) {
+        return response;
+      }
+
+      const retryAfterMs = this.parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfterMs !== undefined && retryAfterMs > this.RETRY_MAX_DELAY_MS) {
+        // Waiting longer than allowed; let the caller report the throttling
+        return response;
+      }
+
+      attempt++;
+      const delay = retryAfterMs ?? this.backoffDelay(attempt);
+      console.warn(`🔁 ION ${method} ${url} returned ${response.status}, retry ${attempt}/${maxRetries} in ${delay}ms`);
+
+      // Release the connection of the discarded response
+      await response.body?.cancel().catch(() => undefined);
+      await this.sleep(delay, options.signal);
+    }
+  }
+
+  /**
+   * Sends one attempt; the timeout aborts it with a TimeoutError
+   * The timeout only covers the wait for the response headers, while the caller signal
+   * stays linked to the response so aborting it also stops reading a large body
+   * @private
+   * @static
+   */
+  private static async fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      const requestSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+      return await fetch(url, { ...init, signal: requestSignal });
+    } catch (error) {
+      if (timedOut && !signal?.aborted) {
+        const timeoutError = new Error(`No response from ION within ${timeoutMs}ms`);
+        timeoutError.name = 'TimeoutError';
+        throw timeoutError;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Whether a failed attempt may be repeated
+   * Timeouts and dropped connections may have reached ION, so only idempotent
+   * requests are repeated; refused connections never reached it
+   * @private
+   * @static
+   */
+  private static canRetryError(error: unknown, idempotent: boolean): boolean {
+    if (!(error instanceof Error) || error.name === 'AbortError') {
+      return false;
+    }
+    const code = (error as Error & { cause?: { code?: string } }).cause?.code;
+    if (code && this.NOT_SENT_ERRORS.has(code)) {
+      return true;
+    }
+    return idempotent && (error.name === 'TimeoutError' || (error instanceof TypeError && error.message === 'fetch failed'));
+  }
+
+  /**
+   * Acquires a new token for the tenant, bypassing the cached one
+   * @private
+   * @static
+   * @async
+   */
+  private static async reacquireToken(tenant: string): Promise<StoredOAuth2Token | null> {
+    try {
+      const tenantConfig = await TenantConfigManager.getTenantByName(tenant);
+      if (!tenantConfig) {
+        return null;
+      }
+      return await OAuth2ConfigManager.getValidTokenForTenant(tenantConfig.id, { forceRefresh: true });
+    } catch (error) {
+      console.warn(`⚠️ Token re-acquisition for ${tenant} failed:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter: half the delay is fixed, the other half random
+   * @private
+   * @static
+   */
+  private static backoffDelay(attempt: number): number {
+    const delay = Math.min(this.RETRY_MAX_DELAY_MS, this.RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
+
+  /**
+   * Retry-After in milliseconds (delta seconds or HTTP date)
+   * @private
+   * @static
+   */
+  private static parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    if (/^\d+$/.test(value.trim())) return Number(value.trim()) * 1000;
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Waits before the next attempt; aborting the signal ends the wait with an AbortError
+   * @private
+   * @static
+   */
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('The operation was aborted', 'AbortError'));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted', 'AbortError'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -271,6 +271,15 @@ Missing variables: ${missingVars.join(', ')}`;
     return `${token.tokenType} ${token.accessToken}`;
   }
 
+  /**
+   * Get authorization header with the access token masked (EXPLAIN output)
+   * @static
+   * @returns {string} Redacted authorization header value
+   */
+  static getRedactedAuthorizationHeader(): string {
+    return 'Bearer ********';
+  }
+
   /**
    * Refresh an expired token
    * @static
@@ -346,13 +355,15 @@ Missing variables: ${missingVars.join(', ')}`;
    * @static
    * @async
    * @param {string} tenantId - Tenant identifier
+   * @param {Object} [options] - Token options
+   * @param {boolean} [options.forceRefresh] - Ignore the cached token and request a new one (e.g. after ION answered 401)
    * @returns {Promise<StoredOAuth2Token>} Valid token
    * @throws {Error} If tenant not found or token acquisition fails
    */
-  static async getValidTokenForTenant(tenantId: string): Promise<StoredOAuth2Token> {
+  static async getValidTokenForTenant(tenantId: string, options: { forceRefresh?: boolean } = {}): Promise<StoredOAuth2Token> {
     try {
       // Try to get cached token first
-      const cachedToken = await TenantConfigManager.getCachedToken(tenantId);
+      const cachedToken = options.forceRefresh ? null : await TenantConfigManager.getCachedToken(tenantId);
       
       // Load tenant configuration
       const config = await this.loadConfigFromTenant(tenantId);
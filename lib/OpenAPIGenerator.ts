@@ -0,0 +1,703 @@
+/**
+ * @fileoverview OpenAPI 3.1 document for the API Gateway
+ * Describes the generic gateway operations, one path per table registered for a tenant
+ * (remote API databases in SQLiteManager) with typed filter parameters and record schemas
+ * taken from the table schemas ($metadata for OData, WSDL for SOAP), and one path per
+ * saved query with its declared parameters.
+ * Served by GET /api/gateway/openapi.json and rendered by the API Explorer page.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { UnifiedAPIManager } from './UnifiedAPIManager';
+import { ApiKeyManager } from './ApiKeyManager';
+import { SavedQueryManager } from './SavedQueryManager';
+import { SchemaExtractor, type FieldSchema, type TableSchema } from './utils/SchemaExtractor';
+import type { RemoteAPITable } from '@/Entities/RemoteAPI';
+import type {
+  GatewayApiKey,
+  OpenAPIDocument,
+  OpenAPIOperation,
+  OpenAPIParameter,
+  OpenAPISchema,
+  SavedQuery,
+  SavedQueryParameter
+} from '@/Entities/Gateway';
+
+/**
+ * OpenAPI document generator for the API Gateway
+ *
+ * @example
+ * const document = await OpenAPIGenerator.generate({ tenant: 'MIDPORT_DEM', serverUrl: 'https://query.example.com' });
+ * // document.paths['/api/gateway/tables/Orders'].get.parameters → tenant, select, ..., OrderDate, OrderDate_gt, ...
+ */
+export class OpenAPIGenerator {
+  /** Gateway version reported in info.version (same as the X-Gateway-Version header) */
+  private static readonly VERSION = '1.0.0';
+
+  /** Query parameters of the gateway itself; fields with these names get no filter parameter */
+  private static readonly RESERVED_PARAMETERS = ['tenant', 'table', 'apiType', 'type', 'service', 'entity', 'action', 'expand', 'select', 'orderby', 'limit', 'offset'];
+
+  /** Field types that can be compared with _gt, _ge, _lt and _le */
+  private static readonly ORDERED_TYPES = ['number', 'date', 'datetime'];
+
+  /** Error codes of APIGatewayErrorCode */
+  private static readonly ERROR_CODES = [
+    'BAD_REQUEST', 'TENANT_NOT_FOUND', 'UNAUTHORIZED', 'FORBIDDEN', 'NOT_FOUND', 'CONFLICT', 'RATE_LIMITED',
+    'UPSTREAM_UNAVAILABLE', 'UPSTREAM_TIMEOUT', 'ODATA_ERROR', 'SOAP_FAULT', 'VALIDATION_ERROR',
+    'PARSE_ERROR', 'CANCELLED', 'INTERNAL_ERROR'
+  ];
+
+  /**
+   * Generates the OpenAPI document of a tenant
+   * Table schemas come from UnifiedAPIManager.getTableSchema() ($metadata and WSDL are cached);
+   * tables whose schema cannot be loaded are described as free-form records.
+   * @static
+   * @async
+   * @param {Object} options - Generation options
+   * @param {string} options.tenant - Tenant whose registered tables are described
+   * @param {string} options.serverUrl - Origin of the gateway (servers[0].url)
+   * @param {GatewayApiKey} [options.apiKey] - API key of the caller; only its allow-listed tables are described
+   * @returns {Promise<OpenAPIDocument>} OpenAPI 3.1 document
+   */
+  static async generate(options: { tenant: string; serverUrl: string; apiKey?: GatewayApiKey }): Promise<OpenAPIDocument> {
+    const registered = await UnifiedAPIManager.getRegisteredTables(options.tenant);
+    const tables = registered.filter(table =>
+      !options.apiKey || ApiKeyManager.isRegisteredTableAllowed(options.apiKey, table)
+    );
+
+    const document: OpenAPIDocument = {
+      openapi: '3.1.0',
+      info: {
+        title: `Midport API Gateway (${options.tenant})`,
+        version: this.VERSION,
+        description: [
+          `Infor LN ION APIs of tenant ${options.tenant} through the Midport API Gateway.`,
+          '',
+          'Every registered table has its own path with typed filter parameters (`Field=value`, `Field_gt=...`).',
+          'Any other table can be queried with `GET /api/gateway` (query string) or `POST /api/gateway` (SQL or JSON filter tree).',
+          'Saved queries are published under `/api/gateway/queries/<slug>` with their own typed parameters.',
+          '',
+          'Authenticate with a tenant-scoped API key (Admin Panel → API Keys) or a browser session.',
+          'Responses carry RateLimit-* headers; exceeding a limit is answered with 429 and Retry-After.'
+        ].join('\n')
+      },
+      servers: [{ url: options.serverUrl, description: 'Midport Query Platform' }],
+      tags: [{ name: 'Gateway', description: 'Queries for any table of the tenant' }],
+      paths: {
+        '/api/gateway': {
+          get: this.genericGetOperation(options.tenant),
+          post: this.genericPostOperation(options.tenant)
+        }
+      },
+      components: {
+        schemas: this.baseSchemas(),
+        responses: this.errorResponses(),
+        securitySchemes: this.securitySchemes()
+      },
+      security: [{ bearerAuth: [] }, { apiKeyHeader: [] }, { sessionCookie: [] }]
+    };
+
+    // One table at a time: uncached $metadata / WSDL documents are fetched from ION
+    const schemaNames = new Map<string, string>();
+    for (const table of tables) {
+      const path = `/api/gateway/tables/${encodeURIComponent(table.name)}`;
+      if (document.paths[path]) {
+        continue;
+      }
+
+      const schema = await this.loadTableSchema(options.tenant, table);
+      const schemaName = this.uniqueSchemaName(table.name, document.components.schemas);
+      document.components.schemas[schemaName] = this.recordSchema(table, schema);
+
+      const tag = table.apiType === 'rest' ? table.oDataService || 'OData' : 'SOAP';
+      if (!document.tags.some(existing => existing.name === tag)) {
+        document.tags.push({ name: tag, description: table.apiType === 'rest' ? `OData service ${tag}` : 'SOAP business interfaces' });
+      }
+
+      document.paths[path] = { get: this.tableOperation(options.tenant, table, schema, schemaName, tag) };
+      schemaNames.set(table.name, schemaName);
+    }
+
+    // Saved queries of the described tables (API keys only see those of their tables)
+    const savedQueries = (await SavedQueryManager.list(options.tenant)).filter(query => tables.some(table => table.name === query.table));
+    if (savedQueries.length > 0) {
+      document.tags.push({ name: 'Saved Queries', description: 'Saved SQL queries with named parameters' });
+    }
+    for (const query of savedQueries) {
+      document.paths[`/api/gateway/queries/${query.slug}`] = { get: this.savedQueryOperation(query, schemaNames.get(query.table)) };
+    }
+
+    return document;
+  }
+
+  /**
+   * Loads the schema of a registered table, or null when it is unavailable
+   * @private
+   * @static
+   * @async
+   */
+  private static async loadTableSchema(tenant: string, table: RemoteAPITable): Promise<TableSchema | null> {
+    try {
+      return await UnifiedAPIManager.getTableSchema(tenant, table.name);
+    } catch (error) {
+      console.warn(`⚠️ OpenAPI: schema of ${tenant}/${table.name} unavailable:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * GET operation of a registered table
+   * @private
+   * @static
+   */
+  private static tableOperation(tenant: string, table: RemoteAPITable, schema: TableSchema | null, schemaName: string, tag: string): OpenAPIOperation {
+    const filterable = (schema?.fields || []).filter(field =>
+      !['array', 'object'].includes(field.dataType) && !this.RESERVED_PARAMETERS.includes(field.fieldName)
+    );
+
+    const parameters: OpenAPIParameter[] = [
+      this.tenantParameter(tenant),
+      ...this.queryOptionParameters(table.apiType === 'rest', (table.expandFields || []).map(field => field.name))
+    ];
+    for (const field of filterable) {
+      parameters.push(...this.filterParameters(field));
+    }
+
+    const source = table.apiType === 'rest'
+      ? `OData entity set \`${table.oDataService}/${table.entityName}\``
+      : `SOAP business interface \`${table.endpoint}\``;
+
+    return {
+      operationId: `query_${schemaName}`,
+      summary: `Query ${table.name}`,
+      description: [
+        `Records of the ${source}.`,
+        schema ? `Fields from the ${schema.source === 'wsdl' ? 'WSDL' : schema.source === 'metadata' ? '$metadata document' : 'sampled records'}.` : 'The schema of this table is unavailable; records are returned as free-form objects.',
+        'Filter parameters are combined with AND; use POST /api/gateway for OR, IN, BETWEEN, LIKE and null checks.'
+      ].join(' '),
+      tags: [tag],
+      parameters,
+      responses: {
+        '200': this.recordsResponse(table.name, schemaName),
+        '304': { description: 'Not modified (If-None-Match matched the ETag of a cached result)' },
+        '400': { $ref: '#/components/responses/BadRequest' },
+        '401': { $ref: '#/components/responses/Unauthorized' },
+        '403': { $ref: '#/components/responses/Forbidden' },
+        '404': { $ref: '#/components/responses/TenantNotFound' },
+        '429': { $ref: '#/components/responses/TooManyRequests' },
+        default: { $ref: '#/components/responses/GatewayError' }
+      }
+    };
+  }
+
+  /**
+   * GET operation of a saved query
+   * @private
+   * @static
+   */
+  private static savedQueryOperation(query: SavedQuery, schemaName?: string): OpenAPIOperation {
+    const parameters: OpenAPIParameter[] = query.parameters.map(parameter => ({
+      name: parameter.name,
+      in: 'query',
+      required: parameter.required && parameter.defaultValue === undefined,
+      description: parameter.description || `${parameter.type} parameter`,
+      schema: this.savedQueryParameterSchema(parameter)
+    }));
+    parameters.push(
+      { name: 'limit', in: 'query', description: 'Maximum number of records', schema: { type: 'integer', minimum: 1, default: 15 } },
+      { name: 'offset', in: 'query', description: 'Number of records to skip', schema: { type: 'integer', minimum: 0 } },
+      { name: 'fetchAll', in: 'query', description: 'Fetch every page', schema: { type: 'boolean' } }
+    );
+
+    const responses = this.genericResponses();
+    if (schemaName) {
+      responses['200'] = this.recordsResponse(query.table, schemaName);
+    }
+    responses['404'] = {
+      description: 'Saved query or tenant not found',
+      content: {
+        'application/json': {
+          schema: { type: 'object', properties: { success: { const: false }, error: { type: 'string' }, hint: { type: 'string' } } }
+        }
+      }
+    };
+
+    return {
+      operationId: `savedQuery_${query.slug.replace(/-/g, '_')}`,
+      summary: query.name,
+      description: [
+        query.description,
+        `Saved query on ${query.table}: \`${query.sql}\``,
+        'Parameters are type-checked; missing, invalid and unknown ones are answered with 400 VALIDATION_ERROR.'
+      ].filter(Boolean).join('\n\n'),
+      tags: ['Saved Queries'],
+      parameters,
+      responses
+    };
+  }
+
+  /**
+   * 200 response with the typed records of a table
+   * @private
+   * @static
+   */
+  private static recordsResponse(tableName: string, schemaName: string): OpenAPISchema {
+    return {
+      description: `Records of ${tableName}`,
+      headers: this.rateLimitHeaders(),
+      content: {
+        'application/json': {
+          schema: {
+            allOf: [
+              { $ref: '#/components/schemas/APIGatewayResponse' },
+              {
+                type: 'object',
+                properties: {
+                  data: {
+                    type: 'object',
+                    properties: {
+                      records: { type: 'array', items: { $ref: `#/components/schemas/${schemaName}` } },
+                      recordCount: { type: 'integer' }
+                    }
+                  }
+                }
+              }
+            ]
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * JSON Schema of a saved query parameter
+   * @private
+   * @static
+   */
+  private static savedQueryParameterSchema(parameter: SavedQueryParameter): OpenAPISchema {
+    const schema: OpenAPISchema = {
+      string: { type: 'string' },
+      number: { type: 'number' },
+      boolean: { type: 'boolean' },
+      date: { type: 'string', format: 'date' },
+      datetime: { type: 'string', format: 'date-time' },
+      guid: { type: 'string', format: 'uuid' }
+    }[parameter.type];
+    return parameter.defaultValue === undefined ? schema : { ...schema, default: parameter.defaultValue };
+  }
+
+  /**
+   * GET /api/gateway (query string filters for any table)
+   * @private
+   * @static
+   */
+  private static genericGetOperation(tenant: string): OpenAPIOperation {
+    return {
+      operationId: 'queryTable',
+      summary: 'Query any table',
+      description: 'Filters are passed as `Field=value` or with an operator suffix (`Field_gt`, `Field_ge`, `Field_lt`, `Field_le`, `Field_ne`) and combined with AND. Registered tables only need `table`.',
+      tags: ['Gateway'],
+      parameters: [
+        this.tenantParameter(tenant),
+        { name: 'table', in: 'query', required: true, description: 'Table/Service name', schema: { type: 'string' }, example: 'Orders' },
+        { name: 'apiType', in: 'query', description: 'API type (defaults to the registered table\'s type, else rest)', schema: { type: 'string', enum: ['rest', 'soap'] } },
+        { name: 'service', in: 'query', description: 'OData service (unregistered REST tables)', schema: { type: 'string' }, example: 'tdapi.slsSalesOrder' },
+        { name: 'entity', in: 'query', description: 'Entity set (unregistered REST tables)', schema: { type: 'string' }, example: 'Orders' },
+        { name: 'action', in: 'query', description: 'SOAP action', schema: { type: 'string', default: 'List' } },
+        ...this.queryOptionParameters(true, [])
+      ],
+      responses: this.genericResponses()
+    };
+  }
+
+  /**
+   * POST /api/gateway (SQL or JSON filter tree)
+   * @private
+   * @static
+   */
+  private static genericPostOperation(tenant: string): OpenAPIOperation {
+    return {
+      operationId: 'queryTableWithFilter',
+      summary: 'Query with SQL or a filter tree',
+      description: 'Send either `sql` (parsed like the query editor) or `filter` (JSON filter tree). INSERT/UPDATE/DELETE statements need a write API key.',
+      tags: ['Gateway'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/APIGatewayQueryRequest' },
+            examples: {
+              sql: {
+                summary: 'SQL',
+                value: { tenant, table: 'Orders', sql: "SELECT OrderNumber, OrderDate FROM Orders WHERE Status IN ('Open', 'Hold') ORDER BY OrderDate DESC LIMIT 50" }
+              },
+              filter: {
+                summary: 'Filter tree',
+                value: {
+                  tenant,
+                  table: 'Orders',
+                  filter: { or: [
+                    { field: 'OrderDate', op: 'between', value: '2024-01-01', value2: '2024-03-31', type: 'date' },
+                    { field: 'PlannedDeliveryDate', op: 'is_null' }
+                  ] },
+                  orderby: 'OrderDate desc',
+                  limit: 20
+                }
+              }
+            }
+          }
+        }
+      },
+      responses: this.genericResponses()
+    };
+  }
+
+  /**
+   * Responses of the generic gateway operations
+   * @private
+   * @static
+   */
+  private static genericResponses(): Record<string, OpenAPISchema> {
+    return {
+      '200': {
+        description: 'Query result',
+        headers: this.rateLimitHeaders(),
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/APIGatewayResponse' } } }
+      },
+      '400': { $ref: '#/components/responses/BadRequest' },
+      '401': { $ref: '#/components/responses/Unauthorized' },
+      '403': { $ref: '#/components/responses/Forbidden' },
+      '404': { $ref: '#/components/responses/TenantNotFound' },
+      '429': { $ref: '#/components/responses/TooManyRequests' },
+      default: { $ref: '#/components/responses/GatewayError' }
+    };
+  }
+
+  /**
+   * The tenant query parameter
+   * @private
+   * @static
+   */
+  private static tenantParameter(tenant: string): OpenAPIParameter {
+    return {
+      name: 'tenant',
+      in: 'query',
+      description: 'Tenant (required for sessions; API keys default to their own tenant)',
+      schema: { type: 'string', default: tenant }
+    };
+  }
+
+  /**
+   * select, expand, orderby, limit and offset
+   * @private
+   * @static
+   */
+  private static queryOptionParameters(isRest: boolean, expandFields: string[]): OpenAPIParameter[] {
+    const parameters: OpenAPIParameter[] = [
+      { name: 'select', in: 'query', description: 'Comma-separated fields, optionally with AS aliases', schema: { type: 'string' }, example: 'OrderNumber,OrderDate AS Date' }
+    ];
+    if (isRest) {
+      parameters.push(
+        {
+          name: 'expand',
+          in: 'query',
+          description: `Comma-separated navigation properties${expandFields.length > 0 ? ` (${expandFields.join(', ')})` : ''}`,
+          schema: { type: 'string' }
+        },
+        { name: 'orderby', in: 'query', description: 'Sort field with optional direction', schema: { type: 'string' }, example: 'OrderDate desc' }
+      );
+    }
+    parameters.push(
+      { name: 'limit', in: 'query', description: 'Maximum number of records', schema: { type: 'integer', minimum: 1, default: 15 } },
+      { name: 'offset', in: 'query', description: 'Number of records to skip', schema: { type: 'integer', minimum: 0 } }
+    );
+    return parameters;
+  }
+
+  /**
+   * Filter parameters of a field: Field and Field_ne, plus Field_gt/_ge/_lt/_le for numbers and dates
+   * @private
+   * @static
+   */
+  private static filterParameters(field: FieldSchema): OpenAPIParameter[] {
+    const schema = this.typeSchema(field.dataType);
+    const operators: Array<[string, string]> = [['', 'equals'], ['_ne', 'does not equal']];
+    if (this.ORDERED_TYPES.includes(SchemaExtractor.getLiteralType(field.dataType)?.type || '')) {
+      operators.push(['_gt', 'is greater than'], ['_ge', 'is greater than or equal to'], ['_lt', 'is less than'], ['_le', 'is less than or equal to']);
+    }
+    return operators.map(([suffix, meaning]) => ({
+      name: `${field.fieldName}${suffix}`,
+      in: 'query',
+      description: `${field.fieldName} ${meaning}${field.description ? ` (${field.description})` : ''}`,
+      schema
+    }));
+  }
+
+  /**
+   * Record schema of a table
+   * @private
+   * @static
+   */
+  private static recordSchema(table: RemoteAPITable, schema: TableSchema | null): OpenAPISchema {
+    if (!schema || schema.fields.length === 0) {
+      return { type: 'object', description: `Record of ${table.name} (schema unavailable)`, additionalProperties: true };
+    }
+
+    const properties: Record<string, OpenAPISchema> = {};
+    for (const field of schema.fields) {
+      properties[field.fieldName] = this.fieldSchema(field);
+    }
+    const keys = schema.fields.filter(field => field.isPrimaryKey).map(field => field.fieldName);
+
+    return {
+      type: 'object',
+      description: `Record of ${table.name}${keys.length > 0 ? ` (key: ${keys.join(', ')})` : ''}`,
+      properties
+    };
+  }
+
+  /**
+   * JSON Schema of a field
+   * @private
+   * @static
+   */
+  private static fieldSchema(field: FieldSchema): OpenAPISchema {
+    const schema = this.typeSchema(field.dataType);
+    if (field.maxLength && schema.type === 'string') {
+      schema.maxLength = field.maxLength;
+    }
+    const description = [field.description, schema.description].filter(Boolean).join(' - ');
+    if (description) {
+      schema.description = description;
+    }
+    if (field.isNullable && typeof schema.type === 'string') {
+      schema.type = [schema.type, 'null'];
+    }
+    return schema;
+  }
+
+  /**
+   * JSON Schema type of a field data type (EDM types, WSDL types or detected types)
+   * @private
+   * @static
+   */
+  private static typeSchema(dataType: string): OpenAPISchema {
+    if (dataType === 'array') return { type: 'array', items: {} };
+    if (dataType === 'object') return { type: 'object' };
+
+    const literal = SchemaExtractor.getLiteralType(dataType);
+    switch (literal?.type) {
+      case 'number':
+        return /int|byte/i.test(dataType) ? { type: 'integer' } : { type: 'number' };
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'date':
+        return { type: 'string', format: 'date' };
+      case 'datetime':
+        return { type: 'string', format: 'date-time' };
+      case 'guid':
+        return { type: 'string', format: 'uuid' };
+      case 'enum':
+        return { type: 'string', description: `LN enumeration ${literal.enumType}` };
+      default:
+        return { type: 'string' };
+    }
+  }
+
+  /**
+   * Component name for a table schema, unique within the document
+   * @private
+   * @static
+   */
+  private static uniqueSchemaName(tableName: string, schemas: Record<string, OpenAPISchema>): string {
+    const base = tableName.replace(/[^A-Za-z0-9._-]/g, '_');
+    let name = base;
+    for (let index = 2; schemas[name]; index++) {
+      name = `${base}_${index}`;
+    }
+    return name;
+  }
+
+  /**
+   * RateLimit-* response headers
+   * @private
+   * @static
+   */
+  private static rateLimitHeaders(): Record<string, OpenAPISchema> {
+    return {
+      'RateLimit-Limit': { description: 'Limit of the most restrictive policy', schema: { type: 'integer' } },
+      'RateLimit-Remaining': { description: 'Requests left in the current window', schema: { type: 'integer' } },
+      'RateLimit-Reset': { description: 'Seconds until the window resets', schema: { type: 'integer' } },
+      'RateLimit-Policy': { description: 'Applied policies (limit;w=window seconds)', schema: { type: 'string' } }
+    };
+  }
+
+  /**
+   * Shared error responses
+   * @private
+   * @static
+   */
+  private static errorResponses(): Record<string, OpenAPISchema> {
+    const gatewayError = { 'application/json': { schema: { $ref: '#/components/schemas/APIGatewayResponse' } } };
+    return {
+      BadRequest: {
+        description: 'Missing or invalid parameters',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { success: { const: false }, error: { type: 'string' }, hint: { type: 'string' } }
+            }
+          }
+        }
+      },
+      Unauthorized: {
+        description: 'No valid API key or session (error.code UNAUTHORIZED)',
+        headers: { 'WWW-Authenticate': { schema: { type: 'string' } } },
+        content: gatewayError
+      },
+      Forbidden: {
+        description: 'The API key does not cover the tenant, table or scope (error.code FORBIDDEN)',
+        content: gatewayError
+      },
+      TenantNotFound: {
+        description: 'Unknown tenant',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { success: { const: false }, error: { type: 'string' }, hint: { type: 'string' } } }
+          }
+        }
+      },
+      TooManyRequests: {
+        description: 'Rate limit or daily quota exceeded (error.code RATE_LIMITED)',
+        headers: { 'Retry-After': { description: 'Seconds to wait', schema: { type: 'integer' } }, ...this.rateLimitHeaders() },
+        content: gatewayError
+      },
+      GatewayError: {
+        description: 'ION error (ODATA_ERROR, SOAP_FAULT, UPSTREAM_UNAVAILABLE, UPSTREAM_TIMEOUT, ...)',
+        content: gatewayError
+      }
+    };
+  }
+
+  /**
+   * Authentication methods accepted by the gateway (see ApiKeyManager)
+   * @private
+   * @static
+   */
+  private static securitySchemes(): Record<string, OpenAPISchema> {
+    return {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'mqk_ API key',
+        description: 'Tenant-scoped API key (Admin Panel → API Keys) in `Authorization: Bearer <key>`'
+      },
+      apiKeyHeader: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        description: 'Tenant-scoped API key in the X-API-Key header'
+      },
+      sessionCookie: {
+        type: 'apiKey',
+        in: 'cookie',
+        name: 'authjs.session-token',
+        description: 'Session of a signed-in user (__Secure-authjs.session-token over HTTPS)'
+      }
+    };
+  }
+
+  /**
+   * Schemas of the gateway request and response formats
+   * @private
+   * @static
+   */
+  private static baseSchemas(): Record<string, OpenAPISchema> {
+    return {
+      APIGatewayResponse: {
+        type: 'object',
+        required: ['success', 'timestamp', 'tenant', 'apiType'],
+        properties: {
+          success: { type: 'boolean' },
+          timestamp: { type: 'string', format: 'date-time' },
+          tenant: { type: 'string' },
+          apiType: { type: 'string', enum: ['rest', 'soap'] },
+          data: { description: 'Response data from the ION API' },
+          metadata: { $ref: '#/components/schemas/APIGatewayMetadata' },
+          error: { $ref: '#/components/schemas/APIGatewayError' }
+        }
+      },
+      APIGatewayMetadata: {
+        type: 'object',
+        properties: {
+          recordCount: { type: 'integer' },
+          executionTimeMs: { type: 'integer' },
+          table: { type: 'string' },
+          action: { type: 'string' },
+          service: { type: 'string' },
+          entity: { type: 'string' },
+          cacheHit: { type: 'boolean' },
+          cache: { type: 'object', description: 'Response cache details (tables with a cache TTL only)' }
+        }
+      },
+      APIGatewayError: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: { type: 'string', enum: this.ERROR_CODES },
+          message: { type: 'string' },
+          category: { type: 'string' },
+          remoteCode: { type: 'string', description: 'Error code reported by ION' },
+          target: { type: 'string', description: 'Field the error refers to' },
+          retryAfterSeconds: { type: 'integer' },
+          details: {}
+        }
+      },
+      GatewayFilterNode: {
+        oneOf: [
+          {
+            type: 'object',
+            required: ['field', 'op'],
+            properties: {
+              field: { type: 'string' },
+              op: { type: 'string', enum: ['eq', 'ne', 'gt', 'ge', 'lt', 'le', 'like', 'ilike', 'in', 'between', 'is_null', 'is_not_null'] },
+              value: { oneOf: [{ type: ['string', 'number', 'boolean'] }, { type: 'array', items: { type: ['string', 'number'] } }] },
+              value2: { type: ['string', 'number'], description: 'Upper bound for between' },
+              type: { type: 'string', enum: ['string', 'number', 'boolean', 'date', 'datetime', 'guid', 'enum'] },
+              enumType: { type: 'string', description: 'Qualified enum type for type enum (e.g. tdsls.OrderStatus)' }
+            }
+          },
+          { type: 'object', required: ['and'], properties: { and: { type: 'array', items: { $ref: '#/components/schemas/GatewayFilterNode' } } } },
+          { type: 'object', required: ['or'], properties: { or: { type: 'array', items: { $ref: '#/components/schemas/GatewayFilterNode' } } } },
+          { type: 'object', required: ['not'], properties: { not: { $ref: '#/components/schemas/GatewayFilterNode' } } }
+        ]
+      },
+      APIGatewayQueryRequest: {
+        type: 'object',
+        description: 'Either `table` with `sql` or `filter`, or a saved `query` with its `params`',
+        properties: {
+          tenant: { type: 'string' },
+          table: { type: 'string' },
+          apiType: { type: 'string', enum: ['rest', 'soap'] },
+          service: { type: 'string' },
+          entity: { type: 'string' },
+          action: { type: 'string' },
+          sql: { type: 'string', description: 'SQL statement (alternative to filter)' },
+          filter: { $ref: '#/components/schemas/GatewayFilterNode' },
+          query: { type: 'string', description: 'Slug of a saved query (instead of table and sql)' },
+          params: { type: 'object', additionalProperties: { type: ['string', 'number', 'boolean'] }, description: 'Parameter values of the saved query' },
+          select: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+          expand: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+          orderby: { type: 'string', examples: ['OrderDate desc'] },
+          limit: { type: 'integer', minimum: 1, default: 15 },
+          offset: { type: 'integer', minimum: 0 },
+          fetchAll: { type: 'boolean' },
+          dryRun: { type: 'boolean', description: 'Preview an INSERT/UPDATE/DELETE without sending it' }
+        }
+      }
+    };
+  }
+}
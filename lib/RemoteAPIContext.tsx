@@ -7,8 +7,9 @@
 
 'use client';
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import type { RemoteAPITenant, RemoteAPITable, RemoteAPIQueryResult, APIRequestConfig, StoredOAuth2Token } from '@/Entities/RemoteAPI';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import type { RemoteAPITenant, RemoteAPITable, RemoteAPIQueryResult, RemoteAPIError, APIRequestConfig, QueryStreamEvent, QueryStreamInfo, StoredOAuth2Token, WriteRequestPreview } from '@/Entities/RemoteAPI';
+import { SQLParser } from '@/lib/SQLParser';
 
 /**
  * Context interface for Remote API functionality
@@ -28,8 +29,12 @@ interface RemoteAPIContextType {
   results: RemoteAPIQueryResult[];
   /** Current error message, if any */
   error: string | null;
+  /** Structured error of the last failed query (category, code, offending field) */
+  apiError: RemoteAPIError | null;
   /** Whether a query is currently executing */
   isExecuting: boolean;
+  /** Whether the executing query is streaming its records */
+  isStreaming: boolean;
   /** Whether the add database dialog is visible */
   showAddDialog: boolean;
   /** Base table reference - preserves original table selection */
@@ -50,6 +55,18 @@ interface RemoteAPIContextType {
   selectTableAndQuery: (tenant: RemoteAPITenant, table: RemoteAPITable) => void;
   /** Function to execute the current query */
   executeQuery: () => Promise<void>;
+  /** Function to show the translated request of the current query (EXPLAIN) */
+  explainQuery: () => Promise<void>;
+  /** Function to execute the current query as a stream; records are shown as the pages arrive */
+  streamQuery: () => Promise<void>;
+  /** Function to cancel the executing query (aborts the browser request and the ION requests behind it; a stream keeps the records received) */
+  cancelQuery: () => void;
+  /** INSERT/UPDATE/DELETE waiting for confirmation, with its dry-run preview */
+  pendingWrite: { config: APIRequestConfig; preview: WriteRequestPreview } | null;
+  /** Function to send the pending write to ION */
+  confirmPendingWrite: () => Promise<void>;
+  /** Function to discard the pending write */
+  cancelPendingWrite: () => void;
   /** Function to load all tenants from the API */
   loadTenants: () => Promise<void>;
   /** Function to show/hide the add database dialog */
@@ -59,9 +76,9 @@ interface RemoteAPIContextType {
   /** Function to delete a tenant */
   deleteTenant: (id: string) => Promise<void>;
   /** Function to create a new remote API database */
-  createRemoteAPIDatabase: (data: { name?: string; fullUrl: string; baseUrl: string; tenantName: string; services: string; tables: string[]; expandFields?: string[] }) => Promise<RemoteAPITenant>;
+  createRemoteAPIDatabase: (data: { name?: string; fullUrl: string; baseUrl: string; tenantName: string; services: string; tables: string[]; expandFields?: string[]; tableExpandFields?: Record<string, string[]> }) => Promise<RemoteAPITenant>;
   /** Function to update an existing remote API database */
-  updateRemoteAPIDatabase: (id: string, data: { name: string; baseUrl: string; tenantName: string; services: string; tables: string[]; expandFields: string[]; status: string }) => Promise<RemoteAPITenant>;
+  updateRemoteAPIDatabase: (id: string, data: { name: string; baseUrl: string; tenantName: string; services: string; tables: string[]; expandFields: string[]; status: string; cacheTtls?: Record<string, number> }) => Promise<RemoteAPITenant>;
 }
 
 /**
@@ -85,8 +102,14 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
   const [query, setQuery] = useState<string>('');
   const [results, setResults] = useState<RemoteAPIQueryResult[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [apiError, setApiError] = useState<RemoteAPIError | null>(null);
   const [isExecuting, setIsExecuting] = useState<boolean>(false);
+  const [isStreaming, setIsStreaming] = useState<boolean>(false);
   const [showAddDialog, setShowAddDialog] = useState<boolean>(false);
+  const [pendingWrite, setPendingWrite] = useState<{ config: APIRequestConfig; preview: WriteRequestPreview } | null>(null);
+
+  // Aborts the request of the executing query (Cancel button)
+  const queryControllerRef = useRef<AbortController | null>(null);
   
   // OAuth2 token management with service account
   const [currentToken, setCurrentToken] = useState<StoredOAuth2Token | null>(null);
@@ -173,22 +196,235 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
   };
 
   /**
-   * Executes the current SQL query against the selected remote API table
+   * Sends a request configuration to the server-side /api/remote-query endpoint
+   * @private
+   * @async
+   * @param {APIRequestConfig} config - Unified API request configuration
+   * @param {AbortSignal} [signal] - Aborts the request (the server then aborts its ION requests)
+   * @returns {Promise<RemoteAPIQueryResult>} Query result from the server
+   * @throws {Error} If the server returns an error (its structured error is kept in apiError)
+   * @throws {DOMException} AbortError when the query is cancelled
+   */
+  const sendRemoteQuery = async (config: APIRequestConfig, signal?: AbortSignal): Promise<RemoteAPIQueryResult> => {
+    const response = await fetch('/api/remote-query', {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        config: config,
+        currentToken: currentToken
+      })
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.json();
+      if (errorData.apiError) {
+        setApiError(errorData.apiError);
+      }
+      throw new Error(errorData.apiError?.message || errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    
+    const responseData = await response.json();
+    if (!responseData.success) {
+      throw new Error(responseData.error || 'Unknown server error');
+    }
+    
+    // Update the stored token for future requests
+    if (responseData.token) {
+      setCurrentToken(responseData.token);
+    }
+
+    // Failed ION requests come back as results carrying the structured error
+    if (responseData.result?.error) {
+      setApiError(responseData.result.error);
+    }
+    
+    return responseData.result;
+  };
+
+  /**
+   * Executes a query through the streaming endpoint, showing the records as the pages arrive
+   * Aborting the signal stops the stream early; the records received so far are kept
+   * @private
+   * @async
+   * @param {APIRequestConfig} config - Unified API request configuration
+   * @param {AbortSignal} signal - Stops the stream (the server then aborts its ION requests)
+   * @throws {Error} If the server rejects the request (its structured error is kept in apiError)
+   */
+  const streamRemoteQuery = async (config: APIRequestConfig, signal: AbortSignal): Promise<void> => {
+    const records: Record<string, unknown>[] = [];
+    const progress: QueryStreamInfo = { active: true, rowsReceived: 0, pagesFetched: 0 };
+
+    // Result shown while the records arrive (and kept when the stream ends early)
+    const buildStreamResult = (overrides: Partial<RemoteAPIQueryResult> = {}): RemoteAPIQueryResult => ({
+      success: true,
+      url: '/api/remote-query/stream',
+      action: config.action,
+      status: 200,
+      statusText: 'Streaming',
+      data: {
+        success: true,
+        serviceType: config.apiType === 'rest' ? 'OData' : 'SOAP',
+        recordCount: records.length,
+        records: [...records],
+        summary: `Received ${records.length} records in ${progress.pagesFetched} page(s)`,
+        type: 'stream'
+      },
+      note: 'Streaming records from ION',
+      stream: { ...progress },
+      ...overrides
+    });
+
+    try {
+      const response = await fetch('/api/remote-query/stream', {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          config: config,
+          currentToken: currentToken
+        })
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.apiError) {
+          setApiError(errorData.apiError);
+        }
+        throw new Error(errorData.apiError?.message || errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        // One JSON event per line; the last line may still be incomplete
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line) as QueryStreamEvent;
+
+          if (event.type === 'page') {
+            records.push(...event.records);
+            progress.rowsReceived = event.rowsReceived;
+            progress.pagesFetched = event.page;
+            progress.totalAvailable = event.totalAvailable ?? progress.totalAvailable;
+            setResults([buildStreamResult()]);
+          } else if (event.type === 'done') {
+            if (event.token) {
+              setCurrentToken(event.token);
+            }
+            if (event.result.error) {
+              setApiError(event.result.error);
+            }
+            setResults([{
+              ...event.result,
+              data: event.result.data && { ...event.result.data, recordCount: records.length, records },
+              records,
+              stream: { ...progress, ...event.result.stream, active: false }
+            }]);
+          } else {
+            setApiError(event.apiError);
+            setResults([buildStreamResult({
+              success: false,
+              statusText: event.apiError.code,
+              note: `Stream ended with an error after ${records.length} records: ${event.apiError.message}`,
+              error: event.apiError,
+              stream: { ...progress, active: false, stopped: true }
+            })]);
+          }
+        }
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        throw error;
+      }
+      // Stopped early: keep what was received
+      setResults([buildStreamResult({
+        statusText: 'Stopped',
+        note: `Stopped early after ${records.length} records`,
+        stream: { ...progress, active: false, stopped: true }
+      })]);
+    }
+  };
+
+  /**
+   * Starts a cancellable query; the controller is kept for cancelQuery()
+   * @private
+   * @returns {AbortController} Controller of the new query
+   */
+  const startCancellableQuery = (): AbortController => {
+    const controller = new AbortController();
+    queryControllerRef.current = controller;
+    return controller;
+  };
+
+  /**
+   * Builds the result recorded in the result list for a cancelled query
+   * @private
+   * @param {string} action - Action of the cancelled request
+   * @param {number} startedAt - Start time of the query (ms)
+   * @param {boolean} isWrite - Whether an INSERT/UPDATE/DELETE was being sent
+   * @returns {RemoteAPIQueryResult} Failed result with a CANCELLED error
+   */
+  const buildCancelledResult = (action: string, startedAt: number, isWrite: boolean): RemoteAPIQueryResult => {
+    const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+    const message = `Query cancelled after ${seconds}s`;
+    return {
+      success: false,
+      url: '/api/remote-query',
+      action,
+      status: 0,
+      statusText: 'Cancelled',
+      data: {
+        success: false,
+        serviceType: selectedTable?.apiType === 'rest' ? 'OData' : 'SOAP',
+        recordCount: 0,
+        records: [],
+        summary: 'Query cancelled',
+        error: true,
+        message,
+        type: 'cancelled'
+      },
+      note: isWrite
+        ? `${message} - ION may already have applied the change, check the record before resending`
+        : message,
+      error: { category: 'cancelled', code: 'CANCELLED', message }
+    };
+  };
+
+  /**
+   * Executes a SQL query against the selected remote API table
    * Converts SQL query to SOAP request and handles the API call
    * Validates query against base table reference before execution
+   * INSERT/UPDATE/DELETE are sent as a dry run first and wait in pendingWrite
+   * until confirmPendingWrite() is called
    * @async
-   * @function executeQuery
+   * @function runQuery
+   * @param {string} sqlQuery - SQL statement to run (optionally prefixed with EXPLAIN)
+   * @param {Object} [options] - Execution options
+   * @param {boolean} [options.stream] - Stream the records (POST /api/remote-query/stream)
    * @throws {Error} If no tenant or table is selected
    * @throws {Error} If API request fails
    */
-  const executeQuery = async () => {
+  const runQuery = async (sqlQuery: string, options: { stream?: boolean } = {}) => {
     if (!selectedTenant || !selectedTable) {
       setError('Please select a tenant and table before running queries');
       return;
     }
 
     // Validate query against base table reference
-    const validation = validateQuery(query);
+    const validation = validateQuery(sqlQuery);
     if (validation.warnings.length > 0) {
       // Show warnings but continue execution
       validation.warnings.forEach(warning => console.warn('⚠️', warning));
@@ -196,15 +432,19 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
 
     setIsExecuting(true);
     setError(null);
+    setApiError(null);
     setResults([]);
 
+    const controller = startCancellableQuery();
+    const startedAt = Date.now();
+    const statementType = SQLParser.getStatementType(sqlQuery);
+    let config: APIRequestConfig | undefined;
+
     try {
 
       // Parse the query to determine action and parameters
-      const queryStr = query.trim().toLowerCase();
       const apiType = (selectedTable as any).apiType || 'soap';
-      let action: string;
-      let parameters = parseParametersFromQuery(query, selectedTable);
+      const parameters = parseParametersFromQuery(sqlQuery, selectedTable);
 
       // Add base table reference to parameters for context
       if (baseTableReference) {
@@ -212,38 +452,12 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
         parameters.baseEndpoint = baseTableReference.endpoint;
       }
 
-      // Different action determination based on API type
-      if (apiType === 'rest') {
-        // For REST APIs, use HTTP methods
-        if (queryStr.includes('read') || queryStr.includes('get') || queryStr.startsWith('select') || queryStr.includes('list')) {
-          action = 'GET';
-        } else if (queryStr.includes('create') || queryStr.includes('insert') || queryStr.startsWith('insert')) {
-          action = 'POST';
-        } else if (queryStr.includes('update') || queryStr.startsWith('update')) {
-          action = 'PUT';
-        } else if (queryStr.includes('delete') || queryStr.startsWith('delete')) {
-          action = 'DELETE';
-        } else {
-          action = 'GET'; // Default for REST
-        }
-      } else {
-        // For SOAP APIs, use SOAP actions
-        if (queryStr.includes('read') || queryStr.includes('get') || queryStr.startsWith('select') || queryStr.includes('list')) {
-          action = 'List';
-        } else if (queryStr.includes('create') || queryStr.includes('insert') || queryStr.startsWith('insert')) {
-          action = 'create';
-        } else if (queryStr.includes('update') || queryStr.startsWith('update')) {
-          action = 'update';
-        } else if (queryStr.includes('delete') || queryStr.startsWith('delete')) {
-          action = 'delete';
-        } else {
-          action = 'List'; // Default for SOAP
-        }
-      }
+      // HTTP method (REST) or business interface action (SOAP) per statement
+      const action = apiType === 'rest'
+        ? { select: 'GET', insert: 'POST', update: 'PATCH', delete: 'DELETE' }[statementType]
+        : { select: 'List', insert: 'Create', update: 'Change', delete: 'Delete' }[statementType];
 
       // Build unified API request configuration
-      let config: any;
-      
       if (apiType === 'rest') {
         // For REST APIs, parse the table endpoint to extract oDataService and entityName
         const endpoint = selectedTable.endpoint || selectedTable.name;
@@ -268,8 +482,8 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
           apiType: 'rest',
           action: action,
           parameters: parameters,
-          sqlQuery: query,
-          fullUrl: null, // Don't use SOAP URL for REST
+          sqlQuery: sqlQuery,
+          fullUrl: undefined, // Don't use SOAP URL for REST
           company: '2405', // Correct LN company number (confirmed from LN user config)
           oDataService: oDataService,
           entityName: entityName,
@@ -283,46 +497,36 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
           apiType: 'soap',
           action: action,
           parameters: parameters,
-          sqlQuery: query,
+          sqlQuery: sqlQuery,
           fullUrl: selectedTenant.fullUrl,
           company: '',
-          oDataService: null,
-          entityName: null
+          oDataService: undefined,
+          entityName: undefined
         };
       }
 
-      // Use server-side API endpoint for OAuth2 and API calls
-      const response = await fetch('/api/remote-query', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          config: config,
-          currentToken: currentToken
-        })
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const responseData = await response.json();
-      if (!responseData.success) {
-        throw new Error(responseData.error || 'Unknown server error');
+      // Writes are previewed first and only sent after confirmation (EXPLAIN never sends them)
+      if (statementType !== 'select' && !parameters.explain) {
+        const dryRunResult = await sendRemoteQuery({ ...config, dryRun: true }, controller.signal);
+        if (dryRunResult.preview) {
+          setPendingWrite({ config, preview: dryRunResult.preview });
+        }
+        setResults([dryRunResult]);
+        return;
       }
-      
-      const result = responseData.result;
-      const newToken = responseData.token;
-      
-      // Update the stored token for future requests
-      if (newToken) {
-        setCurrentToken(newToken);
+
+      // Records are shown as the pages arrive; cancelling keeps them
+      if (options.stream) {
+        setIsStreaming(true);
+        await streamRemoteQuery(config, controller.signal);
+        return;
       }
+
+      // Use server-side API endpoint for OAuth2 and API calls
+      const result = await sendRemoteQuery(config, controller.signal);
       
       // Add limit information to result summary
-      const limitApplied = parameters.limit;
+      const limitApplied = parameters.explain ? undefined : parameters.limit;
       const resultSummary = result.data?.summary || 'No summary available';
       const finalSummary = limitApplied 
         ? `${resultSummary} (Limited to ${limitApplied} records)`
@@ -337,12 +541,94 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
       setResults([result]);
 
     } catch (error) {
-      setError(error instanceof Error ? error.message : String(error));
+      if (controller.signal.aborted) {
+        // Dry runs send nothing to ION, so a cancelled preview is not a cancelled write
+        setResults([buildCancelledResult(config?.action || statementType, startedAt, false)]);
+      } else {
+        setError(error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      if (queryControllerRef.current === controller) {
+        queryControllerRef.current = null;
+      }
+      setIsExecuting(false);
+      setIsStreaming(false);
+    }
+  };
+
+  /**
+   * Executes the current SQL query
+   * @async
+   * @function executeQuery
+   */
+  const executeQuery = () => runQuery(query);
+
+  /**
+   * Shows the request the current query translates to, without calling ION
+   * @async
+   * @function explainQuery
+   */
+  const explainQuery = () => runQuery(SQLParser.isExplainQuery(query) ? query : `EXPLAIN ${query}`);
+
+  /**
+   * Executes the current SQL query as a stream of record pages
+   * @async
+   * @function streamQuery
+   */
+  const streamQuery = () => runQuery(query, { stream: true });
+
+  /**
+   * Cancels the executing query; the server aborts the ION requests and the
+   * cancellation is recorded in the results
+   * @function cancelQuery
+   */
+  const cancelQuery = () => {
+    queryControllerRef.current?.abort();
+  };
+
+  /**
+   * Sends the confirmed INSERT/UPDATE/DELETE to ION
+   * @async
+   * @function confirmPendingWrite
+   */
+  const confirmPendingWrite = async () => {
+    if (!pendingWrite) {
+      return;
+    }
+
+    const { config } = pendingWrite;
+    setPendingWrite(null);
+    setIsExecuting(true);
+    setError(null);
+    setApiError(null);
+
+    const controller = startCancellableQuery();
+    const startedAt = Date.now();
+
+    try {
+      setResults([await sendRemoteQuery(config, controller.signal)]);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        setResults([buildCancelledResult(config.action, startedAt, true)]);
+      } else {
+        setError(error instanceof Error ? error.message : String(error));
+      }
     } finally {
+      if (queryControllerRef.current === controller) {
+        queryControllerRef.current = null;
+      }
       setIsExecuting(false);
     }
   };
 
+  /**
+   * Discards the pending INSERT/UPDATE/DELETE without sending it
+   * @function cancelPendingWrite
+   */
+  const cancelPendingWrite = () => {
+    setPendingWrite(null);
+  };
+
   const selectTableAndQuery = (tenant: RemoteAPITenant, table: RemoteAPITable) => {
     setSelectedTenant(tenant);
     setSelectedTable(table);
@@ -401,9 +687,6 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
    * @returns {Record<string, any>} Parameters object with parsed SQL conditions
    */
   const parseParametersFromQuery = (query: string, table: RemoteAPITable): Record<string, any> => {
-    // Import SQLParser dynamically to avoid import issues
-    const { SQLParser } = require('@/lib/SQLParser');
-    
     // Use advanced SQL parsing for WHERE clauses and other SQL features
     const sqlParameters = SQLParser.parseSQL(query);
     
@@ -439,8 +722,8 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
     // Always add timestamp (overriding the one from SQLParser if needed)
     parameters.timestamp = new Date().toISOString();
     
-    // Add default limit of 15 records if no limit is specified
-    if (!parameters.limit && !query.toLowerCase().includes('limit')) {
+    // Add default limit of 15 records if no limit is specified (SELECT only)
+    if (!SQLParser.isWriteStatement(parameters) && !parameters.limit && !query.toLowerCase().includes('limit')) {
       parameters.limit = 15;
     }
     
@@ -501,10 +784,12 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
    * @param {string} data.tenantName - Tenant name (must be unique)
    * @param {string} data.services - Services path
    * @param {string[]} data.tables - Array of table names
+   * @param {string[]} [data.expandFields] - Legacy database-level expand fields
+   * @param {Record<string, string[]>} [data.tableExpandFields] - Expand fields per table (e.g., from the service catalog)
    * @returns {Promise<RemoteAPITenant>} The created or existing tenant
    * @throws {Error} If API request fails
    */
-  const createRemoteAPIDatabase = async (data: { name?: string; fullUrl: string; baseUrl: string; tenantName: string; services: string; tables: string[] }) => {
+  const createRemoteAPIDatabase = async (data: { name?: string; fullUrl: string; baseUrl: string; tenantName: string; services: string; tables: string[]; expandFields?: string[]; tableExpandFields?: Record<string, string[]> }) => {
     try {
       // Create via API endpoint
       const response = await fetch('/api/remote-databases', {
@@ -583,10 +868,11 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
    * @param {string[]} data.tables - Array of table names
    * @param {string[]} data.expandFields - Array of OData expand fields
    * @param {string} data.status - Database status (active/inactive)
+   * @param {Record<string, number>} [data.cacheTtls] - Response cache TTL in seconds per table name
    * @returns {Promise<RemoteAPITenant>} The updated tenant
    * @throws {Error} If API request fails
    */
-  const updateRemoteAPIDatabase = async (id: string, data: { name: string; baseUrl: string; tenantName: string; services: string; tables: string[]; expandFields: string[]; status: string }) => {
+  const updateRemoteAPIDatabase = async (id: string, data: { name: string; baseUrl: string; tenantName: string; services: string; tables: string[]; expandFields: string[]; status: string; cacheTtls?: Record<string, number> }) => {
     try {
       // Update via API endpoint
       const response = await fetch(`/api/remote-databases/${id}`, {
@@ -637,7 +923,9 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
     query,
     results,
     error,
+    apiError,
     isExecuting,
+    isStreaming,
     showAddDialog,
     baseTableReference,
     setSelectedTenant,
@@ -645,6 +933,12 @@ export function RemoteAPIProvider({ children }: { children: React.ReactNode }) {
     setQuery,
     selectTableAndQuery,
     executeQuery,
+    explainQuery,
+    streamQuery,
+    cancelQuery,
+    pendingWrite,
+    confirmPendingWrite,
+    cancelPendingWrite,
     loadTenants,
     setShowAddDialog,
     updateTenant,
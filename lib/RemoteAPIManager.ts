@@ -12,18 +12,26 @@
  * 
  * SOAP API Specifics:
  * - Uses XML envelopes (SOAP 1.1/1.2)
- * - Action-based operations (List, Create, Update, Delete)
+ * - Action-based operations (List, Create, Change, Delete)
  * - FilterExpression/ComparisonExpression for queries
  * - No OData query parameters ($filter, $expand, etc.)
+ * - ?wsdl: operation and field discovery, filter attribute validation
  * 
  * @author Mulugeta Forsido
  * @company Midport Scandinavia
  * @date October 2025
  */
 
-import type { RemoteAPITenant, RemoteAPITable, SOAPRequestConfig, RemoteAPIQueryResult, OAuth2Config, StoredOAuth2Token } from '@/Entities/RemoteAPI';
+import type { RemoteAPITenant, RemoteAPITable, SOAPRequestConfig, RemoteAPIQueryResult, StoredOAuth2Token, WriteRequestPreview, QueryExplanation, CatalogSOAPService } from '@/Entities/RemoteAPI';
 import { OAuth2ConfigManager } from './OAuth2ConfigManager';
 import { SchemaExtractor, TableSchema } from './utils/SchemaExtractor';
+import { SQLParser, type FilterCondition, type FilterExpression, type SQLParameters } from './SQLParser';
+import { LikePattern, type LikeOccurrence } from './utils/LikePattern';
+import { WSDLParser, type SOAPServiceDescription } from './utils/WSDLParser';
+import { SOAPResponseReader, type ParsedSOAPResponse, type SOAPResponseContent } from './utils/SOAPResponseReader';
+import { IONErrorParser, IONAPIError } from './utils/IONErrorParser';
+import { IONHttpClient } from './IONHttpClient';
+import { SQLiteManager } from './sqlite';
 
 /**
  * Remote API Manager class for handling ION SOAP API operations
@@ -41,6 +49,15 @@ import { SchemaExtractor, TableSchema } from './utils/SchemaExtractor';
 export class RemoteAPIManager {
   private static readonly BASE_URL = 'https://mingle-ionapi.eu1.inforcloudsuite.com';
 
+  /** How long a stored WSDL description is used before it is fetched again (override with ION_SOAP_WSDL_TTL_HOURS) */
+  private static readonly WSDL_TTL_MS = (Number(process.env.ION_SOAP_WSDL_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+  /** Parsed WSDL descriptions per tenant/service, with the time they were fetched */
+  private static readonly serviceDescriptions = new Map<string, { description: SOAPServiceDescription; fetchedAt: number }>();
+
+  /** Services (tenant/service) whose WSDL could not be loaded; they are called without validation */
+  private static readonly wsdlUnavailable = new Set<string>();
+
   /**
    * Builds the complete ION API URL for a tenant and service
    * @static
@@ -64,16 +81,19 @@ export class RemoteAPIManager {
    * - baseTable, baseEndpoint: Internal validation parameters
    * - limit, offset, timestamp: Handled client-side or in request headers
    * - orderBy, orderDirection: Converted to SOAP-specific format
-   * - _operator, _value2: Internal SQL parsing metadata
+   * - select: Applied to the parsed records by ResponseParser (SOAP has no projection)
+   * 
+   * The WHERE expression tree (parameters.where) or the ordered condition list
+   * (parameters.conditions) becomes the <Filter> content, see buildSOAPFilter().
    * 
    * @static
    * @param {string} action - The SOAP action to perform (e.g., 'list', 'create', 'update', 'delete')
-   * @param {Record<string, any>} [parameters={}] - Optional parameters for the request
+   * @param {SQLParameters} [parameters={}] - Optional parameters for the request
    * @param {string} [company=''] - Company code for ION API activation header
    * @param {string} [service=''] - The ION service name (e.g., 'ServiceCall_v2', 'Customer_v1', 'WarehouseOrder_v2')
    * @returns {string} Complete SOAP envelope XML
    */
-  static generateSOAPEnvelope(action: string, parameters: Record<string, any> = {}, company: string = '', service: string = ''): string {
+  static generateSOAPEnvelope(action: string, parameters: SQLParameters = {}, company: string = '', service: string = ''): string {
     // Generate dynamic business interface namespace based on service name
     // Pattern: ServiceName comes as complete parameter (e.g., "ServiceCall_v2")
     const getBusinessInterfaceNamespace = (serviceName: string): string => {
@@ -90,45 +110,8 @@ export class RemoteAPIManager {
     if (action.toLowerCase() === 'list' || action.toLowerCase() === 'read') {
       // Build generic ListRequest for all ION API services
       if (Object.keys(parameters).length > 0) {
-        // Build filter conditions from parsed SQL or direct parameters
-        const filterConditions = Object.entries(parameters)
-          .filter(([key, value]) => 
-            key !== 'limit' && 
-            key !== 'offset' && 
-            key !== 'timestamp' && 
-            key !== 'orderBy' && 
-            key !== 'orderDirection' &&
-            key !== 'serviceType' &&
-            key !== 'entityType' &&
-            key !== 'legacyFilter' &&
-            key !== 'baseTable' &&
-            key !== 'baseEndpoint' &&
-            !key.endsWith('_operator') &&
-            !key.endsWith('_value2')
-          )
-          .map(([key, value]) => {
-            // Check if there's a specific operator for this field
-            const operatorKey = `${key}_operator`;
-            const comparisonOperator = parameters[operatorKey] || 'eq';
-            
-            // Handle array values (for IN operator)
-            if (Array.isArray(value)) {
-              return `
-                  <ComparisonExpression>
-                    <comparisonOperator>in</comparisonOperator>
-                    <attributeName>${key}</attributeName>
-                    <instanceValue>${value.join(',')}</instanceValue>
-                  </ComparisonExpression>`;
-            } else {
-              return `
-                  <ComparisonExpression>
-                    <comparisonOperator>${comparisonOperator}</comparisonOperator>
-                    <attributeName>${key}</attributeName>
-                    <instanceValue>${value}</instanceValue>
-                  </ComparisonExpression>`;
-            }
-          })
-          .join('');
+        // Build filter conditions from the parsed SQL WHERE expression tree
+        const filterConditions = this.buildSOAPFilter(this.getPushdownFilter(parameters));
 
         if (filterConditions) {
           paramXml = `
@@ -152,6 +135,9 @@ export class RemoteAPIManager {
               <ControlArea/>
             </ListRequest>`;
       }
+    } else if (SQLParser.isWriteStatement(parameters)) {
+      // INSERT / UPDATE / DELETE parsed from SQL
+      paramXml = this.buildSOAPWriteRequest(action, parameters, service);
     } else {
       // For other actions, build parameter XML directly
       paramXml = Object.entries(parameters)
@@ -159,12 +145,13 @@ export class RemoteAPIManager {
           key !== 'limit' && 
           key !== 'offset' && 
           key !== 'timestamp' && 
+          key !== 'where' && 
+          key !== 'conditions' && 
+          key !== 'select' && 
           key !== 'baseTable' && 
-          key !== 'baseEndpoint' &&
-          !key.endsWith('_operator') &&
-          !key.endsWith('_value2')
+          key !== 'baseEndpoint'
         )
-        .map(([key, value]) => `<${key}>${value}</${key}>`)
+        .map(([key, value]) => `<${key}>${this.escapeXml(String(value))}</${key}>`)
         .join('');
     }
     
@@ -187,6 +174,394 @@ export class RemoteAPIManager {
 </soapenv:Envelope>`;
   }
 
+  /**
+   * Builds the content of a SOAP <Filter> element from a SQL WHERE expression tree
+   *
+   * A top-level AND is written as sibling ComparisonExpressions (the ION default).
+   * Nested OR/AND/NOT groups become LogicalExpression elements so the
+   * parenthesized structure of the SQL query is preserved.
+   *
+   * @static
+   * @param {FilterExpression | null} expression - Expression tree from SQLParser
+   * @returns {string} Filter XML (empty string if there is no filter)
+   *
+   * @example
+   * // Status='Open' AND (Priority > 2 OR Owner='ANNA')
+   * // → <ComparisonExpression>Status eq Open</ComparisonExpression>
+   * //   <LogicalExpression><logicalOperator>or</logicalOperator>...</LogicalExpression>
+   */
+  static buildSOAPFilter(expression: FilterExpression | null): string {
+    if (!expression) {
+      return '';
+    }
+    if (expression.type === 'and') {
+      return expression.operands.map(operand => this.buildSOAPExpression(operand)).join('');
+    }
+    return this.buildSOAPExpression(expression);
+  }
+
+  /**
+   * Converts one expression node to SOAP filter XML
+   * @private
+   * @static
+   * @param {FilterExpression} expression - Expression node
+   * @returns {string} ComparisonExpression or LogicalExpression XML
+   */
+  private static buildSOAPExpression(expression: FilterExpression): string {
+    switch (expression.type) {
+      case 'condition':
+        return this.buildSOAPComparison(expression.condition);
+      case 'not':
+        return this.buildSOAPLogicalExpression('not', [expression.operand]);
+      default:
+        return this.buildSOAPLogicalExpression(expression.type, expression.operands);
+    }
+  }
+
+  /**
+   * Wraps operands in a LogicalExpression element
+   * @private
+   * @static
+   */
+  private static buildSOAPLogicalExpression(operator: 'and' | 'or' | 'not', operands: FilterExpression[]): string {
+    return `
+                  <LogicalExpression>
+                    <logicalOperator>${operator}</logicalOperator>${operands.map(operand => this.buildSOAPExpression(operand)).join('')}
+                  </LogicalExpression>`;
+  }
+
+  /**
+   * Converts a single SQL condition to a ComparisonExpression element
+   * BETWEEN is expanded to "ge value1 AND le value2"
+   * @private
+   * @static
+   * @throws {IONAPIError} VALIDATION_ERROR for IN values containing a comma
+   */
+  private static buildSOAPComparison(condition: FilterCondition): string {
+    const { field, ionOperator, value, value2 } = condition;
+
+    if (ionOperator === 'between' && value2 !== undefined) {
+      return this.buildSOAPLogicalExpression('and', [
+        { type: 'condition', condition: { field, operator: '>=', value, ionOperator: 'ge' } },
+        { type: 'condition', condition: { field, operator: '<=', value: value2, ionOperator: 'le' } }
+      ]);
+    }
+
+    // LIKE without wildcards is an equality; other patterns are matched locally
+    if (LikePattern.isLikeOperator(ionOperator)) {
+      return this.buildSOAPComparison({ ...condition, operator: '=', value: LikePattern.plan(String(value ?? '')).equals ?? '', ionOperator: 'eq' });
+    }
+
+    // Array values are sent as a comma-separated list (IN operator), which has no way to quote a comma
+    if (Array.isArray(value) && value.some(item => String(item).includes(','))) {
+      throw IONErrorParser.validationError(`IN values of ${field} cannot contain commas for SOAP services; use OR conditions instead`, field);
+    }
+    const instanceValue = Array.isArray(value) ? value.join(',') : value ?? '';
+
+    return `
+                  <ComparisonExpression>
+                    <comparisonOperator>${Array.isArray(value) ? 'in' : ionOperator}</comparisonOperator>
+                    <attributeName>${this.escapeXml(field)}</attributeName>
+                    <instanceValue>${this.escapeXml(String(instanceValue))}</instanceValue>
+                  </ComparisonExpression>`;
+  }
+
+  /**
+   * Whether a LIKE condition can be sent as a ComparisonExpression
+   *
+   * ComparisonExpression has no wildcard or case-insensitive operator, so only
+   * case-sensitive patterns without wildcards (plain equality) are sent.
+   *
+   * @private
+   * @static
+   */
+  private static canPushLike(occurrence: LikeOccurrence): boolean {
+    const { condition } = occurrence;
+    return condition.ionOperator === 'like' && LikePattern.plan(String(condition.value ?? '')).equals !== undefined;
+  }
+
+  /**
+   * WHERE expression to send as SOAP filter
+   * @static
+   * @param {SQLParameters} parameters - Parameters from SQL parsing
+   * @returns {FilterExpression | null} Expression, without the LIKE conditions SOAP cannot express
+   */
+  static getPushdownFilter(parameters: SQLParameters): FilterExpression | null {
+    return LikePattern.pushdownExpression(SQLParser.getFilterExpression(parameters), occurrence => this.canPushLike(occurrence));
+  }
+
+  /**
+   * Whether the SOAP results must be filtered again locally
+   * (LIKE/ILIKE patterns with wildcards, NOT LIKE, case-insensitive matching)
+   * @static
+   * @param {SQLParameters} parameters - Parameters from SQL parsing
+   * @returns {boolean} True if the WHERE expression must be applied to the returned records
+   */
+  static requiresLocalFilter(parameters: SQLParameters): boolean {
+    return LikePattern.findLikeConditions(SQLParser.getFilterExpression(parameters))
+      .some(occurrence => !this.canPushLike(occurrence));
+  }
+
+  /**
+   * SOAP action for a SQL write statement
+   * @static
+   * @param {string} statement - 'insert', 'update' or 'delete'
+   * @returns {string} ION business interface action (Create, Change, Delete)
+   */
+  static getWriteAction(statement: string): string {
+    const actionMap: Record<string, string> = {
+      insert: 'Create',
+      update: 'Change',
+      delete: 'Delete'
+    };
+    return actionMap[statement] || statement;
+  }
+
+  /**
+   * Whether a SOAP action only reads data (List, Show, Read, Get..., Find...)
+   * Only such requests are resent after a timeout or gateway error
+   * @static
+   * @param {string} action - ION business interface action
+   * @returns {boolean} True for read actions
+   */
+  static isReadAction(action: string): boolean {
+    return /^(List|Show|Read|Get|Find|Search|Browse)/i.test(action);
+  }
+
+  /**
+   * Builds the request element of a Create, Change or Delete action
+   *
+   * The component element is named after the service without its version
+   * suffix (ServiceCall_v2 → ServiceCall). Key fields (WHERE) come first,
+   * followed by the INSERT/SET values.
+   *
+   * @private
+   * @static
+   * @param {string} action - SOAP action (Create, Change, Delete)
+   * @param {SQLParameters} parameters - Parameters from SQLParser.parseSQL()
+   * @param {string} service - ION service name
+   * @returns {string} Request XML placed inside the action element
+   *
+   * @example
+   * // UPDATE ServiceCall_v2 SET Status = 'Closed' WHERE ServiceCall = 'SC001'
+   * // → <ChangeRequest><DataArea><ServiceCall><ServiceCall>SC001</ServiceCall><Status>Closed</Status></ServiceCall></DataArea></ChangeRequest>
+   */
+  private static buildSOAPWriteRequest(action: string, parameters: SQLParameters, service: string): string {
+    const component = service.replace(/_v\d+$/i, '') || 'Component';
+    const keyFields: FilterCondition[] = parameters.key || [];
+    const fields: Array<[string, unknown]> = [
+      ...keyFields.map((condition): [string, unknown] => [condition.field, condition.value]),
+      ...Object.entries(parameters.values || {})
+    ];
+    const fieldXml = fields
+      .map(([field, value]) => value === null
+        ? `
+                  <${field} xsi:nil="true" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"/>`
+        : `
+                  <${field}>${this.escapeXml(String(value))}</${field}>`)
+      .join('');
+
+    return `
+            <${action}Request>
+              <DataArea>
+                <${component}>${fieldXml}
+                </${component}>
+              </DataArea>
+            </${action}Request>`;
+  }
+
+  /**
+   * Escapes XML special characters in element content
+   * @private
+   * @static
+   */
+  private static escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  /**
+   * Loads the WSDL description (operations, request/response structure, field types) of a business interface
+   *
+   * Lookup order: in-memory cache, the remote API table (remote_api_tables.schema_definition),
+   * then LN/c4ws/services/<Service>?wsdl. Descriptions older than WSDL_TTL_MS are fetched again.
+   *
+   * @static
+   * @async
+   * @param {string} tenant - The tenant name (e.g., 'MIDPORT_DEM')
+   * @param {string} service - The service name (e.g., 'ServiceCall_v2')
+   * @param {Object} [options] - Load options
+   * @param {StoredOAuth2Token} [options.token] - Valid OAuth2 token (acquired from the OAuth2 configuration when omitted)
+   * @param {boolean} [options.refresh=false] - Bypass the caches and fetch the WSDL again
+   * @returns {Promise<SOAPServiceDescription>} Operations with their request/response elements
+   * @throws {Error} If the WSDL cannot be fetched or parsed
+   */
+  static async loadServiceDescription(
+    tenant: string,
+    service: string,
+    options: { token?: StoredOAuth2Token; refresh?: boolean } = {}
+  ): Promise<SOAPServiceDescription> {
+    const cacheKey = `${tenant}/${service}`;
+    const now = Date.now();
+
+    if (!options.refresh) {
+      const cached = this.serviceDescriptions.get(cacheKey);
+      if (cached && now - cached.fetchedAt < this.WSDL_TTL_MS) {
+        return cached.description;
+      }
+
+      const stored = await SQLiteManager.getRemoteAPITableDefinition(tenant, service);
+      if (stored) {
+        const { fetchedAt, description } = JSON.parse(stored) as { fetchedAt: number; description: SOAPServiceDescription };
+        if (description?.operations && now - fetchedAt < this.WSDL_TTL_MS) {
+          this.serviceDescriptions.set(cacheKey, { description, fetchedAt });
+          return description;
+        }
+      }
+    }
+
+    const token = options.token || await OAuth2ConfigManager.getValidToken(null, await OAuth2ConfigManager.loadConfig());
+    const url = `${this.buildIONAPIUrl(tenant, service)}?wsdl`;
+
+    console.log('📑 Fetching SOAP WSDL:', url);
+    const response = await IONHttpClient.fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'text/xml',
+        'Authorization': OAuth2ConfigManager.getAuthorizationHeader(token)
+      }
+    }, { tenant });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`ION WSDL Error ${response.status}: ${response.statusText} - ${errorText}`);
+    }
+
+    const description = WSDLParser.parse(await response.text(), service);
+
+    await SQLiteManager.saveRemoteAPITableDefinition(tenant, service, JSON.stringify({ fetchedAt: now, description }));
+    this.serviceDescriptions.set(cacheKey, { description, fetchedAt: now });
+    this.wsdlUnavailable.delete(cacheKey);
+
+    return description;
+  }
+
+  /**
+   * Builds the schema of a business interface from its WSDL
+   * @static
+   * @async
+   * @param {string} tenant - The tenant name
+   * @param {string} service - The service name (e.g., 'ServiceCall_v2')
+   * @param {Object} [options] - Load options (see loadServiceDescription)
+   * @returns {Promise<TableSchema>} Schema with WSDL field types, key fields and the available operations
+   * @throws {Error} If the WSDL cannot be fetched or parsed
+   */
+  static async getWSDLSchema(
+    tenant: string,
+    service: string,
+    options: { token?: StoredOAuth2Token; refresh?: boolean } = {}
+  ): Promise<TableSchema> {
+    const description = await this.loadServiceDescription(tenant, service, options);
+    const schema = WSDLParser.toTableSchema(description, tenant);
+    schema.metadata = {
+      requestUrl: `${this.buildIONAPIUrl(tenant, service)}?wsdl`,
+      requestMethod: 'GET',
+      contentType: 'text/xml',
+      queryUsed: `${service}?wsdl`
+    };
+    return schema;
+  }
+
+  /**
+   * Lists the business interfaces deployed on the tenant's LN c4ws services page
+   * The page links every service to its WSDL (ServiceCall_v2?wsdl); those links are the listing
+   * @static
+   * @async
+   * @param {string} tenant - The tenant name
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token for the tenant
+   * @returns {Promise<CatalogSOAPService[]>} Business interfaces sorted by name
+   * @throws {Error} If the services page cannot be fetched
+   *
+   * @example
+   * const services = await RemoteAPIManager.listBusinessInterfaces('MIDPORT_DEM', token);
+   * // [{ name: 'BusinessPartner_v3' }, { name: 'ServiceCall_v2' }, ...]
+   */
+  static async listBusinessInterfaces(tenant: string, token: StoredOAuth2Token): Promise<CatalogSOAPService[]> {
+    const url = `${this.BASE_URL}/${tenant}/LN/c4ws/services`;
+
+    console.log('📚 Fetching SOAP services page:', url);
+    const response = await IONHttpClient.fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'text/html, application/xml',
+        'Authorization': OAuth2ConfigManager.getAuthorizationHeader(token)
+      }
+    }, { tenant });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`ION SOAP services page Error ${response.status}: ${response.statusText} - ${errorText}`);
+    }
+
+    const page = await response.text();
+    const names = new Set<string>();
+    for (const [, name] of page.matchAll(/([A-Za-z][\w.]*)\?wsdl\b/gi)) {
+      names.add(name.split('.').pop() as string);
+    }
+
+    return [...names].sort((a, b) => a.localeCompare(b)).map(name => ({ name }));
+  }
+
+  /**
+   * Checks the action and the filter attribute names of a request against the service's WSDL
+   * before ION is called; services whose WSDL cannot be loaded are not validated
+   * @private
+   * @static
+   * @async
+   * @param {SOAPRequestConfig} config - Configuration for the SOAP request
+   * @param {StoredOAuth2Token} token - OAuth2 token
+   * @returns {Promise<SOAPServiceDescription | null>} WSDL description, or null when unavailable
+   * @throws {IONAPIError} If the service has no such operation or the filter names an unknown attribute (validation error)
+   */
+  private static async validateRequest(config: SOAPRequestConfig, token: StoredOAuth2Token): Promise<SOAPServiceDescription | null> {
+    const cacheKey = `${config.tenant}/${config.table}`;
+    if (this.wsdlUnavailable.has(cacheKey)) {
+      return null;
+    }
+
+    let description: SOAPServiceDescription;
+    try {
+      description = await this.loadServiceDescription(config.tenant, config.table, { token });
+    } catch (error) {
+      this.wsdlUnavailable.add(cacheKey);
+      console.warn(`⚠️ WSDL unavailable for ${cacheKey}, request is sent without validation:`, error);
+      return null;
+    }
+
+    const operations = description.operations.map(operation => operation.name);
+    if (operations.length > 0 && !WSDLParser.findOperation(description, config.action)) {
+      throw IONErrorParser.validationError(`${config.table} has no ${config.action} operation. Available operations: ${operations.join(', ')}`);
+    }
+
+    const attributes = WSDLParser.getFilterAttributes(description);
+    if (attributes.length > 0) {
+      const known = new Set(attributes);
+      const unknown = SQLParser.flattenExpression(this.getPushdownFilter(config.parameters || {}))
+        .map(condition => condition.field)
+        .filter(field => !known.has(field));
+
+      if (unknown.length > 0) {
+        const suggestions = unknown.map(field => {
+          const match = attributes.find(attribute => attribute.toLowerCase() === field.toLowerCase());
+          return match ? `${field} (did you mean ${match}?)` : field;
+        });
+        throw IONErrorParser.validationError(`Unknown filter attribute(s) for ${config.table}: ${suggestions.join(', ')}`, unknown[0]);
+      }
+    }
+
+    return description;
+  }
+
   /**
    * Executes a query against the remote API with OAuth2 authentication
    * @static
@@ -221,38 +596,49 @@ export class RemoteAPIManager {
 
   /**
    * Executes a SOAP request against the ION API with OAuth2 token
+   * Failures (validation, HTTP errors, SOAP faults) are returned with success false
+   * and the structured error in `error`
    * @static
    * @async
    * @param {SOAPRequestConfig} config - Configuration for the SOAP request
    * @param {StoredOAuth2Token} token - OAuth2 token
    * @returns {Promise<RemoteAPIQueryResult>} Result of the API call
-   * @throws {Error} If the API request fails
    */
   static async executeQueryWithToken(config: SOAPRequestConfig, token: StoredOAuth2Token): Promise<RemoteAPIQueryResult> {
+    const url = config.fullUrl || this.buildIONAPIUrl(config.tenant, config.table);
+
     try {
-      const url = config.fullUrl || this.buildIONAPIUrl(config.tenant, config.table);
+      // JOIN maps to OData $expand; SOAP services have no navigation properties
+      if (config.parameters?.expandItems?.length) {
+        throw IONErrorParser.validationError('JOIN is only supported for REST (OData) tables', config.parameters.expandItems[0].navigationProperty);
+      }
+
+      // Operation and filter attribute names are checked against the WSDL before calling ION
+      const description = await this.validateRequest(config, token);
+
+      // INSERT / UPDATE / DELETE
+      if (SQLParser.isWriteStatement(config.parameters)) {
+        return await this.executeWriteQuery(config, token, url);
+      }
 
       // Execute ION API SOAP request with OAuth2
 
       const soapEnvelope = this.generateSOAPEnvelope(config.action, config.parameters, config.company || '', config.table);
 
-      const response = await fetch(url, {
+      // Read actions (List, Show, ...) are safe to resend; retried on throttling, new token on 401
+      const response = await IONHttpClient.fetch(url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'text/xml; charset=utf-8',
-          'SOAPAction': `"${config.action}"`,
-          'Accept': 'text/xml',
-          'Authorization': OAuth2ConfigManager.getAuthorizationHeader(token),
-        },
+        headers: this.buildRequestHeaders(config.action, token),
         body: soapEnvelope,
-      });
+      }, { tenant: config.tenant, idempotent: this.isReadAction(config.action), signal: config.signal });
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`ION API Error ${response.status}: ${response.statusText} - ${errorText}`);
+        throw new IONAPIError(IONErrorParser.fromResponse(response.status, response.statusText, errorText, response.headers));
       }
 
-      const responseText = await response.text();
+      // The body is parsed chunk by chunk while it arrives
+      const { xml: responseText, content } = await SOAPResponseReader.readResponse(response);
 
       // 🔍 LOG SOAP METADATA
       console.log('🧼 SOAP Response Metadata:', {
@@ -265,16 +651,16 @@ export class RemoteAPIManager {
         responseSize: responseText.length,
         contentType: response.headers.get('content-type'),
         hasNamespaces: responseText.includes('xmlns:'),
-        hasSoapFault: responseText.includes('<S:Fault>') || responseText.includes('<soap:Fault>'),
+        hasSoapFault: /<([\w-]+:)?Fault[\s>]/.test(responseText),
         responsePreview: responseText.substring(0, 200) + '...',
       });
 
       // Parse SOAP response to extract structured data
-      const parsedData = this.parseSOAPResponse(responseText, config.table);
+      const parsedData = this.parseSOAPResponse(responseText, config.table, content);
 
       // Extract schema metadata automatically
       const queryResult: RemoteAPIQueryResult = {
-        success: true,
+        success: !parsedData.error,
         url: url,
         action: config.action,
         status: response.status,
@@ -282,21 +668,32 @@ export class RemoteAPIManager {
         data: parsedData, // Parsed structured data
         rawResponse: responseText, // Keep raw XML for debugging
         note: `ION API ${config.action} operation completed successfully`,
-        records: parsedData.records || [] // For backward compatibility
+        records: parsedData.records || [], // For backward compatibility
+        error: parsedData.fault ? IONErrorParser.fromSOAPFault(parsedData.fault, response.status) : parsedData.apiError
       };
 
-      // Automatically extract schema with metadata
+      // Use the WSDL schema; sample the response only when the WSDL is unavailable
       try {
         const serviceName = config.table || 'UnknownService';
         const tenantId = config.tenant;
         const queryUsed = config.sqlQuery || `${config.action} operation on ${serviceName}`;
         
-        queryResult.schema = SchemaExtractor.extractSchema(
-          queryResult,
-          serviceName,
-          tenantId,
-          queryUsed
-        );
+        queryResult.schema = description
+          ? {
+              ...WSDLParser.toTableSchema(description, tenantId),
+              metadata: {
+                responseSize: responseText.length,
+                contentType: 'application/soap+xml',
+                recordCount: parsedData.records?.length || 0,
+                queryUsed
+              }
+            }
+          : SchemaExtractor.extractSchema(
+              queryResult,
+              serviceName,
+              tenantId,
+              queryUsed
+            );
       } catch (schemaError) {
         console.warn('⚠️ Schema extraction failed:', schemaError);
         // Continue without schema, don't fail the whole request
@@ -305,11 +702,179 @@ export class RemoteAPIManager {
       return queryResult;
 
     } catch (error) {
-      throw error;
+      const apiError = IONErrorParser.fromException(error);
+      return {
+        success: false,
+        url,
+        action: config.action,
+        status: apiError.httpStatus || 500,
+        statusText: apiError.code,
+        data: {
+          success: false,
+          serviceType: 'SOAP',
+          recordCount: 0,
+          records: [],
+          summary: 'SOAP API query failed',
+          error: true,
+          message: apiError.message,
+          type: apiError.category === 'soap_fault' ? 'SOAP_FAULT' : 'soap_api_error'
+        },
+        note: `ION API ${config.action} operation failed: ${apiError.message}`,
+        error: apiError
+      };
+    }
+  }
+
+
+
+  /**
+   * Builds SOAP request headers: content type, SOAPAction and OAuth2 bearer token
+   * @private
+   * @static
+   * @param {string} action - SOAP action
+   * @param {StoredOAuth2Token | null} token - OAuth2 token (null for EXPLAIN: the authorization is redacted)
+   * @returns {Record<string, string>} Request headers
+   */
+  private static buildRequestHeaders(action: string, token: StoredOAuth2Token | null): Record<string, string> {
+    return {
+      'Content-Type': 'text/xml; charset=utf-8',
+      'SOAPAction': `"${action}"`,
+      'Accept': 'text/xml',
+      'Authorization': token ? OAuth2ConfigManager.getAuthorizationHeader(token) : OAuth2ConfigManager.getRedactedAuthorizationHeader(),
+    };
+  }
+
+  /**
+   * Translates a query into the SOAP request it would send, without calling ION (EXPLAIN)
+   *
+   * Warnings list the SQL clauses a SOAP List request cannot carry: they are
+   * either applied to the parsed response or ignored.
+   *
+   * @static
+   * @param {SOAPRequestConfig} config - Configuration with parameters from SQLParser.parseSQL()
+   * @returns {QueryExplanation} Action, URL, redacted headers, envelope and warnings
+   */
+  static explainQuery(config: SOAPRequestConfig): QueryExplanation {
+    const parameters = config.parameters || {};
+    const url = config.fullUrl || this.buildIONAPIUrl(config.tenant, config.table);
+    const action = SQLParser.isWriteStatement(parameters) ? this.getWriteAction(parameters.statement) : config.action;
+    const warnings: string[] = [];
+
+    if (!SQLParser.isWriteStatement(parameters)) {
+      if (parameters.expandItems?.length) {
+        warnings.push('JOIN: only supported for REST (OData) tables - the query would be rejected');
+      }
+      if (parameters.expand || parameters['$expand']) {
+        warnings.push('expand: ignored, SOAP services have no navigation properties');
+      }
+      if (this.requiresLocalFilter(parameters)) {
+        warnings.push('WHERE: LIKE patterns with wildcards or ILIKE are left out of <Filter> and applied to the returned records');
+      }
+      if (parameters.select?.length) {
+        warnings.push('SELECT: the List response contains every field; columns are picked from the parsed records');
+      }
+      if (parameters.limit) {
+        warnings.push(`LIMIT: the List request returns every matching record; the first ${parameters.limit} are kept`);
+      }
+      if (parameters.offset) {
+        warnings.push('OFFSET: ignored for SOAP services');
+      }
+      if (parameters.orderBy) {
+        warnings.push(`ORDER BY ${parameters.orderBy}: ignored, records are returned in service order`);
+      }
     }
+
+    return {
+      apiType: 'soap',
+      parsed: parameters,
+      method: action,
+      url,
+      decodedUrl: url,
+      headers: this.buildRequestHeaders(action, null),
+      body: this.generateSOAPEnvelope(action, parameters, config.company || '', config.table),
+      warnings
+    };
   }
 
+  /**
+   * Executes an INSERT, UPDATE or DELETE as a Create, Change or Delete action
+   *
+   * With config.dryRun the envelope is only built and returned as preview.
+   *
+   * @private
+   * @static
+   * @async
+   * @param {SOAPRequestConfig} config - Configuration with parameters from SQLParser.parseSQL()
+   * @param {StoredOAuth2Token} token - OAuth2 token
+   * @param {string} url - Service URL
+   * @returns {Promise<RemoteAPIQueryResult>} Result with the parsed response and the request preview
+   * @throws {IONAPIError} If the API request fails
+   */
+  private static async executeWriteQuery(config: SOAPRequestConfig, token: StoredOAuth2Token, url: string): Promise<RemoteAPIQueryResult> {
+    const statement = config.parameters?.statement as WriteRequestPreview['statement'];
+    const action = this.getWriteAction(statement);
+    const preview: WriteRequestPreview = {
+      statement,
+      method: action,
+      url,
+      body: this.generateSOAPEnvelope(action, config.parameters, config.company || '', config.table)
+    };
 
+    if (config.dryRun) {
+      return {
+        success: true,
+        url,
+        action,
+        status: 0,
+        statusText: 'Dry run',
+        data: {
+          success: true,
+          serviceType: 'SOAP',
+          recordCount: 0,
+          records: [],
+          summary: `Dry run: ${action} on ${config.table} was not sent`,
+          type: 'write_preview'
+        },
+        note: 'Dry run - no request was sent to ION',
+        preview
+      };
+    }
+
+    // Create/Change/Delete are never resent after they may have reached ION
+    const response = await IONHttpClient.fetch(url, {
+      method: 'POST',
+      headers: this.buildRequestHeaders(action, token),
+      body: preview.body,
+    }, { tenant: config.tenant, idempotent: false, signal: config.signal });
+
+    if (!response.ok) {
+      throw new IONAPIError(IONErrorParser.fromResponse(response.status, response.statusText, await response.text(), response.headers));
+    }
+
+    const { xml: responseText, content } = await SOAPResponseReader.readResponse(response);
+    const parsedData = this.parseSOAPResponse(responseText, config.table, content);
+    if (parsedData.fault) {
+      throw new IONAPIError(IONErrorParser.fromSOAPFault(parsedData.fault, response.status));
+    }
+    const records = parsedData.records || [];
+
+    return {
+      success: true,
+      url,
+      action,
+      status: response.status,
+      statusText: response.statusText,
+      data: {
+        ...parsedData,
+        summary: `${action} on ${config.table} completed`,
+        type: 'write_result'
+      },
+      rawResponse: responseText,
+      note: `ION API ${action} operation completed successfully`,
+      records,
+      preview
+    };
+  }
 
   /**
    * Get list of available ION API tenants and their services from credentials
@@ -362,116 +927,52 @@ export class RemoteAPIManager {
 
   /**
    * Parse SOAP XML response and extract structured data
+   * Records keep their nested elements (lines, addresses, comments), repeated children
+   * as arrays, xsi:nil as null and attributes, see SOAPResponseReader
    * @static
    * @param {string} xmlResponse - Raw SOAP XML response
    * @param {string} serviceName - Name of the ION API service
-   * @returns {Object} Parsed structured data
+   * @param {SOAPResponseContent | Error} [content] - Content already read from the response body
+   *   (SOAPResponseReader.readResponse); the XML is only parsed when it is not given
+   * @returns {ParsedSOAPResponse} Parsed structured data; faults carry `fault` (SOAPFault), unreadable XML `apiError`
    */
-  static parseSOAPResponse(xmlResponse: string, serviceName: string): any {
+  static parseSOAPResponse(xmlResponse: string, serviceName: string, content?: SOAPResponseContent | Error): ParsedSOAPResponse {
     try {
+      if (content instanceof Error) {
+        throw content;
+      }
+      const { records, fault } = content ?? SOAPResponseReader.read(xmlResponse);
+
       // 🔍 LOG DETAILED SOAP PARSING METADATA
-      const namespaces = xmlResponse.match(/xmlns[^=]*="[^"]*"/g) || [];
-      const elements = xmlResponse.match(/<\w+[^>]*>/g) || [];
-      
       console.log('🔍 SOAP Parsing Metadata:', {
         serviceName,
         xmlSize: xmlResponse.length,
-        namespaceCount: namespaces.length,
-        elementCount: elements.length,
-        namespaces: namespaces.slice(0, 5), // First 5 namespaces
-        hasDataArea: xmlResponse.includes('<DataArea'),
-        hasControlArea: xmlResponse.includes('<ControlArea'),
-        servicePattern: new RegExp(`<${serviceName}[^>]*>`, 'g').test(xmlResponse)
+        recordCount: records.length,
+        hasDataArea: xmlResponse.includes('DataArea'),
+        hasFault: Boolean(fault)
       });
 
-      // Check if response contains a SOAP fault
-      if (xmlResponse.includes('<S:Fault>') || xmlResponse.includes('<soap:Fault>')) {
-        const faultMatch = xmlResponse.match(/<faultstring>([\s\S]*?)<\/faultstring>/);
-        const errorMessage = faultMatch ? faultMatch[1] : 'Unknown SOAP fault';
-        
+      if (fault) {
         console.log('❌ SOAP Fault Detected:', {
-          faultMessage: errorMessage,
+          faultMessage: fault.message,
+          faultCode: fault.code,
           serviceName
         });
-        
-        return {
-          error: true,
-          message: errorMessage,
-          type: 'SOAP_FAULT',
-          rawResponse: xmlResponse
-        };
-      }
 
-      // Extract the main response body
-      const bodyMatch = xmlResponse.match(/<S:Body[^>]*>([\s\S]*?)<\/S:Body>/);
-      if (!bodyMatch) {
         return {
+          success: false,
+          serviceType: serviceName,
+          recordCount: 0,
+          records: [],
+          summary: `SOAP fault: ${fault.message}`,
           error: true,
-          message: 'Could not parse SOAP body',
-          type: 'PARSE_ERROR',
+          message: fault.message,
+          type: 'SOAP_FAULT',
+          fault,
           rawResponse: xmlResponse
         };
       }
 
-      const bodyContent = bodyMatch[1];
-      
-      // Try to find the main data container (ServiceCall_v2, Customer_v1, etc.)
-      // This makes it service-agnostic by looking for repeated elements
-      const records: any[] = [];
-      
-      // Find all potential record containers by looking for elements that contain many child elements
-      // This pattern works for ServiceCall_v2, Customer_v1, Order_v1, etc.
-      const servicePattern = new RegExp(`<${serviceName}[^>]*>([\\s\\S]*?)<\/${serviceName}>`, 'g');
-      let serviceMatch;
-      
-      // If we find service-specific containers, parse them
-      while ((serviceMatch = servicePattern.exec(bodyContent)) !== null) {
-        const serviceContent = serviceMatch[1];
-        const record: any = { id: records.length + 1 };
-        
-        // Extract all field elements from this record
-        const fieldPattern = /<([^\s>]+)[^>]*>([\s\S]*?)<\/\1>/g;
-        let fieldMatch;
-        
-        while ((fieldMatch = fieldPattern.exec(serviceContent)) !== null) {
-          const fieldName = fieldMatch[1];
-          const fieldContent = fieldMatch[2].trim();
-          
-          // Skip nested complex elements (like Comment blocks) for now, just get simple values
-          if (fieldContent && !fieldContent.includes('<')) {
-            // Handle null values
-            if (fieldContent === 'xsi:nil="true"' || fieldContent === '') {
-              record[fieldName] = null;
-            } else {
-              record[fieldName] = fieldContent;
-            }
-          }
-        }
-        
-        if (Object.keys(record).length > 1) { // More than just the 'id' field
-          records.push(record);
-        }
-      }
-      
-      // If no service-specific containers found, try to parse as generic XML structure
-      if (records.length === 0) {
-        const genericRecord: any = { id: 1 };
-        const allTags = bodyContent.match(/<[^/\s>!?][^>]*>([^<]*)<\/[^>]+>/g) || [];
-        
-        allTags.forEach(tag => {
-          const tagMatch = tag.match(/<([^\s>]+)[^>]*>([^<]*)<\/[^>]+>/);
-          if (tagMatch && tagMatch[2].trim()) {
-            const fieldName = tagMatch[1];
-            const fieldValue = tagMatch[2].trim();
-            genericRecord[fieldName] = fieldValue;
-          }
-        });
-        
-        if (Object.keys(genericRecord).length > 1) {
-          records.push(genericRecord);
-        }
-      }
-      
       return {
         success: true,
         serviceType: serviceName,
@@ -482,10 +983,17 @@ export class RemoteAPIManager {
       };
       
     } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown parsing error';
       return {
+        success: false,
+        serviceType: serviceName,
+        recordCount: 0,
+        records: [],
+        summary: 'Failed to parse SOAP response',
         error: true,
-        message: error instanceof Error ? error.message : 'Unknown parsing error',
+        message,
         type: 'PARSE_ERROR',
+        apiError: { category: 'parse', code: 'PARSE_ERROR', message },
         rawResponse: xmlResponse
       };
     }
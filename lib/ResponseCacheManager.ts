@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Per-tenant response cache for remote API queries
+ * Query results are stored in SQLite, keyed by tenant and a hash of the normalized
+ * request (OData URL or SOAP envelope plus the parsed SQL parameters), for the TTL
+ * configured per table in the remote database settings. Stale OData results that
+ * carry an ETag are revalidated with If-None-Match instead of being downloaded again.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { createHash } from 'crypto';
+import { SQLiteManager } from './sqlite';
+import { RestAPIManager } from './RestAPIManager';
+import { RemoteAPIManager } from './RemoteAPIManager';
+import type { APIRequestConfig, RemoteAPIQueryResult, ResponseCacheStatus } from '@/Entities/RemoteAPI';
+
+/**
+ * Response cache in front of UnifiedAPIManager.executeQueryWithOAuth2
+ *
+ * Only tables with a cache TTL are cached; cache failures never fail the query.
+ *
+ * @example
+ * const result = await ResponseCacheManager.execute(config, requestConfig => runQuery(requestConfig));
+ * console.log(result.cache?.status); // 'hit' | 'revalidated' | 'miss' | 'bypass'
+ */
+export class ResponseCacheManager {
+  /** Stale entries are kept this long so they can still be revalidated with their ETag */
+  private static readonly STALE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Serves a read query from the cache or runs it and stores the result
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Query configuration (noCache skips the lookup)
+   * @param {Function} run - Executes the query; receives the config, with ifNoneMatch set when revalidating
+   * @returns {Promise<RemoteAPIQueryResult>} Result, with `cache` set when the table is cached
+   */
+  static async execute(
+    config: APIRequestConfig,
+    run: (requestConfig: APIRequestConfig) => Promise<RemoteAPIQueryResult>
+  ): Promise<RemoteAPIQueryResult> {
+    const ttlSeconds = await this.getTtlSeconds(config);
+    const cacheKey = ttlSeconds > 0 ? this.buildCacheKey(config) : null;
+    if (!cacheKey) {
+      return run(config);
+    }
+
+    const entry = config.noCache ? null : await SQLiteManager.getCachedResponse(config.tenant, cacheKey).catch(error => {
+      console.warn('⚠️ Response cache lookup failed:', error);
+      return null;
+    });
+
+    if (entry && entry.expiresAt > Date.now()) {
+      console.log(`💾 Response cache hit: ${config.tenant}/${this.getTableName(config)}`);
+      return this.withCacheInfo(JSON.parse(entry.resultJson), 'hit', entry.storedAt, entry.expiresAt, ttlSeconds, entry.etag || undefined);
+    }
+
+    // Stale OData results are revalidated with their ETag
+    const result = await run(entry?.etag ? { ...config, ifNoneMatch: entry.etag } : config);
+    const now = Date.now();
+    const expiresAt = now + ttlSeconds * 1000;
+
+    if (entry && result.status === 304) {
+      console.log(`💾 Response cache revalidated: ${config.tenant}/${this.getTableName(config)}`);
+      await SQLiteManager.refreshCachedResponse(config.tenant, cacheKey, now, expiresAt).catch(error => {
+        console.warn('⚠️ Response cache update failed:', error);
+      });
+      return this.withCacheInfo(JSON.parse(entry.resultJson), 'revalidated', now, expiresAt, ttlSeconds, entry.etag || undefined);
+    }
+
+    if (!result.success || result.data?.error) {
+      return result;
+    }
+
+    try {
+      await SQLiteManager.saveCachedResponse({
+        tenantName: config.tenant,
+        cacheKey,
+        tableName: this.getTableName(config),
+        resultJson: JSON.stringify(result),
+        etag: result.etag,
+        storedAt: now,
+        expiresAt
+      });
+      await SQLiteManager.deleteCachedResponses(config.tenant, { expiredBefore: now - this.STALE_RETENTION_MS });
+    } catch (error) {
+      console.warn('⚠️ Response cache write failed:', error);
+    }
+
+    return this.withCacheInfo(result, config.noCache ? 'bypass' : 'miss', now, expiresAt, ttlSeconds, result.etag);
+  }
+
+  /**
+   * Removes the cached results of a tenant, or of one of its tables
+   * Called after INSERT/UPDATE/DELETE and from the remote database settings
+   * @static
+   * @async
+   * @param {string} tenant - Tenant name
+   * @param {string} [table] - Table (entity name or SOAP endpoint); all tables when omitted
+   * @returns {Promise<number>} Number of removed entries
+   */
+  static async invalidate(tenant: string, table?: string): Promise<number> {
+    try {
+      const removed = await SQLiteManager.deleteCachedResponses(tenant, { tableName: table });
+      if (removed > 0) {
+        console.log(`🧹 Response cache invalidated: ${tenant}${table ? `/${table}` : ''} (${removed} entries)`);
+      }
+      return removed;
+    } catch (error) {
+      console.warn('⚠️ Response cache invalidation failed:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Table name the entries of a query are stored under (used for invalidation)
+   * @static
+   * @param {APIRequestConfig} config - Query configuration
+   * @returns {string} OData entity name or SOAP endpoint
+   */
+  static getTableName(config: APIRequestConfig): string {
+    return config.entityName || config.table;
+  }
+
+  /**
+   * Hash of the normalized request: OData URL or SOAP endpoint and envelope, plus the
+   * parsed SQL parameters (they also drive local filtering, projection and limits)
+   * @private
+   * @static
+   * @returns {string | null} Cache key, or null when the request cannot be built
+   */
+  private static buildCacheKey(config: APIRequestConfig): string | null {
+    try {
+      const request = config.apiType === 'rest'
+        ? RestAPIManager.buildQueryUrl(config)
+        : `${config.fullUrl || RemoteAPIManager.buildIONAPIUrl(config.tenant, config.table)}\n` +
+          RemoteAPIManager.generateSOAPEnvelope(config.action, config.parameters, config.company || '', config.table);
+
+      // The base table reference only records the UI selection
+      const parameters = { ...(config.parameters || {}) };
+      delete parameters.baseTable;
+      delete parameters.baseEndpoint;
+      return createHash('sha256')
+        .update(`${config.apiType}\n${request}\n${this.stableStringify(parameters)}`)
+        .digest('hex');
+    } catch (error) {
+      console.warn('⚠️ Response cache key could not be built, query is not cached:', error);
+      return null;
+    }
+  }
+
+  /**
+   * TTL of the queried table (0 when caching is not configured or the lookup fails)
+   * @private
+   * @static
+   * @async
+   */
+  private static async getTtlSeconds(config: APIRequestConfig): Promise<number> {
+    try {
+      return await SQLiteManager.getResponseCacheTtl(config.tenant, this.getTableName(config), config.oDataService);
+    } catch (error) {
+      console.warn('⚠️ Response cache settings unavailable:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * JSON with object keys sorted, so equal parameters give equal keys
+   * @private
+   * @static
+   */
+  private static stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_key, item) =>
+      item && typeof item === 'object' && !Array.isArray(item)
+        ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+        : item
+    );
+  }
+
+  /**
+   * Adds the cache status to a result
+   * @private
+   * @static
+   */
+  private static withCacheInfo(
+    result: RemoteAPIQueryResult,
+    status: ResponseCacheStatus,
+    storedAt: number,
+    expiresAt: number,
+    ttlSeconds: number,
+    etag?: string
+  ): RemoteAPIQueryResult {
+    return {
+      ...result,
+      cache: {
+        status,
+        ageSeconds: Math.max(0, Math.round((Date.now() - storedAt) / 1000)),
+        ttlSeconds,
+        expiresAt: new Date(expiresAt).toISOString(),
+        etag
+      }
+    };
+  }
+}
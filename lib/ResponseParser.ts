@@ -6,6 +6,10 @@
  */
 
 import type { RemoteAPIQueryResult } from '@/Entities/RemoteAPI';
+import type { FilterExpression, SelectColumn } from './SQLParser';
+import { SchemaExtractor } from './utils/SchemaExtractor';
+import { LocalQueryEvaluator } from './utils/LocalQueryEvaluator';
+import { SOAPResponseReader } from './utils/SOAPResponseReader';
 
 /**
  * Unified Response Parser that handles both SOAP XML and REST JSON responses
@@ -18,12 +22,20 @@ export class ResponseParser {
    * @static
    * @param {RemoteAPIQueryResult} rawResult - Raw result from API manager
    * @param {number} [limit] - Optional limit for number of records to return
+   * @param {SelectColumn[]} [select] - Optional SELECT list; records and schema are reduced to these columns
+   * @param {FilterExpression | null} [filter] - Optional WHERE expression applied locally (conditions the API could not evaluate)
+   * @param {number} [offset] - Optional number of filtered records to skip (OFFSET the API did not apply, REST only)
    * @returns {RemoteAPIQueryResult} Processed result with unified data structure
    */
-  static parseUnifiedResponse(rawResult: RemoteAPIQueryResult, limit?: number): RemoteAPIQueryResult {
+  static parseUnifiedResponse(rawResult: RemoteAPIQueryResult, limit?: number, select?: SelectColumn[], filter?: FilterExpression | null, offset?: number): RemoteAPIQueryResult {
+    // Failures already carry their structured error
+    if (!rawResult.success && rawResult.error) {
+      return rawResult;
+    }
+
     try {
       // Determine response type based on content
-      const isXMLResponse = rawResult.rawResponse?.includes('<?xml') || rawResult.rawResponse?.includes('<soap:');
+      const isXMLResponse = rawResult.rawResponse?.includes('<?xml') || rawResult.rawResponse?.includes('<soap:') || rawResult.rawResponse?.trimStart().startsWith('<');
       const isJSONResponse = rawResult.rawResponse?.startsWith('{') || rawResult.rawResponse?.startsWith('[');
       
       // 🔍 LOG UNIFIED RESPONSE METADATA
@@ -40,10 +52,16 @@ export class ResponseParser {
         dataRecordCount: rawResult.data?.recordCount || 0
       });
 
-      if (isXMLResponse) {
-        return this.parseSOAPResponse(rawResult, limit);
-      } else if (isJSONResponse) {
-        return this.parseRESTResponse(rawResult, limit);
+      if (isXMLResponse || isJSONResponse) {
+        const parsed = isXMLResponse
+          ? this.parseSOAPResponse(rawResult, limit, select, filter)
+          : this.parseRESTResponse(rawResult, limit, select, filter, offset);
+
+        // Keep schema output in line with the projected records
+        if (parsed.schema && select?.length) {
+          parsed.schema = SchemaExtractor.projectSchema(parsed.schema, select);
+        }
+        return parsed;
       } else {
         // Unknown format - return as is with error flag
         return {
@@ -84,17 +102,24 @@ export class ResponseParser {
    * @static
    * @param {RemoteAPIQueryResult} rawResult - Raw SOAP result
    * @param {number} [limit] - Optional limit for number of records
+   * @param {SelectColumn[]} [select] - Optional SELECT list applied to each record
+   * @param {FilterExpression | null} [filter] - Optional WHERE expression applied to each record
    * @returns {RemoteAPIQueryResult} Processed SOAP result
    */
-  private static parseSOAPResponse(rawResult: RemoteAPIQueryResult, limit?: number): RemoteAPIQueryResult {
+  private static parseSOAPResponse(rawResult: RemoteAPIQueryResult, limit?: number, select?: SelectColumn[], filter?: FilterExpression | null): RemoteAPIQueryResult {
     try {
       if (!rawResult.rawResponse) {
         throw new Error('No SOAP response data to parse');
       }
 
-      // Parse SOAP XML response
-      const xmlData = rawResult.rawResponse;
-      let records = this.extractSOAPRecords(xmlData);
+      // Records read by RemoteAPIManager while the response arrived; the XML is only
+      // parsed here for results that do not carry them
+      const parsedRecords: Record<string, unknown>[] | undefined = rawResult.data?.records;
+      let records = Array.isArray(parsedRecords) ? parsedRecords : this.extractSOAPRecords(rawResult.rawResponse);
+
+      // Conditions the SOAP filter could not express (e.g. LIKE patterns), then the SELECT list
+      records = this.applyLocalFilter(records, filter);
+      records = this.applyProjection(records, select);
       
       // Apply client-side limit if specified
       const originalCount = records.length;
@@ -142,9 +167,12 @@ export class ResponseParser {
    * @static
    * @param {RemoteAPIQueryResult} rawResult - Raw REST result
    * @param {number} [limit] - Optional limit for number of records
+   * @param {SelectColumn[]} [select] - Optional SELECT list applied to each record
+   * @param {FilterExpression | null} [filter] - Optional WHERE expression applied to each record
+   * @param {number} [offset] - Optional number of records to skip after filtering
    * @returns {RemoteAPIQueryResult} Processed REST result
    */
-  private static parseRESTResponse(rawResult: RemoteAPIQueryResult, limit?: number): RemoteAPIQueryResult {
+  private static parseRESTResponse(rawResult: RemoteAPIQueryResult, limit?: number, select?: SelectColumn[], filter?: FilterExpression | null, offset?: number): RemoteAPIQueryResult {
     try {
       if (!rawResult.rawResponse) {
         throw new Error('No REST response data to parse');
@@ -171,14 +199,28 @@ export class ResponseParser {
         throw new Error(`OData Service Error: ${jsonData.error.message || 'Unknown error'}`);
       }
       
+      // Narrow down rows matched by a looser OData filter (e.g. LIKE '%A%B%')
+      records = this.applyLocalFilter(records, filter);
+
+      // $select already trimmed the columns server-side; this applies aliases,
+      // nested paths and drops OData annotations such as @odata.etag
+      records = this.applyProjection(records, select);
+
       // Apply client-side limiting (we get full response from server and limit display)
+      // OFFSET is applied here when the rows were fetched unpaged for a local filter
       const originalCount = records.length;
+      if (offset) {
+        records = records.slice(offset);
+      }
       if (limit && records.length > limit) {
         records = records.slice(0, limit);
       }
       
-      const summary = limit && originalCount > limit 
-        ? `Retrieved ${records.length} of ${originalCount} records via OData REST API (client-side limited)`
+      // $count=true reports how many rows match on the server, beyond the fetched pages
+      // (not meaningful when rows were filtered locally)
+      const totalAvailable = !filter && typeof jsonData['@odata.count'] === 'number' ? jsonData['@odata.count'] : originalCount;
+      const summary = totalAvailable > records.length 
+        ? `Retrieved ${records.length} of ${totalAvailable} records via OData REST API`
         : `Retrieved ${records.length} records via OData REST API`;
 
       return {
@@ -213,116 +255,65 @@ export class ResponseParser {
 
   /**
    * Extracts records from SOAP XML response
+   * Nested elements, repeated children (arrays), xsi:nil and attributes are preserved,
+   * giving the same nested record shape as OData JSON
    * @private
    * @static
    * @param {string} xmlData - SOAP XML response string
-   * @returns {any[]} Array of extracted records
+   * @returns {Record<string, unknown>[]} Array of extracted records
+   * @throws {Error} If the response is a SOAP fault or not well-formed XML
    */
-  private static extractSOAPRecords(xmlData: string): any[] {
-    try {
-      const records: any[] = [];
-
-      // Remove namespaces and soap envelope for easier parsing
-      let cleanXml = xmlData
-        .replace(/xmlns[^=]*="[^"]*"/g, '') // Remove namespace declarations
-        .replace(/soap\w*:/g, '') // Remove soap prefixes
-        .replace(/\w+:/g, '') // Remove other prefixes
-        .replace(/\s+/g, ' ') // Normalize whitespace
-        .trim();
-
-      // Extract the main data area
-      const dataAreaMatch = cleanXml.match(/<DataArea[^>]*>(.*?)<\/DataArea>/s);
-      if (!dataAreaMatch) {
-        // Try to extract from Body if no DataArea
-        const bodyMatch = cleanXml.match(/<Body[^>]*>(.*?)<\/Body>/s);
-        cleanXml = bodyMatch ? bodyMatch[1] : cleanXml;
-      } else {
-        cleanXml = dataAreaMatch[1];
-      }
-
-      // Find repeating entity patterns (common SOAP structure)
-      const entityPatterns = [
-        // Common ION entity patterns
-        /<([A-Z]\w+)>(.*?)<\/\1>/gs,
-        // Service call patterns
-        /<ServiceCall[^>]*>(.*?)<\/ServiceCall>/gs,
-        // Customer patterns
-        /<Customer[^>]*>(.*?)<\/Customer>/gs,
-        // Order patterns
-        /<Order[^>]*>(.*?)<\/Order>/gs,
-        // Generic item patterns
-        /<Item[^>]*>(.*?)<\/Item>/gs
-      ];
+  private static extractSOAPRecords(xmlData: string): Record<string, unknown>[] {
+    const { records, fault } = SOAPResponseReader.read(xmlData);
+    if (fault) {
+      throw new Error(`SOAP Fault: ${fault.message}`);
+    }
 
-      for (const pattern of entityPatterns) {
-        const matches = cleanXml.matchAll(pattern);
-        for (const match of matches) {
-          const record = this.parseXMLEntity(match[2] || match[1]);
-          if (record && Object.keys(record).length > 0) {
-            records.push(record);
-          }
-        }
-        if (records.length > 0) break; // Found records with this pattern
-      }
+    // 🔍 LOG SOAP EXTRACTION RESULTS
+    console.log('🧼 SOAP Record Extraction:', {
+      totalRecordsFound: records.length,
+      hasDataArea: xmlData.includes('DataArea'),
+      sampleRecord: records[0] ? Object.keys(records[0]).slice(0, 5) : [],
+      recordFieldCounts: records.map(r => Object.keys(r).length).slice(0, 5)
+    });
 
-      // If no structured records found, try to parse the entire response as one record
-      if (records.length === 0) {
-        const record = this.parseXMLEntity(cleanXml);
-        if (record && Object.keys(record).length > 0) {
-          records.push(record);
-        }
-      }
+    return records;
+  }
 
-      // 🔍 LOG SOAP EXTRACTION RESULTS
-      console.log('🧼 SOAP Record Extraction:', {
-        totalRecordsFound: records.length,
-        hasDataArea: xmlData.includes('<DataArea'),
-        cleanedXmlLength: cleanXml.length,
-        entityPatternsUsed: entityPatterns.length,
-        sampleRecord: records[0] ? Object.keys(records[0]).slice(0, 5) : [],
-        recordFieldCounts: records.map(r => Object.keys(r).length).slice(0, 5)
-      });
-      
+  /**
+   * Keeps the records matching a WHERE expression
+   * @static
+   * @param {Record<string, unknown>[]} records - Parsed records
+   * @param {FilterExpression | null} [filter] - WHERE expression (no filtering when empty)
+   * @returns {Record<string, unknown>[]} Matching records
+   */
+  static applyLocalFilter(records: Record<string, unknown>[], filter?: FilterExpression | null): Record<string, unknown>[] {
+    if (!filter) {
       return records;
-    } catch (error) {
-      console.log('❌ SOAP Extraction Error:', error);
-      return [];
     }
+    return records.filter(record => LocalQueryEvaluator.matchesExpression(record, filter));
   }
 
   /**
-   * Parses an XML entity into a JavaScript object
-   * @private
+   * Reduces records to the columns of a SQL SELECT list
+   * Output keys use the column alias when given; dotted fields read nested values.
    * @static
-   * @param {string} xmlEntity - XML entity string
-   * @returns {any} Parsed object
+   * @param {Record<string, unknown>[]} records - Parsed records
+   * @param {SelectColumn[]} [select] - SELECT list (no projection when empty)
+   * @returns {Record<string, unknown>[]} Projected records in SELECT column order
    */
-  private static parseXMLEntity(xmlEntity: string): any {
-    const entity: any = {};
-
-    if (!xmlEntity) return entity;
-
-    // Extract simple elements (non-nested)
-    const elementPattern = /<([^/>]+)>([^<]*)<\/\1>/g;
-    let match;
-
-    while ((match = elementPattern.exec(xmlEntity)) !== null) {
-      const fieldName = match[1];
-      const fieldValue = match[2]?.trim();
-      
-      if (fieldName && fieldValue !== undefined) {
-        // Convert to appropriate data type
-        if (fieldValue === 'true' || fieldValue === 'false') {
-          entity[fieldName] = fieldValue === 'true';
-        } else if (!isNaN(Number(fieldValue)) && fieldValue !== '') {
-          entity[fieldName] = Number(fieldValue);
-        } else {
-          entity[fieldName] = fieldValue;
-        }
-      }
+  static applyProjection(records: Record<string, unknown>[], select?: SelectColumn[]): Record<string, unknown>[] {
+    if (!select || select.length === 0) {
+      return records;
     }
 
-    return entity;
+    return records.map(record => {
+      const projected: Record<string, unknown> = {};
+      select.forEach(column => {
+        projected[column.alias || column.field] = LocalQueryEvaluator.getFieldValue(record, column.field);
+      });
+      return projected;
+    });
   }
 
   /**
@@ -21,16 +21,61 @@
  * - $expand: JOIN-like navigation property expansion
  * - $orderby: Sorting
  * - $top/$skip: Pagination
+ * - $metadata: CSDL schema discovery (entity types, keys, property facets)
  * 
  * @author Mulugeta Forsido
  * @company Midport Scandinavia
  * @date October 2025
  */
 
-import type { APIRequestConfig, RemoteAPIQueryResult, StoredOAuth2Token } from '@/Entities/RemoteAPI';
+import type { APIRequestConfig, CatalogEntitySet, CatalogODataService, QueryExplanation, RemoteAPIError, RemoteAPIQueryResult, StoredOAuth2Token, WriteRequestPreview } from '@/Entities/RemoteAPI';
 import { OAuth2ConfigManager } from './OAuth2ConfigManager';
 import { TenantConfigManager } from './TenantConfigManager';
+import { SQLiteManager } from './sqlite';
 import { SchemaExtractor, type TableSchema } from './utils/SchemaExtractor';
+import { ODataMetadataParser, type ODataServiceMetadata } from './utils/ODataMetadataParser';
+import { LikePattern, type LikeOccurrence } from './utils/LikePattern';
+import { IONErrorParser, IONAPIError } from './utils/IONErrorParser';
+import { IONHttpClient } from './IONHttpClient';
+import { SQLParser, type ExpandItem, type FilterCondition, type FilterExpression, type SelectColumn, type SQLParameters } from './SQLParser';
+
+/**
+ * OData JSON payload as returned by ION (collection or single entity)
+ */
+type ODataPayload = {
+  value?: unknown[];
+  '@odata.context'?: string;
+  '@odata.count'?: number;
+  '@odata.nextLink'?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * One request of an OData $batch, with the query it answers
+ */
+type BatchItem = {
+  /** Request id in the batch payload */
+  id: string;
+  /** Position of the query in the caller's list */
+  index: number;
+  config: APIRequestConfig;
+  url: string;
+  /** Request of an INSERT/UPDATE/DELETE (reads have none) */
+  preview?: WriteRequestPreview;
+  entitySchema?: TableSchema | null;
+  atomicityGroup?: string;
+};
+
+/**
+ * Response to one request in an OData JSON $batch response
+ */
+type BatchResponse = {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  atomicityGroup?: string;
+};
 
 /**
  * REST API Manager class for handling ION OData API operations
@@ -51,6 +96,36 @@ import { SchemaExtractor, type TableSchema } from './utils/SchemaExtractor';
 export class RestAPIManager {
   private static readonly BASE_ION_API_URL = 'https://mingle-ionapi.eu1.inforcloudsuite.com';
 
+  /** Upper bound on records collected for "LIMIT ALL" queries (override with ION_ODATA_MAX_RECORDS) */
+  private static readonly DEFAULT_MAX_RECORDS = Number(process.env.ION_ODATA_MAX_RECORDS) || 5000;
+
+  /** Page size requested from ION for streamed queries (override with ION_ODATA_STREAM_PAGE_SIZE) */
+  private static readonly STREAM_PAGE_SIZE = Number(process.env.ION_ODATA_STREAM_PAGE_SIZE) || 500;
+
+  /** Services (tenant/service/entity) that rejected $apply; aggregates for them are evaluated locally */
+  private static readonly applyUnsupported = new Set<string>();
+
+  /** Field types seen in earlier responses per service, used to type filter values */
+  private static readonly knownSchemas = new Map<string, TableSchema>();
+
+  /** How long a cached $metadata document is used before it is fetched again (override with ION_ODATA_METADATA_TTL_HOURS) */
+  private static readonly METADATA_TTL_MS = (Number(process.env.ION_ODATA_METADATA_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+  /** Parsed $metadata documents per tenant/service, with the time they were fetched */
+  private static readonly metadataCache = new Map<string, { metadata: ODataServiceMetadata; fetchedAt: number }>();
+
+  /** Services (tenant/service) whose $metadata could not be loaded; their schema is sampled from responses */
+  private static readonly metadataUnavailable = new Set<string>();
+
+  /**
+   * ION API gateway URL the OData services are reached through
+   * @static
+   * @returns {string} Base URL with a trailing slash (e.g., 'https://mingle-ionapi.eu1.inforcloudsuite.com/')
+   */
+  static getBaseUrl(): string {
+    return `${this.BASE_ION_API_URL}/`;
+  }
+
   /**
    * Builds the complete ION OData API URL for a tenant and service (supports hundreds of OData services)
    * Based on ION API documentation: https://mingle-ionapi.eu1.inforcloudsuite.com/TENANT/LN/lnapi + /odata/service/entity
@@ -80,154 +155,67 @@ export class RestAPIManager {
    * ⚠️ REST/OData ONLY: This method generates OData query strings for REST APIs.
    * For SOAP APIs, use RemoteAPIManager.generateSOAPEnvelope() instead.
    * 
+   * FILTER SOURCE:
+   * ==============
+   * - where: Boolean expression tree from SQLParser, converted to $filter with AND/OR/NOT and parentheses
+   * - conditions: Ordered condition list (AND-ed) when no tree is present
+   * 
    * PARAMETER FILTERING:
    * ====================
    * The following parameters are filtered out and NOT included in the OData query:
    * - baseTable, baseEndpoint: Internal validation parameters
-   * - limit, offset, timestamp: Handled client-side or separately
+   * - limit, offset, fetchAll, maxRecords: Converted to $top/$skip/$count (see buildODataPaging)
+   * - timestamp: Internal metadata
    * - orderBy, orderDirection: Converted to $orderby
    * - company: Sent as X-Infor-LnCompany header
-   * - expand, $expand: Converted to $expand parameter
-   * - _operator, _value2: Internal SQL parsing metadata
+   * - expand, $expand, expandItems: Converted to $expand parameter (see buildODataExpand)
+   * - select: Converted to $select (aliases are applied client-side by ResponseParser)
    * 
    * ADVANCED OPERATOR SUPPORT (REST ONLY):
    * ======================================
    * - BETWEEN: Converted to (field ge value1 and field le value2)
    * - IS NULL: Converted to field eq null
    * - IS NOT NULL: Converted to field ne null
-   * - NOT: Converted to not(condition)
-   * - LIKE: Converted to contains(field, 'value')
+   * - NOT: Converted to not (condition)
+   * - LIKE / ILIKE: Converted to startswith/endswith/contains (see formatODataLike)
    * - IN: Converted to (field eq 'val1' or field eq 'val2')
    * 
    * @static
-   * @param {Record<string, any>} parameters - Parameters from SQL parsing
-   * @returns {string} OData query string (e.g., "$filter=Country eq 'Mexico'&$orderby=Name asc")
-   * @note Limit is handled client-side after response, not as $top parameter
+   * @param {SQLParameters} parameters - Parameters from SQL parsing
+   * @returns {string} OData query string (e.g., "$filter=Country eq 'Mexico'&$top=15&$count=true&$orderby=Name asc")
+   * @note Pages beyond the first are fetched by executeQuery() via @odata.nextLink
    * @note Company is sent as X-Infor-LnCompany header, not query parameter
    */
-  static generateODataQuery(parameters: Record<string, any>): string {
+  static generateODataQuery(parameters: SQLParameters): string {
     const queryParts: string[] = [];
 
     // Note: Company is now sent as X-Infor-LnCompany header, not query parameter
 
-    // Build $filter parameter from SQL WHERE conditions
-    const filterConditions: string[] = [];
-    
-    Object.entries(parameters).forEach(([key, value]) => {
-      // Skip utility parameters (including limit - handled client-side)
-      if (['limit', 'offset', 'timestamp', 'orderBy', 'orderDirection', 'serviceType', 'entityType', 'legacyFilter', 'company', 'expand', '$expand', 'baseTable', 'baseEndpoint'].includes(key)) {
-        return;
-      }
-      
-      // Skip operator parameters and special suffixes
-      if (key.endsWith('_operator') || key.endsWith('_value2')) {
-        return;
-      }
-
-      // Get the operator for this field
-      const operatorKey = `${key}_operator`;
-      const sqlOperator = parameters[operatorKey] || 'eq';
-      
-      // Handle special operators
-      
-      // IS NULL operator
-      if (sqlOperator === 'is_null' || (value === null && sqlOperator === 'eq')) {
-        filterConditions.push(`${key} eq null`);
-        return;
-      }
-      
-      // IS NOT NULL operator
-      if (sqlOperator === 'is_not_null' || (value === null && sqlOperator === 'ne')) {
-        filterConditions.push(`${key} ne null`);
-        return;
-      }
-      
-      // BETWEEN operator - convert to: (field ge value1 and field le value2)
-      if (sqlOperator === 'between') {
-        const value2Key = `${key}_value2`;
-        const value2 = parameters[value2Key];
-        if (value2 !== undefined) {
-          const val1 = typeof value === 'string' ? `'${this.escapeODataValue(value)}'` : value;
-          const val2 = typeof value2 === 'string' ? `'${this.escapeODataValue(value2)}'` : value2;
-          filterConditions.push(`(${key} ge ${val1} and ${key} le ${val2})`);
-          return;
-        }
-      }
-      
-      // NOT operator - negate the condition
-      if (sqlOperator === 'not') {
-        if (typeof value === 'string') {
-          filterConditions.push(`not(${key} eq '${this.escapeODataValue(value)}')`);
-        } else {
-          filterConditions.push(`not(${key} eq ${value})`);
-        }
-        return;
-      }
-      
-      // Convert SQL operators to OData operators
-      const oDataOperator = this.convertToODataOperator(sqlOperator);
-      
-      // Handle different value types
-      if (Array.isArray(value)) {
-        // Handle IN operator - convert to multiple OR conditions
-        const inConditions = value.map(v => `${key} eq '${this.escapeODataValue(v)}'`).join(' or ');
-        filterConditions.push(`(${inConditions})`);
-      } else if (value === null) {
-        // Handle null values
-        filterConditions.push(`${key} ${oDataOperator} null`);
-      } else if (typeof value === 'string') {
-        // Handle LIKE/contains operator
-        if (oDataOperator === 'contains') {
-          filterConditions.push(`contains(${key}, '${this.escapeODataValue(value)}')`);
-        } else {
-          filterConditions.push(`${key} ${oDataOperator} '${this.escapeODataValue(value)}'`);
-        }
-      } else {
-        // Handle numeric and boolean values
-        filterConditions.push(`${key} ${oDataOperator} ${value}`);
-      }
-    });
-
-    if (filterConditions.length > 0) {
-      queryParts.push(`$filter=${encodeURIComponent(filterConditions.join(' and '))}`);
+    // Build $filter parameter from the SQL WHERE expression tree
+    const filter = this.buildODataFilter(this.getPushdownFilter(parameters));
+    if (filter) {
+      queryParts.push(`$filter=${encodeURIComponent(filter)}`);
     }
 
-    // Note: LIMIT is handled client-side after response parsing, not as $top
-    // This ensures we get the full server response and limit display-side
-
-    // Handle OFFSET -> $skip (if supported by the API)
-    if (parameters.offset) {
-      queryParts.push(`$skip=${parameters.offset}`);
+    // Build $select parameter from the SQL SELECT list
+    const select = this.buildODataSelect(parameters.select);
+    if (select) {
+      queryParts.push(`$select=${encodeURIComponent(select)}`);
     }
 
+    // Handle LIMIT/OFFSET -> $top/$skip with $count=true for the total row count
+    queryParts.push(...this.buildODataPaging(parameters));
+
     // Handle ORDER BY -> $orderby
     if (parameters.orderBy) {
       const direction = parameters.orderDirection || 'asc';
       queryParts.push(`$orderby=${parameters.orderBy} ${direction}`);
     }
 
-    // Handle EXPAND for nested objects/arrays ($expand parameter from OData API)
-    if (parameters.expand) {
-      if (Array.isArray(parameters.expand)) {
-        // Handle array of expand entities: ['SoldToBPRef', 'LineRefs', 'ShipToBPRef']
-        const expandQuery = `$expand=${parameters.expand.join(',')}`;
-        queryParts.push(expandQuery);
-      } else if (typeof parameters.expand === 'string') {
-        // Handle comma-separated string: 'SoldToBPRef,LineRefs,ShipToBPRef'
-        const expandQuery = `$expand=${parameters.expand}`;
-        queryParts.push(expandQuery);
-      }
-    }
-    
-    // Handle direct $expand parameter (alternative syntax)
-    if (parameters['$expand']) {
-      if (Array.isArray(parameters['$expand'])) {
-        const expandQuery = `$expand=${parameters['$expand'].join(',')}`;
-        queryParts.push(expandQuery);
-      } else {
-        const expandQuery = `$expand=${parameters['$expand']}`;
-        queryParts.push(expandQuery);
-      }
+    // Handle EXPAND for nested objects/arrays (SQL JOINs, expand='...' and configured expand fields)
+    const expand = this.buildODataExpand(parameters);
+    if (expand) {
+      queryParts.push(`$expand=${encodeURIComponent(expand)}`);
     }
 
     return queryParts.join('&');
@@ -236,11 +224,11 @@ export class RestAPIManager {
   /**
    * Generates OData query parameters including company parameter for compatibility
    * @static
-   * @param {Record<string, any>} parameters - Parameters from SQL parsing
+   * @param {SQLParameters} parameters - Parameters from SQL parsing
    * @param {string} company - LN company code
    * @returns {string} OData query string with company parameter
    */
-  static generateODataQueryWithCompany(parameters: Record<string, any>, company: string): string {
+  static generateODataQueryWithCompany(parameters: SQLParameters, company: string): string {
     const queryParts: string[] = [];
 
     // Add company parameter in multiple formats for maximum compatibility
@@ -250,48 +238,21 @@ export class RestAPIManager {
       queryParts.push(`LnCompany=${encodeURIComponent(company)}`);
     }
 
-    // Build $filter parameter from SQL WHERE conditions
-    const filterConditions: string[] = [];
-    
-    Object.entries(parameters).forEach(([key, value]) => {
-      // Skip utility parameters (including limit - handled client-side)
-      if (['limit', 'offset', 'timestamp', 'orderBy', 'orderDirection', 'serviceType', 'entityType', 'legacyFilter', 'company', 'expand', '$expand', 'baseTable', 'baseEndpoint'].includes(key)) {
-        return;
-      }
-      
-      // Skip operator parameters and special suffixes
-      if (key.endsWith('_operator') || key.endsWith('_value2')) {
-        return;
-      }
-
-      // Get the operator for this field
-      const operatorKey = `${key}_operator`;
-      const sqlOperator = parameters[operatorKey] || 'eq';
-      
-      // Convert SQL operators to OData operators
-      const oDataOperator = this.convertToODataOperator(sqlOperator);
-      
-      // Handle different value types
-      if (Array.isArray(value)) {
-        // Handle IN operator - convert to multiple OR conditions
-        const inConditions = value.map(v => `${key} eq '${this.escapeODataValue(v)}'`).join(' or ');
-        filterConditions.push(`(${inConditions})`);
-      } else if (typeof value === 'string') {
-        filterConditions.push(`${key} ${oDataOperator} '${this.escapeODataValue(value)}'`);
-      } else {
-        filterConditions.push(`${key} ${oDataOperator} ${value}`);
-      }
-    });
-
-    if (filterConditions.length > 0) {
-      queryParts.push(`$filter=${encodeURIComponent(filterConditions.join(' and '))}`);
+    // Build $filter parameter from the SQL WHERE expression tree
+    const filter = this.buildODataFilter(this.getPushdownFilter(parameters));
+    if (filter) {
+      queryParts.push(`$filter=${encodeURIComponent(filter)}`);
     }
 
-    // Handle OFFSET -> $skip (if supported by the API)
-    if (parameters.offset) {
-      queryParts.push(`$skip=${parameters.offset}`);
+    // Build $select parameter from the SQL SELECT list
+    const select = this.buildODataSelect(parameters.select);
+    if (select) {
+      queryParts.push(`$select=${encodeURIComponent(select)}`);
     }
 
+    // Handle LIMIT/OFFSET -> $top/$skip with $count=true for the total row count
+    queryParts.push(...this.buildODataPaging(parameters));
+
     // Handle ORDER BY -> $orderby
     if (parameters.orderBy) {
       const direction = parameters.orderDirection || 'asc';
@@ -301,11 +262,393 @@ export class RestAPIManager {
     return queryParts.join('&');
   }
 
+  /**
+   * Builds an OData $filter expression from a SQL WHERE expression tree
+   *
+   * AND/OR/NOT nodes are kept as written; nested groups are parenthesized
+   * so OData operator precedence matches the SQL query.
+   *
+   * @static
+   * @param {FilterExpression | null} expression - Expression tree from SQLParser
+   * @returns {string} OData filter (not URL-encoded), or empty string if there is no filter
+   *
+   * @example
+   * // (Status='Open' OR Status='Hold') AND Priority > 2
+   * // → "(Status eq 'Open' or Status eq 'Hold') and Priority gt 2"
+   */
+  static buildODataFilter(expression: FilterExpression | null): string {
+    if (!expression) {
+      return '';
+    }
+
+    switch (expression.type) {
+      case 'condition':
+        return this.formatODataCondition(expression.condition);
+      case 'not':
+        return `not (${this.buildODataFilter(expression.operand)})`;
+      default: {
+        const parts = expression.operands.map(operand => {
+          const part = this.buildODataFilter(operand);
+          // Parenthesize nested groups so precedence survives the conversion
+          return operand.type === 'and' || operand.type === 'or' ? `(${part})` : part;
+        });
+        return parts.join(` ${expression.type} `);
+      }
+    }
+  }
+
+  /**
+   * Converts a single SQL condition to OData filter syntax
+   * @private
+   * @static
+   * @param {FilterCondition} condition - Parsed SQL condition
+   * @returns {string} OData filter for the condition
+   */
+  private static formatODataCondition(condition: FilterCondition): string {
+    const { field, ionOperator, value, value2 } = condition;
+
+    // IS NULL / IS NOT NULL
+    if (ionOperator === 'is_null' || (value === null && ionOperator === 'eq')) {
+      return `${field} eq null`;
+    }
+    if (ionOperator === 'is_not_null' || (value === null && ionOperator === 'ne')) {
+      return `${field} ne null`;
+    }
+
+    // BETWEEN operator - convert to: (field ge value1 and field le value2)
+    if (ionOperator === 'between' && value2 !== undefined) {
+      return `(${field} ge ${this.formatODataLiteral(value, condition)} and ${field} le ${this.formatODataLiteral(value2, condition)})`;
+    }
+
+    // IN operator - convert to multiple OR conditions
+    if (Array.isArray(value)) {
+      const inConditions = value.map(v => `${field} eq ${this.formatODataLiteral(v, condition)}`).join(' or ');
+      return `(${inConditions})`;
+    }
+
+    // LIKE/ILIKE patterns -> startswith/endswith/contains/length
+    if (LikePattern.isLikeOperator(ionOperator)) {
+      return this.formatODataLike(field, String(value ?? ''), ionOperator === 'ilike');
+    }
+
+    const oDataOperator = this.convertToODataOperator(ionOperator);
+
+    if (oDataOperator === 'not') {
+      return `not(${field} eq ${this.formatODataLiteral(value, condition)})`;
+    }
+
+    return `${field} ${oDataOperator} ${this.formatODataLiteral(value, condition)}`;
+  }
+
+  /**
+   * Converts a LIKE pattern to OData string functions
+   *
+   * - 'ABC'   → Field eq 'ABC'
+   * - 'ABC%'  → startswith(Field, 'ABC')
+   * - '%ABC'  → endswith(Field, 'ABC')
+   * - '%ABC%' → contains(Field, 'ABC')
+   * - 'AB_'   → (startswith(Field, 'AB') and length(Field) eq 3)
+   * - ILIKE compares tolower(Field) with the lowercased pattern
+   *
+   * Patterns with text between wildcards ('%A%B%') produce a looser filter;
+   * those rows are narrowed down locally (see requiresLocalFilter).
+   *
+   * @private
+   * @static
+   * @param {string} field - Field name
+   * @param {string} pattern - LIKE pattern
+   * @param {boolean} caseInsensitive - ILIKE matching
+   * @returns {string} OData filter for the pattern
+   */
+  private static formatODataLike(field: string, pattern: string, caseInsensitive: boolean): string {
+    const plan = LikePattern.plan(pattern, caseInsensitive);
+    const target = caseInsensitive ? `tolower(${field})` : field;
+
+    if (plan.equals !== undefined) {
+      return `${target} eq ${this.formatODataLiteral(plan.equals)}`;
+    }
+
+    const clauses: string[] = [];
+    if (plan.startsWith !== undefined) {
+      clauses.push(`startswith(${target}, ${this.formatODataLiteral(plan.startsWith)})`);
+    }
+    if (plan.endsWith !== undefined) {
+      clauses.push(`endswith(${target}, ${this.formatODataLiteral(plan.endsWith)})`);
+    }
+    plan.contains.forEach(text => clauses.push(`contains(${target}, ${this.formatODataLiteral(text)})`));
+    if (plan.length) {
+      clauses.push(`length(${field}) ${plan.length.operator} ${plan.length.value}`);
+    }
+
+    // '%' matches any non-null value
+    if (clauses.length === 0) {
+      return `${field} ne null`;
+    }
+    return clauses.length === 1 ? clauses[0] : `(${clauses.join(' and ')})`;
+  }
+
+  /**
+   * Whether a LIKE condition can be sent to OData without dropping matching rows
+   *
+   * Loose patterns are fine as filters (rows are narrowed down locally) but
+   * not under NOT, where a looser filter would exclude too much.
+   *
+   * @private
+   * @static
+   */
+  private static canPushLike(occurrence: LikeOccurrence): boolean {
+    return !occurrence.negated || LikePattern.plan(String(occurrence.condition.value ?? '')).exact;
+  }
+
+  /**
+   * WHERE expression to send as $filter
+   * @static
+   * @param {SQLParameters} parameters - Parameters from SQL parsing
+   * @returns {FilterExpression | null} Expression, without conditions OData cannot express safely
+   */
+  static getPushdownFilter(parameters: SQLParameters): FilterExpression | null {
+    return LikePattern.pushdownExpression(SQLParser.getFilterExpression(parameters), occurrence => this.canPushLike(occurrence));
+  }
+
+  /**
+   * Whether the OData results must be filtered again locally
+   * (LIKE patterns that OData string functions cannot match exactly)
+   * @static
+   * @param {SQLParameters} parameters - Parameters from SQL parsing
+   * @returns {boolean} True if the WHERE expression must be applied to the returned records
+   */
+  static requiresLocalFilter(parameters: SQLParameters): boolean {
+    return LikePattern.findLikeConditions(SQLParser.getFilterExpression(parameters))
+      .some(({ condition }) => !LikePattern.plan(String(condition.value ?? '')).exact);
+  }
+
+  /**
+   * Formats a literal for OData
+   *
+   * Strings are quoted and escaped, numbers and booleans are left as-is; typed
+   * values (see FilterCondition.valueType) use their EDM literal form:
+   * dates, datetimes and GUIDs unquoted, enums as tdsls.OrderStatus'Free'.
+   *
+   * @private
+   * @static
+   * @param {unknown} value - Literal value
+   * @param {Pick<FilterCondition, 'valueType' | 'enumType'>} [type] - Type of the value, when known
+   * @returns {string} OData literal
+   */
+  private static formatODataLiteral(value: unknown, type?: Pick<FilterCondition, 'valueType' | 'enumType'>): string {
+    if (value === null || value === undefined) {
+      return 'null';
+    }
+    switch (type?.valueType) {
+      case 'date':
+      case 'datetime':
+      case 'guid':
+      case 'number':
+      case 'boolean':
+        return String(value);
+      case 'enum':
+        return `${type.enumType}'${this.escapeODataValue(value)}'`;
+      case 'string':
+        return `'${this.escapeODataValue(value)}'`;
+    }
+    return typeof value === 'string' ? `'${this.escapeODataValue(value)}'` : String(value);
+  }
+
+  /**
+   * Key identifying an OData entity set of a tenant
+   * @private
+   * @static
+   */
+  private static getServiceKey(config: APIRequestConfig): string {
+    return `${config.tenant}/${config.oDataService}/${config.entityName || config.table}`;
+  }
+
+  /**
+   * Stores the field types of a response; fields missing from it (e.g. because
+   * of $select) keep the type seen earlier
+   * @private
+   * @static
+   */
+  private static rememberSchema(serviceKey: string, schema: TableSchema): void {
+    const previous = this.knownSchemas.get(serviceKey);
+    const fields = new Map((previous?.fields || []).map(field => [field.fieldName.toLowerCase(), field]));
+    schema.fields.forEach(field => fields.set(field.fieldName.toLowerCase(), field));
+    this.knownSchemas.set(serviceKey, { ...schema, fields: Array.from(fields.values()), totalFields: fields.size });
+  }
+
+  /**
+   * Types untyped WHERE values by the field types known for the service
+   * (so OrderDate > '2024-01-01' is sent as an Edm.Date literal)
+   * @private
+   * @static
+   * @param {SQLParameters} parameters - Parameters from SQL parsing
+   * @param {string} serviceKey - Service the query runs against
+   * @returns {SQLParameters} Parameters with a coerced `where` expression
+   */
+  private static coerceFilterValues(parameters: SQLParameters, serviceKey: string): SQLParameters {
+    const schema = this.knownSchemas.get(serviceKey);
+    const expression = SQLParser.getFilterExpression(parameters);
+    if (!schema || !expression) {
+      return parameters;
+    }
+    // `where` takes precedence over a `conditions` list (see SQLParser.getFilterExpression)
+    return { ...parameters, where: SchemaExtractor.coerceExpression(expression, schema) };
+  }
+
+  /**
+   * Builds OData paging options from LIMIT/OFFSET parameters
+   *
+   * - limit: $top=limit
+   * - fetchAll (LIMIT ALL): $top=record cap, remaining pages follow @odata.nextLink
+   * - offset: $skip=offset
+   * - $count=true is requested so the total row count can be reported
+   *
+   * When the WHERE clause is applied locally (see requiresLocalFilter) no paging options
+   * are sent: a page cut before filtering would return too few rows, skip unfiltered rows
+   * and count rows that do not match. Records up to the record cap are fetched instead,
+   * and ResponseParser applies OFFSET/LIMIT to the filtered rows.
+   *
+   * @static
+   * @param {SQLParameters} parameters - Parameters from SQL parsing
+   * @returns {string[]} OData query options
+   */
+  static buildODataPaging(parameters: SQLParameters): string[] {
+    if (this.requiresLocalFilter(parameters)) {
+      return [];
+    }
+
+    const options: string[] = [];
+    const top = this.getRecordTarget(parameters);
+
+    if (top) {
+      options.push(`$top=${top}`);
+    }
+    if (parameters.offset) {
+      options.push(`$skip=${parameters.offset}`);
+    }
+    options.push('$count=true');
+
+    return options;
+  }
+
+  /**
+   * Number of records a query should fetch: LIMIT, or the record cap for LIMIT ALL and
+   * for queries filtered locally
+   * @private
+   * @static
+   * @param {SQLParameters} parameters - Parameters from SQL parsing
+   * @returns {number | undefined} Record target (undefined when no limit was requested)
+   */
+  private static getRecordTarget(parameters: SQLParameters): number | undefined {
+    if (parameters.fetchAll || this.requiresLocalFilter(parameters)) {
+      return Number(parameters.maxRecords) || this.DEFAULT_MAX_RECORDS;
+    }
+    return parameters.limit ? Number(parameters.limit) : undefined;
+  }
+
+  /**
+   * Builds an OData $select value from the SQL SELECT list
+   *
+   * Only top-level properties can be selected; for nested paths such as
+   * SoldToBPRef.Name the navigation property (SoldToBPRef) is selected.
+   *
+   * @static
+   * @param {SelectColumn[] | undefined} columns - Columns from SQLParser
+   * @returns {string} Comma-separated property list (not URL-encoded), or empty string for all columns
+   */
+  static buildODataSelect(columns: SelectColumn[] | undefined): string {
+    if (!Array.isArray(columns) || columns.length === 0) {
+      return '';
+    }
+    const properties = columns.filter(column => !column.aggregate).map(column => column.field.split('.')[0]);
+    return Array.from(new Set(properties)).join(',');
+  }
+
+  /**
+   * Builds an OData $expand value from SQL JOINs and plain expand lists
+   *
+   * JOIN expansions carry their own options: `LineRefs($select=Item;$filter=Item eq 'X';$expand=...)`.
+   * Names from `expand` / `$expand` (string or array) are added unless a JOIN
+   * already expands the same navigation property.
+   *
+   * @static
+   * @param {SQLParameters} parameters - Parameters from SQL parsing
+   * @returns {string} Expand value (not URL-encoded), or empty string if nothing is expanded
+   *
+   * @example
+   * // SELECT o.OrderNumber, l.Item FROM Orders o JOIN LineRefs l
+   * // → "LineRefs($select=Item)"
+   */
+  static buildODataExpand(parameters: SQLParameters): string {
+    const items: ExpandItem[] = Array.isArray(parameters.expandItems) ? parameters.expandItems : [];
+    const expanded = items.map(item => this.formatODataExpandItem(item));
+    const joined = new Set(items.map(item => item.navigationProperty.toLowerCase()));
+
+    [parameters.expand, parameters['$expand']].forEach(value => {
+      const names: string[] = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+      names.map(name => String(name).trim()).filter(Boolean).forEach(name => {
+        if (!joined.has(name.toLowerCase())) {
+          joined.add(name.toLowerCase());
+          expanded.push(name);
+        }
+      });
+    });
+
+    return expanded.join(',');
+  }
+
+  /**
+   * Formats one JOIN expansion with its nested $select/$filter/$expand options
+   * @private
+   * @static
+   */
+  private static formatODataExpandItem(item: ExpandItem): string {
+    const options: string[] = [];
+    const select = Array.from(new Set(item.select.map(field => field.split('.')[0])));
+    if (select.length > 0) {
+      options.push(`$select=${select.join(',')}`);
+    }
+    const filter = this.buildODataFilter(LikePattern.pushdownExpression(item.filter ?? null, occurrence => this.canPushLike(occurrence)));
+    if (filter) {
+      options.push(`$filter=${filter}`);
+    }
+    if (item.expand.length > 0) {
+      options.push(`$expand=${item.expand.map(child => this.formatODataExpandItem(child)).join(',')}`);
+    }
+    return options.length > 0 ? `${item.navigationProperty}(${options.join(';')})` : item.navigationProperty;
+  }
+
+  /**
+   * Checks that every JOIN targets a navigation property known for the table
+   *
+   * Known navigation properties are the table's configured expand fields; when
+   * none are configured the JOINs are passed through and ION validates them.
+   *
+   * @static
+   * @param {ExpandItem[] | undefined} items - Top-level JOIN expansions
+   * @param {string[] | undefined} knownProperties - Navigation properties configured for the table
+   * @throws {IONAPIError} If a JOIN targets an unknown navigation property
+   */
+  static validateExpandItems(items: ExpandItem[] | undefined, knownProperties: string[] | undefined): void {
+    if (!items?.length || !knownProperties?.length) {
+      return;
+    }
+    const known = new Set(knownProperties.map(name => name.toLowerCase()));
+    const unknown = items.filter(item => !known.has(item.navigationProperty.toLowerCase()));
+    if (unknown.length > 0) {
+      throw IONErrorParser.validationError(
+        `Cannot JOIN ${unknown.map(item => item.navigationProperty).join(', ')}: not a known navigation property of this table. ` +
+        `Known navigation properties: ${knownProperties.join(', ')}`,
+        unknown[0].navigationProperty
+      );
+    }
+  }
+
   /**
    * Converts SQL operators to OData operators
    * @private
    * @static
-   * @param {string} sqlOperator - SQL operator (eq, ne, gt, lt, ge, le, like, between, is_null, is_not_null, not)
+   * @param {string} sqlOperator - SQL operator (eq, ne, gt, lt, ge, le, between, is_null, is_not_null, not)
    * @returns {string} OData operator
    */
   private static convertToODataOperator(sqlOperator: string): string {
@@ -316,7 +659,6 @@ export class RestAPIManager {
       'lt': 'lt',
       'ge': 'ge',
       'le': 'le',
-      'like': 'contains', // OData uses 'contains' for LIKE functionality
       'between': 'between', // Handled specially in generateODataQuery
       'is_null': 'eq', // field eq null
       'is_not_null': 'ne', // field ne null  
@@ -338,155 +680,298 @@ export class RestAPIManager {
   }
 
   /**
-   * Executes a REST API query against the ION OData API with OAuth2 authentication
+   * Loads the $metadata (CSDL) document of an OData service
+   *
+   * Lookup order: in-memory cache, SQLite cache (odata_metadata_cache), then ION.
+   * Cached documents older than METADATA_TTL_MS are fetched again.
+   *
    * @static
    * @async
-   * @param {APIRequestConfig} config - Configuration for the REST request including tenant, service, entity, and parameters
-   * @param {StoredOAuth2Token} token - Valid OAuth2 token for ION API authentication
-   * @returns {Promise<RemoteAPIQueryResult>} Result containing success status, data, and response metadata
-   * @throws {Error} If the API request fails due to configuration or network issues
-   * 
-   * @example
-   * ```typescript
-   * const config: APIRequestConfig = {
-   *   tenant: 'MIDPORT_DEM',
-   *   oDataService: 'tdapi.slsSalesOrder',
-   *   entityName: 'Orders',
-   *   action: 'List',
-   *   parameters: { limit: 10 }
-   * };
-   * const result = await RestAPIManager.executeQuery(config, token);
-   * ```
+   * @param {string} tenant - The tenant name (e.g., 'MIDPORT_DEM')
+   * @param {string} oDataService - OData service name (e.g., 'tsapi.socServiceOrders')
+   * @param {Object} [options] - Load options
+   * @param {StoredOAuth2Token} [options.token] - Valid OAuth2 token (acquired from the OAuth2 configuration when omitted)
+   * @param {boolean} [options.refresh=false] - Bypass both caches and fetch the document again
+   * @returns {Promise<ODataServiceMetadata>} Parsed entity types, keys and entity sets
+   * @throws {Error} If the document cannot be fetched or parsed
    */
-  static async executeQuery(config: APIRequestConfig, token: StoredOAuth2Token): Promise<RemoteAPIQueryResult> {
-    try {
-      // Validate required configuration fields
-      if (!config.oDataService && !config.fullUrl) {
-        throw new Error('REST API requires either oDataService or fullUrl to be specified');
-      }
-      
-      if (!config.entityName && !config.table && !config.fullUrl) {
-        throw new Error('REST API requires either entityName, table, or fullUrl to be specified');
-      }
-      
-      // Build the complete OData API URL
-      const baseUrl = config.fullUrl || this.buildIONODataUrl(
-        config.tenant,
-        config.oDataService || '',
-        config.entityName || config.table
-      );
-      
-    // Generate OData query parameters from the request configuration
-    // Use expand fields from configuration if available
-    const modifiedParams = { ...(config.parameters || {}) };
-    if (config.expandFields && config.expandFields.length > 0) {
-      modifiedParams.expand = config.expandFields.join(',');
-    }
-    
-    const queryString = this.generateODataQuery(modifiedParams);
-    const url = queryString ? `${baseUrl}?${queryString}` : baseUrl;
-      
-      // Convert API action to appropriate HTTP method
-      const method = this.getHttpMethod(config.action);
-      
-      // Prepare request body for create/update operations
-      let body: string | undefined;
-      const contentType = 'application/json';
+  static async loadServiceMetadata(
+    tenant: string,
+    oDataService: string,
+    options: { token?: StoredOAuth2Token; refresh?: boolean } = {}
+  ): Promise<ODataServiceMetadata> {
+    const cacheKey = `${tenant}/${oDataService}`;
+    const now = Date.now();
 
-      if (method === 'POST' || method === 'PUT') {
-        body = JSON.stringify(config.parameters || {});
+    if (!options.refresh) {
+      const cached = this.metadataCache.get(cacheKey);
+      if (cached && now - cached.fetchedAt < this.METADATA_TTL_MS) {
+        return cached.metadata;
       }
 
-      // Get tenant-specific headers from database by tenant name
-      const tenant = await TenantConfigManager.getTenantByName(config.tenant);
-      const tenantHeaders: { lnCompany: string | null; lnIdentity: string | null } = tenant ? 
-        await TenantConfigManager.getTenantInforHeaders(tenant.id) : 
-        { lnCompany: null, lnIdentity: null };
-        
-      // Convert to HTTP header format
-      const httpHeaders: Record<string, string> = {};
-      if (tenantHeaders.lnCompany) {
-        httpHeaders['X-Infor-LnCompany'] = tenantHeaders.lnCompany; 
-      }
-      if (tenantHeaders.lnIdentity) {
-        httpHeaders['X-Infor-LnIdentity'] = tenantHeaders.lnIdentity;
+      const stored = await SQLiteManager.getCachedODataMetadata(tenant, oDataService);
+      if (stored && now - stored.fetchedAt.getTime() < this.METADATA_TTL_MS) {
+        const metadata = ODataMetadataParser.parse(stored.metadataXml);
+        this.metadataCache.set(cacheKey, { metadata, fetchedAt: stored.fetchedAt.getTime() });
+        return metadata;
       }
+    }
 
-      // Prepare headers with OAuth2 authentication and tenant-specific LN headers
-      const headers = {
-        'Accept': 'application/json',
-        'Content-Type': contentType,
-        'Authorization': OAuth2ConfigManager.getAuthorizationHeader(token),
-        'OData-MaxVersion': '4.0',
-        'OData-Version': '4.0',
-        ...httpHeaders // Include tenant-specific X-Infor-LnCompany and X-Infor-LnIdentity
-      };
-      
-      // Execute the HTTP request to ION OData API
-      const response = await fetch(url, {
-        method,
-        headers,
-        body,
-      });
-      
-      // Handle HTTP error responses
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`ION OData API Error ${response.status}: ${response.statusText} - ${errorText}`);
-      }
+    const token = options.token || await OAuth2ConfigManager.getValidToken(null, await OAuth2ConfigManager.loadConfig());
+    const url = this.buildIONODataUrl(tenant, oDataService, '$metadata');
+    const headers = {
+      ...await this.buildRequestHeaders(tenant, token),
+      'Accept': 'application/xml'
+    };
 
-      // Parse successful response
-      const responseData = await response.json();
-      
-      const limit = config.parameters?.limit || 15; // Default record limit
-      const parsedData = this.parseODataResponse(responseData, config.entityName || config.table, limit);
+    console.log('📑 Fetching OData $metadata:', url);
+    const response = await IONHttpClient.fetch(url, { method: 'GET', headers }, { tenant });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`ION OData $metadata Error ${response.status}: ${response.statusText} - ${errorText}`);
+    }
 
-      // Extract schema metadata from the parsed response
-      let schemaMetadata: TableSchema | undefined = undefined;
-      try {
-        if (parsedData.records && parsedData.records.length > 0) {
-          // Create a result object that matches RemoteAPIQueryResult interface
-          const resultForSchema = {
-            success: true,
-            url: url,
-            action: config.action,
-            status: response.status,
-            statusText: response.statusText,
-            data: parsedData,
-            rawResponse: JSON.stringify(responseData, null, 2),
-            note: `ION OData API ${config.action} operation completed successfully`,
-            records: parsedData.records
+    const metadataXml = await response.text();
+    const metadata = ODataMetadataParser.parse(metadataXml);
+
+    await SQLiteManager.saveODataMetadata(tenant, oDataService, metadataXml);
+    this.metadataCache.set(cacheKey, { metadata, fetchedAt: now });
+    this.metadataUnavailable.delete(cacheKey);
+
+    return metadata;
+  }
+
+  /**
+   * Builds the schema of an OData entity from the service's $metadata document
+   * @static
+   * @async
+   * @param {string} tenant - The tenant name
+   * @param {string} oDataService - OData service name
+   * @param {string} entityName - Entity set or entity type name (e.g., 'Orders')
+   * @param {Object} [options] - Load options (see loadServiceMetadata)
+   * @returns {Promise<TableSchema | null>} Schema with exact types, keys, nullability and max lengths, or null when the entity is not in the document
+   * @throws {Error} If the document cannot be fetched or parsed
+   *
+   * @example
+   * const schema = await RestAPIManager.getMetadataSchema('MIDPORT_DEM', 'tsapi.socServiceOrders', 'Orders');
+   * // schema.fields.filter(field => field.isPrimaryKey) → [{ fieldName: 'ServiceOrder', ... }]
+   */
+  static async getMetadataSchema(
+    tenant: string,
+    oDataService: string,
+    entityName: string,
+    options: { token?: StoredOAuth2Token; refresh?: boolean } = {}
+  ): Promise<TableSchema | null> {
+    const metadata = await this.loadServiceMetadata(tenant, oDataService, options);
+    const schema = ODataMetadataParser.toTableSchema(metadata, entityName, tenant);
+    if (schema) {
+      schema.metadata = {
+        requestUrl: this.buildIONODataUrl(tenant, oDataService, '$metadata'),
+        requestMethod: 'GET',
+        contentType: 'application/xml',
+        queryUsed: `${oDataService}/$metadata`
+      };
+    }
+    return schema;
+  }
+
+  /**
+   * Lists the OData services published by LN for a tenant from the lnapi/odata service document
+   * @static
+   * @async
+   * @param {string} tenant - The tenant name
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token for the tenant
+   * @returns {Promise<CatalogODataService[]>} Services sorted by name (entity sets are loaded with listEntitySets)
+   * @throws {Error} If the service document cannot be fetched
+   *
+   * @example
+   * const services = await RestAPIManager.listODataServices('MIDPORT_DEM', token);
+   * // [{ name: 'tdapi.slsSalesOrder' }, { name: 'tsapi.socServiceOrders', title: 'Service Orders' }, ...]
+   */
+  static async listODataServices(tenant: string, token: StoredOAuth2Token): Promise<CatalogODataService[]> {
+    const url = `${this.BASE_ION_API_URL}/${tenant}/LN/lnapi/odata/`;
+
+    console.log('📚 Fetching OData service document:', url);
+    const response = await IONHttpClient.fetch(url, { method: 'GET', headers: await this.buildRequestHeaders(tenant, token) }, { tenant });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`ION OData service document Error ${response.status}: ${response.statusText} - ${errorText}`);
+    }
+
+    const document = await response.json();
+    const entries: Array<{ name?: string; url?: string; title?: string }> = Array.isArray(document?.value) ? document.value : [];
+    const services = new Map<string, CatalogODataService>();
+
+    for (const entry of entries) {
+      const name = entry.name || entry.url?.replace(/\/+$/, '').split('/').pop();
+      if (name && !services.has(name)) {
+        services.set(name, entry.title && entry.title !== name ? { name, title: entry.title } : { name });
+      }
+    }
+
+    return [...services.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Lists the entity sets of an OData service with their keys and navigation properties
+   * (suggested expand fields) from $metadata; when $metadata is unavailable the service's
+   * own service document is used and no navigation properties are suggested
+   * @static
+   * @async
+   * @param {string} tenant - The tenant name
+   * @param {string} oDataService - OData service name (e.g., 'tsapi.socServiceOrders')
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token for the tenant
+   * @returns {Promise<CatalogEntitySet[]>} Entity sets sorted by name
+   * @throws {Error} If neither $metadata nor the service document can be fetched
+   */
+  static async listEntitySets(tenant: string, oDataService: string, token: StoredOAuth2Token): Promise<CatalogEntitySet[]> {
+    let metadata: ODataServiceMetadata | null = null;
+    try {
+      metadata = await this.loadServiceMetadata(tenant, oDataService, { token });
+    } catch (error) {
+      console.warn(`⚠️ $metadata unavailable for ${oDataService}, listing entity sets from the service document:`, error instanceof Error ? error.message : error);
+    }
+
+    if (metadata && Object.keys(metadata.entitySets).length > 0) {
+      const loaded = metadata;
+      return Object.keys(loaded.entitySets)
+        .map(name => {
+          const entityType = ODataMetadataParser.findEntityType(loaded, name)?.entityType;
+          return {
+            name,
+            oDataService,
+            keys: entityType?.key || [],
+            navigationProperties: ODataMetadataParser.getNavigationProperties(loaded, name),
+            description: entityType?.description
           };
-          
-          schemaMetadata = SchemaExtractor.extractSchema(
-            resultForSchema,
-            config.entityName || config.table || 'UnknownEntity',
-            config.tenant,
-            `SELECT * FROM ${config.entityName || config.table}`
-          );
-          console.log('🔍 REST Schema extracted:', {
-            entityName: config.entityName || config.table,
-            fieldCount: schemaMetadata?.fields?.length || 0,
-            fields: schemaMetadata?.fields?.map(f => `${f.fieldName}: ${f.dataType}`).slice(0, 5)
-          });
-        }
-      } catch (schemaError) {
-        console.warn('⚠️ Schema extraction failed for REST response:', schemaError);
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    const url = `${this.BASE_ION_API_URL}/${tenant}/LN/lnapi/odata/${oDataService}/`;
+    const response = await IONHttpClient.fetch(url, { method: 'GET', headers: await this.buildRequestHeaders(tenant, token) }, { tenant });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`ION OData service document Error ${response.status}: ${response.statusText} - ${errorText}`);
+    }
+
+    const document = await response.json();
+    const entries: Array<{ name?: string; url?: string; kind?: string }> = Array.isArray(document?.value) ? document.value : [];
+
+    return entries
+      .filter(entry => (!entry.kind || entry.kind === 'EntitySet') && (entry.name || entry.url))
+      .map(entry => ({ name: (entry.name || entry.url) as string, oDataService, keys: [], navigationProperties: [] }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Loads the $metadata schema of the queried entity and registers it for filter
+   * value coercion; failures are remembered so the service falls back to sampling
+   * @private
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Request configuration
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token
+   * @returns {Promise<TableSchema | null>} Schema, or null when $metadata is unavailable
+   */
+  private static async loadEntitySchema(config: APIRequestConfig, token: StoredOAuth2Token): Promise<TableSchema | null> {
+    const cacheKey = `${config.tenant}/${config.oDataService}`;
+    if (!config.oDataService || this.metadataUnavailable.has(cacheKey)) {
+      return null;
+    }
+
+    try {
+      const schema = await this.getMetadataSchema(config.tenant, config.oDataService, config.entityName || config.table, { token });
+      if (schema) {
+        this.rememberSchema(this.getServiceKey(config), schema);
       }
+      return schema;
+    } catch (error) {
+      this.metadataUnavailable.add(cacheKey);
+      console.warn(`⚠️ OData $metadata unavailable for ${cacheKey}, schema is sampled from the response:`, error);
+      return null;
+    }
+  }
 
-      return {
-        success: true,
-        url: url,
-        action: config.action,
-        status: response.status,
-        statusText: response.statusText,
-        data: parsedData,
-        schema: schemaMetadata,
-        rawResponse: JSON.stringify(responseData, null, 2),
-        note: `ION OData API ${config.action} operation completed successfully`
-      };
+  /**
+   * Executes a REST API query against the ION OData API with OAuth2 authentication
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Configuration for the REST request including tenant, service, entity, and parameters
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token for ION API authentication
+   * @returns {Promise<RemoteAPIQueryResult>} Result containing success status, data, and response metadata
+   * @throws {Error} If the API request fails due to configuration or network issues
+   * 
+   * @example
+   * ```typescript
+   * const config: APIRequestConfig = {
+   *   tenant: 'MIDPORT_DEM',
+   *   oDataService: 'tdapi.slsSalesOrder',
+   *   entityName: 'Orders',
+   *   action: 'List',
+   *   parameters: { limit: 10 }
+   * };
+   * const result = await RestAPIManager.executeQuery(config, token);
+   * ```
+   */
+  static async executeQuery(config: APIRequestConfig, token: StoredOAuth2Token): Promise<RemoteAPIQueryResult> {
+    // INSERT / UPDATE / DELETE
+    if (SQLParser.isWriteStatement(config.parameters)) {
+      return this.executeWriteQuery(config, token);
+    }
+
+    try {
+      // Exact types and keys from $metadata (also used to type the $filter literals)
+      const entitySchema = await this.loadEntitySchema(config, token);
+      const url = this.buildQueryUrl(config);
+      
+      // Queries are always GET; INSERT/UPDATE/DELETE go through executeWriteQuery()
+      const method = 'GET';
+
+      // Prepare headers with OAuth2 authentication and tenant-specific LN headers
+      const headers = await this.buildRequestHeaders(config.tenant, token);
+      
+      // Execute the HTTP request to ION OData API (retried on throttling, new token on 401)
+      // A stale cached result is revalidated with its ETag (first page only)
+      const requestHeaders = config.ifNoneMatch ? { ...headers, 'If-None-Match': config.ifNoneMatch } : headers;
+      const response = await IONHttpClient.fetch(url, { method, headers: requestHeaders }, {
+        tenant: config.tenant,
+        signal: config.signal,
+        // Later pages are requested with the new token
+        onTokenRefresh: newToken => { headers['Authorization'] = OAuth2ConfigManager.getAuthorizationHeader(newToken); }
+      });
+      
+      // The cached result is still current; the response cache serves it
+      if (response.status === 304) {
+        return {
+          success: true,
+          url: url,
+          action: config.action,
+          status: response.status,
+          statusText: 'Not Modified',
+          etag: config.ifNoneMatch,
+          note: 'ION OData API reported the cached result unchanged'
+        };
+      }
+
+      // Handle HTTP error responses
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new IONAPIError(IONErrorParser.fromResponse(response.status, response.statusText, errorText, response.headers));
+      }
+
+      // Parse successful response and follow @odata.nextLink until the record target is reached
+      const recordTarget = this.getRecordTarget(config.parameters || {}) || 15; // Default record limit
+      const firstPage: ODataPayload = await response.json();
+      // The ETag only describes the first page, so it is kept for single-page results only
+      const etag = firstPage && !firstPage['@odata.nextLink'] ? response.headers.get('etag') || undefined : undefined;
+      const responseData = await this.fetchRemainingPages(firstPage, url, headers, recordTarget, config.tenant, config.signal);
+      
+      return this.buildReadResult(config, url, response.status, response.statusText, responseData, entitySchema, recordTarget, etag);
 
     } catch (error) {
+      const apiError = IONErrorParser.fromException(error);
+
       // Build URL for error context
       const baseUrl = config.fullUrl || this.buildIONODataUrl(
         config.tenant,
@@ -496,27 +981,876 @@ export class RestAPIManager {
       const queryString = this.generateODataQuery(config.parameters || {});
       const finalUrl = queryString ? `${baseUrl}?${queryString}` : baseUrl;
       
-      // Return structured error response
-      return {
+      return this.buildErrorResult(finalUrl, config.action, apiError, 'REST API query failed');
+    }
+  }
+
+  /**
+   * Executes a REST API query page by page, yielding each page as soon as ION returns it
+   *
+   * Pages are requested with Prefer: odata.maxpagesize and followed through @odata.nextLink
+   * until the record target (LIMIT, or the record cap for LIMIT ALL) is reached, so only
+   * one page is held in memory at a time. Used by POST /api/remote-query/stream.
+   *
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Configuration of a SELECT (plain, not aggregate)
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token
+   * @yields {RemoteAPIQueryResult} Result of each page (records, schema and the page URL)
+   * @throws {IONAPIError} If a page request fails or config.signal is aborted
+   *
+   * @example
+   * for await (const page of RestAPIManager.streamQuery(config, token)) {
+   *   console.log(page.data?.recordCount);
+   * }
+   */
+  static async *streamQuery(config: APIRequestConfig, token: StoredOAuth2Token): AsyncGenerator<RemoteAPIQueryResult> {
+    // Exact types and keys from $metadata (also used to type the $filter literals)
+    const entitySchema = await this.loadEntitySchema(config, token);
+    const recordTarget = this.getRecordTarget(config.parameters || {}) || 15; // Default record limit
+    const headers: Record<string, string> = {
+      ...await this.buildRequestHeaders(config.tenant, token),
+      'Prefer': `odata.maxpagesize=${this.STREAM_PAGE_SIZE}`
+    };
+
+    let pageUrl: string | undefined = this.buildQueryUrl(config);
+    let received = 0;
+
+    while (pageUrl && received < recordTarget) {
+      const response = await IONHttpClient.fetch(pageUrl, { method: 'GET', headers }, {
+        tenant: config.tenant,
+        signal: config.signal,
+        // Later pages are requested with the new token
+        onTokenRefresh: newToken => { headers['Authorization'] = OAuth2ConfigManager.getAuthorizationHeader(newToken); }
+      });
+
+      if (!response.ok) {
+        throw new IONAPIError(IONErrorParser.fromResponse(response.status, response.statusText, await response.text(), response.headers));
+      }
+
+      const page: ODataPayload = await response.json();
+      const result = this.buildReadResult(config, pageUrl, response.status, response.statusText, page, entitySchema, recordTarget - received);
+      received += result.data?.recordCount || 0;
+      yield result;
+
+      // A single entity has no further pages
+      pageUrl = Array.isArray(page.value) && page['@odata.nextLink']
+        ? new URL(page['@odata.nextLink'], pageUrl).toString()
+        : undefined;
+    }
+  }
+
+  /**
+   * Builds the result of a successful OData read (direct request or $batch response)
+   * Uses the $metadata schema, or samples the records when it is unavailable
+   * @private
+   * @static
+   * @param {APIRequestConfig} config - Configuration of the query
+   * @param {string} url - Request URL
+   * @param {number} status - HTTP status of the response
+   * @param {string} statusText - HTTP status text of the response
+   * @param {ODataPayload} responseData - OData payload with all fetched pages
+   * @param {TableSchema | null} entitySchema - Schema from $metadata, if available
+   * @param {number} recordTarget - Maximum number of records to return
+   * @param {string} [etag] - ETag of a single-page response
+   * @returns {RemoteAPIQueryResult} Query result
+   */
+  private static buildReadResult(
+    config: APIRequestConfig,
+    url: string,
+    status: number,
+    statusText: string,
+    responseData: ODataPayload,
+    entitySchema: TableSchema | null,
+    recordTarget: number,
+    etag?: string
+  ): RemoteAPIQueryResult {
+    const parsedData = this.parseODataResponse(responseData, config.entityName || config.table, recordTarget);
+
+    let schemaMetadata: TableSchema | undefined = undefined;
+    try {
+      if (entitySchema) {
+        schemaMetadata = {
+          ...entitySchema,
+          metadata: {
+            ...entitySchema.metadata,
+            recordCount: parsedData.records.length,
+            totalAvailable: typeof responseData['@odata.count'] === 'number' ? responseData['@odata.count'] : undefined,
+            queryUsed: `SELECT * FROM ${config.entityName || config.table}`
+          }
+        };
+      } else if (parsedData.records && parsedData.records.length > 0) {
+        // Create a result object that matches RemoteAPIQueryResult interface
+        const resultForSchema = {
+          success: true,
+          url: url,
+          action: config.action,
+          status,
+          statusText,
+          data: parsedData,
+          rawResponse: JSON.stringify(responseData, null, 2),
+          note: `ION OData API ${config.action} operation completed successfully`,
+          records: parsedData.records
+        };
+        
+        schemaMetadata = SchemaExtractor.extractSchema(
+          resultForSchema,
+          config.entityName || config.table || 'UnknownEntity',
+          config.tenant,
+          `SELECT * FROM ${config.entityName || config.table}`
+        );
+        if (schemaMetadata.metadata && typeof responseData['@odata.count'] === 'number') {
+          schemaMetadata.metadata.totalAvailable = responseData['@odata.count'];
+        }
+        this.rememberSchema(this.getServiceKey(config), schemaMetadata);
+        console.log('🔍 REST Schema extracted:', {
+          entityName: config.entityName || config.table,
+          fieldCount: schemaMetadata?.fields?.length || 0,
+          fields: schemaMetadata?.fields?.map(f => `${f.fieldName}: ${f.dataType}`).slice(0, 5)
+        });
+      }
+    } catch (schemaError) {
+      console.warn('⚠️ Schema extraction failed for REST response:', schemaError);
+    }
+
+    return {
+      success: true,
+      url: url,
+      action: config.action,
+      status,
+      statusText,
+      data: parsedData,
+      schema: schemaMetadata,
+      rawResponse: JSON.stringify(responseData, null, 2),
+      note: `ION OData API ${config.action} operation completed successfully`,
+      etag,
+      truncated: !!responseData['@odata.nextLink'] || (Array.isArray(responseData.value) && responseData.value.length > recordTarget)
+    };
+  }
+
+  /**
+   * Builds the result of a failed OData request
+   * @private
+   * @static
+   * @param {string} url - Request URL
+   * @param {string} action - Query action or HTTP method
+   * @param {RemoteAPIError} apiError - Structured error
+   * @param {string} summary - Summary shown with the error
+   * @param {WriteRequestPreview} [preview] - Request of a failed INSERT/UPDATE/DELETE
+   * @returns {RemoteAPIQueryResult} Failed result carrying the structured error
+   */
+  private static buildErrorResult(
+    url: string,
+    action: string,
+    apiError: RemoteAPIError,
+    summary: string,
+    preview?: WriteRequestPreview
+  ): RemoteAPIQueryResult {
+    return {
+      success: false,
+      url,
+      action,
+      status: apiError.httpStatus || 500,
+      statusText: apiError.code,
+      data: {
         success: false,
-        url: finalUrl,
-        action: config.action,
-        status: 500,
-        statusText: 'Internal Error',
+        serviceType: 'OData',
+        recordCount: 0,
+        records: [],
+        summary,
+        error: true,
+        message: apiError.message,
+        type: 'rest_api_error'
+      },
+      rawResponse: JSON.stringify({ error: apiError }, null, 2),
+      note: `REST API ${action} operation failed: ${apiError.message}`,
+      preview,
+      error: apiError
+    };
+  }
+
+  /**
+   * Builds the complete OData URL of a query ($filter, $select, paging, $orderby, $expand)
+   * @static
+   * @param {APIRequestConfig} config - Request configuration with parameters from SQLParser.parseSQL()
+   * @returns {string} Request URL
+   * @throws {Error} If the configuration has no service/entity or a JOIN targets an unknown navigation property
+   */
+  static buildQueryUrl(config: APIRequestConfig): string {
+    // Validate required configuration fields
+    if (!config.oDataService && !config.fullUrl) {
+      throw new Error('REST API requires either oDataService or fullUrl to be specified');
+    }
+    
+    if (!config.entityName && !config.table && !config.fullUrl) {
+      throw new Error('REST API requires either entityName, table, or fullUrl to be specified');
+    }
+    
+    // Build the complete OData API URL
+    const baseUrl = config.fullUrl || this.buildIONODataUrl(
+      config.tenant,
+      config.oDataService || '',
+      config.entityName || config.table
+    );
+    
+    // Generate OData query parameters from the request configuration
+    // Use expand fields from configuration if available; SQL JOINs must target one of them
+    const modifiedParams = this.coerceFilterValues({ ...(config.parameters || {}) }, this.getServiceKey(config));
+    this.validateExpandItems(modifiedParams.expandItems, config.expandFields);
+    if (config.expandFields && config.expandFields.length > 0) {
+      modifiedParams.expand = config.expandFields.join(',');
+    }
+    
+    const queryString = this.generateODataQuery(modifiedParams);
+    return queryString ? `${baseUrl}?${queryString}` : baseUrl;
+  }
+
+  /**
+   * Translates a query into the OData request it would send, without calling ION (EXPLAIN)
+   *
+   * Aggregate queries pushed to $apply are explained by explainAggregateQuery().
+   *
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Request configuration with parameters from SQLParser.parseSQL()
+   * @returns {Promise<QueryExplanation>} Method, URL, redacted headers, body and warnings
+   * @throws {Error} If the query cannot be translated
+   */
+  static async explainQuery(config: APIRequestConfig): Promise<QueryExplanation> {
+    const parameters = config.parameters || {};
+    const headers = await this.buildRequestHeaders(config.tenant, null);
+
+    if (SQLParser.isWriteStatement(parameters)) {
+      const request = this.buildWriteRequest(config);
+      return {
+        apiType: 'rest',
+        parsed: parameters,
+        method: request.method,
+        url: request.url,
+        decodedUrl: decodeURIComponent(request.url),
+        headers,
+        body: request.body,
+        warnings: []
+      };
+    }
+
+    const url = this.buildQueryUrl(config);
+    const warnings: string[] = [];
+    if (this.requiresLocalFilter(parameters)) {
+      warnings.push('WHERE: LIKE patterns OData cannot express are left out of $filter and applied to the returned records');
+      warnings.push(`LIMIT/OFFSET: applied after the local filter to at most ${this.DEFAULT_MAX_RECORDS} fetched records (ION_ODATA_MAX_RECORDS); no total count is reported`);
+    }
+    if (parameters.fetchAll || (parameters.limit && parameters.limit > this.DEFAULT_MAX_RECORDS)) {
+      warnings.push(`LIMIT: at most ${this.DEFAULT_MAX_RECORDS} records are fetched (ION_ODATA_MAX_RECORDS)`);
+    }
+
+    return {
+      apiType: 'rest',
+      parsed: parameters,
+      method: 'GET',
+      url,
+      decodedUrl: decodeURIComponent(url),
+      headers,
+      warnings
+    };
+  }
+
+  /**
+   * Builds the OData request for an INSERT, UPDATE or DELETE
+   *
+   * - INSERT → POST {entitySet} with the column values as JSON body
+   * - UPDATE → PATCH {entitySet}({key}) with the SET values as JSON body
+   * - DELETE → DELETE {entitySet}({key})
+   *
+   * @static
+   * @param {APIRequestConfig} config - Request configuration with parameters from SQLParser.parseSQL()
+   * @returns {WriteRequestPreview} Method, URL and body of the request
+   *
+   * @example
+   * // UPDATE Orders SET Status = 'Free' WHERE OrderNumber = 'SO1'
+   * // → PATCH .../Orders('SO1')  {"Status":"Free"}
+   */
+  static buildWriteRequest(config: APIRequestConfig): WriteRequestPreview {
+    const parameters = config.parameters || {};
+    const statement = parameters.statement as WriteRequestPreview['statement'];
+    const baseUrl = config.fullUrl || this.buildIONODataUrl(
+      config.tenant,
+      config.oDataService || '',
+      config.entityName || config.table
+    );
+
+    return {
+      statement,
+      method: this.getHttpMethod(statement),
+      url: statement === 'insert' ? baseUrl : `${baseUrl}${this.formatODataKey(parameters.key || [])}`,
+      body: statement === 'delete' ? undefined : JSON.stringify(parameters.values || {})
+    };
+  }
+
+  /**
+   * Formats key conditions as an OData key segment: ('SO1') or (Company=2405,OrderNumber='SO1')
+   * @private
+   * @static
+   */
+  private static formatODataKey(key: FilterCondition[]): string {
+    if (key.length === 1) {
+      return `(${encodeURIComponent(this.formatODataLiteral(key[0].value, key[0]))})`;
+    }
+    return `(${key.map(condition => `${condition.field}=${encodeURIComponent(this.formatODataLiteral(condition.value, condition))}`).join(',')})`;
+  }
+
+  /**
+   * Executes an INSERT, UPDATE or DELETE against the OData entity set
+   *
+   * With config.dryRun the request is only built and returned as preview.
+   *
+   * @private
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Request configuration with parameters from SQLParser.parseSQL()
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token
+   * @returns {Promise<RemoteAPIQueryResult>} Result with the created entity (INSERT) and the request preview
+   */
+  private static async executeWriteQuery(config: APIRequestConfig, token: StoredOAuth2Token): Promise<RemoteAPIQueryResult> {
+    const preview = this.buildWriteRequest(config);
+    const entityName = config.entityName || config.table;
+
+    if (config.dryRun) {
+      return {
+        success: true,
+        url: preview.url,
+        action: preview.method,
+        status: 0,
+        statusText: 'Dry run',
         data: {
-          success: false,
+          success: true,
           serviceType: 'OData',
           recordCount: 0,
           records: [],
-          summary: 'REST API query failed',
-          error: true,
-          message: error instanceof Error ? error.message : String(error),
-          type: 'rest_api_error'
+          summary: `Dry run: ${preview.method} ${entityName} was not sent`,
+          type: 'write_preview'
         },
-        rawResponse: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }, null, 2),
-        note: `REST API ${config.action} operation failed: ${error instanceof Error ? error.message : String(error)}`
+        note: 'Dry run - no request was sent to ION',
+        preview
       };
     }
+
+    try {
+      const headers = await this.buildRequestHeaders(config.tenant, token);
+      // POST and PATCH are never resent after they may have reached ION
+      const response = await IONHttpClient.fetch(preview.url, { method: preview.method, headers, body: preview.body }, { tenant: config.tenant, signal: config.signal });
+      const responseText = await response.text();
+
+      if (!response.ok) {
+        throw new IONAPIError(IONErrorParser.fromResponse(response.status, response.statusText, responseText, response.headers));
+      }
+
+      return this.buildWriteResult(config, preview, response.status, response.statusText, responseText);
+    } catch (error) {
+      const apiError = IONErrorParser.fromException(error);
+      return this.buildErrorResult(preview.url, preview.method, apiError, `REST API ${preview.method} failed`, preview);
+    }
+  }
+
+  /**
+   * Builds the result of a successful INSERT, UPDATE or DELETE
+   * @private
+   * @static
+   * @param {APIRequestConfig} config - Configuration of the write
+   * @param {WriteRequestPreview} preview - Request that was sent
+   * @param {number} status - HTTP status of the response
+   * @param {string} statusText - HTTP status text of the response
+   * @param {string} responseText - Response body (the created entity for POST, usually empty otherwise)
+   * @returns {RemoteAPIQueryResult} Write result
+   */
+  private static buildWriteResult(
+    config: APIRequestConfig,
+    preview: WriteRequestPreview,
+    status: number,
+    statusText: string,
+    responseText: string
+  ): RemoteAPIQueryResult {
+    // POST returns the created entity; PATCH and DELETE usually return 204 No Content
+    const records = responseText ? [JSON.parse(responseText)] : [];
+    const verb = { insert: 'Created', update: 'Updated', delete: 'Deleted' }[preview.statement];
+
+    return {
+      success: true,
+      url: preview.url,
+      action: preview.method,
+      status,
+      statusText,
+      data: {
+        success: true,
+        serviceType: 'OData',
+        recordCount: records.length,
+        records,
+        summary: `${verb} 1 ${config.entityName || config.table} record via OData REST API`,
+        type: 'write_result'
+      },
+      rawResponse: responseText,
+      note: `ION OData API ${preview.method} operation completed successfully`,
+      records,
+      preview
+    };
+  }
+
+  /**
+   * Sends several queries and writes of one tenant and OData service in a single
+   * OData $batch request (JSON batch format, OData 4.01)
+   *
+   * - SELECT → GET of the query URL; further pages (@odata.nextLink) are fetched afterwards
+   * - INSERT/UPDATE/DELETE → POST/PATCH/DELETE; writes with the same `changeSet` form one
+   *   atomicity group that ION applies completely or not at all
+   * - Prefer: odata.continue-on-error keeps a failing request from stopping the others
+   *
+   * Aggregate queries, EXPLAIN and dry runs are not batched (see UnifiedAPIManager.executeBatchWithOAuth2()).
+   *
+   * @static
+   * @async
+   * @param {APIRequestConfig[]} configs - Requests of the same tenant and OData service
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token
+   * @param {AbortSignal} [signal] - Aborts the batch request and the paging that follows it
+   * @returns {Promise<RemoteAPIQueryResult[]>} One result per request, in request order
+   * @throws {Error} If the requests target different tenants or OData services
+   *
+   * @example
+   * const [orders, lines] = await RestAPIManager.executeBatch([ordersConfig, linesConfig], token);
+   */
+  static async executeBatch(configs: APIRequestConfig[], token: StoredOAuth2Token, signal?: AbortSignal): Promise<RemoteAPIQueryResult[]> {
+    const [first] = configs;
+    if (!first?.oDataService || configs.some(config => config.tenant !== first.tenant || config.oDataService !== first.oDataService)) {
+      throw new Error('OData $batch requires requests of one tenant and OData service');
+    }
+
+    const serviceRoot = this.buildIONODataUrl(first.tenant, first.oDataService, '').replace(/\/$/, '');
+    const results: RemoteAPIQueryResult[] = new Array(configs.length);
+    const items: BatchItem[] = [];
+
+    for (const [index, config] of configs.entries()) {
+      try {
+        if (SQLParser.isWriteStatement(config.parameters)) {
+          const preview = this.buildWriteRequest(config);
+          // Group names are prefixed so they never collide with request ids
+          items.push({ id: `r${index}`, index, config, url: preview.url, preview, atomicityGroup: config.changeSet && `changeset_${config.changeSet}` });
+        } else {
+          // Exact types and keys from $metadata (also used to type the $filter literals)
+          const entitySchema = await this.loadEntitySchema(config, token);
+          items.push({ id: `r${index}`, index, config, url: this.buildQueryUrl(config), entitySchema });
+        }
+      } catch (error) {
+        // Requests that cannot be built (e.g. a JOIN on an unknown navigation property) fail on their own
+        const url = this.buildIONODataUrl(config.tenant, config.oDataService || '', config.entityName || config.table);
+        results[index] = this.buildErrorResult(url, config.action, IONErrorParser.fromException(error), 'REST API query failed');
+      }
+    }
+
+    // Members of an atomicity group must be adjacent in the batch
+    const ordered = items.flatMap((item, position) => {
+      if (!item.atomicityGroup) {
+        return [item];
+      }
+      const firstPosition = items.findIndex(candidate => candidate.atomicityGroup === item.atomicityGroup);
+      return firstPosition === position ? items.filter(candidate => candidate.atomicityGroup === item.atomicityGroup) : [];
+    });
+    if (ordered.length === 0) {
+      return results;
+    }
+
+    const requests = ordered.map(item => ({
+      id: item.id,
+      method: item.preview ? item.preview.method : 'GET',
+      url: item.url.startsWith(`${serviceRoot}/`) ? item.url.slice(serviceRoot.length + 1) : item.url,
+      ...(item.atomicityGroup ? { atomicityGroup: item.atomicityGroup } : {}),
+      ...(item.preview?.body ? { headers: { 'content-type': 'application/json' }, body: JSON.parse(item.preview.body) } : {})
+    }));
+
+    const batchUrl = `${serviceRoot}/$batch`;
+    const headers = await this.buildRequestHeaders(first.tenant, token);
+    let responses: BatchResponse[];
+
+    try {
+      console.log(`📦 OData $batch: ${requests.length} requests to ${first.tenant}/${first.oDataService}`);
+      const response = await IONHttpClient.fetch(batchUrl, {
+        method: 'POST',
+        // The JSON batch format was introduced with OData 4.01
+        headers: { ...headers, 'OData-MaxVersion': '4.01', 'OData-Version': '4.01', 'Prefer': 'odata.continue-on-error' },
+        body: JSON.stringify({ requests })
+      }, {
+        tenant: first.tenant,
+        signal,
+        // A batch with writes is only resent when ION certainly did not process it
+        idempotent: ordered.every(item => !item.preview),
+        // Later pages are requested with the new token
+        onTokenRefresh: newToken => { headers['Authorization'] = OAuth2ConfigManager.getAuthorizationHeader(newToken); }
+      });
+      const responseText = await response.text();
+
+      if (!response.ok) {
+        throw new IONAPIError(IONErrorParser.fromResponse(response.status, response.statusText, responseText, response.headers));
+      }
+
+      const payload = JSON.parse(responseText) as { responses?: BatchResponse[] };
+      if (!Array.isArray(payload.responses)) {
+        throw new IONAPIError({ category: 'parse', code: 'PARSE_ERROR', message: 'OData $batch response has no responses array', httpStatus: response.status });
+      }
+      responses = payload.responses;
+    } catch (error) {
+      const apiError = IONErrorParser.fromException(error);
+      for (const item of ordered) {
+        results[item.index] = this.buildErrorResult(item.url, item.preview?.method || item.config.action, apiError, 'OData $batch request failed', item.preview);
+      }
+      return results;
+    }
+
+    const responsesById = new Map(responses.map(response => [String(response.id), response]));
+
+    // A failed atomicity group rolls back all of its requests
+    const groupFailures = new Map<string, RemoteAPIError>();
+    for (const response of responses) {
+      const group = response.atomicityGroup || ordered.find(item => item.id === String(response.id))?.atomicityGroup;
+      if (group && response.status >= 400 && !groupFailures.has(group)) {
+        groupFailures.set(group, this.parseBatchError(response));
+      }
+    }
+
+    for (const item of ordered) {
+      results[item.index] = await this.buildBatchItemResult(item, responsesById.get(item.id), groupFailures, headers, signal);
+    }
+    return results;
+  }
+
+  /**
+   * Converts the response to one request of a $batch into its query result
+   * @private
+   * @static
+   * @async
+   * @param {BatchItem} item - Batched request
+   * @param {BatchResponse | undefined} response - Its response (missing when its atomicity group failed as a whole)
+   * @param {Map<string, RemoteAPIError>} groupFailures - Errors of the failed atomicity groups
+   * @param {Record<string, string>} headers - Request headers for further pages
+   * @param {AbortSignal} [signal] - Stops paging when the batch is cancelled
+   * @returns {Promise<RemoteAPIQueryResult>} Query result
+   */
+  private static async buildBatchItemResult(
+    item: BatchItem,
+    response: BatchResponse | undefined,
+    groupFailures: Map<string, RemoteAPIError>,
+    headers: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<RemoteAPIQueryResult> {
+    const { config, preview } = item;
+    const action = preview?.method || config.action;
+    const summary = preview ? `REST API ${preview.method} failed` : 'REST API query failed';
+    const groupFailure = item.atomicityGroup ? groupFailures.get(item.atomicityGroup) : undefined;
+
+    if (response && response.status >= 400) {
+      return this.buildErrorResult(item.url, action, this.parseBatchError(response), summary, preview);
+    }
+    if (groupFailure) {
+      const changeSet = config.changeSet;
+      return this.buildErrorResult(item.url, action, { ...groupFailure, message: `Change set "${changeSet}" was rolled back: ${groupFailure.message}` }, summary, preview);
+    }
+    if (!response) {
+      return this.buildErrorResult(item.url, action, { category: 'parse', code: 'PARSE_ERROR', message: 'The OData $batch response has no response for this request' }, summary, preview);
+    }
+
+    const statusText = response.status === 201 ? 'Created' : response.status === 204 ? 'No Content' : 'OK';
+    try {
+      if (preview) {
+        const responseText = response.body === undefined || response.body === null ? '' : JSON.stringify(response.body);
+        return this.buildWriteResult(config, preview, response.status, statusText, responseText);
+      }
+
+      // Pages beyond the first are requested outside the batch
+      const recordTarget = this.getRecordTarget(config.parameters || {}) || 15; // Default record limit
+      const responseData = await this.fetchRemainingPages((response.body || {}) as ODataPayload, item.url, headers, recordTarget, config.tenant, signal);
+      return this.buildReadResult(config, item.url, response.status, statusText, responseData, item.entitySchema ?? null, recordTarget);
+    } catch (error) {
+      return this.buildErrorResult(item.url, action, IONErrorParser.fromException(error), summary, preview);
+    }
+  }
+
+  /**
+   * Structured error of a failed request in a $batch response
+   * @private
+   * @static
+   */
+  private static parseBatchError(response: BatchResponse): RemoteAPIError {
+    const body = typeof response.body === 'string' ? response.body : JSON.stringify(response.body ?? '');
+    return IONErrorParser.fromResponse(response.status, '', body, new Headers(response.headers || {}));
+  }
+
+  /**
+   * Builds ION OData request headers: OAuth2 bearer token, OData version and the
+   * tenant's X-Infor-LnCompany / X-Infor-LnIdentity headers
+   * @private
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name used to look up LN headers
+   * @param {StoredOAuth2Token | null} token - Valid OAuth2 token (null for EXPLAIN: the authorization is redacted)
+   * @param {string} [contentType='application/json'] - Request content type
+   * @returns {Promise<Record<string, string>>} Request headers
+   */
+  private static async buildRequestHeaders(tenantName: string, token: StoredOAuth2Token | null, contentType: string = 'application/json'): Promise<Record<string, string>> {
+    // Get tenant-specific headers from database by tenant name
+    const tenant = await TenantConfigManager.getTenantByName(tenantName);
+    const tenantHeaders: { lnCompany: string | null; lnIdentity: string | null } = tenant ? 
+      await TenantConfigManager.getTenantInforHeaders(tenant.id) : 
+      { lnCompany: null, lnIdentity: null };
+      
+    // Convert to HTTP header format
+    const httpHeaders: Record<string, string> = {};
+    if (tenantHeaders.lnCompany) {
+      httpHeaders['X-Infor-LnCompany'] = tenantHeaders.lnCompany; 
+    }
+    if (tenantHeaders.lnIdentity) {
+      httpHeaders['X-Infor-LnIdentity'] = tenantHeaders.lnIdentity;
+    }
+
+    return {
+      'Accept': 'application/json',
+      'Content-Type': contentType,
+      'Authorization': token ? OAuth2ConfigManager.getAuthorizationHeader(token) : OAuth2ConfigManager.getRedactedAuthorizationHeader(),
+      'OData-MaxVersion': '4.0',
+      'OData-Version': '4.0',
+      ...httpHeaders // Include tenant-specific X-Infor-LnCompany and X-Infor-LnIdentity
+    };
+  }
+
+  /**
+   * Builds an OData $apply transformation for an aggregate query
+   *
+   * WHERE becomes filter(...) ahead of groupby/aggregate because $filter is
+   * evaluated after $apply. HAVING, ORDER BY and LIMIT are left to the caller
+   * since they refer to aggregated columns.
+   *
+   * @static
+   * @param {SQLParameters} parameters - Parameters of the aggregate query
+   * @returns {{ apply: string; aliases: Record<string, string> } | null} The $apply value and a map from
+   *          OData aggregate alias to output column name, or null if the query cannot be expressed in $apply
+   *
+   * @example
+   * // SELECT Technician, COUNT(*) AS Calls FROM ServiceCalls WHERE Status='Open' GROUP BY Technician
+   * // → filter(Status eq 'Open')/groupby((Technician),aggregate($count as agg0))
+   */
+  static buildODataApply(parameters: SQLParameters): { apply: string; aliases: Record<string, string> } | null {
+    const columns: SelectColumn[] = parameters.select || [];
+    const groupBy: string[] = parameters.groupBy || [];
+    const aggregateColumns = columns.filter(column => column.aggregate);
+
+    // COUNT(field) counts non-null values, which $apply cannot express;
+    // HAVING on aggregates that are not selected and loose LIKE patterns need the local evaluator too
+    const havingFields = SQLParser.flattenExpression(parameters.having).map(condition => condition.field.toLowerCase());
+    const selectedNames = columns.flatMap(column => [
+      column.alias?.toLowerCase(),
+      column.aggregate ? SQLParser.aggregateName(column.aggregate, column.field).toLowerCase() : column.field.toLowerCase()
+    ]);
+    if (aggregateColumns.some(column => column.aggregate === 'count' && column.field !== '*') ||
+        havingFields.some(field => !selectedNames.includes(field)) ||
+        this.requiresLocalFilter(parameters)) {
+      return null;
+    }
+
+    const oDataFunctions: Record<string, string> = { sum: 'sum', avg: 'average', min: 'min', max: 'max' };
+    const aliases: Record<string, string> = {};
+    const aggregateParts = aggregateColumns.map((column, index) => {
+      const alias = `agg${index}`;
+      aliases[alias] = column.alias || SQLParser.aggregateName(column.aggregate!, column.field);
+      return column.aggregate === 'count'
+        ? `$count as ${alias}`
+        : `${column.field.replace(/\./g, '/')} with ${oDataFunctions[column.aggregate!]} as ${alias}`;
+    });
+
+    const transformations: string[] = [];
+    const filter = this.buildODataFilter(this.getPushdownFilter(parameters));
+    if (filter) {
+      transformations.push(`filter(${filter})`);
+    }
+
+    const aggregate = aggregateParts.length > 0 ? `aggregate(${aggregateParts.join(',')})` : '';
+    if (groupBy.length > 0) {
+      const groupFields = groupBy.map(field => field.replace(/\./g, '/')).join(',');
+      transformations.push(aggregate ? `groupby((${groupFields}),${aggregate})` : `groupby((${groupFields}))`);
+    } else if (aggregate) {
+      transformations.push(aggregate);
+    }
+
+    return { apply: transformations.join('/'), aliases };
+  }
+
+  /**
+   * Builds the $apply request URL of an aggregate query
+   * @private
+   * @static
+   * @param {APIRequestConfig} config - Configuration of the aggregate query
+   * @returns {{ url: string; aliases: Record<string, string> } | null} URL and alias map, or null
+   *          when the query cannot be expressed in $apply or the service rejected $apply before
+   */
+  private static buildAggregateRequest(config: APIRequestConfig): { url: string; aliases: Record<string, string> } | null {
+    const serviceKey = this.getServiceKey(config);
+    const apply = this.buildODataApply(this.coerceFilterValues(config.parameters || {}, serviceKey));
+    if (!apply || this.applyUnsupported.has(serviceKey)) {
+      return null;
+    }
+
+    const baseUrl = config.fullUrl || this.buildIONODataUrl(
+      config.tenant,
+      config.oDataService || '',
+      config.entityName || config.table
+    );
+    return { url: `${baseUrl}?$apply=${encodeURIComponent(apply.apply)}`, aliases: apply.aliases };
+  }
+
+  /**
+   * Translates an aggregate query into its $apply request without calling ION (EXPLAIN)
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Configuration of the aggregate query
+   * @returns {Promise<QueryExplanation | null>} The $apply request, or null when the query is aggregated locally
+   */
+  static async explainAggregateQuery(config: APIRequestConfig): Promise<QueryExplanation | null> {
+    const request = this.buildAggregateRequest(config);
+    if (!request) {
+      return null;
+    }
+
+    const parameters = config.parameters || {};
+    const localClauses = [
+      parameters.having && 'HAVING',
+      parameters.orderBy && 'ORDER BY',
+      (parameters.limit || parameters.offset) && 'LIMIT/OFFSET'
+    ].filter(Boolean);
+
+    return {
+      apiType: 'rest',
+      parsed: parameters,
+      method: 'GET',
+      url: request.url,
+      decodedUrl: decodeURIComponent(request.url),
+      headers: await this.buildRequestHeaders(config.tenant, null),
+      warnings: localClauses.length > 0
+        ? [`${localClauses.join(', ')}: applied to the grouped rows after the $apply request`]
+        : []
+    };
+  }
+
+  /**
+   * Executes an aggregate query on the server using OData $apply
+   *
+   * Returns null when the query cannot be expressed in $apply or the service
+   * rejects it (400/501 - not every LN OData service implements the
+   * aggregation extension); the caller then aggregates locally. Services that
+   * rejected $apply are remembered for the lifetime of the process.
+   *
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Configuration of the aggregate query
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token for ION API authentication
+   * @returns {Promise<RemoteAPIQueryResult | null>} Grouped rows (keyed by output column name), or null to fall back
+   */
+  static async executeAggregateQuery(config: APIRequestConfig, token: StoredOAuth2Token): Promise<RemoteAPIQueryResult | null> {
+    const serviceKey = this.getServiceKey(config);
+    await this.loadEntitySchema(config, token);
+    const apply = this.buildAggregateRequest(config);
+    if (!apply) {
+      return null;
+    }
+
+    const url = apply.url;
+    const headers = await this.buildRequestHeaders(config.tenant, token);
+
+    const response = await IONHttpClient.fetch(url, { method: 'GET', headers }, { tenant: config.tenant, signal: config.signal });
+    if (!response.ok) {
+      if (response.status === 400 || response.status === 501) {
+        this.applyUnsupported.add(serviceKey);
+      }
+      console.warn(`⚠️ OData $apply not available for ${serviceKey} (${response.status}), aggregating locally`);
+      return null;
+    }
+
+    const responseData: ODataPayload = await response.json();
+    const rows = (Array.isArray(responseData.value) ? responseData.value : []).map(value => {
+      const row: Record<string, unknown> = {};
+      Object.entries(value as Record<string, unknown>).forEach(([key, fieldValue]) => {
+        if (!key.startsWith('@odata.')) {
+          row[apply.aliases[key] || key] = fieldValue;
+        }
+      });
+      return row;
+    });
+
+    return {
+      success: true,
+      url,
+      action: config.action,
+      status: response.status,
+      statusText: response.statusText,
+      rawResponse: JSON.stringify({ ...responseData, value: rows }, null, 2),
+      note: `ION OData API aggregate query completed on the server ($apply)`
+    };
+  }
+
+  /**
+   * Collects further result pages by following @odata.nextLink
+   *
+   * Stops when the record target is reached or the server reports no more pages.
+   * The returned payload keeps the first page's annotations (@odata.context,
+   * @odata.count) with all collected records in `value`; @odata.nextLink is kept
+   * only when more rows remain on the server.
+   *
+   * @private
+   * @static
+   * @async
+   * @param {ODataPayload} firstPage - Parsed JSON of the first response
+   * @param {string} requestUrl - URL of the first request (base for relative next links)
+   * @param {Record<string, string>} headers - Request headers reused for every page
+   * @param {number} recordTarget - Maximum number of records to collect
+   * @param {string} [tenant] - Tenant name (new token on 401)
+   * @param {AbortSignal} [signal] - Stops paging when the query is cancelled
+   * @returns {Promise<ODataPayload>} Combined OData payload
+   * @throws {IONAPIError} If a page request fails
+   */
+  private static async fetchRemainingPages(
+    firstPage: ODataPayload,
+    requestUrl: string,
+    headers: Record<string, string>,
+    recordTarget: number,
+    tenant?: string,
+    signal?: AbortSignal
+  ): Promise<ODataPayload> {
+    if (!firstPage || !Array.isArray(firstPage.value)) {
+      return firstPage;
+    }
+
+    const records = [...firstPage.value];
+    let nextLink: string | undefined = firstPage['@odata.nextLink'];
+    let pageCount = 1;
+
+    while (nextLink && records.length < recordTarget) {
+      const pageUrl = new URL(nextLink, requestUrl).toString();
+      const pageResponse = await IONHttpClient.fetch(pageUrl, { method: 'GET', headers }, { tenant, signal });
+
+      if (!pageResponse.ok) {
+        const pageError = IONErrorParser.fromResponse(pageResponse.status, pageResponse.statusText, await pageResponse.text(), pageResponse.headers);
+        throw new IONAPIError({ ...pageError, message: `${pageError.message} (page ${pageCount + 1})` });
+      }
+
+      const page: ODataPayload = await pageResponse.json();
+      records.push(...(Array.isArray(page.value) ? page.value : []));
+      nextLink = page['@odata.nextLink'];
+      pageCount++;
+    }
+
+    console.log('📄 OData paging:', { pageCount, recordCount: records.length, recordTarget, morePages: !!nextLink });
+
+    const combined: ODataPayload = { ...firstPage, value: records.slice(0, recordTarget) };
+    if (nextLink) {
+      combined['@odata.nextLink'] = nextLink;
+    } else {
+      delete combined['@odata.nextLink'];
+    }
+    return combined;
   }
 
   /**
@@ -524,13 +1858,13 @@ export class RestAPIManager {
    * @private
    * @static
    * @param {string} action - API action name (e.g., 'List', 'Create', 'Update', 'Delete')
-   * @returns {string} Corresponding HTTP method (GET, POST, PUT, DELETE)
+   * @returns {string} Corresponding HTTP method (GET, POST, PATCH, DELETE)
    * 
    * @example
    * ```typescript
    * getHttpMethod('List') // Returns: 'GET'
    * getHttpMethod('Create') // Returns: 'POST'
-   * getHttpMethod('Update') // Returns: 'PUT'
+   * getHttpMethod('Update') // Returns: 'PATCH'
    * getHttpMethod('Delete') // Returns: 'DELETE'
    * ```
    */
@@ -541,8 +1875,9 @@ export class RestAPIManager {
       'get': 'GET',
       'create': 'POST',
       'insert': 'POST',
-      'update': 'PUT',
-      'modify': 'PUT',
+      'update': 'PATCH',
+      'change': 'PATCH',
+      'modify': 'PATCH',
       'delete': 'DELETE',
       'remove': 'DELETE'
     };
@@ -591,8 +1926,9 @@ export class RestAPIManager {
         const records = limit && limit > 0 ? allRecords.slice(0, limit) : allRecords;
         const limitedCount = records.length;
         
-        const summaryText = limit && totalCount > limit 
-          ? `Retrieved ${limitedCount} records (limited from ${totalCount}) from ${entityName} via OData API`
+        const totalAvailable = typeof responseData['@odata.count'] === 'number' ? responseData['@odata.count'] : totalCount;
+        const summaryText = totalAvailable > limitedCount 
+          ? `Retrieved ${limitedCount} of ${totalAvailable} records from ${entityName} via OData API`
           : `Retrieved ${totalCount} records from ${entityName} via OData API`;
         
         return {
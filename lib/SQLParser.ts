@@ -1,35 +1,46 @@
 /**
  * @fileoverview SQL WHERE clause parser for converting SQL conditions to ION API filters
- * 
+ *
  * ⚠️ SHARED UTILITY: This parser is used by BOTH SOAP and REST APIs.
- * 
+ *
  * ARCHITECTURE:
  * =============
  * This file ONLY parses SQL syntax. It does NOT generate SOAP XML or OData queries.
- * 
+ *
  * Flow:
- * 1. SQLParser extracts parameters from SQL (field, operator, value)
- * 2. SOAP: RemoteAPIManager.generateSOAPEnvelope() converts to SOAP XML
- * 3. REST: RestAPIManager.generateODataQuery() converts to OData $filter
- * 
+ * 1. SQLParser tokenizes the SQL and builds a boolean expression tree (FilterExpression)
+ * 2. SOAP: RemoteAPIManager.generateSOAPEnvelope() walks the tree to build <Filter> XML
+ * 3. REST: RestAPIManager.generateODataQuery() walks the tree to build OData $filter
+ *
  * The parser output is API-agnostic. Each API manager handles the conversion.
- * 
+ *
  * SUPPORTED OPERATORS:
  * ===================
- * Basic: =, !=, >, <, >=, <=
- * Advanced: LIKE, IN, BETWEEN, IS NULL, IS NOT NULL
- * Future: Complex boolean logic with parentheses
- * 
+ * Basic: =, !=, <>, >, <, >=, <=
+ * Advanced: [NOT] LIKE, [NOT] ILIKE, [NOT] IN, [NOT] BETWEEN, IS NULL, IS NOT NULL
+ * Typed literals: DATE '...', TIMESTAMP '...', GUID '...', TRUE/FALSE, enum values (tdsls.OrderStatus'Free')
+ * Boolean logic: AND, OR, NOT with nested parentheses (AND binds tighter than OR)
+ * Aggregates: COUNT, SUM, AVG, MIN, MAX with GROUP BY and HAVING
+ * Joins: [INNER | LEFT] JOIN on navigation properties (REST/OData $expand)
+ * Writes: INSERT INTO t (...) VALUES (...), UPDATE t SET ... WHERE key = ..., DELETE FROM t WHERE key = ...
+ * EXPLAIN: prefix of any statement; the translated request is returned instead of being sent
+ *
  * OUTPUT FORMAT:
  * ==============
  * Generates a parameters object with:
- * - field: value (e.g., Status: 'Active')
- * - field_operator: 'eq', 'gt', 'between', etc.
- * - field_value2: (for BETWEEN operator only)
- * 
- * Internal metadata (baseTable, baseEndpoint, _operator, _value2) is filtered
+ * - select: Requested columns (SelectColumn[]) with optional AS aliases and aggregates
+ * - expandItems: JOINs as nested OData expansions (ExpandItem[]) with their own select/filter
+ * - groupBy, having: Aggregate grouping (evaluated by LocalQueryEvaluator or pushed to OData $apply)
+ * - where: FilterExpression tree built from the WHERE clause
+ * - limit, offset, fetchAll: Paging (LIMIT n, OFFSET n, LIMIT ALL)
+ * - orderBy, orderDirection: Result shaping
+ * - expand / $expand: OData expansion declared inside the WHERE clause
+ * - statement, table, values, key: INSERT/UPDATE/DELETE (see parseWriteStatement)
+ * - explain: true when the statement starts with EXPLAIN
+ *
+ * Internal metadata (baseTable, baseEndpoint, timestamp) is filtered
  * by the respective API managers before making API calls.
- * 
+ *
  * @author Mulugeta Forsido
  * @company Midport Scandinavia
  * @date October 2025
@@ -42,275 +53,1536 @@
 export interface FilterCondition {
   /** Field/column name */
   field: string;
-  /** Comparison operator (=, !=, >, <, >=, <=, LIKE, IN, BETWEEN, IS NULL, IS NOT NULL) */
+  /** Comparison operator (=, !=, >, <, >=, <=, LIKE, ILIKE, IN, BETWEEN, IS NULL, IS NOT NULL) */
   operator: string;
   /** Value to compare against */
-  value: string | number | string[] | null;
+  value: string | number | boolean | Array<string | number> | null;
   /** ION API comparison operator */
   ionOperator: string;
   /** Optional second value for BETWEEN operator */
   value2?: string | number;
+  /** Type of a typed literal (DATE '...', TRUE, GUID '...') or of the field it was coerced to; untyped when absent */
+  valueType?: LiteralType;
+  /** Qualified enum type for enum values (e.g. tdsls.OrderStatus) */
+  enumType?: string;
+}
+
+/**
+ * Type of a filter value
+ *
+ * - date: DATE '2024-01-01' (Edm.Date)
+ * - datetime: TIMESTAMP '2024-01-01 10:00:00' (Edm.DateTimeOffset, normalized to ISO 8601 UTC)
+ * - boolean: TRUE / FALSE
+ * - guid: GUID '0f8fad5b-d9cb-469f-a165-70867728950e'
+ * - enum: tdsls.OrderStatus'Free' (LN enumerations)
+ */
+export type LiteralType = 'string' | 'number' | 'boolean' | 'date' | 'datetime' | 'guid' | 'enum';
+
+/**
+ * Literal value with its type, as read from the query
+ * @private
+ */
+interface TypedLiteral {
+  value: string | number | boolean | null;
+  valueType?: LiteralType;
+  enumType?: string;
+}
+
+/**
+ * Boolean expression tree produced from a SQL WHERE clause
+ *
+ * Leaves are single conditions; inner nodes combine them with AND/OR/NOT.
+ * The tree is plain JSON so it can travel from the browser to the API routes.
+ *
+ * @example
+ * // (Status='Open' OR Status='Hold') AND Priority > 2
+ * // {
+ * //   type: 'and',
+ * //   operands: [
+ * //     { type: 'or', operands: [ {type:'condition',...Status eq Open}, {type:'condition',...Status eq Hold} ] },
+ * //     { type: 'condition', condition: { field: 'Priority', operator: '>', value: 2, ionOperator: 'gt' } }
+ * //   ]
+ * // }
+ */
+export type FilterExpression =
+  | { type: 'condition'; condition: FilterCondition }
+  | { type: 'and' | 'or'; operands: FilterExpression[] }
+  | { type: 'not'; operand: FilterExpression };
+
+/**
+ * Aggregate functions supported in SELECT, HAVING and ORDER BY
+ */
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * Represents a column requested in the SELECT list
+ * @interface SelectColumn
+ */
+export interface SelectColumn {
+  /** Field/column name (dotted paths address nested values, e.g. SoldToBPRef.Name; '*' for COUNT(*)) */
+  field: string;
+  /** Output name from "AS alias" */
+  alias?: string;
+  /** Aggregate function applied to the field (COUNT, SUM, AVG, MIN, MAX) */
+  aggregate?: AggregateFunction;
+}
+
+/**
+ * Navigation property expansion produced from a SQL JOIN
+ *
+ * `SELECT o.OrderNumber, l.Item FROM Orders o JOIN LineRefs l WHERE l.Item = 'X'`
+ * becomes `{ navigationProperty: 'LineRefs', alias: 'l', select: ['Item'], filter: Item eq 'X', expand: [] }`
+ * which RestAPIManager renders as `$expand=LineRefs($select=Item;$filter=Item eq 'X')`.
+ *
+ * @interface ExpandItem
+ */
+export interface ExpandItem {
+  /** OData navigation property (the JOIN target) */
+  navigationProperty: string;
+  /** Alias used for the joined table in the query */
+  alias?: string;
+  /** Fields selected from the joined table (empty for all) */
+  select: string[];
+  /** Conditions on the joined table */
+  filter?: FilterExpression | null;
+  /** Nested expansions (JOINs on this table's alias) */
+  expand: ExpandItem[];
+}
+
+/**
+ * Kind of SQL statement
+ */
+export type SQLStatementType = 'select' | 'insert' | 'update' | 'delete';
+
+/**
+ * Column value of an INSERT or UPDATE
+ */
+export type WriteValue = string | number | boolean | null;
+
+/**
+ * Parameters produced by parseSQL() and read by the API managers
+ * Callers such as the API gateway add their own keys (baseTable, maxRecords, ...).
+ * @interface SQLParameters
+ */
+export interface SQLParameters {
+  /** WHERE expression tree */
+  where?: FilterExpression | null;
+  /** Conditions all AND-ed (API gateway query strings) */
+  conditions?: FilterCondition[];
+  /** SELECT list (empty for SELECT *) */
+  select?: SelectColumn[];
+  /** GROUP BY fields */
+  groupBy?: string[];
+  /** HAVING expression over aggregates */
+  having?: FilterExpression | null;
+  /** ORDER BY field, alias or aggregate name */
+  orderBy?: string;
+  orderDirection?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+  /** LIMIT ALL */
+  fetchAll?: boolean;
+  /** Record cap for LIMIT ALL (default ION_ODATA_MAX_RECORDS) */
+  maxRecords?: number;
+  /** Navigation properties to expand (EXPAND in the WHERE clause, gateway `expand`) */
+  expand?: string | string[];
+  /** JOINs converted to expansions */
+  expandItems?: ExpandItem[];
+  /** EXPLAIN statement */
+  explain?: boolean;
+  /** Statement kind of INSERT/UPDATE/DELETE */
+  statement?: SQLStatementType;
+  /** Target table of INSERT/UPDATE/DELETE */
+  table?: string;
+  /** INSERT values or UPDATE SET values */
+  values?: Record<string, WriteValue>;
+  /** Key conditions of UPDATE/DELETE */
+  key?: FilterCondition[];
+  timestamp?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Token produced by the SQL tokenizer
+ * @interface SQLToken
+ */
+export interface SQLToken {
+  /** Token category */
+  type: 'word' | 'string' | 'number' | 'operator' | 'punctuation' | 'unknown';
+  /** Token text (string literals are unquoted and unescaped) */
+  value: string;
+  /** Character offset of the token in the original SQL */
+  position: number;
+}
+
+/**
+ * Error thrown when a SQL query cannot be parsed
+ * Carries the character position so the UI can point at the offending token
+ * @class SQLParseError
+ */
+export class SQLParseError extends Error {
+  /** Character offset in the SQL text where parsing failed */
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'SQLParseError';
+    this.position = position;
+  }
+}
+
+/**
+ * Parameter names that carry OData options rather than filter conditions
+ * when written inside a WHERE clause (e.g. WHERE expand='LineRefs')
+ */
+const SPECIAL_PARAMETERS = ['expand', '$expand', '$select', '$filter', '$orderby', '$top', '$skip'];
+
+/**
+ * Aggregate function names recognized by the parser
+ */
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+/**
+ * JOIN clause as written in the FROM part of a query
+ * @private
+ */
+interface JoinClause {
+  navigationProperty: string;
+  alias?: string;
+  /** Alias of the table this JOIN hangs off (undefined for the root table) */
+  parentAlias?: string;
+  position: number;
+}
+
+/**
+ * Keywords that introduce a typed literal (DATE '2024-01-01')
+ */
+const TYPED_LITERAL_KEYWORDS: Record<string, LiteralType> = {
+  DATE: 'date',
+  TIMESTAMP: 'datetime',
+  DATETIME: 'datetime',
+  GUID: 'guid'
+};
+
+/**
+ * Words of the tokenizer: keywords and identifiers (dots allow alias.Field and nested paths)
+ */
+const WORD_PATTERN = /^[A-Za-z_$@][A-Za-z0-9_$@.]*/;
+
+/**
+ * Operators accepted in JSON filter trees (see SQLParser.parseFilterTree)
+ */
+const FILTER_TREE_OPERATORS = ['eq', 'ne', 'gt', 'ge', 'lt', 'le', 'like', 'ilike', 'in', 'between', 'is_null', 'is_not_null'];
+
+/**
+ * Value types accepted in JSON filter trees
+ */
+const LITERAL_TYPES: LiteralType[] = ['string', 'number', 'boolean', 'date', 'datetime', 'guid', 'enum'];
+
+/**
+ * Keywords that cannot be used as table aliases
+ */
+const JOIN_KEYWORDS = ['JOIN', 'INNER', 'LEFT', 'OUTER', 'RIGHT', 'FULL', 'CROSS', 'ON'];
+
+/**
+ * State shared by the recursive descent functions while parsing one clause
+ * @private
+ */
+interface ParseContext {
+  /** Receives expand='...' style options found in the clause */
+  specialParameters: Record<string, string | number | null>;
+  /** Whether aggregate references such as COUNT(*) may be used as fields (HAVING) */
+  allowAggregates: boolean;
+}
+
+/**
+ * Keywords that end the WHERE clause when found outside parentheses
+ */
+const CLAUSE_KEYWORDS = ['ORDER', 'GROUP', 'HAVING', 'LIMIT', 'OFFSET'];
+
+/**
+ * Comparison operators and their ION API equivalents
+ */
+const COMPARISON_OPERATORS: Record<string, { operator: string; ionOperator: string }> = {
+  '=': { operator: '=', ionOperator: 'eq' },
+  '!=': { operator: '!=', ionOperator: 'ne' },
+  '<>': { operator: '!=', ionOperator: 'ne' },
+  '>': { operator: '>', ionOperator: 'gt' },
+  '<': { operator: '<', ionOperator: 'lt' },
+  '>=': { operator: '>=', ionOperator: 'ge' },
+  '<=': { operator: '<=', ionOperator: 'le' },
+};
+
+/**
+ * Cursor over a token list used by the recursive descent parser
+ * @private
+ */
+class TokenCursor {
+  private index = 0;
+
+  constructor(private readonly tokens: SQLToken[], private readonly endPosition: number) {}
+
+  peek(offset = 0): SQLToken | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  next(): SQLToken | undefined {
+    return this.tokens[this.index++];
+  }
+
+  atEnd(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  /** Position of the current token (or end of input) for error reporting */
+  position(): number {
+    return this.peek()?.position ?? this.endPosition;
+  }
+
+  /** True if the current token is the given keyword (case-insensitive) */
+  isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  /** Consumes the given keyword if present */
+  acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  /** Consumes the given keyword or throws */
+  expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw new SQLParseError(`Expected ${keyword} but found ${this.describeCurrent()}`, this.position());
+    }
+  }
+
+  /** Consumes the given punctuation if present */
+  acceptPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token && token.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  /** Consumes the given punctuation or throws */
+  expectPunctuation(value: string): void {
+    if (!this.acceptPunctuation(value)) {
+      throw new SQLParseError(`Expected '${value}' but found ${this.describeCurrent()}`, this.position());
+    }
+  }
+
+  /** Human-readable description of the current token for error messages */
+  describeCurrent(): string {
+    const token = this.peek();
+    if (!token) return 'end of query';
+    return token.type === 'string' ? `'${token.value}'` : `"${token.value}"`;
+  }
 }
 
 /**
  * SQL WHERE clause parser for ION API integration
- * 
+ *
  * ⚠️ SHARED BY BOTH SOAP AND REST: This parser only extracts SQL conditions.
  * It does NOT generate API-specific requests. That's handled by:
  * - RemoteAPIManager.generateSOAPEnvelope() for SOAP APIs
  * - RestAPIManager.generateODataQuery() for REST APIs
- * 
- * Converts SQL WHERE conditions to a normalized parameter object.
- * 
+ *
+ * Converts SQL WHERE conditions to a boolean expression tree.
+ *
  * @class SQLParser
  */
 export class SQLParser {
-  
+
+  /**
+   * Splits SQL text into tokens
+   *
+   * Handles single and double quoted strings (with doubled-quote escaping),
+   * numbers (including negative literals), comparison operators and punctuation.
+   * Characters the parser does not understand become 'unknown' tokens so that
+   * only the clause that actually contains them fails to parse.
+   *
+   * @static
+   * @param {string} sql - SQL text to tokenize
+   * @returns {SQLToken[]} Token list
+   * @throws {SQLParseError} If a string literal is not terminated
+   */
+  static tokenize(sql: string): SQLToken[] {
+    const tokens: SQLToken[] = [];
+    let i = 0;
+
+    while (i < sql.length) {
+      const char = sql[i];
+
+      // Whitespace
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      // String literals: 'value' or "value" (quotes escaped by doubling)
+      if (char === "'" || char === '"') {
+        const start = i;
+        let value = '';
+        i++;
+        while (true) {
+          if (i >= sql.length) {
+            throw new SQLParseError('Unterminated string literal', start);
+          }
+          if (sql[i] === char) {
+            if (sql[i + 1] === char) {
+              value += char;
+              i += 2;
+              continue;
+            }
+            i++;
+            break;
+          }
+          value += sql[i++];
+        }
+        tokens.push({ type: 'string', value, position: start });
+        continue;
+      }
+
+      // Numbers (a leading minus is part of the literal when it cannot be subtraction)
+      const previous = tokens[tokens.length - 1];
+      const minusStartsNumber = char === '-' && /\d/.test(sql[i + 1] || '') &&
+        (!previous || previous.type === 'operator' || (previous.type === 'punctuation' && previous.value !== ')') ||
+          (previous.type === 'word' && ['AND', 'OR', 'NOT', 'BETWEEN', 'IN', 'LIKE', 'ILIKE', 'LIMIT', 'OFFSET'].includes(previous.value.toUpperCase())));
+      if (/\d/.test(char) || minusStartsNumber) {
+        const match = sql.slice(i).match(/^-?\d+(\.\d+)?/);
+        if (match) {
+          tokens.push({ type: 'number', value: match[0], position: i });
+          i += match[0].length;
+          continue;
+        }
+      }
+
+      // Words: keywords and identifiers (dots allow alias.Field and nested paths)
+      if (/[A-Za-z_$@]/.test(char)) {
+        const match = sql.slice(i).match(WORD_PATTERN);
+        if (match) {
+          tokens.push({ type: 'word', value: match[0], position: i });
+          i += match[0].length;
+          continue;
+        }
+      }
+
+      // Comparison operators
+      const twoChars = sql.slice(i, i + 2);
+      if (['>=', '<=', '<>', '!='].includes(twoChars)) {
+        tokens.push({ type: 'operator', value: twoChars, position: i });
+        i += 2;
+        continue;
+      }
+      if (['=', '>', '<'].includes(char)) {
+        tokens.push({ type: 'operator', value: char, position: i });
+        i++;
+        continue;
+      }
+
+      // Punctuation
+      if (['(', ')', ',', ';', '*'].includes(char)) {
+        tokens.push({ type: 'punctuation', value: char, position: i });
+        i++;
+        continue;
+      }
+
+      tokens.push({ type: 'unknown', value: char, position: i });
+      i++;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Parses a WHERE clause into a boolean expression tree
+   *
+   * Grammar (AND binds tighter than OR):
+   *   expression := orExpr
+   *   orExpr     := andExpr ( OR andExpr )*
+   *   andExpr    := notExpr ( AND notExpr )*
+   *   notExpr    := NOT notExpr | '(' expression ')' | predicate
+   *
+   * @static
+   * @param {string} whereClause - The WHERE clause without the WHERE keyword
+   * @returns {FilterExpression | null} Expression tree, or null if the clause has no filter conditions
+   * @throws {SQLParseError} If the clause is not valid SQL
+   *
+   * @example
+   * // Input: "(Status='Open' OR Status='Hold') AND Priority > 2"
+   * // Output: and( or(Status eq 'Open', Status eq 'Hold'), Priority gt 2 )
+   */
+  static parseBooleanLogic(whereClause: string): FilterExpression | null {
+    if (!whereClause?.trim()) {
+      return null;
+    }
+    return this.parseExpressionTokens(this.tokenize(whereClause), whereClause.length, { specialParameters: {}, allowAggregates: false });
+  }
+
+  /**
+   * Parses SQL WHERE clause and extracts filter conditions
+   * Supports: =, !=, <>, >, <, >=, <=, [NOT] LIKE, [NOT] ILIKE, [NOT] IN, [NOT] BETWEEN, IS [NOT] NULL, AND, OR, NOT, parentheses
+   * @static
+   * @param {string} whereClause - The WHERE clause without the WHERE keyword
+   * @returns {FilterCondition[]} Array of filter conditions in the order they appear
+   * @throws {SQLParseError} If the clause is not valid SQL
+   *
+   * @note The conditions are flattened; use parseBooleanLogic() to keep AND/OR structure
+   *
+   * @example
+   * // Input: "Country='Mexico' AND Status='Active'"
+   * // Output: [
+   * //   { field: 'Country', operator: '=', value: 'Mexico', ionOperator: 'eq' },
+   * //   { field: 'Status', operator: '=', value: 'Active', ionOperator: 'eq' }
+   * // ]
+   */
+  static parseWhereClause(whereClause: string): FilterCondition[] {
+    return this.flattenExpression(this.parseBooleanLogic(whereClause));
+  }
+
+  /**
+   * Collects the leaf conditions of an expression tree in order
+   * @static
+   * @param {FilterExpression | null | undefined} expression - Expression tree
+   * @returns {FilterCondition[]} Leaf conditions
+   */
+  static flattenExpression(expression: FilterExpression | null | undefined): FilterCondition[] {
+    if (!expression) return [];
+    switch (expression.type) {
+      case 'condition':
+        return [expression.condition];
+      case 'not':
+        return this.flattenExpression(expression.operand);
+      default:
+        return expression.operands.flatMap(operand => this.flattenExpression(operand));
+    }
+  }
+
+  /**
+   * Combines expressions with a logical operator, dropping empty operands
+   * and flattening nested nodes of the same type
+   * @static
+   * @param {'and' | 'or'} type - Logical operator
+   * @param {Array<FilterExpression | null>} expressions - Operands
+   * @returns {FilterExpression | null} Combined expression
+   */
+  static combineExpressions(type: 'and' | 'or', expressions: Array<FilterExpression | null>): FilterExpression | null {
+    const operands: FilterExpression[] = [];
+    for (const expression of expressions) {
+      if (!expression) continue;
+      if (expression.type === type) {
+        operands.push(...expression.operands);
+      } else {
+        operands.push(expression);
+      }
+    }
+    if (operands.length === 0) return null;
+    if (operands.length === 1) return operands[0];
+    return { type, operands };
+  }
+
+  /**
+   * Parses a token list as a boolean expression
+   * @private
+   * @static
+   * @param {SQLToken[]} tokens - Tokens of the WHERE clause
+   * @param {number} endPosition - Character offset reported for "end of query" errors
+   * @param {ParseContext} context - Options and outputs for the clause being parsed
+   * @returns {FilterExpression | null} Expression tree
+   */
+  private static parseExpressionTokens(tokens: SQLToken[], endPosition: number, context: ParseContext): FilterExpression | null {
+    if (tokens.length === 0) {
+      return null;
+    }
+
+    const cursor = new TokenCursor(tokens, endPosition);
+    const expression = this.parseOr(cursor, context);
+
+    if (!cursor.atEnd()) {
+      throw new SQLParseError(`Unexpected ${cursor.describeCurrent()} in WHERE clause`, cursor.position());
+    }
+
+    return expression;
+  }
+
+  /**
+   * orExpr := andExpr ( OR andExpr )*
+   * @private
+   * @static
+   */
+  private static parseOr(cursor: TokenCursor, context: ParseContext): FilterExpression | null {
+    const operands = [this.parseAnd(cursor, context)];
+    while (cursor.acceptKeyword('OR')) {
+      operands.push(this.parseAnd(cursor, context));
+    }
+    return this.combineExpressions('or', operands);
+  }
+
+  /**
+   * andExpr := notExpr ( AND notExpr )*
+   * @private
+   * @static
+   */
+  private static parseAnd(cursor: TokenCursor, context: ParseContext): FilterExpression | null {
+    const operands = [this.parseNot(cursor, context)];
+    while (cursor.acceptKeyword('AND')) {
+      operands.push(this.parseNot(cursor, context));
+    }
+    return this.combineExpressions('and', operands);
+  }
+
+  /**
+   * notExpr := NOT notExpr | '(' expression ')' | predicate
+   * @private
+   * @static
+   */
+  private static parseNot(cursor: TokenCursor, context: ParseContext): FilterExpression | null {
+    if (cursor.acceptKeyword('NOT')) {
+      const operand = this.parseNot(cursor, context);
+      return operand ? { type: 'not', operand } : null;
+    }
+
+    if (cursor.acceptPunctuation('(')) {
+      const expression = this.parseOr(cursor, context);
+      cursor.expectPunctuation(')');
+      return expression;
+    }
+
+    return this.parsePredicate(cursor, context);
+  }
+
+  /**
+   * Parses a single predicate (field operator value)
+   * @private
+   * @static
+   * @returns {FilterExpression | null} Condition node, or null for special OData parameters
+   */
+  private static parsePredicate(cursor: TokenCursor, context: ParseContext): FilterExpression | null {
+    // Aggregate references (HAVING COUNT(*) > 5) use their canonical name as field
+    const aggregatePosition = cursor.position();
+    const aggregate = this.parseAggregate(cursor);
+    if (aggregate && !context.allowAggregates) {
+      throw new SQLParseError('Aggregate functions are only allowed in SELECT, HAVING and ORDER BY', aggregatePosition);
+    }
+
+    const fieldToken = aggregate ? undefined : cursor.next();
+    if (!aggregate && (!fieldToken || fieldToken.type !== 'word' || ['AND', 'OR', 'NOT'].includes(fieldToken.value.toUpperCase()))) {
+      throw new SQLParseError(
+        `Expected a field name but found ${fieldToken ? `"${fieldToken.value}"` : 'end of query'}`,
+        fieldToken?.position ?? cursor.position()
+      );
+    }
+    const field = aggregate ? this.aggregateName(aggregate.aggregate, aggregate.field) : fieldToken!.value;
+
+    // IS NULL / IS NOT NULL
+    if (cursor.acceptKeyword('IS')) {
+      const negated = cursor.acceptKeyword('NOT');
+      cursor.expectKeyword('NULL');
+      return this.conditionNode({
+        field,
+        operator: negated ? 'IS NOT NULL' : 'IS NULL',
+        value: null,
+        ionOperator: negated ? 'is_not_null' : 'is_null'
+      });
+    }
+
+    // Postfix NOT: NOT IN / NOT BETWEEN / NOT LIKE / NOT ILIKE
+    const negated = cursor.acceptKeyword('NOT');
+    if (negated && !['IN', 'BETWEEN', 'LIKE', 'ILIKE'].some(keyword => cursor.isKeyword(keyword))) {
+      throw new SQLParseError(`Expected IN, BETWEEN, LIKE or ILIKE after NOT but found ${cursor.describeCurrent()}`, cursor.position());
+    }
+
+    let node: FilterExpression | null = null;
+
+    if (cursor.acceptKeyword('IN')) {
+      cursor.expectPunctuation('(');
+      const literals: TypedLiteral[] = [];
+      do {
+        literals.push(this.parseListLiteral(cursor, 'IN'));
+      } while (cursor.acceptPunctuation(','));
+      cursor.expectPunctuation(')');
+      const values = literals.map(literal => literal.value as string | number);
+      node = this.conditionNode({ field, operator: 'IN', value: values, ionOperator: 'in', ...this.literalType(literals, cursor) });
+    } else if (cursor.acceptKeyword('BETWEEN')) {
+      const from = this.parseListLiteral(cursor, 'BETWEEN');
+      cursor.expectKeyword('AND');
+      const to = this.parseListLiteral(cursor, 'BETWEEN');
+      node = this.conditionNode({
+        field,
+        operator: 'BETWEEN',
+        value: from.value as string | number,
+        value2: to.value as string | number,
+        ionOperator: 'between',
+        ...this.literalType([from, to], cursor)
+      });
+    } else if (cursor.isKeyword('LIKE') || cursor.isKeyword('ILIKE')) {
+      // Pattern match: % = any characters, _ = one character (see LikePattern)
+      const operator = cursor.next()!.value.toUpperCase();
+      const valuePosition = cursor.position();
+      const { value } = this.parseLiteral(cursor);
+      if (value === null) {
+        throw new SQLParseError(`${operator} expects a pattern such as 'ABC%'`, valuePosition);
+      }
+      node = this.conditionNode({ field, operator, value: String(value), ionOperator: operator === 'ILIKE' ? 'ilike' : 'like' });
+    } else {
+      const operatorToken = cursor.next();
+      const comparison = operatorToken?.type === 'operator' ? COMPARISON_OPERATORS[operatorToken.value] : undefined;
+      if (!comparison) {
+        throw new SQLParseError(
+          `Expected a comparison operator after "${field}" but found ${operatorToken ? `"${operatorToken.value}"` : 'end of query'}`,
+          operatorToken?.position ?? cursor.position()
+        );
+      }
+      const literal = this.parseLiteral(cursor);
+
+      // Special OData parameters are options, not filter conditions
+      if (SPECIAL_PARAMETERS.includes(field.toLowerCase()) && comparison.ionOperator === 'eq') {
+        context.specialParameters[field.startsWith('$') ? field : field.toLowerCase()] =
+          typeof literal.value === 'boolean' ? String(literal.value) : literal.value;
+        return null;
+      }
+
+      node = this.conditionNode({ field, operator: comparison.operator, ionOperator: comparison.ionOperator, ...literal });
+    }
+
+    return negated && node ? { type: 'not', operand: node } : node;
+  }
+
+  /**
+   * Parses a literal value
+   *
+   * - 'text', 123, NULL, and unquoted words (backward compatibility)
+   * - TRUE / FALSE
+   * - DATE 'YYYY-MM-DD', TIMESTAMP 'YYYY-MM-DD[ HH:MM[:SS]][Z|±HH:MM]', GUID '...'
+   * - Qualified enum values written as in OData: tdsls.OrderStatus'Free'
+   *
+   * @private
+   * @static
+   */
+  private static parseLiteral(cursor: TokenCursor): TypedLiteral {
+    const token = cursor.next();
+    if (!token) {
+      throw new SQLParseError('Expected a value but found end of query', cursor.position());
+    }
+    if (token.type === 'string') {
+      return { value: token.value };
+    }
+    if (token.type === 'number') {
+      return { value: Number(token.value) };
+    }
+
+    const keyword = token.type === 'word' ? token.value.toUpperCase() : '';
+    if (keyword === 'NULL') {
+      return { value: null };
+    }
+    if (keyword === 'TRUE' || keyword === 'FALSE') {
+      return { value: keyword === 'TRUE', valueType: 'boolean' };
+    }
+
+    const next = cursor.peek();
+    if (token.type === 'word' && next?.type === 'string') {
+      const literalType = TYPED_LITERAL_KEYWORDS[keyword];
+      if (literalType) {
+        cursor.next();
+        const value = this.normalizeLiteral(next.value, literalType);
+        if (value === null) {
+          throw new SQLParseError(`Invalid ${keyword} literal '${next.value}'`, next.position);
+        }
+        return { value, valueType: literalType };
+      }
+      // Enum: a qualified type name immediately followed by the quoted value
+      if (token.value.includes('.') && next.position === token.position + token.value.length) {
+        cursor.next();
+        return { value: next.value, valueType: 'enum', enumType: token.value };
+      }
+    }
+
+    if (token.type === 'word' && !['AND', 'OR', 'NOT'].includes(keyword)) {
+      // Unquoted words are accepted as plain values for backward compatibility
+      return { value: token.value };
+    }
+    throw new SQLParseError(`Expected a value but found "${token.value}"`, token.position);
+  }
+
+  /**
+   * Parses a literal of an IN list or BETWEEN range (NULL and booleans are not allowed)
+   * @private
+   * @static
+   */
+  private static parseListLiteral(cursor: TokenCursor, operator: string): TypedLiteral {
+    const position = cursor.position();
+    const literal = this.parseLiteral(cursor);
+    if (literal.value === null || typeof literal.value === 'boolean') {
+      throw new SQLParseError(`${operator} does not accept ${String(literal.value).toUpperCase()}`, position);
+    }
+    return literal;
+  }
+
+  /**
+   * Common type of the literals of an IN list or BETWEEN range
+   * @private
+   * @static
+   */
+  private static literalType(literals: TypedLiteral[], cursor: TokenCursor): Pick<FilterCondition, 'valueType' | 'enumType'> {
+    const typed = literals.filter(literal => literal.valueType);
+    if (typed.length === 0) {
+      return {};
+    }
+    const [first] = typed;
+    if (typed.length !== literals.length || typed.some(literal => literal.valueType !== first.valueType || literal.enumType !== first.enumType)) {
+      throw new SQLParseError('All values of an IN list or BETWEEN range must have the same type', cursor.position());
+    }
+    return first.enumType ? { valueType: first.valueType, enumType: first.enumType } : { valueType: first.valueType };
+  }
+
+  /**
+   * Validates and normalizes a value for a literal type
+   *
+   * - date: YYYY-MM-DD
+   * - datetime: ISO 8601 with seconds and a zone (UTC when none is given), e.g. 2024-01-01T10:00:00Z
+   * - guid: 8-4-4-4-12 hex digits
+   * - boolean: true/false (also 'true'/'false', 1/0)
+   * - number: numbers and numeric strings
+   * - string, enum: any value as text
+   *
+   * @static
+   * @param {unknown} value - Value from the query
+   * @param {LiteralType} type - Target type
+   * @returns {string | number | boolean | null} Normalized value, or null if the value does not fit the type
+   */
+  static normalizeLiteral(value: unknown, type: LiteralType): string | number | boolean | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    const text = String(value).trim();
+
+    switch (type) {
+      case 'date':
+        return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : null;
+      case 'datetime': {
+        const match = text.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2})(:\d{2}(?:\.\d+)?)?)?(Z|[+-]\d{2}:\d{2})?$/i);
+        return match ? `${match[1]}T${match[2] ?? '00:00'}${match[3] ?? ':00'}${(match[4] ?? 'Z').toUpperCase()}` : null;
+      }
+      case 'guid':
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(text) ? text : null;
+      case 'boolean':
+        if (typeof value === 'boolean') return value;
+        if (/^(true|1)$/i.test(text)) return true;
+        if (/^(false|0)$/i.test(text)) return false;
+        return null;
+      case 'number':
+        return text !== '' && !isNaN(Number(text)) ? Number(text) : null;
+      default:
+        return text;
+    }
+  }
+
+  /**
+   * Wraps a condition in an expression node
+   * @private
+   * @static
+   */
+  private static conditionNode(condition: FilterCondition): FilterExpression {
+    return { type: 'condition', condition };
+  }
+
+  /**
+   * Parses a comma-separated column list
+   *
+   * Accepts the same syntax as a SQL SELECT list, e.g. "OrderNumber, OrderDate AS Date".
+   * Used by the API gateway for its `select` query parameter.
+   *
+   * @static
+   * @param {string} selectList - Column list without the SELECT keyword
+   * @returns {SelectColumn[]} Requested columns (empty for "*")
+   * @throws {SQLParseError} If the list is not valid SQL
+   */
+  static parseSelectList(selectList: string): SelectColumn[] {
+    if (!selectList?.trim()) {
+      return [];
+    }
+    return this.parseColumnTokens(this.tokenize(selectList), selectList.length);
+  }
+
   /**
-   * Parses SQL WHERE clause and extracts filter conditions
-   * Supports: =, !=, <>, >, <, >=, <=, LIKE, IN, AND, OR
+   * Extracts the column list from the tokens before WHERE (SELECT ... FROM ...)
+   * @private
    * @static
-   * @param {string} whereClause - The WHERE clause without the WHERE keyword
-   * @returns {FilterCondition[]} Array of filter conditions
-   * 
-   * @example
-   * // Input: "Country='Mexico' AND Status='Active'"
-   * // Output: [
-   * //   { field: 'Country', operator: '=', value: 'Mexico', ionOperator: 'eq' },
-   * //   { field: 'Status', operator: '=', value: 'Active', ionOperator: 'eq' }
-   * // ]
+   * @param {SQLToken[]} tokens - Tokens preceding the WHERE clause
+   * @param {number} endPosition - Character offset reported for "end of query" errors
+   * @returns {SelectColumn[]} Requested columns
    */
-  static parseWhereClause(whereClause: string): FilterCondition[] {
-    const conditions: FilterCondition[] = [];
-    
-    if (!whereClause?.trim()) {
-      return conditions;
+  private static parseSelectTokens(tokens: SQLToken[], endPosition: number): SelectColumn[] {
+    if (!tokens.length || tokens[0].type !== 'word' || tokens[0].value.toUpperCase() !== 'SELECT') {
+      return [];
     }
 
-    // Clean up the where clause
-    let cleanClause = whereClause.trim();
-    
-    // Handle different logical operators (for now we'll split by AND/OR and process each condition)
-    // This is a simplified approach - a full SQL parser would handle parentheses and complex logic
-    const conditionParts = this.splitByLogicalOperators(cleanClause);
-    
-    for (const part of conditionParts) {
-      const condition = this.parseCondition(part.trim());
-      if (condition) {
-        conditions.push(condition);
+    const fromIndex = tokens.findIndex(token => token.type === 'word' && token.value.toUpperCase() === 'FROM');
+    const columnTokens = tokens.slice(1, fromIndex === -1 ? undefined : fromIndex);
+
+    return this.parseColumnTokens(columnTokens, tokens[fromIndex]?.position ?? endPosition);
+  }
+
+  /**
+   * Parses column tokens: "*" or "field [[AS] alias], ..."
+   * @private
+   * @static
+   */
+  private static parseColumnTokens(tokens: SQLToken[], endPosition: number): SelectColumn[] {
+    if (tokens.length === 1 && tokens[0].type === 'punctuation' && tokens[0].value === '*') {
+      return [];
+    }
+
+    const cursor = new TokenCursor(tokens, endPosition);
+    const columns: SelectColumn[] = [];
+
+    do {
+      const aggregate = this.parseAggregate(cursor);
+      const fieldToken = aggregate ? undefined : cursor.next();
+      if (!aggregate && (!fieldToken || fieldToken.type !== 'word')) {
+        throw new SQLParseError(
+          `Expected a column name but found ${fieldToken ? `"${fieldToken.value}"` : 'end of column list'}`,
+          fieldToken?.position ?? endPosition
+        );
+      }
+
+      const column: SelectColumn = aggregate ?? { field: fieldToken!.value };
+
+      // alias.* selects every field of a (joined) table
+      const starToken = cursor.peek();
+      if (!aggregate && column.field.endsWith('.') && starToken?.type === 'punctuation' && starToken.value === '*') {
+        column.field += '*';
+        cursor.next();
+      }
+
+      // Optional alias: "field AS alias" or "field alias"
+      const hasAs = cursor.acceptKeyword('AS');
+      const aliasToken = cursor.peek();
+      if (aliasToken && (aliasToken.type === 'word' || aliasToken.type === 'string')) {
+        column.alias = aliasToken.value;
+        cursor.next();
+      } else if (hasAs) {
+        throw new SQLParseError(`Expected an alias after AS but found ${cursor.describeCurrent()}`, cursor.position());
       }
+
+      columns.push(column);
+    } while (cursor.acceptPunctuation(','));
+
+    if (!cursor.atEnd()) {
+      throw new SQLParseError(`Unexpected ${cursor.describeCurrent()} in SELECT list`, cursor.position());
     }
-    
-    return conditions;
+
+    return columns;
   }
 
   /**
-   * Splits WHERE clause by logical operators (AND, OR)
+   * Parses an aggregate call such as COUNT(*) or SUM(Amount) if one starts at the cursor
    * @private
    * @static
-   * @param {string} clause - WHERE clause to split
-   * @returns {string[]} Array of individual conditions
+   * @returns {{ field: string; aggregate: AggregateFunction } | null} Aggregate reference, or null if none
+   */
+  private static parseAggregate(cursor: TokenCursor): { field: string; aggregate: AggregateFunction } | null {
+    const nameToken = cursor.peek();
+    const openToken = cursor.peek(1);
+    const aggregate = nameToken?.type === 'word' ? nameToken.value.toLowerCase() as AggregateFunction : undefined;
+
+    if (!aggregate || !AGGREGATE_FUNCTIONS.includes(aggregate) || openToken?.type !== 'punctuation' || openToken.value !== '(') {
+      return null;
+    }
+    cursor.next();
+    cursor.next();
+
+    let field: string;
+    const argumentToken = cursor.next();
+    if (argumentToken?.type === 'punctuation' && argumentToken.value === '*' && aggregate === 'count') {
+      field = '*';
+    } else if (argumentToken?.type === 'word') {
+      field = argumentToken.value;
+    } else {
+      throw new SQLParseError(
+        `Expected a field name in ${aggregate.toUpperCase()}() but found ${argumentToken ? `"${argumentToken.value}"` : 'end of query'}`,
+        argumentToken?.position ?? cursor.position()
+      );
+    }
+    cursor.expectPunctuation(')');
+
+    return { field, aggregate };
+  }
+
+  /**
+   * Canonical name of an aggregate, used as column name when no alias is given
+   * @static
+   * @param {AggregateFunction} aggregate - Aggregate function
+   * @param {string} field - Aggregated field ('*' for COUNT(*))
+   * @returns {string} Name such as "COUNT(*)" or "SUM(Amount)"
    */
-  private static splitByLogicalOperators(clause: string): string[] {
-    // Simple split by AND/OR (case insensitive)
-    // This doesn't handle parentheses - could be enhanced for complex queries
-    const parts = clause.split(/\s+(?:and|or)\s+/i);
-    return parts;
+  static aggregateName(aggregate: AggregateFunction, field: string): string {
+    return `${aggregate.toUpperCase()}(${field})`;
   }
 
   /**
-   * Parses a single condition (e.g., "Country='Mexico'" or "Price > 100")
+   * Parses a GROUP BY field list
    * @private
    * @static
-   * @param {string} condition - Single condition string
-   * @returns {FilterCondition | null} Parsed condition or null if invalid
-   */
-  private static parseCondition(condition: string): FilterCondition | null {
-    // Remove extra spaces
-    condition = condition.trim();
-    
-    // Handle special OData parameters (expand, $expand, etc.)
-    const specialParams = ['expand', '$expand', '$select', '$filter', '$orderby', '$top', '$skip'];
-    for (const param of specialParams) {
-      const paramMatch = condition.match(new RegExp(`\\b${param.replace('$', '\\$')}\\s*=\\s*['"]([^'"]+)['"]`, 'i'));
-      if (paramMatch) {
-        // This is a special parameter, not a filter condition
-        return null;
+   */
+  private static parseGroupByTokens(tokens: SQLToken[], endPosition: number): string[] {
+    const cursor = new TokenCursor(tokens, endPosition);
+    const fields: string[] = [];
+
+    do {
+      const fieldToken = cursor.next();
+      if (!fieldToken || fieldToken.type !== 'word') {
+        throw new SQLParseError(
+          `Expected a field name in GROUP BY but found ${fieldToken ? `"${fieldToken.value}"` : 'end of query'}`,
+          fieldToken?.position ?? endPosition
+        );
       }
+      fields.push(fieldToken.value);
+    } while (cursor.acceptPunctuation(','));
+
+    if (!cursor.atEnd()) {
+      throw new SQLParseError(`Unexpected ${cursor.describeCurrent()} in GROUP BY`, cursor.position());
     }
-    
-    // Check for IS NOT NULL
-    const isNotNullMatch = condition.match(/(\w+)\s+is\s+not\s+null/i);
-    if (isNotNullMatch) {
-      return {
-        field: isNotNullMatch[1],
-        operator: 'IS NOT NULL',
-        value: null,
-        ionOperator: 'is_not_null'
-      };
+
+    return fields;
+  }
+
+  /**
+   * Checks that every plain column of an aggregate query is grouped
+   * @private
+   * @static
+   * @throws {SQLParseError} If a column is neither aggregated nor listed in GROUP BY
+   */
+  private static validateAggregateColumns(columns: SelectColumn[], groupBy: string[]): void {
+    if (columns.length === 0) {
+      throw new SQLParseError('SELECT * cannot be combined with GROUP BY; list the grouped columns and aggregates', 0);
     }
 
-    // Check for IS NULL
-    const isNullMatch = condition.match(/(\w+)\s+is\s+null/i);
-    if (isNullMatch) {
-      return {
-        field: isNullMatch[1],
-        operator: 'IS NULL',
-        value: null,
-        ionOperator: 'is_null'
-      };
+    const grouped = groupBy.map(field => field.toLowerCase());
+    const ungrouped = columns.find(column => !column.aggregate && !grouped.includes(column.field.toLowerCase()));
+    if (ungrouped) {
+      throw new SQLParseError(`Column "${ungrouped.field}" must appear in GROUP BY or be used in an aggregate function`, 0);
     }
+  }
 
-    // Check for BETWEEN
-    const betweenMatch = condition.match(/(\w+)\s+between\s+['"]?([^'"]+)['"]?\s+and\s+['"]?([^'"]+)['"]?/i);
-    if (betweenMatch) {
-      let value1: string | number = betweenMatch[2].trim().replace(/^['"]|['"]$/g, '');
-      let value2: string | number = betweenMatch[3].trim().replace(/^['"]|['"]$/g, '');
-      
-      // Convert to numbers if numeric
-      if (!isNaN(Number(value1))) value1 = Number(value1);
-      if (!isNaN(Number(value2))) value2 = Number(value2);
-      
-      return {
-        field: betweenMatch[1],
-        operator: 'BETWEEN',
-        value: value1,
-        value2: value2,
-        ionOperator: 'between'
+  /**
+   * Parses the FROM part of a query: the root table, its alias and any JOINs
+   *
+   * Supported forms: `JOIN Nav [AS] alias [ON ...]`, `INNER JOIN`, `LEFT [OUTER] JOIN`.
+   * A JOIN hangs off the root table unless its target is written as `alias.Nav`
+   * or its ON clause references the alias of an earlier JOIN (nested expansion).
+   *
+   * @private
+   * @static
+   * @param {SQLToken[]} tokens - Tokens preceding the WHERE clause
+   * @param {number} endPosition - Character offset reported for "end of query" errors
+   * @returns {{ table?: string; alias?: string; joins: JoinClause[] }} Parsed source
+   */
+  private static parseFromTokens(tokens: SQLToken[], endPosition: number): { table?: string; alias?: string; joins: JoinClause[] } {
+    const fromIndex = tokens.findIndex(token => token.type === 'word' && token.value.toUpperCase() === 'FROM');
+    if (fromIndex === -1) {
+      return { joins: [] };
+    }
+
+    const cursor = new TokenCursor(tokens.slice(fromIndex + 1), endPosition);
+    const isAliasToken = (token?: SQLToken) => token?.type === 'word' && !JOIN_KEYWORDS.includes(token.value.toUpperCase());
+
+    const tableToken = cursor.next();
+    if (!tableToken || tableToken.type !== 'word') {
+      throw new SQLParseError(`Expected a table name after FROM but found ${tableToken ? `"${tableToken.value}"` : 'end of query'}`, tableToken?.position ?? endPosition);
+    }
+    cursor.acceptKeyword('AS');
+    const table = tableToken.value;
+    const alias = isAliasToken(cursor.peek()) ? cursor.next()!.value : undefined;
+
+    const joins: JoinClause[] = [];
+    const knownAliases = [table, alias].filter(Boolean).map(name => name!.toLowerCase());
+
+    while (!cursor.atEnd()) {
+      const position = cursor.position();
+      if (cursor.acceptKeyword('LEFT')) {
+        cursor.acceptKeyword('OUTER');
+      } else {
+        cursor.acceptKeyword('INNER');
+      }
+      if (!cursor.acceptKeyword('JOIN')) {
+        throw new SQLParseError(`Expected JOIN but found ${cursor.describeCurrent()} (only INNER and LEFT JOIN are supported)`, cursor.position());
+      }
+
+      const targetToken = cursor.next();
+      if (!targetToken || targetToken.type !== 'word') {
+        throw new SQLParseError(`Expected a navigation property after JOIN but found ${targetToken ? `"${targetToken.value}"` : 'end of query'}`, targetToken?.position ?? endPosition);
+      }
+
+      // JOIN alias.Nav declares the parent explicitly
+      const dot = targetToken.value.lastIndexOf('.');
+      const join: JoinClause = {
+        navigationProperty: dot === -1 ? targetToken.value : targetToken.value.slice(dot + 1),
+        parentAlias: dot === -1 ? undefined : targetToken.value.slice(0, dot),
+        position
       };
+
+      cursor.acceptKeyword('AS');
+      if (isAliasToken(cursor.peek())) {
+        join.alias = cursor.next()!.value;
+      }
+
+      // ON clause: only used to find the parent table for nested JOINs
+      if (cursor.acceptKeyword('ON')) {
+        const ownNames = [join.alias, join.navigationProperty].filter(Boolean).map(name => name!.toLowerCase());
+        while (!cursor.atEnd() && !cursor.isKeyword('JOIN') && !cursor.isKeyword('INNER') && !cursor.isKeyword('LEFT')) {
+          const token = cursor.next()!;
+          const prefix = token.type === 'word' && token.value.includes('.') ? token.value.split('.')[0].toLowerCase() : undefined;
+          if (!join.parentAlias && prefix && !ownNames.includes(prefix) && knownAliases.includes(prefix)) {
+            join.parentAlias = prefix;
+          }
+        }
+      }
+
+      if (join.parentAlias && !knownAliases.includes(join.parentAlias.toLowerCase())) {
+        throw new SQLParseError(`Unknown table alias "${join.parentAlias}" in JOIN`, targetToken.position);
+      }
+
+      joins.push(join);
+      knownAliases.push((join.alias || join.navigationProperty).toLowerCase());
     }
-    
-    // Regex patterns for different operators
-    const patterns = [
-      // LIKE operator
-      { regex: /(\w+)\s+like\s+['"]([^'"]+)['"]/i, operator: 'LIKE', ionOperator: 'like' },
-      // IN operator  
-      { regex: /(\w+)\s+in\s*\(([^)]+)\)/i, operator: 'IN', ionOperator: 'in' },
-      // Comparison operators (>=, <=, <>, !=, =, >, <)
-      { regex: /(\w+)\s*(>=)\s*['"]?([^'"]+)['"]?/i, operator: '>=', ionOperator: 'ge' },
-      { regex: /(\w+)\s*(<=)\s*['"]?([^'"]+)['"]?/i, operator: '<=', ionOperator: 'le' },
-      { regex: /(\w+)\s*(<>|!=)\s*['"]?([^'"]+)['"]?/i, operator: '!=', ionOperator: 'ne' },
-      { regex: /(\w+)\s*(=)\s*['"]?([^'"]+)['"]?/i, operator: '=', ionOperator: 'eq' },
-      { regex: /(\w+)\s*(>)\s*['"]?([^'"]+)['"]?/i, operator: '>', ionOperator: 'gt' },
-      { regex: /(\w+)\s*(<)\s*['"]?([^'"]+)['"]?/i, operator: '<', ionOperator: 'lt' },
-    ];
-
-    for (const pattern of patterns) {
-      const match = condition.match(pattern.regex);
-      if (match) {
-        const field = match[1];
-        const operator = pattern.operator;
-        const ionOperator = pattern.ionOperator;
-        let value: string | number | string[] = match[3] || match[2];
-
-        // Handle special cases
-        if (operator === 'IN') {
-          // Parse IN values: "('value1', 'value2', 'value3')"
-          const inValues = value.toString()
-            .split(',')
-            .map(v => v.trim().replace(/^['"]|['"]$/g, ''));
-          value = inValues;
+
+    return { table, alias, joins };
+  }
+
+  /**
+   * Turns JOINs into expand items and moves joined-table columns and conditions into them
+   *
+   * - Columns qualified with a JOIN alias go to that expansion's $select; the
+   *   root projection keeps the navigation property so the expanded data is returned
+   * - Top-level AND conditions on a single joined table become that expansion's $filter
+   * - The root alias is stripped from root fields (o.OrderNumber → OrderNumber)
+   *
+   * @private
+   * @static
+   * @param {SQLParameters} parameters - Parameters being built by parseSQL()
+   * @param {{ table?: string; alias?: string; joins: JoinClause[] }} source - Parsed FROM part
+   * @throws {SQLParseError} If a condition mixes fields of different tables
+   */
+  private static applyJoins(parameters: SQLParameters, source: { table?: string; alias?: string; joins: JoinClause[] }): void {
+    const rootNames = [source.table, source.alias].filter(Boolean).map(name => name!.toLowerCase());
+    const items = new Map<string, ExpandItem>();
+    const topLevel: ExpandItem[] = [];
+
+    source.joins.forEach(join => {
+      const item: ExpandItem = { navigationProperty: join.navigationProperty, alias: join.alias, select: [], expand: [] };
+      const parent = join.parentAlias ? items.get(join.parentAlias.toLowerCase()) : undefined;
+      (parent ? parent.expand : topLevel).push(item);
+      items.set((join.alias || join.navigationProperty).toLowerCase(), item);
+    });
+
+    // Splits "alias.Field" into the expand item it belongs to (undefined for the root table)
+    const resolve = (field: string): { item?: ExpandItem; field: string } => {
+      const dot = field.indexOf('.');
+      if (dot === -1) return { field };
+      const prefix = field.slice(0, dot).toLowerCase();
+      if (rootNames.includes(prefix)) return { field: field.slice(dot + 1) };
+      const item = items.get(prefix);
+      return item ? { item, field: field.slice(dot + 1) } : { field };
+    };
+
+    // SELECT list
+    if (Array.isArray(parameters.select)) {
+      const rootColumns: SelectColumn[] = [];
+      let selectAll = false;
+
+      (parameters.select as SelectColumn[]).forEach(column => {
+        const resolved = resolve(column.field);
+        if (resolved.item) {
+          if (resolved.field !== '*') resolved.item.select.push(resolved.field);
+        } else if (resolved.field === '*') {
+          selectAll = true;
         } else {
-          // Clean quotes from value
-          value = value.toString().replace(/^['"]|['"]$/g, '');
-          
-          // Try to convert to number if it's numeric
-          if (!isNaN(Number(value)) && value !== '') {
-            value = Number(value);
+          rootColumns.push({ ...column, field: resolved.field });
+        }
+      });
+
+      if (selectAll) {
+        delete parameters.select;
+      } else {
+        topLevel.forEach(item => {
+          if (!rootColumns.some(column => column.field === item.navigationProperty)) {
+            rootColumns.push({ field: item.navigationProperty });
           }
+        });
+        parameters.select = rootColumns;
+      }
+    }
+
+    // WHERE: route each top-level AND operand to the table it filters
+    if (parameters.where) {
+      const where = parameters.where as FilterExpression;
+      const operands = where.type === 'and' ? where.operands : [where];
+      const rootOperands: FilterExpression[] = [];
+
+      operands.forEach(operand => {
+        const targets = new Set(this.flattenExpression(operand).map(condition => resolve(condition.field).item));
+        if (targets.size > 1) {
+          throw new SQLParseError('A condition cannot combine fields of different joined tables with OR/NOT; join them with AND instead', 0);
+        }
+        const [target] = Array.from(targets);
+        const mapped = this.mapConditions(operand, condition => ({ ...condition, field: resolve(condition.field).field }));
+        if (target) {
+          target.filter = this.combineExpressions('and', [target.filter ?? null, mapped]);
+        } else {
+          rootOperands.push(mapped);
         }
+      });
 
-        return {
-          field,
-          operator,
-          value,
-          ionOperator
-        };
+      const rootWhere = this.combineExpressions('and', rootOperands);
+      if (rootWhere) {
+        parameters.where = rootWhere;
+      } else {
+        delete parameters.where;
       }
     }
 
-    return null;
+    // ORDER BY on a root field
+    if (typeof parameters.orderBy === 'string' && !resolve(parameters.orderBy).item) {
+      parameters.orderBy = resolve(parameters.orderBy).field;
+    }
+
+    if (topLevel.length > 0) {
+      parameters.expandItems = topLevel;
+    }
+  }
+
+  /**
+   * Returns a copy of an expression with every condition replaced
+   * @static
+   * @param {FilterExpression} expression - Expression tree
+   * @param {(condition: FilterCondition) => FilterCondition} map - Replacement for each condition
+   * @returns {FilterExpression} New expression with the same structure
+   */
+  static mapConditions(expression: FilterExpression, map: (condition: FilterCondition) => FilterCondition): FilterExpression {
+    switch (expression.type) {
+      case 'condition':
+        return { type: 'condition', condition: map(expression.condition) };
+      case 'not':
+        return { type: 'not', operand: this.mapConditions(expression.operand, map) };
+      default:
+        return { type: expression.type, operands: expression.operands.map(operand => this.mapConditions(operand, map)) };
+    }
+  }
+
+  /**
+   * Splits a tokenized statement into its clauses
+   *
+   * Clause boundaries are only recognized outside parentheses, so keywords
+   * inside string literals or sub-expressions never end a clause.
+   *
+   * @private
+   * @static
+   * @param {SQLToken[]} tokens - Tokens of the complete statement
+   * @returns {Record<string, SQLToken[]>} Tokens keyed by clause (WHERE, ORDER BY, LIMIT, ...)
+   */
+  private static splitClauses(tokens: SQLToken[]): Record<string, SQLToken[]> {
+    const clauses: Record<string, SQLToken[]> = { HEAD: [] };
+    let current = 'HEAD';
+    let depth = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.type === 'punctuation') {
+        if (token.value === '(') depth++;
+        if (token.value === ')') depth = Math.max(0, depth - 1);
+        if (token.value === ';' && depth === 0) continue;
+      }
+
+      if (depth === 0 && token.type === 'word') {
+        const keyword = token.value.toUpperCase();
+        const nextKeyword = tokens[i + 1]?.type === 'word' ? tokens[i + 1].value.toUpperCase() : '';
+
+        if (keyword === 'WHERE' && current === 'HEAD') {
+          current = 'WHERE';
+          clauses[current] = [];
+          continue;
+        }
+        if ((keyword === 'ORDER' || keyword === 'GROUP') && nextKeyword === 'BY') {
+          current = `${keyword} BY`;
+          clauses[current] = [];
+          i++;
+          continue;
+        }
+        if (CLAUSE_KEYWORDS.includes(keyword) && keyword !== 'ORDER' && keyword !== 'GROUP') {
+          current = keyword;
+          clauses[current] = [];
+          continue;
+        }
+      }
+
+      clauses[current].push(token);
+    }
+
+    return clauses;
+  }
+
+  /**
+   * Determines the kind of statement from its first keyword
+   * @static
+   * @param {string} sqlQuery - SQL statement
+   * @returns {SQLStatementType} insert, update or delete for write statements, otherwise select
+   *
+   * @example
+   * SQLParser.getStatementType("SELECT UpdateDate FROM Orders") // 'select'
+   * SQLParser.getStatementType("update Orders SET Status = 'Free' WHERE OrderNumber = 'SO1'") // 'update'
+   * SQLParser.getStatementType("EXPLAIN DELETE FROM Orders WHERE OrderNumber = 'SO1'") // 'delete'
+   */
+  static getStatementType(sqlQuery: string): SQLStatementType {
+    const keyword = sqlQuery?.trim().replace(/^EXPLAIN\s+/i, '').match(/^[A-Za-z]+/)?.[0].toLowerCase();
+    return keyword === 'insert' || keyword === 'update' || keyword === 'delete' ? keyword : 'select';
+  }
+
+  /**
+   * Whether a statement starts with EXPLAIN
+   * @static
+   * @param {string} sqlQuery - SQL statement
+   * @returns {boolean} True for EXPLAIN statements
+   */
+  static isExplainQuery(sqlQuery: string): boolean {
+    return /^\s*EXPLAIN\s/i.test(sqlQuery || '');
+  }
+
+  /**
+   * Whether parameters from parseSQL() describe an INSERT, UPDATE or DELETE
+   * @static
+   * @param {SQLParameters} [parameters] - Parameters from parseSQL()
+   * @returns {boolean} True for write statements
+   */
+  static isWriteStatement(parameters?: SQLParameters): boolean {
+    return !!parameters?.statement && parameters.statement !== 'select';
+  }
+
+  /**
+   * Parses an INSERT, UPDATE or DELETE statement
+   *
+   * - INSERT INTO Orders (OrderNumber, Status) VALUES ('SO1', 'Free') → { statement: 'insert', table, values }
+   * - UPDATE Orders SET Status = 'Free' WHERE OrderNumber = 'SO1' → { statement: 'update', table, values, key, where }
+   * - DELETE FROM Orders WHERE OrderNumber = 'SO1' → { statement: 'delete', table, key, where }
+   *
+   * UPDATE and DELETE change exactly one record, so their WHERE clause must
+   * name the record key: `=` conditions joined by AND (key holds those conditions).
+   *
+   * @private
+   * @static
+   * @param {SQLToken[]} tokens - Tokens of the statement
+   * @param {number} endPosition - Character offset reported for "end of query" errors
+   * @returns {SQLParameters} Parameters describing the write
+   * @throws {SQLParseError} If the statement is malformed or has no key condition
+   */
+  private static parseWriteStatement(tokens: SQLToken[], endPosition: number): SQLParameters {
+    const cursor = new TokenCursor(tokens.filter(token => !(token.type === 'punctuation' && token.value === ';')), endPosition);
+    const statement = cursor.next()!.value.toLowerCase() as Exclude<SQLStatementType, 'select'>;
+
+    if (statement === 'insert') cursor.expectKeyword('INTO');
+    if (statement === 'delete') cursor.expectKeyword('FROM');
+
+    const tableToken = cursor.next();
+    if (!tableToken || tableToken.type !== 'word') {
+      throw new SQLParseError(`Expected a table name but found ${tableToken ? `"${tableToken.value}"` : 'end of query'}`, tableToken?.position ?? endPosition);
+    }
+    const parameters: SQLParameters = { statement, table: tableToken.value };
+    const values: Record<string, WriteValue> = {};
+
+    if (statement === 'insert') {
+      cursor.expectPunctuation('(');
+      const columns: string[] = [];
+      do {
+        columns.push(this.expectColumnName(cursor));
+      } while (cursor.acceptPunctuation(','));
+      cursor.expectPunctuation(')');
+
+      cursor.expectKeyword('VALUES');
+      cursor.expectPunctuation('(');
+      const valuesPosition = cursor.position();
+      const literals: WriteValue[] = [];
+      do {
+        literals.push(this.parseLiteral(cursor).value);
+      } while (cursor.acceptPunctuation(','));
+      cursor.expectPunctuation(')');
+
+      if (literals.length !== columns.length) {
+        throw new SQLParseError(`INSERT lists ${columns.length} columns but ${literals.length} values`, valuesPosition);
+      }
+      columns.forEach((column, index) => { values[column] = literals[index]; });
+      parameters.values = values;
+    }
+
+    if (statement === 'update') {
+      cursor.expectKeyword('SET');
+      do {
+        const column = this.expectColumnName(cursor);
+        const operator = cursor.next();
+        if (operator?.type !== 'operator' || operator.value !== '=') {
+          throw new SQLParseError(`Expected "=" after "${column}" in SET`, operator?.position ?? endPosition);
+        }
+        values[column] = this.parseLiteral(cursor).value;
+      } while (cursor.acceptPunctuation(','));
+      parameters.values = values;
+    }
+
+    if (statement === 'update' || statement === 'delete') {
+      const wherePosition = cursor.position();
+      if (!cursor.acceptKeyword('WHERE')) {
+        throw new SQLParseError(`${statement.toUpperCase()} requires a WHERE clause on the record key (e.g. WHERE OrderNumber = 'SO001')`, wherePosition);
+      }
+      const whereTokens: SQLToken[] = [];
+      while (!cursor.atEnd()) {
+        whereTokens.push(cursor.next()!);
+      }
+      const where = this.parseExpressionTokens(whereTokens, endPosition, { specialParameters: {}, allowAggregates: false });
+      const operands = where?.type === 'and' ? where.operands : where ? [where] : [];
+      const key = operands.map(operand => operand.type === 'condition' && operand.condition.ionOperator === 'eq' && operand.condition.value !== null ? operand.condition : null);
+      if (key.length === 0 || key.some(condition => !condition)) {
+        throw new SQLParseError(
+          `${statement.toUpperCase()} changes a single record: its WHERE clause may only contain key = value conditions joined by AND`,
+          wherePosition
+        );
+      }
+      parameters.where = where;
+      parameters.key = key.filter((condition): condition is FilterCondition => condition !== null);
+    }
+
+    if (!cursor.atEnd()) {
+      throw new SQLParseError(`Unexpected ${cursor.describeCurrent()}`, cursor.position());
+    }
+
+    parameters.timestamp = new Date().toISOString();
+    return parameters;
+  }
+
+  /**
+   * Reads a column name in an INSERT column list or SET clause
+   * @private
+   * @static
+   */
+  private static expectColumnName(cursor: TokenCursor): string {
+    const token = cursor.next();
+    if (!token || token.type !== 'word') {
+      throw new SQLParseError(`Expected a column name but found ${token ? `"${token.value}"` : 'end of query'}`, token?.position ?? cursor.position());
+    }
+    return token.value;
   }
 
   /**
    * Converts SQL query to parameters object for ION API
    * @static
    * @param {string} sqlQuery - Complete SQL query
-   * @returns {Record<string, any>} Parameters object for ION API
-   * 
+   * @returns {SQLParameters} Parameters object for ION API
+   * @throws {SQLParseError} If the WHERE clause is not valid SQL
+   *
    * @example
-   * // Input: "SELECT * FROM Customers WHERE Country='Mexico' AND Status='Active' LIMIT 10"
-   * // Output: { Country: 'Mexico', Status: 'Active', limit: 10 }
+   * // Input: "SELECT * FROM Customers WHERE Country='Mexico' AND (Status='Active' OR Status='Hold') LIMIT 10"
+   * // Output: { where: and(Country eq 'Mexico', or(...)), limit: 10 }
    */
-  static parseSQL(sqlQuery: string): Record<string, any> {
-    const parameters: Record<string, any> = {};
-    
+  static parseSQL(sqlQuery: string): SQLParameters {
+    const parameters: SQLParameters = {};
+
     if (!sqlQuery?.trim()) {
       return parameters;
     }
 
-    const queryLower = sqlQuery.toLowerCase();
-    
-    // Extract WHERE clause
-    const whereMatch = sqlQuery.match(/where\s+(.+?)(?:\s+(?:order\s+by|group\s+by|having|limit)|\s*$)/i);
-    if (whereMatch) {
-      const whereClause = whereMatch[1].trim();
-      const conditions = this.parseWhereClause(whereClause);
-      
-      // Convert conditions to parameters
-      for (const condition of conditions) {
-        if (condition.operator === 'IN') {
-          // For IN operator, use array values
-          parameters[condition.field] = condition.value;
-        } else if (condition.operator === 'BETWEEN') {
-          // For BETWEEN operator, store both values
-          parameters[condition.field] = condition.value;
-          parameters[`${condition.field}_value2`] = (condition as any).value2;
-          parameters[`${condition.field}_operator`] = condition.ionOperator;
-        } else if (condition.operator === 'IS NULL' || condition.operator === 'IS NOT NULL') {
-          // For IS NULL/IS NOT NULL, store null value
-          parameters[condition.field] = null;
-          parameters[`${condition.field}_operator`] = condition.ionOperator;
-        } else {
-          // For other operators, use the value directly
-          parameters[condition.field] = condition.value;
-          // Also store the operator for complex filtering
-          parameters[`${condition.field}_operator`] = condition.ionOperator;
-        }
+    // EXPLAIN: parse the statement behind it; the keyword is blanked so error positions still match the input
+    if (this.isExplainQuery(sqlQuery)) {
+      const explained = this.parseSQL(sqlQuery.replace(/^(\s*)EXPLAIN/i, (match) => ' '.repeat(match.length)));
+      return { ...explained, explain: true };
+    }
+
+    // INSERT / UPDATE / DELETE
+    if (this.getStatementType(sqlQuery) !== 'select') {
+      return this.parseWriteStatement(this.tokenize(sqlQuery), sqlQuery.length);
+    }
+
+    const clauses = this.splitClauses(this.tokenize(sqlQuery));
+
+    // Extract WHERE clause as a boolean expression tree
+    if (clauses.WHERE) {
+      const specialParameters: Record<string, string | number | null> = {};
+      const where = this.parseExpressionTokens(clauses.WHERE, sqlQuery.length, { specialParameters, allowAggregates: false });
+      if (where) {
+        parameters.where = where;
+      }
+
+      // EXPAND clause (for OData $expand parameter) - written in the WHERE clause
+      if (specialParameters.expand) {
+        parameters.expand = String(specialParameters.expand);
+        console.log('📝 SQL PARSER: Found expand parameter:', specialParameters.expand);
+      }
+      if (specialParameters['$expand']) {
+        parameters['$expand'] = specialParameters['$expand'];
+        console.log('📝 SQL PARSER: Found $expand parameter:', specialParameters['$expand']);
+      }
+    }
+
+    // Extract SELECT column list (SELECT * leaves the projection empty)
+    const columns = this.parseSelectTokens(clauses.HEAD, sqlQuery.length);
+    if (columns.length > 0) {
+      parameters.select = columns;
+    }
+
+    // Extract GROUP BY / HAVING (aggregate queries)
+    const groupBy = clauses['GROUP BY'] ? this.parseGroupByTokens(clauses['GROUP BY'], sqlQuery.length) : [];
+    if (groupBy.length > 0) {
+      parameters.groupBy = groupBy;
+    }
+    if (groupBy.length > 0 || columns.some(column => column.aggregate)) {
+      this.validateAggregateColumns(columns, groupBy);
+    }
+    if (clauses.HAVING) {
+      const having = this.parseExpressionTokens(clauses.HAVING, sqlQuery.length, { specialParameters: {}, allowAggregates: true });
+      if (having) {
+        parameters.having = having;
       }
     }
 
-    // Extract LIMIT
-    const limitMatch = sqlQuery.match(/limit\s+(\d+)/i);
-    if (limitMatch) {
-      parameters.limit = parseInt(limitMatch[1]);
+    // Extract LIMIT (LIMIT ALL asks for every row, bounded by the server-side record cap)
+    const limitToken = clauses.LIMIT?.[0];
+    if (limitToken?.type === 'number') {
+      parameters.limit = parseInt(limitToken.value);
+    } else if (limitToken?.type === 'word' && limitToken.value.toUpperCase() === 'ALL') {
+      parameters.fetchAll = true;
     }
 
-    // Extract ORDER BY
-    const orderByMatch = sqlQuery.match(/order\s+by\s+(\w+)(?:\s+(asc|desc))?/i);
-    if (orderByMatch) {
-      parameters.orderBy = orderByMatch[1];
-      parameters.orderDirection = orderByMatch[2] || 'asc';
+    // Extract OFFSET
+    const offsetToken = clauses.OFFSET?.[0];
+    if (offsetToken?.type === 'number') {
+      parameters.offset = parseInt(offsetToken.value);
     }
 
-    // Extract EXPAND clause (for OData $expand parameter) - must be in WHERE clause
-    const expandMatch = sqlQuery.match(/\bexpand\s*=\s*['"]([^'"]+)['"]/i);
-    if (expandMatch) {
-      parameters.expand = expandMatch[1];
-      console.log('📝 SQL PARSER: Found expand parameter:', expandMatch[1]);
+    // Extract ORDER BY (a field, an alias or an aggregate such as COUNT(*))
+    const orderByTokens = clauses['ORDER BY'];
+    if (orderByTokens && orderByTokens[0]?.type === 'word') {
+      const cursor = new TokenCursor(orderByTokens, sqlQuery.length);
+      const aggregate = this.parseAggregate(cursor);
+      parameters.orderBy = aggregate ? this.aggregateName(aggregate.aggregate, aggregate.field) : cursor.next()!.value;
+      const direction = cursor.peek()?.type === 'word' ? cursor.peek()!.value.toLowerCase() : '';
+      parameters.orderDirection = direction === 'desc' ? 'desc' : 'asc';
     }
-    
-    // Extract direct $expand parameter
-    const dollarExpandMatch = sqlQuery.match(/\$expand\s*=\s*['"]([^'"]+)['"]/i);
-    if (dollarExpandMatch) {
-      parameters['$expand'] = dollarExpandMatch[1];
-      console.log('📝 SQL PARSER: Found $expand parameter:', dollarExpandMatch[1]);
+
+    // Extract JOINs (converted to OData $expand of navigation properties)
+    const source = this.parseFromTokens(clauses.HEAD, sqlQuery.length);
+    if (source.joins.length > 0 || source.alias) {
+      this.applyJoins(parameters, source);
     }
-    
+
     // Debug: Show what we're trying to parse
     console.log('📝 SQL PARSER DEBUG:', {
       originalQuery: sqlQuery,
       foundParams: Object.keys(parameters),
+      conditionCount: this.flattenExpression(parameters.where).length,
       hasExpand: !!parameters.expand,
       hasDollarExpand: !!parameters['$expand']
     });
@@ -321,6 +1593,173 @@ export class SQLParser {
     return parameters;
   }
 
+  /**
+   * Creates a filter condition from an ION operator
+   *
+   * Used by callers that build conditions without SQL text (e.g. the API gateway
+   * query string `OrderDate_ge=2024-01-01&OrderDate_lt=2024-02-01`).
+   *
+   * @static
+   * @param {string} field - Field/column name
+   * @param {string} ionOperator - ION operator (eq, ne, gt, lt, ge, le, like, ilike, in, between, is_null, is_not_null)
+   * @param {FilterCondition['value']} value - Value to compare against
+   * @param {string | number} [value2] - Second value for BETWEEN
+   * @returns {FilterCondition} Filter condition
+   */
+  static createCondition(field: string, ionOperator: string, value: FilterCondition['value'], value2?: string | number): FilterCondition {
+    const operator = Object.values(COMPARISON_OPERATORS).find(op => op.ionOperator === ionOperator)?.operator
+      || ionOperator.replace(/_/g, ' ').toUpperCase();
+
+    const condition: FilterCondition = {
+      field,
+      operator,
+      value: ionOperator === 'is_null' || ionOperator === 'is_not_null' ? null : value,
+      ionOperator
+    };
+    if (value2 !== undefined) {
+      condition.value2 = value2;
+    }
+    return condition;
+  }
+
+  /**
+   * Converts a JSON filter tree to a filter expression
+   *
+   * Used by POST /api/gateway as the alternative to a SQL WHERE clause.
+   * Leaves are `{ field, op, value, value2?, type?, enumType? }` with an ION operator
+   * (see createCondition); inner nodes are `{ and: [...] }`, `{ or: [...] }` and `{ not: node }`.
+   * Values with a `type` are validated like typed SQL literals (DATE '...', GUID '...').
+   *
+   * @static
+   * @param {unknown} node - Filter tree from a JSON body
+   * @param {string} [path='filter'] - Location of the node, used in error messages
+   * @returns {FilterExpression | null} Expression tree (null for an empty AND/OR)
+   * @throws {Error} If the tree is malformed, e.g. "filter.or[1].op: Unknown operator \"equals\""
+   *
+   * @example
+   * SQLParser.parseFilterTree({ or: [
+   *   { field: 'Status', op: 'in', value: ['Open', 'Hold'] },
+   *   { field: 'OrderDate', op: 'between', value: '2024-01-01', value2: '2024-03-31', type: 'date' }
+   * ] });
+   */
+  static parseFilterTree(node: unknown, path: string = 'filter'): FilterExpression | null {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      throw new Error(`${path}: Expected an object`);
+    }
+    const tree = node as Record<string, unknown>;
+
+    for (const type of ['and', 'or'] as const) {
+      if (type in tree) {
+        const operands = tree[type];
+        if (!Array.isArray(operands)) {
+          throw new Error(`${path}.${type}: Expected an array of filters`);
+        }
+        return this.combineExpressions(type, operands.map((operand: unknown, index: number) => this.parseFilterTree(operand, `${path}.${type}[${index}]`)));
+      }
+    }
+    if ('not' in tree) {
+      const operand = this.parseFilterTree(tree.not, `${path}.not`);
+      return operand ? { type: 'not', operand } : null;
+    }
+
+    const { field, op, enumType } = tree;
+    const type = tree.type as LiteralType | undefined;
+    // Field and enum type names are written into $filter and SOAP filters as they are,
+    // so they must be identifiers as in a SQL WHERE clause
+    if (!this.isIdentifier(field)) {
+      throw new Error(`${path}.field: Expected a field name such as Status or SoldToBP.Name, got ${JSON.stringify(field)}`);
+    }
+    if (typeof op !== 'string' || !FILTER_TREE_OPERATORS.includes(op)) {
+      throw new Error(`${path}.op: Unknown operator ${JSON.stringify(op)} (use ${FILTER_TREE_OPERATORS.join(', ')})`);
+    }
+    if (type !== undefined && !LITERAL_TYPES.includes(type)) {
+      throw new Error(`${path}.type: Unknown type ${JSON.stringify(type)} (use ${LITERAL_TYPES.join(', ')})`);
+    }
+    if (type === 'enum' && (!this.isIdentifier(enumType) || !enumType.includes('.'))) {
+      throw new Error(`${path}.enumType: Enum values need a qualified enum type (e.g. tdsls.OrderStatus)`);
+    }
+
+    // Null checks take no value
+    if (op === 'is_null' || op === 'is_not_null') {
+      return this.conditionNode(this.createCondition(field, op, null));
+    }
+
+    const valueType: LiteralType | undefined = type ?? (typeof tree.value === 'boolean' ? 'boolean' : undefined);
+    const readValue = (value: unknown, at: string): string | number | boolean => {
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        throw new Error(`${at}: Expected a string, number or boolean`);
+      }
+      if (!valueType) {
+        return value;
+      }
+      const normalized = this.normalizeLiteral(value, valueType);
+      if (normalized === null) {
+        throw new Error(`${at}: ${JSON.stringify(value)} is not a valid ${valueType}`);
+      }
+      return normalized;
+    };
+
+    let condition: FilterCondition;
+    if (op === 'in') {
+      if (!Array.isArray(tree.value) || tree.value.length === 0) {
+        throw new Error(`${path}.value: "in" expects a non-empty array of values`);
+      }
+      const values = tree.value.map((value: unknown, index: number) => readValue(value, `${path}.value[${index}]`));
+      condition = this.createCondition(field, op, values as Array<string | number>);
+    } else if (op === 'between') {
+      const from = readValue(tree.value, `${path}.value`);
+      const to = readValue(tree.value2, `${path}.value2`);
+      if (typeof from === 'boolean' || typeof to === 'boolean') {
+        throw new Error(`${path}: "between" does not accept booleans`);
+      }
+      condition = this.createCondition(field, op, from, to);
+    } else {
+      const value = readValue(tree.value, `${path}.value`);
+      if ((op === 'like' || op === 'ilike') && typeof value !== 'string') {
+        throw new Error(`${path}.value: "${op}" expects a pattern such as 'ABC%'`);
+      }
+      condition = this.createCondition(field, op, value);
+    }
+
+    if (valueType) {
+      condition.valueType = valueType;
+    }
+    if (type === 'enum') {
+      condition.enumType = enumType as string;
+    }
+    return this.conditionNode(condition);
+  }
+
+  /**
+   * Whether a value is a single identifier as the tokenizer reads it (Status, SoldToBP.Name)
+   * @private
+   * @static
+   */
+  private static isIdentifier(value: unknown): value is string {
+    return typeof value === 'string' && WORD_PATTERN.exec(value)?.[0] === value;
+  }
+
+  /**
+   * Returns the filter expression carried by a parameters object
+   *
+   * - where: Boolean expression tree from parseSQL()
+   * - conditions: Ordered condition list, all AND-ed (several conditions may
+   *   target the same field, e.g. a date range written as two comparisons)
+   *
+   * @static
+   * @param {SQLParameters} parameters - Parameters from parseSQL() or the API gateway
+   * @returns {FilterExpression | null} Expression tree
+   */
+  static getFilterExpression(parameters: SQLParameters): FilterExpression | null {
+    if (parameters?.where) {
+      return parameters.where;
+    }
+    if (Array.isArray(parameters?.conditions)) {
+      return this.combineExpressions('and', parameters.conditions.map(condition => this.conditionNode(condition)));
+    }
+    return null;
+  }
+
   /**
    * Generates ION API filter conditions from parsed SQL
    * @static
@@ -330,7 +1769,7 @@ export class SQLParser {
   static generateIONFilters(conditions: FilterCondition[]): Array<{
     comparisonOperator: string;
     attributeName: string;
-    instanceValue: string | number | string[] | null;
+    instanceValue: string | number | boolean | Array<string | number> | null;
   }> {
     return conditions.map(condition => ({
       comparisonOperator: condition.ionOperator,
@@ -338,4 +1777,4 @@ export class SQLParser {
       instanceValue: condition.value
     }));
   }
-}
\ No newline at end of file
+}
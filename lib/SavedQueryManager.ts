@@ -0,0 +1,412 @@
+/**
+ * @fileoverview Saved gateway queries with named parameters
+ * A saved query is a SELECT statement against a registered remote table with `:name`
+ * placeholders, published as GET /api/gateway/queries/<slug>?name=value. Values are
+ * type-checked and written into the statement as SQL literals, so the statement goes
+ * through SQLParser and UnifiedAPIManager exactly like a query typed in the editor.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { SQLiteManager } from './sqlite';
+import { SQLParser } from './SQLParser';
+import { UnifiedAPIManager } from './UnifiedAPIManager';
+import { IONAPIError } from './utils/IONErrorParser';
+import type { RemoteAPIErrorDetail } from '@/Entities/RemoteAPI';
+import type { SavedQuery, SavedQueryParameter, SavedQueryParameterType } from '@/Entities/Gateway';
+
+/** Parameter value after type-checking (null for optional parameters without a value) */
+type BoundValue = string | number | boolean | null;
+
+/**
+ * Saved query management and parameter binding
+ *
+ * @example
+ * const query = await SavedQueryManager.get('MIDPORT_DEM', 'open-service-calls');
+ * const sql = SavedQueryManager.bindParameters(query, { customerId: 'C000123' });
+ * // SELECT * FROM ServiceCalls WHERE Customer = 'C000123' AND Status = 'Open'
+ */
+export class SavedQueryManager {
+  /** Query string names used by the gateway itself, not available as parameter names */
+  static readonly RESERVED_PARAMETERS = ['tenant', 'limit', 'offset', 'fetchAll'];
+
+  /** Supported parameter types */
+  static readonly PARAMETER_TYPES: SavedQueryParameterType[] = ['string', 'number', 'boolean', 'date', 'datetime', 'guid'];
+
+  /** Slugs are used in URLs: lowercase letters and digits separated by single dashes */
+  private static readonly SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+  /** Parameter names are SQL identifiers */
+  private static readonly NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+  /** Expected format per type, used in validation messages */
+  private static readonly TYPE_HINTS: Record<SavedQueryParameterType, string> = {
+    string: 'text',
+    number: 'a number',
+    boolean: 'true or false',
+    date: 'a date (YYYY-MM-DD)',
+    datetime: 'a date and time (YYYY-MM-DDTHH:MM[:SS][Z|±HH:MM])',
+    guid: 'a GUID',
+  };
+
+  /**
+   * Lists the saved queries of a tenant
+   * @static
+   * @async
+   * @param {string} tenant - Tenant name
+   * @returns {Promise<SavedQuery[]>} Saved queries, by slug
+   */
+  static async list(tenant: string): Promise<SavedQuery[]> {
+    return SQLiteManager.getSavedQueries(tenant);
+  }
+
+  /**
+   * Gets a saved query of a tenant
+   * @static
+   * @async
+   * @param {string} tenant - Tenant name
+   * @param {string} slug - URL name
+   * @returns {Promise<SavedQuery | null>} Saved query, or null
+   */
+  static async get(tenant: string, slug: string): Promise<SavedQuery | null> {
+    return SQLiteManager.getSavedQuery(tenant, slug);
+  }
+
+  /**
+   * Validates and stores a saved query
+   * @static
+   * @async
+   * @param {Object} data - Query details (see validate)
+   * @param {string} data.tenant - Tenant the query belongs to
+   * @param {string} data.slug - URL name
+   * @param {string} data.createdBy - Username of the creating user
+   * @returns {Promise<SavedQuery>} Created query
+   * @throws {IONAPIError} VALIDATION_ERROR listing every problem of the definition
+   */
+  static async create(data: { tenant: string; slug: unknown; name: unknown; description?: unknown; table: unknown; sql: unknown; parameters?: unknown; createdBy: string }): Promise<SavedQuery> {
+    const slug = typeof data.slug === 'string' ? data.slug.trim() : '';
+    const definition = await this.validate(data.tenant, data, slug && this.SLUG_PATTERN.test(slug)
+      ? []
+      : [{ message: 'Slug must be lowercase letters and digits separated by dashes (e.g. open-service-calls)', target: 'slug' }]);
+
+    const query = await SQLiteManager.createSavedQuery({ tenantName: data.tenant, slug, createdBy: data.createdBy, ...definition });
+    console.log(`💾 Saved query created: ${query.tenant}/${query.slug} (${query.table})`);
+    return query;
+  }
+
+  /**
+   * Validates and stores a new definition of a saved query (slug and tenant stay the same)
+   * @static
+   * @async
+   * @param {SavedQuery} query - Stored query
+   * @param {Object} data - New definition (see validate)
+   * @returns {Promise<SavedQuery>} Updated query
+   * @throws {IONAPIError} VALIDATION_ERROR listing every problem of the definition
+   */
+  static async update(query: SavedQuery, data: { name: unknown; description?: unknown; table: unknown; sql: unknown; parameters?: unknown }): Promise<SavedQuery> {
+    const definition = await this.validate(query.tenant, data);
+    await SQLiteManager.updateSavedQuery(query.id, definition);
+    console.log(`💾 Saved query updated: ${query.tenant}/${query.slug} (${definition.tableName})`);
+    return (await this.get(query.tenant, query.slug)) || query;
+  }
+
+  /**
+   * Deletes a saved query
+   * @static
+   * @async
+   * @param {SavedQuery} query - Stored query
+   * @returns {Promise<boolean>} True if the query was deleted
+   */
+  static async delete(query: SavedQuery): Promise<boolean> {
+    const deleted = await SQLiteManager.deleteSavedQuery(query.id);
+    if (deleted) {
+      console.log(`🗑️ Saved query deleted: ${query.tenant}/${query.slug}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Names of the `:name` placeholders of a statement, in order of first use
+   * Placeholders inside string literals (':text') are not parameters.
+   * @static
+   * @param {string} sql - SQL statement
+   * @returns {string[]} Placeholder names
+   *
+   * @example
+   * SavedQueryManager.extractParameterNames("SELECT * FROM Calls WHERE Customer = :customerId AND Note <> ':x'")
+   * // ['customerId']
+   */
+  static extractParameterNames(sql: string): string[] {
+    const names: string[] = [];
+    this.replacePlaceholders(sql, name => {
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+      return '';
+    });
+    return names;
+  }
+
+  /**
+   * Type-checks the values of a call and writes them into the statement as SQL literals
+   * (strings quoted and escaped, DATE '...', TIMESTAMP '...', GUID '...', TRUE/FALSE)
+   * Missing values fall back to the default; optional parameters without one become NULL.
+   * @static
+   * @param {SavedQuery} query - Saved query
+   * @param {Record<string, unknown>} values - Values by parameter name (query string or JSON)
+   * @returns {string} Statement without placeholders
+   * @throws {IONAPIError} VALIDATION_ERROR listing missing, invalid and unknown parameters
+   */
+  static bindParameters(query: SavedQuery, values: Record<string, unknown>): string {
+    const problems: RemoteAPIErrorDetail[] = [];
+    const bound = new Map<string, BoundValue>();
+
+    for (const name of Object.keys(values)) {
+      if (!query.parameters.some(parameter => parameter.name === name)) {
+        problems.push({ message: `Unknown parameter: ${name}`, target: name });
+      }
+    }
+
+    for (const parameter of query.parameters) {
+      const raw = values[parameter.name];
+      if (raw === undefined || raw === null || raw === '') {
+        if (parameter.defaultValue !== undefined) {
+          bound.set(parameter.name, parameter.defaultValue);
+        } else if (parameter.required) {
+          problems.push({ message: `Missing required parameter: ${parameter.name} (${this.TYPE_HINTS[parameter.type]})`, target: parameter.name });
+        } else {
+          bound.set(parameter.name, null);
+        }
+        continue;
+      }
+
+      const value = this.checkValue(raw, parameter.type);
+      if (value === null) {
+        problems.push({ message: `Invalid value for ${parameter.name}: expected ${this.TYPE_HINTS[parameter.type]}`, target: parameter.name });
+      } else {
+        bound.set(parameter.name, value);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw this.validationError(`Invalid parameters for saved query ${query.slug}`, problems);
+    }
+
+    const types = new Map(query.parameters.map(parameter => [parameter.name, parameter.type]));
+    return this.replacePlaceholders(query.sql, name => this.toLiteral(bound.get(name) ?? null, types.get(name) || 'string'));
+  }
+
+  /**
+   * Checks a definition: a SELECT statement against a registered table of the tenant,
+   * with exactly one declared parameter per placeholder
+   * @private
+   * @static
+   * @async
+   * @throws {IONAPIError} VALIDATION_ERROR listing every problem
+   */
+  private static async validate(
+    tenant: string,
+    data: { name: unknown; description?: unknown; table: unknown; sql: unknown; parameters?: unknown },
+    problems: RemoteAPIErrorDetail[] = []
+  ): Promise<{ name: string; description: string; tableName: string; sql: string; parameters: SavedQueryParameter[] }> {
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    const description = typeof data.description === 'string' ? data.description.trim() : '';
+    const table = typeof data.table === 'string' ? data.table.trim() : '';
+    const sql = typeof data.sql === 'string' ? data.sql.trim().replace(/;\s*$/, '') : '';
+
+    if (!name) {
+      problems.push({ message: 'Name is required', target: 'name' });
+    }
+
+    // The table supplies apiType, service and entity when the query runs
+    const registered = table ? await UnifiedAPIManager.findRegisteredTable(tenant, table) : null;
+    if (!table) {
+      problems.push({ message: 'Table is required', target: 'table' });
+    } else if (!registered) {
+      problems.push({ message: `Table ${table} is not registered for tenant ${tenant}`, target: 'table' });
+    }
+
+    if (!sql) {
+      problems.push({ message: 'SQL is required', target: 'sql' });
+    } else if (SQLParser.getStatementType(sql) !== 'select') {
+      problems.push({ message: 'Only SELECT statements can be saved', target: 'sql' });
+    }
+
+    const parameters: SavedQueryParameter[] = [];
+    if (data.parameters !== undefined && !Array.isArray(data.parameters)) {
+      problems.push({ message: 'Parameters must be a list', target: 'parameters' });
+    }
+    for (const [index, entry] of (Array.isArray(data.parameters) ? data.parameters : []).entries()) {
+      const parameter = this.validateParameter(entry, `parameters[${index}]`, problems);
+      if (parameter && parameters.some(existing => existing.name === parameter.name)) {
+        problems.push({ message: `Parameter ${parameter.name} is declared twice`, target: `parameters[${index}].name` });
+      } else if (parameter) {
+        parameters.push(parameter);
+      }
+    }
+
+    const placeholders = sql ? this.extractParameterNames(sql) : [];
+    for (const placeholder of placeholders.filter(placeholder => !parameters.some(parameter => parameter.name === placeholder))) {
+      problems.push({ message: `Placeholder :${placeholder} has no declared parameter`, target: 'parameters' });
+    }
+    for (const parameter of parameters.filter(parameter => !placeholders.includes(parameter.name))) {
+      problems.push({ message: `Parameter ${parameter.name} is not used in the SQL (write it as :${parameter.name})`, target: 'sql' });
+    }
+
+    // Parse once with sample values, so syntax errors show up when saving rather than when called
+    if (problems.length === 0) {
+      const samples: Record<SavedQueryParameterType, BoundValue> = {
+        string: 'x', number: 0, boolean: true, date: '2000-01-01', datetime: '2000-01-01T00:00:00Z', guid: '00000000-0000-0000-0000-000000000000',
+      };
+      const types = new Map(parameters.map(parameter => [parameter.name, parameter.type]));
+      try {
+        SQLParser.parseSQL(this.replacePlaceholders(sql, placeholder => {
+          const type = types.get(placeholder) || 'string';
+          return this.toLiteral(samples[type], type);
+        }));
+      } catch (error) {
+        problems.push({ message: `Invalid SQL: ${error instanceof Error ? error.message : String(error)}`, target: 'sql' });
+      }
+    }
+
+    if (problems.length > 0) {
+      throw this.validationError('Invalid saved query', problems);
+    }
+
+    return { name, description, tableName: registered?.name || table, sql, parameters };
+  }
+
+  /**
+   * Checks one declared parameter
+   * @private
+   * @static
+   */
+  private static validateParameter(entry: unknown, path: string, problems: RemoteAPIErrorDetail[]): SavedQueryParameter | null {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      problems.push({ message: `${path} must be an object with name and type`, target: path });
+      return null;
+    }
+    const raw = entry as Record<string, unknown>;
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    const type = (raw.type === undefined ? 'string' : raw.type) as SavedQueryParameterType;
+
+    if (!this.NAME_PATTERN.test(name)) {
+      problems.push({ message: `${path}.name must be an identifier (letters, digits, underscore)`, target: `${path}.name` });
+      return null;
+    }
+    if (this.RESERVED_PARAMETERS.some(reserved => reserved.toLowerCase() === name.toLowerCase())) {
+      problems.push({ message: `Parameter name ${name} is reserved (${this.RESERVED_PARAMETERS.join(', ')})`, target: `${path}.name` });
+      return null;
+    }
+    if (!this.PARAMETER_TYPES.includes(type)) {
+      problems.push({ message: `${path}.type must be one of ${this.PARAMETER_TYPES.join(', ')}`, target: `${path}.type` });
+      return null;
+    }
+
+    const parameter: SavedQueryParameter = { name, type, required: raw.required !== false };
+    if (raw.defaultValue !== undefined && raw.defaultValue !== null && raw.defaultValue !== '') {
+      const defaultValue = this.checkValue(raw.defaultValue, type);
+      if (defaultValue === null) {
+        problems.push({ message: `${path}.defaultValue must be ${this.TYPE_HINTS[type]}`, target: `${path}.defaultValue` });
+        return null;
+      }
+      parameter.defaultValue = defaultValue;
+    }
+    if (typeof raw.description === 'string' && raw.description.trim()) {
+      parameter.description = raw.description.trim();
+    }
+    return parameter;
+  }
+
+  /**
+   * Type-checks a value (numbers must be finite)
+   * @private
+   * @static
+   */
+  private static checkValue(value: unknown, type: SavedQueryParameterType): string | number | boolean | null {
+    if (typeof value === 'object') {
+      return null;
+    }
+    const normalized = SQLParser.normalizeLiteral(value, type);
+    return typeof normalized === 'number' && !Number.isFinite(normalized) ? null : normalized;
+  }
+
+  /**
+   * Writes a checked value as a SQL literal that SQLParser reads back with its type
+   * @private
+   * @static
+   */
+  private static toLiteral(value: BoundValue, type: SavedQueryParameterType): string {
+    if (value === null) {
+      return 'NULL';
+    }
+    const quoted = `'${String(value).replace(/'/g, "''")}'`;
+    switch (type) {
+      case 'number':
+        return String(value);
+      case 'boolean':
+        return value ? 'TRUE' : 'FALSE';
+      case 'date':
+        return `DATE ${quoted}`;
+      case 'datetime':
+        return `TIMESTAMP ${quoted}`;
+      case 'guid':
+        return `GUID ${quoted}`;
+      default:
+        return quoted;
+    }
+  }
+
+  /**
+   * Replaces every `:name` placeholder outside string literals
+   * @private
+   * @static
+   */
+  private static replacePlaceholders(sql: string, replace: (name: string) => string): string {
+    let result = '';
+    let i = 0;
+
+    while (i < sql.length) {
+      const char = sql[i];
+
+      // String literals are copied as they are (quotes escaped by doubling, as in SQLParser.tokenize)
+      if (char === "'" || char === '"') {
+        let end = i + 1;
+        while (end < sql.length && (sql[end] !== char || sql[end + 1] === char)) {
+          end += sql[end] === char ? 2 : 1;
+        }
+        result += sql.slice(i, end + 1);
+        i = end + 1;
+        continue;
+      }
+
+      const match = char === ':' && !/[\w:]/.test(sql[i - 1] || '') ? /^:([A-Za-z_][A-Za-z0-9_]*)/.exec(sql.slice(i)) : null;
+      if (match) {
+        result += replace(match[1]);
+        i += match[0].length;
+        continue;
+      }
+
+      result += char;
+      i++;
+    }
+
+    return result;
+  }
+
+  /**
+   * VALIDATION_ERROR carrying every problem in its details
+   * @private
+   * @static
+   */
+  private static validationError(message: string, problems: RemoteAPIErrorDetail[]): IONAPIError {
+    return new IONAPIError({
+      category: 'validation',
+      code: 'VALIDATION_ERROR',
+      message: `${message}: ${problems.map(problem => problem.message).join('; ')}`,
+      target: problems[0].target,
+      details: problems,
+    });
+  }
+}
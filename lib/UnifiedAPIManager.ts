@@ -5,11 +5,19 @@
  * @date October 2025
  */
 
-import type { APIRequestConfig, RemoteAPIQueryResult, StoredOAuth2Token } from '@/Entities/RemoteAPI';
+import type { APIRequestConfig, CatalogEntitySet, QueryExplanation, QueryStreamEvent, RemoteAPIQueryResult, RemoteAPITable, ServiceCatalog, StoredOAuth2Token } from '@/Entities/RemoteAPI';
+import type { TenantConfig } from '@/Entities/TenantConfig';
 import { RemoteAPIManager } from './RemoteAPIManager';
 import { RestAPIManager } from './RestAPIManager';
 import { OAuth2ConfigManager } from './OAuth2ConfigManager';
+import { TenantConfigManager } from './TenantConfigManager';
 import { ResponseParser } from './ResponseParser';
+import { SQLParser, type FilterExpression } from './SQLParser';
+import { LocalQueryEvaluator } from './utils/LocalQueryEvaluator';
+import { SQLiteManager } from './sqlite';
+import { SchemaExtractor, type TableSchema } from './utils/SchemaExtractor';
+import { IONAPIError, IONErrorParser } from './utils/IONErrorParser';
+import { ResponseCacheManager } from './ResponseCacheManager';
 
 /**
  * Unified API Manager that routes requests to appropriate SOAP or REST managers
@@ -21,6 +29,8 @@ export class UnifiedAPIManager {
 
   /**
    * Executes a query against either SOAP or REST API based on configuration
+   * Reads of tables with a cache TTL go through the response cache (ResponseCacheManager);
+   * INSERT/UPDATE/DELETE invalidate the cached results of their table
    * @static
    * @async
    * @param {APIRequestConfig} config - Configuration for the API request
@@ -42,35 +52,719 @@ export class UnifiedAPIManager {
     }
     
     try {
-      // Load OAuth2 configuration from database (with fallback to environment variables)
-      const oauth2Config = await OAuth2ConfigManager.loadConfig();
+      // EXPLAIN returns the translated request without calling ION (no token needed)
+      if (config.parameters?.explain) {
+        return await this.explainQuery(config);
+      }
 
-      // Get or refresh token as needed
-      const token = await OAuth2ConfigManager.getValidToken(currentToken ?? null, oauth2Config);
+      const token = await this.acquireToken(currentToken);
 
-      // Route to appropriate API manager based on type
-      let rawResult: RemoteAPIQueryResult;
-      
-      if (config.apiType === 'rest') {
-        rawResult = await RestAPIManager.executeQuery(config, token);
+      // INSERT/UPDATE/DELETE return the write result (or dry-run preview) as is
+      if (SQLParser.isWriteStatement(config.parameters)) {
+        const writeResult = await this.executeRawQuery(config, token);
+        // Cached reads of the table are outdated once ION applied the change
+        if (writeResult.success && !config.dryRun) {
+          await ResponseCacheManager.invalidate(config.tenant, ResponseCacheManager.getTableName(config));
+        }
+        return writeResult;
+      }
+
+      // Reads are served from the response cache when the table has a cache TTL
+      return await ResponseCacheManager.execute(config, requestConfig => this.executeReadQuery(requestConfig, token));
+
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Executes several queries of one tenant with as few ION round trips as possible
+   *
+   * REST queries and writes of the same OData service are sent in one OData $batch
+   * (RestAPIManager.executeBatch()); writes sharing a `changeSet` are applied atomically.
+   * SOAP requests, aggregate queries, EXPLAIN, dry runs and requests that are alone
+   * for their service run one by one through executeQueryWithOAuth2(), after the batches.
+   * Batched reads bypass the response cache; batched writes still invalidate it.
+   *
+   * @static
+   * @async
+   * @param {APIRequestConfig[]} configs - Requests of one tenant
+   * @param {StoredOAuth2Token | null} [currentToken] - Current token (if any)
+   * @param {AbortSignal} [signal] - Aborts the outstanding ION requests
+   * @returns {Promise<RemoteAPIQueryResult[]>} One result per request, in request order
+   * @throws {IONAPIError} VALIDATION_ERROR if the requests target several tenants or a
+   *   change set spans requests that cannot be batched together
+   *
+   * @example
+   * const [orders, partners] = await UnifiedAPIManager.executeBatchWithOAuth2([ordersConfig, partnersConfig], token);
+   */
+  static async executeBatchWithOAuth2(
+    configs: APIRequestConfig[],
+    currentToken?: StoredOAuth2Token | null,
+    signal?: AbortSignal
+  ): Promise<RemoteAPIQueryResult[]> {
+    if (typeof window !== 'undefined') {
+      throw new Error('UnifiedAPIManager cannot be used in browser environment. Use /api/remote-query/batch endpoint instead.');
+    }
+
+    if (configs.some(config => config.tenant !== configs[0]?.tenant)) {
+      throw IONErrorParser.validationError('All requests of a batch must target the same tenant', 'tenant');
+    }
+
+    // Group the requests that can share an OData $batch by service
+    const batchGroups = new Map<string, number[]>();
+    const individual: number[] = [];
+    configs.forEach((config, index) => {
+      const batchable = config.apiType === 'rest' && config.oDataService && !config.dryRun
+        && !config.parameters?.explain && !LocalQueryEvaluator.isAggregateQuery(config.parameters);
+      if (batchable) {
+        batchGroups.set(config.oDataService!, [...(batchGroups.get(config.oDataService!) || []), index]);
       } else {
-        // Convert to legacy SOAP config for backward compatibility
-        const soapConfig = {
-          ...config,
-          apiType: 'soap' as const
+        individual.push(index);
+      }
+    });
+    for (const [service, indexes] of batchGroups) {
+      if (indexes.length === 1) {
+        individual.push(indexes[0]);
+        batchGroups.delete(service);
+      }
+    }
+
+    // A change set is only atomic when all of its writes are in the same batch
+    const changeSetServices = new Map<string, Set<string>>();
+    configs.forEach((config, index) => {
+      if (!config.changeSet || !SQLParser.isWriteStatement(config.parameters)) return;
+      const services = changeSetServices.get(config.changeSet) || new Set<string>();
+      services.add(individual.includes(index) ? `#${index}` : config.oDataService!);
+      changeSetServices.set(config.changeSet, services);
+    });
+    for (const [changeSet, services] of changeSetServices) {
+      if (services.size > 1) {
+        throw IONErrorParser.validationError(
+          `Change set "${changeSet}" must contain INSERT/UPDATE/DELETE requests of one OData service`,
+          'changeSet'
+        );
+      }
+    }
+
+    const token = await this.acquireToken(currentToken);
+    const results: RemoteAPIQueryResult[] = new Array(configs.length);
+
+    for (const indexes of batchGroups.values()) {
+      const batchConfigs = indexes.map(index => ({ ...configs[index], signal }));
+      const batchResults = await RestAPIManager.executeBatch(batchConfigs, token, signal);
+
+      for (const [position, index] of indexes.entries()) {
+        const config = batchConfigs[position];
+        const result = batchResults[position];
+        if (SQLParser.isWriteStatement(config.parameters)) {
+          // Cached reads of the table are outdated once ION applied the change
+          if (result.success) {
+            await ResponseCacheManager.invalidate(config.tenant, ResponseCacheManager.getTableName(config));
+          }
+          results[index] = result;
+        } else {
+          const limit = config.parameters?.fetchAll ? undefined : (config.parameters?.limit || 15);
+          const localFilter = this.getLocalFilter(config);
+          results[index] = ResponseParser.parseUnifiedResponse(result, limit, config.parameters?.select, localFilter, this.getLocalOffset(config, localFilter));
+        }
+      }
+    }
+
+    for (const index of individual.sort((a, b) => a - b)) {
+      const config = { ...configs[index], signal };
+      try {
+        results[index] = await this.executeQueryWithOAuth2(config, '', '', token);
+      } catch (error) {
+        // One failing request does not fail the batch, except when it was cancelled
+        const apiError = IONErrorParser.fromException(error);
+        if (apiError.code === 'CANCELLED') {
+          throw error;
+        }
+        results[index] = {
+          success: false,
+          url: this.buildAPIUrl(config),
+          action: config.action,
+          status: apiError.httpStatus || IONErrorParser.toHttpStatus(apiError),
+          statusText: apiError.code,
+          data: {
+            success: false,
+            serviceType: config.apiType === 'rest' ? 'OData' : 'SOAP',
+            recordCount: 0,
+            records: [],
+            summary: 'Query failed',
+            error: true,
+            message: apiError.message,
+            type: config.apiType === 'rest' ? 'rest_api_error' : 'soap_api_error'
+          },
+          note: `${config.action} operation failed: ${apiError.message}`,
+          error: apiError
         };
-        rawResult = await RemoteAPIManager.executeQueryWithToken(soapConfig, token);
       }
+    }
+
+    return results;
+  }
+
+  /**
+   * Executes a query as a stream of record pages (POST /api/remote-query/stream)
+   *
+   * REST SELECTs are paged through ION (RestAPIManager.streamQuery()); each page is
+   * projected and filtered like a buffered result and yielded right away, until LIMIT
+   * is reached. Other queries (SOAP, aggregates, writes, EXPLAIN) run through
+   * executeQueryWithOAuth2() and are yielded as a single page.
+   * Stopping the iteration (or aborting config.signal) ends the paging.
+   *
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Configuration for the API request
+   * @param {StoredOAuth2Token | null} [currentToken] - Current token (if any)
+   * @yields {QueryStreamEvent} page events, then one done event with the result without its records
+   * @throws {IONAPIError} If the query fails; records yielded before remain valid
+   *
+   * @example
+   * for await (const event of UnifiedAPIManager.streamQueryWithOAuth2(config, token)) {
+   *   if (event.type === 'page') console.log(`${event.rowsReceived} rows`);
+   * }
+   */
+  static async *streamQueryWithOAuth2(
+    config: APIRequestConfig,
+    currentToken?: StoredOAuth2Token | null
+  ): AsyncGenerator<QueryStreamEvent> {
+    if (typeof window !== 'undefined') {
+      throw new Error('UnifiedAPIManager cannot be used in browser environment. Use /api/remote-query/stream endpoint instead.');
+    }
+
+    const token = await this.acquireToken(currentToken);
+    const parameters = config.parameters || {};
+    const streamable = config.apiType === 'rest' && !parameters.explain
+      && !SQLParser.isWriteStatement(parameters) && !LocalQueryEvaluator.isAggregateQuery(parameters);
+
+    if (!streamable) {
+      const result = await this.executeQueryWithOAuth2(config, '', '', token);
+      const records = result.data?.records || [];
+      yield { type: 'page', records, page: 1, rowsReceived: records.length };
+      yield {
+        type: 'done',
+        result: { ...result, data: result.data && { ...result.data, records: [] }, records: undefined, rawResponse: undefined },
+        token
+      };
+      return;
+    }
+
+    const limit = parameters.fetchAll ? undefined : (parameters.limit || 15); // Same default as executeReadQuery()
+    const localFilter = this.getLocalFilter(config);
+    let toSkip = this.getLocalOffset(config, localFilter) || 0;
+    let rowsReceived = 0;
+    let pagesFetched = 0;
+    let totalAvailable: number | undefined;
+    let lastPage: RemoteAPIQueryResult | null = null;
+
+    for await (const pageResult of RestAPIManager.streamQuery(config, token)) {
+      const parsed = ResponseParser.parseUnifiedResponse(pageResult, undefined, parameters.select, localFilter);
+      if (!parsed.success || parsed.data?.error) {
+        throw new IONAPIError(parsed.error || { category: 'parse', code: 'PARSE_ERROR', message: parsed.data?.message || 'Page could not be read' });
+      }
+
+      pagesFetched++;
+      let pageRecords = parsed.data?.records || [];
+      // OFFSET of a locally filtered query, counted over the filtered rows
+      if (toSkip > 0) {
+        const skipped = Math.min(toSkip, pageRecords.length);
+        pageRecords = pageRecords.slice(skipped);
+        toSkip -= skipped;
+      }
+      const records = limit === undefined ? pageRecords : pageRecords.slice(0, limit - rowsReceived);
+      rowsReceived += records.length;
+      totalAvailable ??= pageResult.schema?.metadata?.totalAvailable;
+      lastPage = parsed;
+
+      yield { type: 'page', records, page: pagesFetched, rowsReceived, totalAvailable };
+      if (limit !== undefined && rowsReceived >= limit) {
+        break;
+      }
+    }
 
-      // Parse the response using unified parser with limit
-      const limit = config.parameters?.limit || 15; // Default to 15 if not specified
-      const parsedResult = ResponseParser.parseUnifiedResponse(rawResult, limit);
-      
-      return parsedResult;
+    const entityName = config.entityName || config.table;
+    yield {
+      type: 'done',
+      result: {
+        ...(lastPage as RemoteAPIQueryResult),
+        data: {
+          success: true,
+          serviceType: 'OData',
+          recordCount: rowsReceived,
+          records: [],
+          summary: `Streamed ${rowsReceived}${totalAvailable !== undefined ? ` of ${totalAvailable}` : ''} records from ${entityName} in ${pagesFetched} page(s) via OData API`,
+          type: 'odata_stream'
+        },
+        records: undefined,
+        rawResponse: undefined,
+        note: `ION OData API ${config.action} operation streamed successfully`,
+        stream: { active: false, rowsReceived, pagesFetched, totalAvailable }
+      },
+      token
+    };
+  }
+
+  /**
+   * Loads the OAuth2 configuration and returns a valid token, refreshing it if needed
+   * @private
+   * @static
+   * @async
+   * @param {StoredOAuth2Token | null} [currentToken] - Current token (if any)
+   * @returns {Promise<StoredOAuth2Token>} Valid token
+   * @throws {IONAPIError} UNAUTHORIZED if no token can be obtained
+   */
+  private static async acquireToken(currentToken?: StoredOAuth2Token | null): Promise<StoredOAuth2Token> {
+    // Load OAuth2 configuration from database (with fallback to environment variables)
+    const oauth2Config = await OAuth2ConfigManager.loadConfig();
 
+    try {
+      return await OAuth2ConfigManager.getValidToken(currentToken ?? null, oauth2Config);
     } catch (error) {
-      throw error;
+      throw new IONAPIError({
+        category: 'auth',
+        code: 'UNAUTHORIZED',
+        message: `Failed to obtain OAuth2 token: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  }
+
+  /**
+   * Executes a SELECT (plain or aggregate) and parses the result
+   * @private
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Configuration of the query
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token
+   * @returns {Promise<RemoteAPIQueryResult>} Parsed result (status 304 when ION confirmed a revalidated result)
+   */
+  private static async executeReadQuery(config: APIRequestConfig, token: StoredOAuth2Token): Promise<RemoteAPIQueryResult> {
+    // Aggregate queries (COUNT/SUM/... with GROUP BY) take their own route
+    if (LocalQueryEvaluator.isAggregateQuery(config.parameters)) {
+      return await this.executeAggregateQuery(config, token);
+    }
+
+    // Route to appropriate API manager based on type
+    const rawResult = await this.executeRawQuery(config, token);
+    if (rawResult.status === 304) {
+      return rawResult;
     }
+
+    // Parse the response using unified parser with limit and SELECT projection
+    // LIMIT ALL is already bounded by the record cap in the API manager
+    const limit = config.parameters?.fetchAll ? undefined : (config.parameters?.limit || 15); // Default to 15 if not specified
+    const localFilter = this.getLocalFilter(config);
+    return ResponseParser.parseUnifiedResponse(rawResult, limit, config.parameters?.select, localFilter, this.getLocalOffset(config, localFilter));
+  }
+
+  /**
+   * Describes a table/service of a tenant (DESCRIBE, /api/schema, describe-table CLI)
+   *
+   * The service is looked up in the tenant's registered tables (by name, endpoint,
+   * entity name or "oDataService/Entity"); an unregistered "oDataService/Entity"
+   * is treated as OData and anything else as a SOAP service.
+   * - REST/OData: exact types, keys, nullability and max lengths from $metadata (cached per tenant/service)
+   * - SOAP: field types, keys and operations from the WSDL (stored with the remote API table),
+   *   or sampled from a single-record List response when the WSDL is unavailable
+   *
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name (e.g., 'MIDPORT_DEM') or remote API database id
+   * @param {string} serviceName - Table name, SOAP endpoint or 'tsapi.socServiceOrders/Orders'
+   * @param {Object} [options] - Options
+   * @param {boolean} [options.refresh=false] - Fetch $metadata / the WSDL again instead of using the cache
+   * @returns {Promise<TableSchema>} Table schema
+   * @throws {Error} If the schema cannot be loaded
+   *
+   * @example
+   * const schema = await UnifiedAPIManager.getTableSchema('MIDPORT_DEM', 'tsapi.socServiceOrders/Orders');
+   * console.log(SchemaExtractor.generateDescribeTable(schema));
+   */
+  static async getTableSchema(tenantName: string, serviceName: string, options: { refresh?: boolean } = {}): Promise<TableSchema> {
+    if (typeof window !== 'undefined') {
+      throw new Error('UnifiedAPIManager cannot be used in browser environment. Use /api/schema endpoint instead.');
+    }
+
+    const databases = await SQLiteManager.getRemoteAPIDatabases();
+    const database = databases.find(db => db.id === tenantName)
+      || databases.find(db => db.tenantName?.toLowerCase() === tenantName.toLowerCase());
+    const tenant = database?.tenantName || tenantName;
+
+    const tables: RemoteAPITable[] = database?.tables || [];
+    const table = tables.find(candidate => this.matchesTable(candidate, serviceName));
+
+    const [servicePart, entityPart] = serviceName.split('/');
+    const isRest = table ? table.apiType === 'rest' : Boolean(entityPart);
+
+    const oauth2Config = await OAuth2ConfigManager.loadConfig();
+    const token = await OAuth2ConfigManager.getValidToken(null, oauth2Config);
+
+    if (isRest) {
+      const oDataService = table?.oDataService || servicePart;
+      const entityName = table?.entityName || entityPart || table?.endpoint || serviceName;
+      const schema = await RestAPIManager.getMetadataSchema(tenant, oDataService, entityName, { token, refresh: options.refresh });
+      if (!schema) {
+        throw new Error(`Entity "${entityName}" not found in $metadata of ${oDataService}`);
+      }
+      return schema;
+    }
+
+    // SOAP services are described by their WSDL; sample one record when it is unavailable
+    const endpoint = table?.endpoint || serviceName;
+    try {
+      return await RemoteAPIManager.getWSDLSchema(tenant, endpoint, { token, refresh: options.refresh });
+    } catch (error) {
+      console.warn(`⚠️ WSDL unavailable for ${tenant}/${endpoint}, sampling one record:`, error);
+    }
+
+    const result = await this.executeRawQuery({
+      tenant,
+      table: endpoint,
+      apiType: 'soap',
+      action: 'List',
+      parameters: { limit: 1 },
+      sqlQuery: `SELECT * FROM ${endpoint} LIMIT 1`
+    }, token);
+
+    if (!result.success) {
+      throw new Error(result.data?.message || result.note);
+    }
+    return result.schema || SchemaExtractor.extractSchema(result, endpoint, tenant, `SELECT * FROM ${endpoint} LIMIT 1`);
+  }
+
+  /**
+   * Lists the tables registered for a tenant (remote API databases in SQLiteManager)
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name (case-insensitive)
+   * @returns {Promise<RemoteAPITable[]>} Registered tables of all remote API databases of the tenant
+   */
+  static async getRegisteredTables(tenantName: string): Promise<RemoteAPITable[]> {
+    const databases = await SQLiteManager.getRemoteAPIDatabases();
+    return databases
+      .filter(db => db.tenantName?.toLowerCase() === tenantName.toLowerCase())
+      .flatMap(db => (db.tables || []) as RemoteAPITable[]);
+  }
+
+  /**
+   * Finds a registered table of a tenant by name, endpoint, entity name or "oDataService/Entity"
+   * Lets API Gateway clients omit apiType, service and entity for registered tables.
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name (case-insensitive)
+   * @param {string} tableName - Table name as sent by the client
+   * @returns {Promise<RemoteAPITable | null>} Registered table, or null when the tenant has none with that name
+   */
+  static async findRegisteredTable(tenantName: string, tableName: string): Promise<RemoteAPITable | null> {
+    const tables = await this.getRegisteredTables(tenantName);
+    return tables.find(candidate => this.matchesTable(candidate, tableName)) || null;
+  }
+
+  /**
+   * Whether a registered table is known under a name (case-insensitive)
+   * @private
+   * @static
+   */
+  private static matchesTable(table: RemoteAPITable, name: string): boolean {
+    const wanted = name.toLowerCase();
+    return [table.name, table.endpoint, table.entityName, table.oDataService && `${table.oDataService}/${table.entityName}`]
+      .some(value => typeof value === 'string' && value.toLowerCase() === wanted);
+  }
+
+  /**
+   * Lists the OData services and SOAP business interfaces available to a tenant
+   * Both listings are fetched with the tenant's own credentials; when one fails the
+   * other is still returned and the failure is reported in `errors`
+   * @static
+   * @async
+   * @param {string} tenantId - Tenant configuration id (TenantConfigManager)
+   * @returns {Promise<ServiceCatalog>} The tenant's service catalog (entity sets are loaded with getCatalogEntitySets)
+   * @throws {Error} If the tenant does not exist or no token can be acquired
+   *
+   * @example
+   * const catalog = await UnifiedAPIManager.getServiceCatalog(tenant.id);
+   * // catalog.odataServices → [{ name: 'tsapi.socServiceOrders' }, ...], catalog.soapServices → [{ name: 'ServiceCall_v2' }, ...]
+   */
+  static async getServiceCatalog(tenantId: string): Promise<ServiceCatalog> {
+    if (typeof window !== 'undefined') {
+      throw new Error('UnifiedAPIManager cannot be used in browser environment. Use /api/catalog endpoint instead.');
+    }
+
+    const tenantConfig = await this.getCatalogTenant(tenantId);
+    const token = await OAuth2ConfigManager.getValidTokenForTenant(tenantConfig.id);
+
+    const [odata, soap] = await Promise.allSettled([
+      RestAPIManager.listODataServices(tenantConfig.tenantName, token),
+      RemoteAPIManager.listBusinessInterfaces(tenantConfig.tenantName, token)
+    ]);
+
+    const errors: string[] = [];
+    if (odata.status === 'rejected') {
+      errors.push(`OData services: ${odata.reason instanceof Error ? odata.reason.message : String(odata.reason)}`);
+    }
+    if (soap.status === 'rejected') {
+      errors.push(`SOAP services: ${soap.reason instanceof Error ? soap.reason.message : String(soap.reason)}`);
+    }
+
+    return {
+      tenantId: tenantConfig.id,
+      tenantName: tenantConfig.tenantName,
+      baseUrl: RestAPIManager.getBaseUrl(),
+      odataServices: odata.status === 'fulfilled' ? odata.value : [],
+      soapServices: soap.status === 'fulfilled' ? soap.value : [],
+      errors
+    };
+  }
+
+  /**
+   * Lists the entity sets of one OData service in a tenant's catalog, with the
+   * navigation properties suggested as expand fields
+   * @static
+   * @async
+   * @param {string} tenantId - Tenant configuration id (TenantConfigManager)
+   * @param {string} oDataService - OData service name (e.g., 'tsapi.socServiceOrders')
+   * @returns {Promise<CatalogEntitySet[]>} Entity sets of the service
+   * @throws {Error} If the tenant does not exist or the service cannot be described
+   */
+  static async getCatalogEntitySets(tenantId: string, oDataService: string): Promise<CatalogEntitySet[]> {
+    if (typeof window !== 'undefined') {
+      throw new Error('UnifiedAPIManager cannot be used in browser environment. Use /api/catalog endpoint instead.');
+    }
+
+    const tenantConfig = await this.getCatalogTenant(tenantId);
+    const token = await OAuth2ConfigManager.getValidTokenForTenant(tenantConfig.id);
+    return RestAPIManager.listEntitySets(tenantConfig.tenantName, oDataService, token);
+  }
+
+  /**
+   * Resolves a tenant configuration by id, falling back to the tenant name
+   * @private
+   * @static
+   * @async
+   * @param {string} tenantId - Tenant configuration id or tenant name
+   * @returns {Promise<TenantConfig>} The tenant configuration
+   * @throws {Error} If no such tenant is configured
+   */
+  private static async getCatalogTenant(tenantId: string): Promise<TenantConfig> {
+    const tenantConfig = await TenantConfigManager.getTenantById(tenantId)
+      || await TenantConfigManager.getTenantByName(tenantId);
+    if (!tenantConfig) {
+      throw new Error(`Tenant not found: ${tenantId}`);
+    }
+    return tenantConfig;
+  }
+
+  /**
+   * Sends the request to the SOAP or REST manager without post-processing
+   * @private
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Configuration for the API request
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token
+   * @returns {Promise<RemoteAPIQueryResult>} Raw result from the API manager
+   */
+  private static async executeRawQuery(config: APIRequestConfig, token: StoredOAuth2Token): Promise<RemoteAPIQueryResult> {
+    if (config.apiType === 'rest') {
+      return RestAPIManager.executeQuery(config, token);
+    }
+
+    // Convert to legacy SOAP config for backward compatibility
+    const soapConfig = {
+      ...config,
+      apiType: 'soap' as const
+    };
+    return RemoteAPIManager.executeQueryWithToken(soapConfig, token);
+  }
+
+  /**
+   * Translates a query into the request it would send, without calling ION (EXPLAIN)
+   *
+   * Follows the same routing as executeQueryWithOAuth2(): aggregate queries are
+   * explained as their $apply request, or as the source query when they are
+   * aggregated locally.
+   *
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Configuration for the API request
+   * @returns {Promise<RemoteAPIQueryResult>} Result whose explanation describes the request; it has no records
+   * @throws {Error} If the query cannot be translated
+   */
+  static async explainQuery(config: APIRequestConfig): Promise<RemoteAPIQueryResult> {
+    const parameters = config.parameters || {};
+    const warnings: string[] = [];
+    let explanation: QueryExplanation | null = null;
+    let requestConfig = config;
+
+    if (LocalQueryEvaluator.isAggregateQuery(parameters)) {
+      if (config.apiType === 'rest') {
+        explanation = await RestAPIManager.explainAggregateQuery(config);
+      }
+      if (!explanation) {
+        requestConfig = { ...config, parameters: LocalQueryEvaluator.toSourceParameters(parameters) };
+        warnings.push('GROUP BY / aggregates: evaluated locally over the fetched source records; the result carries a warning when the record cap (ION_ODATA_MAX_RECORDS) truncated them');
+      }
+    }
+
+    if (!explanation) {
+      explanation = config.apiType === 'rest'
+        ? await RestAPIManager.explainQuery(requestConfig)
+        : RemoteAPIManager.explainQuery({ ...requestConfig, apiType: 'soap' });
+    }
+    explanation = { ...explanation, parsed: parameters, warnings: [...warnings, ...explanation.warnings] };
+
+    return {
+      success: true,
+      url: explanation.url,
+      action: explanation.method,
+      status: 0,
+      statusText: 'Explain',
+      data: {
+        success: true,
+        serviceType: config.apiType === 'rest' ? 'OData' : 'SOAP',
+        recordCount: 0,
+        records: [],
+        summary: `EXPLAIN: ${explanation.method} ${explanation.decodedUrl} (not sent)`,
+        type: 'explain'
+      },
+      note: 'EXPLAIN - the request was translated but not sent to ION',
+      explanation
+    };
+  }
+
+  /**
+   * WHERE expression to apply to the returned records when the API filter is looser
+   * than the SQL query (LIKE patterns the API cannot express)
+   * @private
+   * @static
+   * @param {APIRequestConfig} config - Configuration for the API request
+   * @returns {FilterExpression | null} Expression to evaluate locally, or null if the API filter is exact
+   */
+  private static getLocalFilter(config: APIRequestConfig): FilterExpression | null {
+    const parameters = config.parameters || {};
+    const requiresLocalFilter = config.apiType === 'rest'
+      ? RestAPIManager.requiresLocalFilter(parameters)
+      : RemoteAPIManager.requiresLocalFilter(parameters);
+    if (!requiresLocalFilter) {
+      return null;
+    }
+    console.log('🔎 Applying WHERE locally: the API filter cannot express every LIKE pattern');
+    return SQLParser.getFilterExpression(parameters);
+  }
+
+  /**
+   * OFFSET to apply to the records after the local filter: REST queries filtered locally
+   * are fetched without $skip (see RestAPIManager.buildODataPaging); SOAP ignores OFFSET
+   * @private
+   * @static
+   * @param {APIRequestConfig} config - Configuration for the API request
+   * @param {FilterExpression | null} localFilter - Result of getLocalFilter()
+   * @returns {number | undefined} Records to skip, or undefined when ION applied the OFFSET
+   */
+  private static getLocalOffset(config: APIRequestConfig, localFilter: FilterExpression | null): number | undefined {
+    return config.apiType === 'rest' && localFilter ? config.parameters?.offset : undefined;
+  }
+
+  /**
+   * Executes an aggregate query (COUNT, SUM, AVG, MIN, MAX with GROUP BY/HAVING)
+   *
+   * REST queries are pushed down to OData $apply when the service supports it.
+   * Otherwise all matching source rows are fetched (bounded by the record cap)
+   * and aggregated locally; SOAP queries are always aggregated locally.
+   *
+   * @private
+   * @static
+   * @async
+   * @param {APIRequestConfig} config - Configuration of the aggregate query
+   * @param {StoredOAuth2Token} token - Valid OAuth2 token
+   * @returns {Promise<RemoteAPIQueryResult>} Result whose records are the aggregated rows
+   */
+  private static async executeAggregateQuery(config: APIRequestConfig, token: StoredOAuth2Token): Promise<RemoteAPIQueryResult> {
+    const parameters = config.parameters || {};
+
+    // Server-side aggregation via OData $apply
+    if (config.apiType === 'rest') {
+      const pushedResult = await RestAPIManager.executeAggregateQuery(config, token);
+      if (pushedResult) {
+        const parsed = ResponseParser.parseUnifiedResponse(pushedResult);
+        const rows = LocalQueryEvaluator.applyGroupedClauses(parsed.data?.records || [], parameters);
+        return this.buildAggregateResult(parsed, rows, `Retrieved ${rows.length} aggregated rows via OData $apply`, config);
+      }
+    }
+
+    // Local aggregation over the source rows
+    const sourceConfig: APIRequestConfig = {
+      ...config,
+      parameters: LocalQueryEvaluator.toSourceParameters(parameters)
+    };
+    const rawResult = await this.executeRawQuery(sourceConfig, token);
+    const parsed = ResponseParser.parseUnifiedResponse(rawResult, undefined, undefined, this.getLocalFilter(config));
+    if (!parsed.success || parsed.data?.error) {
+      return parsed;
+    }
+
+    const sourceRecords = parsed.data?.records || [];
+    const rows = LocalQueryEvaluator.aggregate(sourceRecords, parameters);
+    const result = this.buildAggregateResult(
+      parsed,
+      rows,
+      `Aggregated ${sourceRecords.length} ${parsed.data?.serviceType || ''} records into ${rows.length} rows`,
+      config
+    );
+
+    // The source fetch stops at the record cap; aggregates over the fetched rows are then incomplete
+    if (rawResult.truncated) {
+      const warning = `Only the first ${rawResult.data?.recordCount ?? sourceRecords.length} source records were aggregated (record cap ION_ODATA_MAX_RECORDS reached); the aggregates are incomplete`;
+      result.warnings = [...(result.warnings || []), warning];
+      if (result.data) {
+        result.data.summary = `${result.data.summary} - ${warning}`;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Replaces the records of a parsed result with aggregated rows
+   * @private
+   * @static
+   */
+  private static buildAggregateResult(
+    parsed: RemoteAPIQueryResult,
+    rows: Record<string, unknown>[],
+    summary: string,
+    config: APIRequestConfig
+  ): RemoteAPIQueryResult {
+    const result: RemoteAPIQueryResult = {
+      ...parsed,
+      // The ETag describes the source rows, not the aggregated ones
+      etag: undefined,
+      data: {
+        success: true,
+        serviceType: parsed.data?.serviceType || (config.apiType === 'rest' ? 'OData' : 'SOAP'),
+        recordCount: rows.length,
+        records: rows,
+        summary,
+        type: 'aggregate_result'
+      },
+      records: rows
+    };
+
+    // Describe the aggregated columns rather than the source entity
+    try {
+      const schema = SchemaExtractor.extractSchema(
+        { ...result, rawResponse: JSON.stringify({ value: rows }) },
+        config.entityName || config.table,
+        config.tenant,
+        config.sqlQuery
+      );
+      result.schema = { ...schema, serviceType: parsed.schema?.serviceType || schema.serviceType };
+    } catch (schemaError) {
+      console.warn('⚠️ Schema extraction failed for aggregate result:', schemaError);
+    }
+
+    return result;
   }
 
   /**
@@ -3,21 +3,21 @@
 /**
  * @fileoverview CLI utility for describing table schemas
  * Usage: ts-node describe-table.ts [tenant] [service]
+ * OData services are described from their $metadata document, SOAP services from their WSDL
  * @author Mulugeta Forsido
  * @company Midport Scandinavia
  * @date October 2025
  */
 
-import { RemoteAPIManager } from '../RemoteAPIManager';
+import { UnifiedAPIManager } from '../UnifiedAPIManager';
 import { SchemaExtractor } from '../utils/SchemaExtractor';
-import { TenantConfigManager } from '../TenantConfigManager';
 
 interface CliOptions {
   tenant: string;
   service: string;
   format: 'table' | 'json' | 'csv';
   output?: string;
-  query?: string;
+  refresh: boolean;
   help: boolean;
 }
 
@@ -31,6 +31,7 @@ function parseArgs(): CliOptions {
     tenant: '',
     service: '',
     format: 'table',
+    refresh: false,
     help: false
   };
 
@@ -50,9 +51,9 @@ function parseArgs(): CliOptions {
       case '--output':
         options.output = args[++i];
         break;
-      case '-q':
-      case '--query':
-        options.query = args[++i];
+      case '-r':
+      case '--refresh':
+        options.refresh = true;
         break;
       default:
         if (!options.tenant) {
@@ -78,13 +79,13 @@ Usage:
   ts-node describe-table.ts [tenant] [service] [options]
 
 Arguments:
-  tenant      Tenant identifier
-  service     Service/table name to describe
+  tenant      Tenant name (e.g., MIDPORT_DEM)
+  service     Table name, SOAP service or OData service/entity to describe
 
 Options:
   -f, --format   Output format: table, json, csv (default: table)
   -o, --output   Output file path (optional)
-  -q, --query    Custom sample query (optional)
+  -r, --refresh  Fetch the OData $metadata / SOAP WSDL again instead of using the cache
   -h, --help     Show this help message
 
 Examples:
@@ -97,8 +98,14 @@ Examples:
   # Save to file
   ts-node describe-table.ts contoso ItemMaster --output schema.txt
 
-  # Use custom query for schema analysis
-  ts-node describe-table.ts contoso ItemMaster --query "SELECT * FROM ItemMaster WHERE ItemNumber LIKE 'A%'"
+  # Describe a SOAP business interface from its WSDL
+  ts-node describe-table.ts MIDPORT_DEM ServiceCall_v2
+
+  # Describe an OData entity from its $metadata document
+  ts-node describe-table.ts MIDPORT_DEM tsapi.socServiceOrders/Orders
+
+  # Reload the cached $metadata / WSDL
+  ts-node describe-table.ts MIDPORT_DEM tsapi.socServiceOrders/Orders --refresh
 
 Supported Formats:
   table  - SQL-like DESCRIBE table output
@@ -162,42 +169,10 @@ async function main(): Promise<void> {
   try {
     console.log(`🔍 Analyzing schema for ${options.tenant}/${options.service}...`);
 
-    // Validate tenant
-    const tenantConfigManager = new TenantConfigManager(options.tenant);
-    const isValidTenant = await tenantConfigManager.validateTenant();
-
-    if (!isValidTenant) {
-      console.error(`❌ Error: Tenant "${options.tenant}" not found or invalid`);
-      process.exit(1);
-    }
-
-    // Initialize API manager
-    const apiManager = new RemoteAPIManager(options.tenant);
-
-    // Prepare sample query
-    const sampleQuery = options.query || `SELECT TOP 1 * FROM ${options.service}`;
-    
-    console.log(`📡 Executing sample query: ${sampleQuery}`);
-
-    // Execute query to get sample data
-    const result = await apiManager.executeQuery(
-      options.service,
-      sampleQuery,
-      {
-        maxRecords: 1,
-        includeRawResponse: true
-      }
-    );
-
-    if (!result.success || !result.rawResponse) {
-      console.error(`❌ Error: ${result.error || 'Failed to fetch sample data'}`);
-      process.exit(1);
-    }
-
-    // Extract schema with additional context
-    const schema = SchemaExtractor.extractSchema(result, options.service, options.tenant, sampleQuery);
+    // $metadata for OData services (cached per tenant/service), a sample record for SOAP
+    const schema = await UnifiedAPIManager.getTableSchema(options.tenant, options.service, { refresh: options.refresh });
 
-    console.log(`✅ Schema extracted: ${schema.totalFields} fields found`);
+    console.log(`✅ Schema extracted: ${schema.totalFields} fields found (${schema.source === 'response' ? 'sampled' : schema.source === 'wsdl' ? 'WSDL' : '$metadata'})`);
 
     // Format output based on requested format
     let output: string;
@@ -230,6 +205,9 @@ async function main(): Promise<void> {
       if (schema.odataEntitySet) {
         console.log(`   OData Entity: ${schema.odataEntitySet}`);
       }
+      if (schema.operations) {
+        console.log(`   Operations: ${schema.operations.join(', ')}`);
+      }
     }
 
   } catch (error) {
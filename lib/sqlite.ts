@@ -7,6 +7,8 @@
 
 import path from "path";
 import sqlite3 from "sqlite3";
+import type { GatewayApiKey, GatewayApiKeyScope, SavedQuery, SavedQueryParameter } from "@/Entities/Gateway";
+import type { RemoteAPITenant } from "@/Entities/RemoteAPI";
 
 /**
  * Represents a database table with metadata
@@ -228,7 +230,7 @@ export class SQLiteManager {
    * 
    * @description
    * This function is called ONCE per application lifecycle when the database is first initialized.
-   * It creates 5 tables and handles schema migrations for existing databases.
+   * It creates 6 tables and handles schema migrations for existing databases.
    * 
    * **Execution Frequency:**
    * - Runs only once when `initialize()` is first called
@@ -254,12 +256,18 @@ export class SQLiteManager {
    *    - Used by: `/api/remote-databases/[id]/tables/*` endpoints
    *    - Purpose: Store table/service definitions (SOAP and REST)
    *    - Key fields: name, endpoint, api_type, odata_service, entity_name
+   *    - schema_definition: WSDL description of SOAP services (see RemoteAPIManager.loadServiceDescription)
    * 
    * 5. **remote_api_expand_fields** - OData expand fields for REST APIs
    *    - Used by: `/api/remote-databases/[id]/tables/[tableName]/expand-fields` endpoints
    *    - Purpose: Store nested data fetch configurations for REST/OData APIs
    *    - Key fields: table_id, field_name, is_active
    * 
+   * 6. **odata_metadata_cache** - Cached OData $metadata (CSDL) documents
+   *    - Used by: RestAPIManager.loadServiceMetadata (schema discovery)
+   *    - Purpose: Avoid re-fetching $metadata for every DESCRIBE or query
+   *    - Key fields: tenant_name, odata_service (composite primary key), fetched_at
+   * 
    * **Migration Features:**
    * - Idempotent: Safe to run multiple times (uses IF NOT EXISTS)
    * - Backward compatible: Handles legacy schema changes
@@ -525,6 +533,140 @@ export class SQLiteManager {
         )
       `);
 
+      // ========================================================================
+      // TABLE 6: odata_metadata_cache
+      // ========================================================================
+      // Purpose: Cache the CSDL $metadata document of each OData service per tenant
+      // Used by: RestAPIManager.loadServiceMetadata (schema discovery, DESCRIBE, SchemaViewer)
+      // Relationships: None (keyed by tenant name and OData service)
+      // Key fields: tenant_name + odata_service (primary key), fetched_at (cache age)
+      // ========================================================================
+      await this.apiExec(`
+        CREATE TABLE IF NOT EXISTS odata_metadata_cache (
+          tenant_name TEXT NOT NULL,
+          odata_service TEXT NOT NULL,
+          metadata_xml TEXT NOT NULL,
+          fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (tenant_name, odata_service)
+        )
+      `);
+
+      // ========================================================================
+      // TABLE 7: remote_api_cache_settings
+      // ========================================================================
+      // Purpose: Response cache TTL per table/service of a remote API database
+      // Used by: EditDatabaseDialog (remote database settings), ResponseCacheManager
+      // Relationships: Child of remote_api_databases (N:1); keyed by table name so the
+      //   setting survives the table rows being recreated on database updates
+      // Key fields: database_id + table_name (primary key), ttl_seconds (0 = not cached)
+      // ========================================================================
+      await this.apiExec(`
+        CREATE TABLE IF NOT EXISTS remote_api_cache_settings (
+          database_id INTEGER NOT NULL,
+          table_name TEXT NOT NULL,
+          ttl_seconds INTEGER NOT NULL DEFAULT 0,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (database_id, table_name),
+          FOREIGN KEY (database_id) REFERENCES remote_api_databases(id) ON DELETE CASCADE
+        )
+      `);
+
+      // ========================================================================
+      // TABLE 8: remote_api_response_cache
+      // ========================================================================
+      // Purpose: Cached query results per tenant and normalized ION request
+      // Used by: ResponseCacheManager (UnifiedAPIManager.executeQueryWithOAuth2, /api/gateway)
+      // Relationships: None (keyed by tenant name and request hash)
+      // Key fields: tenant_name + cache_key (primary key), table_name (invalidation),
+      //   etag (ION revalidation), stored_at / expires_at in epoch milliseconds
+      // ========================================================================
+      await this.apiExec(`
+        CREATE TABLE IF NOT EXISTS remote_api_response_cache (
+          tenant_name TEXT NOT NULL,
+          cache_key TEXT NOT NULL,
+          table_name TEXT NOT NULL,
+          result_json TEXT NOT NULL,
+          etag TEXT,
+          stored_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          PRIMARY KEY (tenant_name, cache_key)
+        )
+      `);
+
+      // ========================================================================
+      // TABLE 9: gateway_api_keys
+      // ========================================================================
+      // Purpose: API keys of machine clients (Power BI, scripts) of the API Gateway
+      // Used by: ApiKeyManager (/api/gateway, /api/admin/api-keys, Admin Panel)
+      // Relationships: None (scoped by tenant name)
+      // Key fields: id (primary key), key_hash (SHA-256 of the key, unique),
+      //   allowed_tables (JSON array, '*' = all), scope ('read' | 'write'),
+      //   expires_at / revoked_at / last_used_at (ISO timestamps)
+      // ========================================================================
+      await this.apiExec(`
+        CREATE TABLE IF NOT EXISTS gateway_api_keys (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tenant_name TEXT NOT NULL,
+          name TEXT NOT NULL,
+          key_prefix TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          allowed_tables TEXT NOT NULL DEFAULT '[]',
+          scope TEXT NOT NULL DEFAULT 'read' CHECK (scope IN ('read', 'write')),
+          created_by TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_used_at TEXT,
+          expires_at TEXT,
+          revoked_at TEXT
+        )
+      `);
+
+      // ========================================================================
+      // TABLE 10: rate_limit_counters
+      // ========================================================================
+      // Purpose: Persistent counters of the named rate limit policies (survive restarts)
+      // Used by: lib/utils/rate-limiter.ts (signup, /api/gateway, /api/remote-query)
+      // Relationships: None (keyed by policy and client identifier)
+      // Key fields: policy + identifier (primary key), value (tokens left or requests
+      //   counted), window_start (window / day start or last refill, epoch ms)
+      // ========================================================================
+      await this.apiExec(`
+        CREATE TABLE IF NOT EXISTS rate_limit_counters (
+          policy TEXT NOT NULL,
+          identifier TEXT NOT NULL,
+          value REAL NOT NULL,
+          window_start INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (policy, identifier)
+        )
+      `);
+
+      // ========================================================================
+      // TABLE 11: gateway_saved_queries
+      // ========================================================================
+      // Purpose: Saved SELECT statements with named parameters, published as
+      //   GET /api/gateway/queries/<slug>
+      // Used by: SavedQueryManager (/api/gateway/queries, API Explorer)
+      // Relationships: None (scoped by tenant name, table is a registered remote table)
+      // Key fields: id (primary key), tenant_name + slug (unique), sql_query (with
+      //   :name placeholders), parameters (JSON array of SavedQueryParameter)
+      // ========================================================================
+      await this.apiExec(`
+        CREATE TABLE IF NOT EXISTS gateway_saved_queries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tenant_name TEXT NOT NULL,
+          slug TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT NOT NULL DEFAULT '',
+          table_name TEXT NOT NULL,
+          sql_query TEXT NOT NULL,
+          parameters TEXT NOT NULL DEFAULT '[]',
+          created_by TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (tenant_name, slug)
+        )
+      `);
+
 
       // ========================================================================
       // INDEXES: Performance optimization
@@ -544,6 +686,9 @@ export class SQLiteManager {
         CREATE INDEX IF NOT EXISTS idx_remote_api_tables_database_id ON remote_api_tables(database_id);
         CREATE INDEX IF NOT EXISTS idx_remote_api_expand_fields_table_id ON remote_api_expand_fields(table_id);
         CREATE INDEX IF NOT EXISTS idx_remote_api_expand_fields_active ON remote_api_expand_fields(is_active);
+        CREATE INDEX IF NOT EXISTS idx_remote_api_response_cache_table ON remote_api_response_cache(tenant_name, table_name);
+        CREATE INDEX IF NOT EXISTS idx_gateway_api_keys_tenant ON gateway_api_keys(tenant_name);
+        CREATE INDEX IF NOT EXISTS idx_gateway_saved_queries_tenant ON gateway_saved_queries(tenant_name);
       `);
 
     } catch (error) {
@@ -614,7 +759,18 @@ export class SQLiteManager {
     };
   }
 
-  static async createRemoteAPIDatabase(data: { name?: string; fullUrl: string; baseUrl: string; tenantName: string; services: string; tables: string[]; expandFields?: string[] }): Promise<any> {
+  /**
+   * Creates a remote API database with its tables, or adds the new tables to an existing database of the same name
+   * @static
+   * @async
+   * @param {Object} data - Database definition
+   * @param {string[]} data.tables - SOAP service names or OData 'oDataService/Entity' definitions
+   * @param {string[]} [data.expandFields] - Legacy database-level expand fields
+   * @param {Record<string, string[]>} [data.tableExpandFields] - Expand fields per table definition (e.g., navigation properties picked in the service catalog)
+   * @returns {Promise<RemoteAPITenant>} The created or updated database with isExisting/message flags
+   * @throws {Error} If database operation fails
+   */
+  static async createRemoteAPIDatabase(data: { name?: string; fullUrl: string; baseUrl: string; tenantName: string; services: string; tables: string[]; expandFields?: string[]; tableExpandFields?: Record<string, string[]> }): Promise<RemoteAPITenant & { isExisting: boolean; isUpdated?: boolean; newTablesAdded?: string[]; message: string }> {
     await this.initialize();
 
     // Check if database with same name already exists
@@ -642,10 +798,13 @@ export class SQLiteManager {
         // Insert only new tables
         for (const table of newTables) {
           const serviceInfo = this.parseServiceDefinition(table, data.services);
-          await this.apiPost(
+          const inserted = await this.apiPost(
             'INSERT INTO remote_api_tables (database_id, name, endpoint, api_type, odata_service, entity_name) VALUES (?, ?, ?, ?, ?, ?)',
             [databaseId, serviceInfo.name, serviceInfo.endpoint, serviceInfo.apiType, serviceInfo.oDataService || null, serviceInfo.entityName || null]
           );
+          if (data.tableExpandFields?.[table]?.length) {
+            await this.addExpandFieldsToTable(inserted.lastID, data.tableExpandFields[table]);
+          }
         }
       }
       
@@ -676,10 +835,13 @@ export class SQLiteManager {
         if (data.tables && data.tables.length > 0) {
           for (const table of data.tables) {
             const serviceInfo = this.parseServiceDefinition(table, data.services);
-            await this.apiPost(
+            const inserted = await this.apiPost(
               'INSERT INTO remote_api_tables (database_id, name, endpoint, api_type, odata_service, entity_name) VALUES (?, ?, ?, ?, ?, ?)',
               [databaseId, serviceInfo.name, serviceInfo.endpoint, serviceInfo.apiType, serviceInfo.oDataService || null, serviceInfo.entityName || null]
             );
+            if (data.tableExpandFields?.[table]?.length) {
+              await this.addExpandFieldsToTable(inserted.lastID, data.tableExpandFields[table]);
+            }
           }
         }
 
@@ -715,7 +877,10 @@ export class SQLiteManager {
     for (let index = 0; index < databases.length; index++) {
       const db = databases[index];
       const tables = db.id ? await this.apiGet(`
-        SELECT id, name, endpoint, api_type, odata_service, entity_name FROM remote_api_tables WHERE database_id = ? ORDER BY name
+        SELECT t.id, t.name, t.endpoint, t.api_type, t.odata_service, t.entity_name, s.ttl_seconds AS cache_ttl_seconds
+        FROM remote_api_tables t
+        LEFT JOIN remote_api_cache_settings s ON s.database_id = t.database_id AND s.table_name = t.name
+        WHERE t.database_id = ? ORDER BY t.name
       `, [db.id]) : [];
 
       // Get expand fields for each table
@@ -733,6 +898,7 @@ export class SQLiteManager {
           apiType: table.api_type || 'soap',
           oDataService: table.odata_service,
           entityName: table.entity_name,
+          cacheTtlSeconds: table.cache_ttl_seconds || 0,
           expandFields: expandFields.map((field: any) => ({
             name: field.field_name,
             description: field.description,
@@ -802,7 +968,10 @@ export class SQLiteManager {
 
     const db = databases[0];
     const tables = await this.apiGet(`
-      SELECT id, name, endpoint, api_type, odata_service, entity_name FROM remote_api_tables WHERE database_id = ? ORDER BY name
+      SELECT t.id, t.name, t.endpoint, t.api_type, t.odata_service, t.entity_name, s.ttl_seconds AS cache_ttl_seconds
+      FROM remote_api_tables t
+      LEFT JOIN remote_api_cache_settings s ON s.database_id = t.database_id AND s.table_name = t.name
+      WHERE t.database_id = ? ORDER BY t.name
     `, [id]);
 
     // Get expand fields for each table (same logic as getRemoteAPIDatabases)
@@ -826,6 +995,7 @@ export class SQLiteManager {
         apiType: table.api_type || 'soap',
         oDataService: table.odata_service,
         entityName: table.entity_name,
+        cacheTtlSeconds: table.cache_ttl_seconds || 0,
         expandFields: processedExpandFields
       });
     }
@@ -885,6 +1055,10 @@ export class SQLiteManager {
       'UPDATE remote_api_tables SET name = ?, endpoint = ?, updated_at = CURRENT_TIMESTAMP WHERE database_id = ? AND name = ?',
       [newTableName, newTableName, databaseId, currentTableName]
     );
+    await this.apiPost(
+      'UPDATE remote_api_cache_settings SET table_name = ?, updated_at = CURRENT_TIMESTAMP WHERE database_id = ? AND table_name = ?',
+      [newTableName, databaseId, currentTableName]
+    );
     return true;
   }
 
@@ -983,6 +1157,581 @@ export class SQLiteManager {
     return fields.map((field: any) => field.field_name);
   }
 
+  /**
+   * Gets the stored WSDL description (operations, request/response structure) of a SOAP table
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name (e.g., 'MIDPORT_DEM')
+   * @param {string} endpoint - SOAP service endpoint (e.g., 'ServiceCall_v2')
+   * @returns {Promise<string | null>} JSON stored in remote_api_tables.schema_definition, or null when none is stored
+   * @throws {Error} If query fails
+   */
+  static async getRemoteAPITableDefinition(tenantName: string, endpoint: string): Promise<string | null> {
+    await this.initialize();
+
+    const rows = await this.apiGet(`
+      SELECT t.schema_definition FROM remote_api_tables t
+      JOIN remote_api_databases d ON d.id = t.database_id
+      WHERE d.tenant_name = ? AND t.endpoint = ? AND t.api_type = 'soap' AND t.schema_definition IS NOT NULL
+      ORDER BY t.updated_at DESC
+      LIMIT 1
+    `, [tenantName, endpoint]);
+
+    return rows.length > 0 ? rows[0].schema_definition : null;
+  }
+
+  /**
+   * Stores the WSDL description of a SOAP service with every table of the tenant that uses it
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name
+   * @param {string} endpoint - SOAP service endpoint
+   * @param {string} definition - JSON to store in remote_api_tables.schema_definition
+   * @returns {Promise<boolean>} True if at least one registered table was updated
+   * @throws {Error} If operation fails
+   */
+  static async saveRemoteAPITableDefinition(tenantName: string, endpoint: string, definition: string): Promise<boolean> {
+    await this.initialize();
+    const result = await this.apiPost(`
+      UPDATE remote_api_tables SET schema_definition = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE endpoint = ? AND api_type = 'soap'
+        AND database_id IN (SELECT id FROM remote_api_databases WHERE tenant_name = ?)
+    `, [definition, endpoint, tenantName]);
+    return (result?.changes || 0) > 0;
+  }
+
+  /**
+   * Gets the cached $metadata document of an OData service
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name (e.g., 'MIDPORT_DEM')
+   * @param {string} oDataService - OData service name (e.g., 'tsapi.socServiceOrders')
+   * @returns {Promise<{ metadataXml: string; fetchedAt: Date } | null>} Cached document, or null when not cached
+   * @throws {Error} If query fails
+   */
+  static async getCachedODataMetadata(tenantName: string, oDataService: string): Promise<{ metadataXml: string; fetchedAt: Date } | null> {
+    await this.initialize();
+
+    const rows = await this.apiGet(
+      'SELECT metadata_xml, fetched_at FROM odata_metadata_cache WHERE tenant_name = ? AND odata_service = ?',
+      [tenantName, oDataService]
+    );
+
+    if (rows.length === 0) return null;
+    return {
+      metadataXml: rows[0].metadata_xml,
+      // CURRENT_TIMESTAMP is stored as UTC without a zone suffix
+      fetchedAt: new Date(`${String(rows[0].fetched_at).replace(' ', 'T')}Z`)
+    };
+  }
+
+  /**
+   * Stores (or replaces) the $metadata document of an OData service
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name
+   * @param {string} oDataService - OData service name
+   * @param {string} metadataXml - $metadata response body
+   * @returns {Promise<boolean>} True if the document was stored
+   * @throws {Error} If operation fails
+   */
+  static async saveODataMetadata(tenantName: string, oDataService: string, metadataXml: string): Promise<boolean> {
+    await this.initialize();
+    await this.apiPost(
+      'INSERT OR REPLACE INTO odata_metadata_cache (tenant_name, odata_service, metadata_xml, fetched_at) VALUES (?, ?, ?, CURRENT_TIMESTAMP)',
+      [tenantName, oDataService, metadataXml]
+    );
+    return true;
+  }
+
+  /**
+   * Replaces the response cache TTLs of the tables of a remote API database
+   * @static
+   * @async
+   * @param {string} databaseId - Remote API database ID
+   * @param {Record<string, number>} ttls - TTL in seconds per table name (0 disables caching)
+   * @returns {Promise<boolean>} True if the settings were stored
+   * @throws {Error} If operation fails
+   */
+  static async saveResponseCacheSettings(databaseId: string, ttls: Record<string, number>): Promise<boolean> {
+    await this.initialize();
+    await this.apiPost('DELETE FROM remote_api_cache_settings WHERE database_id = ?', [databaseId]);
+    for (const [tableName, ttlSeconds] of Object.entries(ttls)) {
+      const ttl = Math.max(0, Math.floor(Number(ttlSeconds) || 0));
+      if (ttl > 0) {
+        await this.apiPost(
+          'INSERT INTO remote_api_cache_settings (database_id, table_name, ttl_seconds) VALUES (?, ?, ?)',
+          [databaseId, tableName, ttl]
+        );
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Gets the response cache TTL of a table of a tenant
+   * The table is matched by name, endpoint or OData entity name (within the OData service when given)
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name (e.g., 'MIDPORT_DEM')
+   * @param {string} table - Table name, SOAP endpoint or OData entity name
+   * @param {string} [oDataService] - OData service of the entity (REST only)
+   * @returns {Promise<number>} TTL in seconds (0 when caching is not configured)
+   * @throws {Error} If query fails
+   */
+  static async getResponseCacheTtl(tenantName: string, table: string, oDataService?: string): Promise<number> {
+    await this.initialize();
+    const rows = await this.apiGet(`
+      SELECT MAX(s.ttl_seconds) AS ttl_seconds FROM remote_api_cache_settings s
+      JOIN remote_api_databases d ON d.id = s.database_id
+      JOIN remote_api_tables t ON t.database_id = s.database_id AND t.name = s.table_name
+      WHERE d.tenant_name = ? AND (t.name = ? OR t.endpoint = ? OR t.entity_name = ?)
+        AND (? IS NULL OR t.odata_service IS NULL OR t.odata_service = ?)
+    `, [tenantName, table, table, table, oDataService || null, oDataService || null]);
+    return rows[0]?.ttl_seconds || 0;
+  }
+
+  /**
+   * Gets a cached query result
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name
+   * @param {string} cacheKey - Hash of the normalized request
+   * @returns {Promise<{ resultJson: string; etag: string | null; storedAt: number; expiresAt: number } | null>} Entry (also when expired), or null
+   * @throws {Error} If query fails
+   */
+  static async getCachedResponse(tenantName: string, cacheKey: string): Promise<{ resultJson: string; etag: string | null; storedAt: number; expiresAt: number } | null> {
+    await this.initialize();
+    const rows = await this.apiGet(
+      'SELECT result_json, etag, stored_at, expires_at FROM remote_api_response_cache WHERE tenant_name = ? AND cache_key = ?',
+      [tenantName, cacheKey]
+    );
+    if (rows.length === 0) return null;
+    return {
+      resultJson: rows[0].result_json,
+      etag: rows[0].etag,
+      storedAt: rows[0].stored_at,
+      expiresAt: rows[0].expires_at
+    };
+  }
+
+  /**
+   * Stores (or replaces) a cached query result
+   * @static
+   * @async
+   * @param {Object} entry - Cache entry
+   * @param {string} entry.tenantName - Tenant name
+   * @param {string} entry.cacheKey - Hash of the normalized request
+   * @param {string} entry.tableName - Queried table (used for invalidation)
+   * @param {string} entry.resultJson - Serialized query result
+   * @param {string} [entry.etag] - ETag returned by ION
+   * @param {number} entry.storedAt - Time the result was fetched (epoch ms)
+   * @param {number} entry.expiresAt - Time the entry becomes stale (epoch ms)
+   * @returns {Promise<boolean>} True if the entry was stored
+   * @throws {Error} If operation fails
+   */
+  static async saveCachedResponse(entry: { tenantName: string; cacheKey: string; tableName: string; resultJson: string; etag?: string; storedAt: number; expiresAt: number }): Promise<boolean> {
+    await this.initialize();
+    await this.apiPost(
+      'INSERT OR REPLACE INTO remote_api_response_cache (tenant_name, cache_key, table_name, result_json, etag, stored_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [entry.tenantName, entry.cacheKey, entry.tableName, entry.resultJson, entry.etag || null, entry.storedAt, entry.expiresAt]
+    );
+    return true;
+  }
+
+  /**
+   * Extends a cached result that ION confirmed unchanged (304 Not Modified)
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name
+   * @param {string} cacheKey - Hash of the normalized request
+   * @param {number} storedAt - Time of the revalidation (epoch ms)
+   * @param {number} expiresAt - New expiry (epoch ms)
+   * @returns {Promise<boolean>} True if the entry was updated
+   * @throws {Error} If operation fails
+   */
+  static async refreshCachedResponse(tenantName: string, cacheKey: string, storedAt: number, expiresAt: number): Promise<boolean> {
+    await this.initialize();
+    const result = await this.apiPost(
+      'UPDATE remote_api_response_cache SET stored_at = ?, expires_at = ? WHERE tenant_name = ? AND cache_key = ?',
+      [storedAt, expiresAt, tenantName, cacheKey]
+    );
+    return (result?.changes || 0) > 0;
+  }
+
+  /**
+   * Deletes cached results of a tenant, of one table, or those stale since before a given time
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name
+   * @param {Object} [options] - Which entries to delete (default: all of the tenant)
+   * @param {string} [options.tableName] - Only entries of this table
+   * @param {number} [options.expiredBefore] - Only entries that expired before this time (epoch ms)
+   * @returns {Promise<number>} Number of deleted entries
+   * @throws {Error} If operation fails
+   */
+  static async deleteCachedResponses(tenantName: string, options: { tableName?: string; expiredBefore?: number } = {}): Promise<number> {
+    await this.initialize();
+    let query = 'DELETE FROM remote_api_response_cache WHERE tenant_name = ?';
+    const params: Array<string | number> = [tenantName];
+    if (options.tableName) {
+      query += ' AND table_name = ?';
+      params.push(options.tableName);
+    }
+    if (options.expiredBefore !== undefined) {
+      query += ' AND expires_at < ?';
+      params.push(options.expiredBefore);
+    }
+    const result = await this.apiPost(query, params);
+    return result?.changes || 0;
+  }
+
+  /**
+   * Stores a new gateway API key
+   * @static
+   * @async
+   * @param {Object} data - Key details
+   * @param {string} data.tenantName - Tenant the key can query
+   * @param {string} data.name - Display name
+   * @param {string} data.keyPrefix - First characters of the key
+   * @param {string} data.keyHash - SHA-256 hash of the key
+   * @param {string[]} data.allowedTables - Tables/entities the key may query
+   * @param {GatewayApiKeyScope} data.scope - 'read' or 'write'
+   * @param {string} data.createdBy - Username of the creating admin
+   * @param {string | null} data.expiresAt - Expiry (ISO), null for none
+   * @returns {Promise<GatewayApiKey>} Created key (without hash)
+   * @throws {Error} If operation fails
+   */
+  static async createGatewayApiKey(data: { tenantName: string; name: string; keyPrefix: string; keyHash: string; allowedTables: string[]; scope: GatewayApiKeyScope; createdBy: string; expiresAt: string | null }): Promise<GatewayApiKey> {
+    await this.initialize();
+    const result = await this.apiPost(
+      'INSERT INTO gateway_api_keys (tenant_name, name, key_prefix, key_hash, allowed_tables, scope, created_by, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [data.tenantName, data.name, data.keyPrefix, data.keyHash, JSON.stringify(data.allowedTables), data.scope, data.createdBy, data.expiresAt]
+    );
+    const created = await this.getGatewayApiKeyById(result.lastID);
+    if (!created) {
+      throw new Error('Failed to create API key');
+    }
+    return created;
+  }
+
+  /**
+   * Lists gateway API keys, newest first
+   * @static
+   * @async
+   * @param {string} [tenantName] - Only keys of this tenant (all tenants when omitted)
+   * @returns {Promise<GatewayApiKey[]>} Keys (without hashes), including revoked and expired ones
+   * @throws {Error} If query fails
+   */
+  static async getGatewayApiKeys(tenantName?: string): Promise<GatewayApiKey[]> {
+    await this.initialize();
+    const rows = tenantName
+      ? await this.apiGet('SELECT * FROM gateway_api_keys WHERE tenant_name = ? ORDER BY id DESC', [tenantName])
+      : await this.apiGet('SELECT * FROM gateway_api_keys ORDER BY id DESC');
+    return rows.map(row => this.mapGatewayApiKey(row));
+  }
+
+  /**
+   * Gets a gateway API key by ID
+   * @static
+   * @async
+   * @param {number} id - Key ID
+   * @returns {Promise<GatewayApiKey | null>} Key (without hash), or null
+   * @throws {Error} If query fails
+   */
+  static async getGatewayApiKeyById(id: number): Promise<GatewayApiKey | null> {
+    await this.initialize();
+    const rows = await this.apiGet('SELECT * FROM gateway_api_keys WHERE id = ?', [id]);
+    return rows.length > 0 ? this.mapGatewayApiKey(rows[0]) : null;
+  }
+
+  /**
+   * Gets the gateway API key with the given hash
+   * @static
+   * @async
+   * @param {string} keyHash - SHA-256 hash of the presented key
+   * @returns {Promise<GatewayApiKey | null>} Key (also when revoked or expired), or null
+   * @throws {Error} If query fails
+   */
+  static async getGatewayApiKeyByHash(keyHash: string): Promise<GatewayApiKey | null> {
+    await this.initialize();
+    const rows = await this.apiGet('SELECT * FROM gateway_api_keys WHERE key_hash = ?', [keyHash]);
+    return rows.length > 0 ? this.mapGatewayApiKey(rows[0]) : null;
+  }
+
+  /**
+   * Replaces the secret of an active gateway API key (rotation); the old key stops working
+   * @static
+   * @async
+   * @param {number} id - Key ID
+   * @param {string} keyPrefix - First characters of the new key
+   * @param {string} keyHash - SHA-256 hash of the new key
+   * @returns {Promise<boolean>} True if the key was updated (false when missing or revoked)
+   * @throws {Error} If operation fails
+   */
+  static async updateGatewayApiKeySecret(id: number, keyPrefix: string, keyHash: string): Promise<boolean> {
+    await this.initialize();
+    const result = await this.apiPost(
+      'UPDATE gateway_api_keys SET key_prefix = ?, key_hash = ?, last_used_at = NULL WHERE id = ? AND revoked_at IS NULL',
+      [keyPrefix, keyHash, id]
+    );
+    return (result?.changes || 0) > 0;
+  }
+
+  /**
+   * Revokes a gateway API key
+   * @static
+   * @async
+   * @param {number} id - Key ID
+   * @returns {Promise<boolean>} True if the key was revoked (false when missing or already revoked)
+   * @throws {Error} If operation fails
+   */
+  static async revokeGatewayApiKey(id: number): Promise<boolean> {
+    await this.initialize();
+    const result = await this.apiPost(
+      'UPDATE gateway_api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+    return (result?.changes || 0) > 0;
+  }
+
+  /**
+   * Records that a gateway API key was used
+   * @static
+   * @async
+   * @param {number} id - Key ID
+   * @param {string} usedAt - Time of use (ISO)
+   * @returns {Promise<boolean>} True if the key was updated
+   * @throws {Error} If operation fails
+   */
+  static async touchGatewayApiKey(id: number, usedAt: string): Promise<boolean> {
+    await this.initialize();
+    const result = await this.apiPost('UPDATE gateway_api_keys SET last_used_at = ? WHERE id = ?', [usedAt, id]);
+    return (result?.changes || 0) > 0;
+  }
+
+  /**
+   * Stores a new saved gateway query
+   * @static
+   * @async
+   * @param {Object} data - Query details
+   * @param {string} data.tenantName - Tenant the query belongs to
+   * @param {string} data.slug - URL name (unique per tenant)
+   * @param {string} data.name - Display name
+   * @param {string} data.description - What the query returns
+   * @param {string} data.tableName - Registered remote table
+   * @param {string} data.sql - SELECT statement with :name placeholders
+   * @param {SavedQueryParameter[]} data.parameters - Declared parameters
+   * @param {string} data.createdBy - Username of the creating user
+   * @returns {Promise<SavedQuery>} Created query
+   * @throws {Error} If operation fails (e.g. the slug is taken)
+   */
+  static async createSavedQuery(data: { tenantName: string; slug: string; name: string; description: string; tableName: string; sql: string; parameters: SavedQueryParameter[]; createdBy: string }): Promise<SavedQuery> {
+    await this.initialize();
+    const result = await this.apiPost(
+      'INSERT INTO gateway_saved_queries (tenant_name, slug, name, description, table_name, sql_query, parameters, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [data.tenantName, data.slug, data.name, data.description, data.tableName, data.sql, JSON.stringify(data.parameters), data.createdBy]
+    );
+    const rows = await this.apiGet('SELECT * FROM gateway_saved_queries WHERE id = ?', [result.lastID]);
+    if (rows.length === 0) {
+      throw new Error('Failed to create saved query');
+    }
+    return this.mapSavedQuery(rows[0]);
+  }
+
+  /**
+   * Lists the saved gateway queries of a tenant, by slug
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name
+   * @returns {Promise<SavedQuery[]>} Saved queries
+   * @throws {Error} If query fails
+   */
+  static async getSavedQueries(tenantName: string): Promise<SavedQuery[]> {
+    await this.initialize();
+    const rows = await this.apiGet('SELECT * FROM gateway_saved_queries WHERE tenant_name = ? COLLATE NOCASE ORDER BY slug', [tenantName]);
+    return rows.map(row => this.mapSavedQuery(row));
+  }
+
+  /**
+   * Gets a saved gateway query by slug
+   * @static
+   * @async
+   * @param {string} tenantName - Tenant name
+   * @param {string} slug - URL name
+   * @returns {Promise<SavedQuery | null>} Saved query, or null
+   * @throws {Error} If query fails
+   */
+  static async getSavedQuery(tenantName: string, slug: string): Promise<SavedQuery | null> {
+    await this.initialize();
+    const rows = await this.apiGet(
+      'SELECT * FROM gateway_saved_queries WHERE tenant_name = ? COLLATE NOCASE AND slug = ?',
+      [tenantName, slug]
+    );
+    return rows.length > 0 ? this.mapSavedQuery(rows[0]) : null;
+  }
+
+  /**
+   * Replaces the definition of a saved gateway query (the slug and tenant stay the same)
+   * @static
+   * @async
+   * @param {number} id - Query ID
+   * @param {Object} data - New definition
+   * @returns {Promise<boolean>} True if the query was updated
+   * @throws {Error} If operation fails
+   */
+  static async updateSavedQuery(id: number, data: { name: string; description: string; tableName: string; sql: string; parameters: SavedQueryParameter[] }): Promise<boolean> {
+    await this.initialize();
+    const result = await this.apiPost(
+      'UPDATE gateway_saved_queries SET name = ?, description = ?, table_name = ?, sql_query = ?, parameters = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [data.name, data.description, data.tableName, data.sql, JSON.stringify(data.parameters), id]
+    );
+    return (result?.changes || 0) > 0;
+  }
+
+  /**
+   * Deletes a saved gateway query
+   * @static
+   * @async
+   * @param {number} id - Query ID
+   * @returns {Promise<boolean>} True if the query was deleted
+   * @throws {Error} If operation fails
+   */
+  static async deleteSavedQuery(id: number): Promise<boolean> {
+    await this.initialize();
+    const result = await this.apiPost('DELETE FROM gateway_saved_queries WHERE id = ?', [id]);
+    return (result?.changes || 0) > 0;
+  }
+
+  /**
+   * Gets the counter of a rate limit policy for a client
+   * @static
+   * @async
+   * @param {string} policy - Policy name (e.g. 'gateway')
+   * @param {string} identifier - Client identifier (API key, user, tenant or IP)
+   * @returns {Promise<{ value: number; windowStart: number } | null>} Counter, or null when none is stored
+   * @throws {Error} If query fails
+   */
+  static async getRateLimitCounter(policy: string, identifier: string): Promise<{ value: number; windowStart: number } | null> {
+    await this.initialize();
+    const rows = await this.apiGet(
+      'SELECT value, window_start FROM rate_limit_counters WHERE policy = ? AND identifier = ?',
+      [policy, identifier]
+    );
+    return rows.length > 0 ? { value: rows[0].value, windowStart: rows[0].window_start } : null;
+  }
+
+  /**
+   * Stores (or replaces) the counter of a rate limit policy for a client
+   * @static
+   * @async
+   * @param {string} policy - Policy name
+   * @param {string} identifier - Client identifier
+   * @param {number} value - Tokens left (token bucket) or requests counted (window, quota)
+   * @param {number} windowStart - Window or day start, or last refill (epoch ms)
+   * @returns {Promise<boolean>} True if the counter was stored
+   * @throws {Error} If operation fails
+   */
+  static async saveRateLimitCounter(policy: string, identifier: string, value: number, windowStart: number): Promise<boolean> {
+    await this.initialize();
+    await this.apiPost(
+      'INSERT OR REPLACE INTO rate_limit_counters (policy, identifier, value, window_start, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [policy, identifier, value, windowStart, Date.now()]
+    );
+    return true;
+  }
+
+  /**
+   * Deletes rate limit counters of a client, or those not updated since a given time
+   * @static
+   * @async
+   * @param {Object} options - Which counters to delete
+   * @param {string} [options.policy] - Only counters of this policy
+   * @param {string} [options.identifier] - Only counters of this client
+   * @param {number} [options.updatedBefore] - Only counters last updated before this time (epoch ms)
+   * @returns {Promise<number>} Number of deleted counters
+   * @throws {Error} If operation fails
+   */
+  static async deleteRateLimitCounters(options: { policy?: string; identifier?: string; updatedBefore?: number }): Promise<number> {
+    await this.initialize();
+    let query = 'DELETE FROM rate_limit_counters WHERE 1 = 1';
+    const params: (string | number)[] = [];
+    if (options.policy) {
+      query += ' AND policy = ?';
+      params.push(options.policy);
+    }
+    if (options.identifier) {
+      query += ' AND identifier = ?';
+      params.push(options.identifier);
+    }
+    if (options.updatedBefore !== undefined) {
+      query += ' AND updated_at < ?';
+      params.push(options.updatedBefore);
+    }
+    const result = await this.apiPost(query, params);
+    return result?.changes || 0;
+  }
+
+  /**
+   * Maps a gateway_api_keys row (the hash is never returned)
+   * @private
+   * @static
+   */
+  private static mapGatewayApiKey(row: {
+    id: number; tenant_name: string; name: string; key_prefix: string; allowed_tables: string | null; scope: string;
+    created_by: string; created_at: string; last_used_at: string | null; expires_at: string | null; revoked_at: string | null;
+  }): GatewayApiKey {
+    let allowedTables: string[] = [];
+    try {
+      allowedTables = JSON.parse(row.allowed_tables || '[]');
+    } catch {
+      allowedTables = [];
+    }
+    return {
+      id: row.id,
+      tenant: row.tenant_name,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      allowedTables,
+      scope: row.scope === 'write' ? 'write' : 'read',
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at || null,
+      expiresAt: row.expires_at || null,
+      revokedAt: row.revoked_at || null
+    };
+  }
+
+  /**
+   * Maps a gateway_saved_queries row
+   * @private
+   * @static
+   */
+  private static mapSavedQuery(row: {
+    id: number; tenant_name: string; slug: string; name: string; description: string | null; table_name: string;
+    sql_query: string; parameters: string | null; created_by: string; created_at: string; updated_at: string;
+  }): SavedQuery {
+    let parameters: SavedQueryParameter[] = [];
+    try {
+      parameters = JSON.parse(row.parameters || '[]');
+    } catch {
+      parameters = [];
+    }
+    return {
+      id: row.id,
+      tenant: row.tenant_name,
+      slug: row.slug,
+      name: row.name,
+      description: row.description || '',
+      table: row.table_name,
+      sql: row.sql_query,
+      parameters,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
   /**
    * Creates a new local database entry with tables
    * @static
@@ -1303,6 +2052,7 @@ export class SQLiteManager {
    * @param {string[]} data.tables - Array of table/service names
    * @param {string[]} data.expandFields - Array of OData expand fields
    * @param {string} data.status - Database status (active/inactive)
+   * @param {Record<string, number>} [data.cacheTtls] - Response cache TTL in seconds per table name (replaces the stored TTLs)
    * @returns {Promise<Object>} Updated database object
    * @throws {Error} If database update fails
    */
@@ -1315,6 +2065,7 @@ export class SQLiteManager {
     tables: string[];
     expandFields: string[];
     status: string;
+    cacheTtls?: Record<string, number>;
   }): Promise<any> {
     await this.initialize();
 
@@ -1340,6 +2091,11 @@ export class SQLiteManager {
         }
       }
 
+      // Response cache TTLs per table (kept as they are when not sent)
+      if (data.cacheTtls) {
+        await this.saveResponseCacheSettings(id, data.cacheTtls);
+      }
+
       // Return the updated database
       return await this.getRemoteAPIDatabaseById(id);
     } catch (error) {
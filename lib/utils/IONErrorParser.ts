@@ -0,0 +1,358 @@
+/**
+ * @fileoverview Maps failed ION API requests to the structured RemoteAPIError model
+ * HTTP responses are read by status and body: 401/403 are auth errors, 429 is ION
+ * gateway throttling (with Retry-After), OData bodies give error.code, details[] and
+ * innererror, and SOAP faults (any namespace prefix) give faultcode, faultstring and
+ * the LN messages in detail. Network failures and timeouts are transport errors.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { SOAPResponseReader, type SOAPFault } from './SOAPResponseReader';
+import type { RemoteAPIError, RemoteAPIErrorDetail } from '@/Entities/RemoteAPI';
+import type { APIGatewayError, APIGatewayErrorCode } from '@/Entities/Gateway';
+
+/**
+ * Error thrown by the API managers for a failed ION request
+ * Carries the structured error so it can be returned on RemoteAPIQueryResult.error
+ * @class IONAPIError
+ */
+export class IONAPIError extends Error {
+  /** Structured error */
+  error: RemoteAPIError;
+
+  constructor(error: RemoteAPIError) {
+    super(error.message);
+    this.name = 'IONAPIError';
+    this.error = error;
+  }
+}
+
+/**
+ * Element names of LN messages inside a SOAP fault detail
+ * @private
+ */
+const LN_MESSAGE_TEXT = ['MessageText', 'Message', 'message', 'Text', 'Description'];
+const LN_MESSAGE_CODE = ['MessageCode', 'MessageId', 'Code', 'code'];
+const LN_MESSAGE_TARGET = ['Field', 'FieldName', 'Attribute', 'Property', 'Element'];
+
+/**
+ * HTTP status the API Gateway answers with per error code
+ * @private
+ */
+const GATEWAY_STATUS: Record<APIGatewayErrorCode, number> = {
+  BAD_REQUEST: 400,
+  VALIDATION_ERROR: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  TENANT_NOT_FOUND: 404,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  RATE_LIMITED: 429,
+  CANCELLED: 499,
+  INTERNAL_ERROR: 500,
+  UPSTREAM_UNAVAILABLE: 502,
+  ODATA_ERROR: 502,
+  SOAP_FAULT: 502,
+  PARSE_ERROR: 502,
+  UPSTREAM_TIMEOUT: 504
+};
+
+/**
+ * Parser for ION error responses and exceptions
+ *
+ * @example
+ * if (!response.ok) {
+ *   throw new IONAPIError(IONErrorParser.fromResponse(response.status, response.statusText, await response.text(), response.headers));
+ * }
+ */
+export class IONErrorParser {
+  /**
+   * Reads a failed HTTP response (OData error JSON, SOAP fault or plain text)
+   * @static
+   * @param {number} status - HTTP status
+   * @param {string} statusText - HTTP status text
+   * @param {string} body - Response body
+   * @param {Headers} [headers] - Response headers (Retry-After)
+   * @returns {RemoteAPIError} Structured error
+   */
+  static fromResponse(status: number, statusText: string, body: string, headers?: Headers): RemoteAPIError {
+    const retryAfterSeconds = this.parseRetryAfter(headers?.get('retry-after'));
+
+    if (status === 429) {
+      return {
+        category: 'throttling',
+        code: 'RATE_LIMITED',
+        message: `ION API rate limit exceeded${retryAfterSeconds !== undefined ? `, retry after ${retryAfterSeconds}s` : ''}`,
+        httpStatus: status,
+        retryAfterSeconds
+      };
+    }
+
+    const parsed = this.fromSOAPBody(body, status) || this.fromODataBody(body, status);
+
+    if (status === 401 || status === 403) {
+      return {
+        category: 'auth',
+        code: status === 401 ? 'UNAUTHORIZED' : 'FORBIDDEN',
+        message: parsed?.message || `ION API rejected the request: ${status} ${statusText}`,
+        httpStatus: status,
+        remoteCode: parsed?.remoteCode
+      };
+    }
+
+    if (parsed) {
+      return retryAfterSeconds !== undefined ? { ...parsed, retryAfterSeconds } : parsed;
+    }
+
+    // No OData or SOAP payload: gateway or proxy failure
+    const text = body.trim().slice(0, 500);
+    const message = `ION API Error ${status}: ${statusText}${text ? ` - ${text}` : ''}`;
+    if (status >= 500) {
+      return {
+        category: 'transport',
+        code: status === 504 ? 'UPSTREAM_TIMEOUT' : 'UPSTREAM_UNAVAILABLE',
+        message,
+        httpStatus: status,
+        retryAfterSeconds
+      };
+    }
+    return {
+      category: 'transport',
+      code: status === 404 ? 'NOT_FOUND' : 'BAD_REQUEST',
+      message,
+      httpStatus: status
+    };
+  }
+
+  /**
+   * Maps a SOAP fault; LN messages in the detail become details[] and the first
+   * field they name becomes the target
+   * @static
+   * @param {SOAPFault} fault - Fault read by SOAPResponseReader
+   * @param {number} [status] - HTTP status of the response
+   * @returns {RemoteAPIError} Structured error
+   */
+  static fromSOAPFault(fault: SOAPFault, status?: number): RemoteAPIError {
+    const details = this.collectLNMessages(fault.detail);
+    return {
+      category: 'soap_fault',
+      code: 'SOAP_FAULT',
+      message: fault.message,
+      httpStatus: status,
+      remoteCode: fault.code,
+      target: details.find(detail => detail.target)?.target || this.findFieldInMessage(fault.message),
+      details: details.length > 0 ? details : undefined
+    };
+  }
+
+  /**
+   * Maps an exception thrown while calling ION
+   * @static
+   * @param {unknown} error - Caught error
+   * @returns {RemoteAPIError} Structured error (the one carried by IONAPIError as is)
+   */
+  static fromException(error: unknown): RemoteAPIError {
+    if (error instanceof IONAPIError) {
+      return error.error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const name = error instanceof Error ? error.name : '';
+    const cause = error instanceof Error ? (error as Error & { cause?: { code?: string } }).cause : undefined;
+
+    // Timeouts are raised as TimeoutError by IONHttpClient; AbortError is the caller's signal
+    if (name === 'AbortError') {
+      return { category: 'cancelled', code: 'CANCELLED', message: 'Query cancelled, the ION request was aborted' };
+    }
+    if (name === 'TimeoutError' || cause?.code === 'ETIMEDOUT' || cause?.code === 'UND_ERR_CONNECT_TIMEOUT') {
+      return { category: 'transport', code: 'UPSTREAM_TIMEOUT', message: `ION API request timed out: ${message}` };
+    }
+    if ((error instanceof TypeError && message === 'fetch failed') || ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN'].includes(cause?.code || '')) {
+      return { category: 'transport', code: 'UPSTREAM_UNAVAILABLE', message: `ION API is not reachable: ${cause?.code || message}` };
+    }
+    if (message.startsWith('Malformed XML') || error instanceof SyntaxError) {
+      return { category: 'parse', code: 'PARSE_ERROR', message };
+    }
+    return { category: 'internal', code: 'INTERNAL_ERROR', message };
+  }
+
+  /**
+   * Creates a validation error (request rejected before calling ION)
+   * @static
+   * @param {string} message - Error message
+   * @param {string} [target] - Offending field
+   * @returns {IONAPIError} Error to throw
+   */
+  static validationError(message: string, target?: string): IONAPIError {
+    return new IONAPIError({ category: 'validation', code: 'VALIDATION_ERROR', message, target });
+  }
+
+  /**
+   * Converts a structured error to the API Gateway error format
+   * @static
+   * @param {RemoteAPIError} error - Structured error
+   * @returns {APIGatewayError} Gateway error
+   */
+  static toGatewayError(error: RemoteAPIError): APIGatewayError {
+    return {
+      code: error.code,
+      message: error.message,
+      category: error.category,
+      remoteCode: error.remoteCode,
+      target: error.target,
+      retryAfterSeconds: error.retryAfterSeconds,
+      details: error.category === 'internal'
+        ? undefined
+        : (error.details || error.innerError ? { messages: error.details, innerError: error.innerError } : undefined)
+    };
+  }
+
+  /**
+   * HTTP status the API Gateway answers with for an error code
+   * Upstream 4xx OData errors keep their status (e.g. 400 for an invalid $filter)
+   * @static
+   * @param {RemoteAPIError} error - Structured error
+   * @returns {number} HTTP status
+   */
+  static toHttpStatus(error: RemoteAPIError): number {
+    if (error.code === 'ODATA_ERROR' && error.httpStatus && error.httpStatus >= 400 && error.httpStatus < 500) {
+      return error.httpStatus;
+    }
+    return GATEWAY_STATUS[error.code] || 500;
+  }
+
+  /**
+   * Reads an OData error payload ({ error: { code, message, target, details, innererror } })
+   * OData v2/v3 message objects ({ lang, value }) are supported
+   * @private
+   * @static
+   */
+  private static fromODataBody(body: string, status: number): RemoteAPIError | null {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return null;
+    }
+    if (!this.isObject(payload) || !this.isObject(payload.error)) {
+      return null;
+    }
+
+    const error = payload.error;
+    const message = this.readODataMessage(error.message) || `ION OData API Error ${status}`;
+    const details: RemoteAPIErrorDetail[] = (Array.isArray(error.details) ? error.details : [])
+      .filter((detail: unknown): detail is Record<string, unknown> => this.isObject(detail))
+      .map(detail => ({
+        code: detail.code !== undefined ? String(detail.code) : undefined,
+        message: this.readODataMessage(detail.message) || '',
+        target: typeof detail.target === 'string' ? detail.target : undefined
+      }));
+    const target = (typeof error.target === 'string' ? error.target : undefined)
+      || details.find(detail => detail.target)?.target
+      || this.findFieldInMessage(message);
+
+    return {
+      category: 'odata',
+      code: status === 404 ? 'NOT_FOUND' : 'ODATA_ERROR',
+      message,
+      httpStatus: status,
+      remoteCode: error.code !== undefined && error.code !== '' ? String(error.code) : undefined,
+      target,
+      details: details.length > 0 ? details : undefined,
+      innerError: error.innererror
+    };
+  }
+
+  /**
+   * Reads a SOAP fault from a response body, whatever the envelope prefix
+   * @private
+   * @static
+   */
+  private static fromSOAPBody(body: string, status: number): RemoteAPIError | null {
+    if (!body.trimStart().startsWith('<')) {
+      return null;
+    }
+    try {
+      const { fault } = SOAPResponseReader.read(body);
+      return fault ? this.fromSOAPFault(fault, status) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Collects LN messages (MessageText/MessageCode/Field, ...) from a SOAP fault detail
+   * @private
+   * @static
+   */
+  private static collectLNMessages(detail: unknown): RemoteAPIErrorDetail[] {
+    const messages: RemoteAPIErrorDetail[] = [];
+    const pick = (value: Record<string, unknown>, names: string[]): string | undefined => {
+      const name = names.find(candidate => value[candidate] !== undefined && value[candidate] !== null && !this.isObject(value[candidate]));
+      return name ? String(value[name]) : undefined;
+    };
+
+    const visit = (value: unknown): void => {
+      if (Array.isArray(value)) {
+        value.forEach(visit);
+      } else if (this.isObject(value)) {
+        const message = pick(value, LN_MESSAGE_TEXT);
+        if (message) {
+          messages.push({ code: pick(value, LN_MESSAGE_CODE), message, target: pick(value, LN_MESSAGE_TARGET) });
+        }
+        Object.entries(value)
+          .filter(([key]) => !LN_MESSAGE_TEXT.includes(key))
+          .forEach(([, child]) => visit(child));
+      }
+    };
+
+    if (typeof detail === 'string' && detail.trim()) {
+      messages.push({ message: detail.trim() });
+    } else {
+      visit(detail);
+    }
+    return messages;
+  }
+
+  /**
+   * Finds a quoted field name in a message, e.g. "The property 'Statuss' does not exist"
+   * @private
+   * @static
+   */
+  private static findFieldInMessage(message: string): string | undefined {
+    const match = message.match(/\b(?:property|field|attribute|column)\s+['"`]([A-Za-z_][\w.]*)['"`]/i);
+    return match?.[1];
+  }
+
+  /**
+   * @private
+   * @static
+   */
+  private static readODataMessage(message: unknown): string | undefined {
+    if (typeof message === 'string') return message;
+    if (this.isObject(message) && typeof message.value === 'string') return message.value;
+    return undefined;
+  }
+
+  /**
+   * Retry-After in seconds (delta seconds or HTTP date)
+   * @private
+   * @static
+   */
+  private static parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    if (/^\d+$/.test(value.trim())) return Number(value.trim());
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  /**
+   * @private
+   * @static
+   */
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
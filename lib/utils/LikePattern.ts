@@ -0,0 +1,223 @@
+/**
+ * @fileoverview SQL LIKE / ILIKE pattern handling shared by the OData, SOAP and local filters
+ * Patterns use % (any run of characters) and _ (exactly one character); a backslash
+ * escapes a literal % or _. Remote APIs only receive the part of a pattern they can
+ * express; the rest is matched locally by LocalQueryEvaluator.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { SQLParser, type FilterCondition, type FilterExpression } from '@/lib/SQLParser';
+
+/**
+ * Piece of a LIKE pattern
+ * @private
+ */
+type LikeToken = { type: 'literal'; text: string } | { type: 'any' } | { type: 'one' };
+
+/**
+ * String functions that describe a LIKE pattern
+ *
+ * @example
+ * // 'ABC%'   → { startsWith: 'ABC', contains: [], exact: true }
+ * // '%A%B%'  → { contains: ['A', 'B'], exact: false }
+ * // 'AB_'    → { startsWith: 'AB', length: { operator: 'eq', value: 3 }, contains: [], exact: true }
+ */
+export interface LikePatternPlan {
+  /** Whole-value match (pattern without wildcards) */
+  equals?: string;
+  /** Text the value must start with */
+  startsWith?: string;
+  /** Text the value must end with */
+  endsWith?: string;
+  /** Text the value must contain somewhere */
+  contains: string[];
+  /** Exact length (only _ wildcards) or minimum length (with %) */
+  length?: { operator: 'eq' | 'ge'; value: number };
+  /** Whether the checks above match exactly the values the pattern matches (otherwise they match more) */
+  exact: boolean;
+}
+
+/**
+ * LIKE condition found in an expression, with the polarity it is evaluated in
+ */
+export interface LikeOccurrence {
+  condition: FilterCondition;
+  /** True when the condition sits under an odd number of NOTs */
+  negated: boolean;
+}
+
+/**
+ * Translates SQL LIKE patterns into string functions and regular expressions
+ */
+export class LikePattern {
+
+  /**
+   * Whether an ION operator is a pattern match (like or the case-insensitive ilike)
+   * @static
+   * @param {string} ionOperator - ION operator of a condition
+   * @returns {boolean} True for like/ilike
+   */
+  static isLikeOperator(ionOperator: string): boolean {
+    return ionOperator === 'like' || ionOperator === 'ilike';
+  }
+
+  /**
+   * Splits a pattern into literal text and wildcards (consecutive % are merged)
+   * @private
+   * @static
+   */
+  private static tokenize(pattern: string): LikeToken[] {
+    const tokens: LikeToken[] = [];
+    let literal = '';
+    const flush = () => {
+      if (literal) {
+        tokens.push({ type: 'literal', text: literal });
+        literal = '';
+      }
+    };
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '\\' && i + 1 < pattern.length) {
+        literal += pattern[++i];
+      } else if (char === '%') {
+        flush();
+        if (tokens[tokens.length - 1]?.type !== 'any') {
+          tokens.push({ type: 'any' });
+        }
+      } else if (char === '_') {
+        flush();
+        tokens.push({ type: 'one' });
+      } else {
+        literal += char;
+      }
+    }
+    flush();
+
+    return tokens;
+  }
+
+  /**
+   * Describes a pattern with startswith/endswith/contains/length checks
+   *
+   * Literal text at the start or end of the pattern is anchored; text between
+   * wildcards can only be checked with contains, which ignores its position,
+   * so such patterns (other than '%text%') are not exact.
+   *
+   * @static
+   * @param {string} pattern - LIKE pattern
+   * @param {boolean} [caseInsensitive=false] - ILIKE: literal text is lowercased
+   * @returns {LikePatternPlan} Checks describing the pattern
+   */
+  static plan(pattern: string, caseInsensitive: boolean = false): LikePatternPlan {
+    const text = (value: string) => caseInsensitive ? value.toLowerCase() : value;
+    const tokens = this.tokenize(pattern);
+    const literals = tokens.filter((token): token is { type: 'literal'; text: string } => token.type === 'literal');
+    const hasAny = tokens.some(token => token.type === 'any');
+    const singles = tokens.filter(token => token.type === 'one').length;
+
+    if (!hasAny && singles === 0) {
+      return { equals: text(literals.map(token => token.text).join('')), contains: [], exact: true };
+    }
+
+    const plan: LikePatternPlan = { contains: [], exact: true };
+    const first = tokens[0];
+    const last = tokens[tokens.length - 1];
+
+    literals.forEach(token => {
+      if (token === first) {
+        plan.startsWith = text(token.text);
+      } else if (token === last) {
+        plan.endsWith = text(token.text);
+      } else {
+        plan.contains.push(text(token.text));
+      }
+    });
+
+    const minLength = literals.reduce((sum, token) => sum + token.text.length, 0) + singles;
+    if (singles > 0) {
+      plan.length = { operator: hasAny ? 'ge' : 'eq', value: minLength };
+    } else if (plan.startsWith !== undefined && plan.endsWith !== undefined) {
+      // 'AB%BA' must not match 'ABA'
+      plan.length = { operator: 'ge', value: minLength };
+    }
+
+    plan.exact = plan.contains.length === 0 ||
+      (plan.contains.length === 1 && tokens.length === 3 && first.type === 'any' && last.type === 'any');
+
+    return plan;
+  }
+
+  /**
+   * Converts a pattern to an anchored regular expression
+   * @static
+   * @param {string} pattern - LIKE pattern
+   * @param {boolean} [caseInsensitive=false] - ILIKE matching
+   * @returns {RegExp} Regular expression matching the same values
+   */
+  static toRegExp(pattern: string, caseInsensitive: boolean = false): RegExp {
+    const source = this.tokenize(pattern).map(token => {
+      switch (token.type) {
+        case 'any':
+          return '.*';
+        case 'one':
+          return '.';
+        default:
+          return token.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      }
+    }).join('');
+    return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's');
+  }
+
+  /**
+   * Matches a value against a pattern
+   * @static
+   * @param {unknown} value - Field value (converted to string)
+   * @param {string} pattern - LIKE pattern
+   * @param {boolean} [caseInsensitive=false] - ILIKE matching
+   * @returns {boolean} True when the value matches
+   */
+  static matches(value: unknown, pattern: string, caseInsensitive: boolean = false): boolean {
+    return this.toRegExp(pattern, caseInsensitive).test(String(value));
+  }
+
+  /**
+   * Lists the LIKE/ILIKE conditions of an expression with their polarity
+   * @static
+   * @param {FilterExpression | null | undefined} expression - Expression tree from SQLParser
+   * @param {boolean} [negated=false] - Polarity of the expression itself
+   * @returns {LikeOccurrence[]} LIKE conditions in evaluation order
+   */
+  static findLikeConditions(expression: FilterExpression | null | undefined, negated: boolean = false): LikeOccurrence[] {
+    if (!expression) return [];
+    switch (expression.type) {
+      case 'condition':
+        return this.isLikeOperator(expression.condition.ionOperator) ? [{ condition: expression.condition, negated }] : [];
+      case 'not':
+        return this.findLikeConditions(expression.operand, !negated);
+      default:
+        return expression.operands.flatMap(operand => this.findLikeConditions(operand, negated));
+    }
+  }
+
+  /**
+   * Reduces an expression to what a remote API can filter on without losing matching rows
+   *
+   * Top-level AND operands containing a LIKE the API cannot express are dropped,
+   * so the remote filter returns a superset of the rows and the full expression
+   * is applied locally afterwards.
+   *
+   * @static
+   * @param {FilterExpression | null} expression - Expression tree from SQLParser
+   * @param {(occurrence: LikeOccurrence) => boolean} canPush - Whether the API can express a LIKE condition
+   * @returns {FilterExpression | null} Expression to send to the API
+   */
+  static pushdownExpression(expression: FilterExpression | null, canPush: (occurrence: LikeOccurrence) => boolean): FilterExpression | null {
+    if (!expression) return null;
+    const operands = expression.type === 'and' ? expression.operands : [expression];
+    const kept = operands.filter(operand => this.findLikeConditions(operand).every(canPush));
+    return kept.length === operands.length ? expression : SQLParser.combineExpressions('and', kept);
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Local (in-memory) evaluation of parsed SQL over ION API records
+ * Used when a query feature cannot be pushed down to the remote API:
+ * aggregates over SOAP results, OData services without $apply support, HAVING and sorting on aggregates
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { LikePattern } from '@/lib/utils/LikePattern';
+import { SQLParser, type AggregateFunction, type FilterCondition, type FilterExpression, type SelectColumn, type SQLParameters } from '@/lib/SQLParser';
+
+/**
+ * Record shape handled by the evaluator (parsed SOAP or OData entity)
+ */
+export type QueryRecord = Record<string, unknown>;
+
+/**
+ * Evaluates filters, aggregates and ordering over records that are already in memory
+ */
+export class LocalQueryEvaluator {
+
+  /**
+   * Whether the parameters describe an aggregate query (aggregate columns or GROUP BY)
+   * @static
+   * @param {SQLParameters} [parameters] - Parameters from SQLParser.parseSQL()
+   * @returns {boolean} True for aggregate queries
+   */
+  static isAggregateQuery(parameters?: SQLParameters): boolean {
+    if (!parameters) return false;
+    const columns: SelectColumn[] = Array.isArray(parameters.select) ? parameters.select : [];
+    return (Array.isArray(parameters.groupBy) && parameters.groupBy.length > 0) || columns.some(column => !!column.aggregate);
+  }
+
+  /**
+   * Parameters for fetching the source rows of an aggregate query
+   *
+   * Grouping, HAVING, ordering and paging apply to the aggregated result, so they
+   * are removed; every matching row is requested (bounded by the API record cap)
+   * and only the columns needed for grouping and aggregation are selected.
+   *
+   * @static
+   * @param {SQLParameters} parameters - Parameters of the aggregate query
+   * @returns {SQLParameters} Parameters for the source query
+   */
+  static toSourceParameters(parameters: SQLParameters): SQLParameters {
+    const { groupBy, select, ...rest } = parameters;
+    ['having', 'orderBy', 'orderDirection', 'limit', 'offset'].forEach(key => delete rest[key]);
+
+    const fields = new Set<string>(groupBy || []);
+    (select as SelectColumn[] || []).forEach(column => {
+      if (column.field !== '*') fields.add(column.field);
+    });
+    this.collectAggregateReferences(parameters.having).forEach(reference => {
+      if (reference.field !== '*') fields.add(reference.field);
+    });
+
+    return {
+      ...rest,
+      fetchAll: true,
+      ...(fields.size > 0 ? { select: Array.from(fields).map(field => ({ field })) } : {})
+    };
+  }
+
+  /**
+   * Evaluates an aggregate query over source records
+   *
+   * Groups by the GROUP BY fields, computes each aggregate, filters with HAVING,
+   * then applies ORDER BY, OFFSET and LIMIT to the grouped rows.
+   *
+   * @static
+   * @param {QueryRecord[]} records - Source records (already filtered by WHERE)
+   * @param {SQLParameters} parameters - Parameters from SQLParser.parseSQL()
+   * @returns {QueryRecord[]} One row per group, keyed by column alias or canonical name (e.g. "COUNT(*)")
+   *
+   * @example
+   * // SELECT Technician, COUNT(*) AS Calls FROM ServiceCall_v2 GROUP BY Technician HAVING COUNT(*) > 5
+   * // → [{ Technician: 'ANNA', Calls: 12 }, { Technician: 'BO', Calls: 7 }]
+   */
+  static aggregate(records: QueryRecord[], parameters: SQLParameters): QueryRecord[] {
+    const columns: SelectColumn[] = parameters.select || [];
+    const groupBy: string[] = parameters.groupBy || [];
+
+    // HAVING may reference aggregates that are not selected; compute them too
+    const aggregates = new Map<string, { field: string; aggregate: AggregateFunction }>();
+    columns.filter(column => column.aggregate).forEach(column => {
+      aggregates.set(SQLParser.aggregateName(column.aggregate!, column.field), { field: column.field, aggregate: column.aggregate! });
+    });
+    this.collectAggregateReferences(parameters.having).forEach(reference => {
+      aggregates.set(SQLParser.aggregateName(reference.aggregate, reference.field), reference);
+    });
+
+    // Group records (a query without GROUP BY has exactly one group, even when empty)
+    const groups = new Map<string, QueryRecord[]>();
+    if (groupBy.length === 0) {
+      groups.set('', records);
+    }
+    records.forEach(record => {
+      if (groupBy.length === 0) return;
+      const key = JSON.stringify(groupBy.map(field => this.getFieldValue(record, field)));
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(record);
+    });
+
+    // Each group keeps its output row plus the values HAVING and ORDER BY can refer to
+    const groupRows: Array<{ row: QueryRecord; values: QueryRecord }> = [];
+    groups.forEach(groupRecords => {
+      const values: QueryRecord = {};
+      groupBy.forEach(field => {
+        values[field] = groupRecords.length > 0 ? this.getFieldValue(groupRecords[0], field) : null;
+      });
+      aggregates.forEach((reference, name) => {
+        values[name] = this.computeAggregate(groupRecords, reference.aggregate, reference.field);
+      });
+
+      const row: QueryRecord = {};
+      columns.forEach(column => {
+        const name = column.aggregate ? SQLParser.aggregateName(column.aggregate, column.field) : column.field;
+        const value = column.aggregate ? values[name] : this.getFieldValue(values, column.field);
+        row[column.alias || name] = value;
+        if (column.alias) values[column.alias] = value;
+      });
+
+      groupRows.push({ row, values });
+    });
+
+    return this.finishGroupedRows(groupRows, parameters);
+  }
+
+  /**
+   * Applies HAVING, ORDER BY, OFFSET and LIMIT to rows that were aggregated elsewhere
+   * (e.g. by OData $apply), keyed by column alias or canonical aggregate name
+   * @static
+   * @param {QueryRecord[]} rows - Grouped rows
+   * @param {SQLParameters} parameters - Parameters from SQLParser.parseSQL()
+   * @returns {QueryRecord[]} Filtered, ordered and paged rows
+   */
+  static applyGroupedClauses(rows: QueryRecord[], parameters: SQLParameters): QueryRecord[] {
+    const columns: SelectColumn[] = parameters.select || [];
+
+    return this.finishGroupedRows(rows.map(row => {
+      // Let HAVING/ORDER BY use either the alias or the canonical name of an aggregate
+      const values: QueryRecord = { ...row };
+      columns.forEach(column => {
+        if (column.aggregate && column.alias) {
+          values[SQLParser.aggregateName(column.aggregate, column.field)] = row[column.alias];
+        }
+      });
+      return { row, values };
+    }), parameters);
+  }
+
+  /**
+   * Evaluates a filter expression against a record
+   * @static
+   * @param {QueryRecord} record - Record to test
+   * @param {FilterExpression} expression - Expression tree from SQLParser
+   * @returns {boolean} True if the record matches
+   */
+  static matchesExpression(record: QueryRecord, expression: FilterExpression): boolean {
+    switch (expression.type) {
+      case 'condition':
+        return this.matchesCondition(record, expression.condition);
+      case 'not':
+        return !this.matchesExpression(record, expression.operand);
+      case 'and':
+        return expression.operands.every(operand => this.matchesExpression(record, operand));
+      case 'or':
+        return expression.operands.some(operand => this.matchesExpression(record, operand));
+    }
+  }
+
+  /**
+   * Reads a (possibly dotted) field path from a record
+   * Falls back to a case-insensitive match since SQL column names are not case-sensitive
+   * @static
+   * @param {QueryRecord} record - Source record
+   * @param {string} path - Field name or dotted path (e.g. SoldToBPRef.Name)
+   * @returns {unknown} Field value, or null if not present
+   */
+  static getFieldValue(record: QueryRecord, path: string): unknown {
+    if (path in record) {
+      return record[path] === undefined ? null : record[path];
+    }
+
+    let current: unknown = record;
+    for (const segment of path.split('.')) {
+      if (current === null || current === undefined || typeof current !== 'object') {
+        return null;
+      }
+      const container = current as QueryRecord;
+      if (segment in container) {
+        current = container[segment];
+      } else {
+        const key = Object.keys(container).find(k => k.toLowerCase() === segment.toLowerCase());
+        current = key ? container[key] : undefined;
+      }
+    }
+    return current === undefined ? null : current;
+  }
+
+  /**
+   * Sorts records by a value accessor; nulls sort first in ascending order
+   * @static
+   * @param {T[]} records - Records to sort (not modified)
+   * @param {(record: T) => unknown} valueOf - Returns the sort value of a record
+   * @param {string} [direction='asc'] - 'asc' or 'desc'
+   * @returns {T[]} Sorted copy
+   */
+  static sortRecords<T>(records: T[], valueOf: (record: T) => unknown, direction: string = 'asc'): T[] {
+    const factor = direction === 'desc' ? -1 : 1;
+    return [...records].sort((a, b) => factor * this.compareValues(valueOf(a), valueOf(b)));
+  }
+
+  /**
+   * Compares two values: numbers numerically, everything else as strings (ISO dates sort correctly)
+   * @static
+   * @returns {number} Negative, zero or positive like Array.sort comparators
+   */
+  static compareValues(a: unknown, b: unknown): number {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return -1;
+    if (b === null || b === undefined) return 1;
+
+    const numberA = typeof a === 'number' ? a : Number(a);
+    const numberB = typeof b === 'number' ? b : Number(b);
+    if (!isNaN(numberA) && !isNaN(numberB) && String(a).trim() !== '' && String(b).trim() !== '') {
+      return numberA - numberB;
+    }
+    return String(a).localeCompare(String(b));
+  }
+
+  /**
+   * HAVING, ORDER BY, OFFSET and LIMIT over grouped rows
+   * @private
+   * @static
+   */
+  private static finishGroupedRows(groupRows: Array<{ row: QueryRecord; values: QueryRecord }>, parameters: SQLParameters): QueryRecord[] {
+    const { having, orderBy } = parameters;
+    let rows = having
+      ? groupRows.filter(groupRow => this.matchesExpression(groupRow.values, having))
+      : groupRows;
+
+    // ORDER BY on grouped rows (field, alias or aggregate)
+    if (orderBy) {
+      rows = this.sortRecords(rows, groupRow => this.getFieldValue(groupRow.values, orderBy), parameters.orderDirection);
+    }
+
+    const start = Number(parameters.offset) || 0;
+    const end = parameters.limit ? start + Number(parameters.limit) : undefined;
+
+    return rows.slice(start, end).map(groupRow => groupRow.row);
+  }
+
+  /**
+   * Computes one aggregate over a group of records
+   * @private
+   * @static
+   */
+  private static computeAggregate(records: QueryRecord[], aggregate: AggregateFunction, field: string): number | unknown {
+    if (aggregate === 'count') {
+      return field === '*'
+        ? records.length
+        : records.filter(record => this.getFieldValue(record, field) !== null).length;
+    }
+
+    const values = records
+      .map(record => this.getFieldValue(record, field))
+      .filter(value => value !== null && value !== '');
+
+    switch (aggregate) {
+      case 'sum':
+      case 'avg': {
+        const numbers = values.map(Number).filter(value => !isNaN(value));
+        if (numbers.length === 0) return null;
+        const sum = numbers.reduce((total, value) => total + value, 0);
+        return aggregate === 'sum' ? sum : sum / numbers.length;
+      }
+      case 'min':
+        return values.length ? values.reduce((min, value) => (this.compareValues(value, min) < 0 ? value : min)) : null;
+      case 'max':
+        return values.length ? values.reduce((max, value) => (this.compareValues(value, max) > 0 ? value : max)) : null;
+    }
+  }
+
+  /**
+   * Tests a single condition against a record
+   * @private
+   * @static
+   */
+  private static matchesCondition(record: QueryRecord, condition: FilterCondition): boolean {
+    const actual = this.getFieldValue(record, condition.field);
+    const { value, value2 } = condition;
+
+    switch (condition.ionOperator) {
+      case 'is_null':
+        return actual === null || actual === '';
+      case 'is_not_null':
+        return actual !== null && actual !== '';
+      case 'eq':
+        return value === null ? actual === null : actual !== null && this.compareValues(actual, value) === 0;
+      case 'ne':
+        return value === null ? actual !== null : actual === null || this.compareValues(actual, value) !== 0;
+      case 'gt':
+        return actual !== null && this.compareValues(actual, value) > 0;
+      case 'lt':
+        return actual !== null && this.compareValues(actual, value) < 0;
+      case 'ge':
+        return actual !== null && this.compareValues(actual, value) >= 0;
+      case 'le':
+        return actual !== null && this.compareValues(actual, value) <= 0;
+      case 'between':
+        return actual !== null && this.compareValues(actual, value) >= 0 && this.compareValues(actual, value2) <= 0;
+      case 'in':
+        return actual !== null && Array.isArray(value) && value.some(item => this.compareValues(actual, item) === 0);
+      case 'like':
+      case 'ilike':
+        return actual !== null && LikePattern.matches(actual, String(value ?? ''), condition.ionOperator === 'ilike');
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Finds aggregate references (COUNT(*), SUM(Amount), ...) used as fields in an expression
+   * @private
+   * @static
+   */
+  private static collectAggregateReferences(expression?: FilterExpression | null): Array<{ field: string; aggregate: AggregateFunction }> {
+    return SQLParser.flattenExpression(expression)
+      .map(condition => condition.field.match(/^(COUNT|SUM|AVG|MIN|MAX)\((.+)\)$/i))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map(match => ({ aggregate: match[1].toLowerCase() as AggregateFunction, field: match[2] }));
+  }
+}
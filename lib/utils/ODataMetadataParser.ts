@@ -0,0 +1,374 @@
+/**
+ * @fileoverview OData CSDL ($metadata) parser for ION LN OData services
+ * Reads entity types, keys, property facets (Type, Nullable, MaxLength, Precision, Scale),
+ * navigation properties and entity sets from the service's $metadata document, and maps
+ * an entity to the TableSchema used by DESCRIBE, the schema viewer and filter coercion.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import type { FieldSchema, TableSchema } from '@/lib/utils/SchemaExtractor';
+
+/**
+ * Structural property of an entity or complex type
+ */
+export interface ODataPropertyMetadata {
+  name: string;
+  /** Edm primitive type, or the qualified name of a complex/enum type */
+  type: string;
+  nullable: boolean;
+  maxLength?: number;
+  precision?: number;
+  scale?: number;
+  /** Core.Description annotation (LN field label) */
+  description?: string;
+}
+
+/**
+ * Navigation property of an entity type (target of $expand)
+ */
+export interface ODataNavigationPropertyMetadata {
+  name: string;
+  /** Qualified name of the target entity type */
+  type: string;
+  /** True for Collection(...) navigation properties */
+  isCollection: boolean;
+  nullable: boolean;
+  partner?: string;
+}
+
+/**
+ * Entity type with its key and properties (inherited ones included)
+ */
+export interface ODataEntityTypeMetadata {
+  name: string;
+  namespace: string;
+  /** Key property names in declaration order */
+  key: string[];
+  properties: ODataPropertyMetadata[];
+  navigationProperties: ODataNavigationPropertyMetadata[];
+  description?: string;
+}
+
+/**
+ * Parsed $metadata document of one OData service
+ */
+export interface ODataServiceMetadata {
+  /** Schema namespaces declared by the document */
+  namespaces: string[];
+  /** Entity types by qualified name (Namespace.Name) */
+  entityTypes: Record<string, ODataEntityTypeMetadata>;
+  /** Entity set name → qualified entity type name */
+  entitySets: Record<string, string>;
+  /** Qualified names of complex types */
+  complexTypes: string[];
+  /** Qualified names of enum types */
+  enumTypes: string[];
+}
+
+/**
+ * Entity type as declared, before base types are resolved
+ * @private
+ */
+interface DeclaredEntityType extends ODataEntityTypeMetadata {
+  baseType?: string;
+}
+
+/**
+ * Parses OData v4 CSDL documents and maps entity types to TableSchema
+ */
+export class ODataMetadataParser {
+
+  /**
+   * Parse a $metadata (CSDL XML) document
+   * @static
+   * @param {string} xml - $metadata response body
+   * @returns {ODataServiceMetadata} Entity types, entity sets, complex and enum types
+   * @throws {Error} When the document contains no Schema element
+   */
+  static parse(xml: string): ODataServiceMetadata {
+    const metadata: ODataServiceMetadata = {
+      namespaces: [],
+      entityTypes: {},
+      entitySets: {},
+      complexTypes: [],
+      enumTypes: []
+    };
+    const declared = new Map<string, DeclaredEntityType>();
+    const aliases = new Map<string, string>();
+
+    const schemaRegex = /<(?:\w+:)?Schema\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?Schema>/g;
+    const schemas = [...xml.matchAll(schemaRegex)];
+    if (schemas.length === 0) {
+      throw new Error('Invalid $metadata document: no Schema element found');
+    }
+
+    // Aliases first, so types referenced across schemas resolve
+    for (const [, attributes] of schemas) {
+      const attrs = this.parseAttributes(attributes);
+      if (attrs.Namespace) {
+        metadata.namespaces.push(attrs.Namespace);
+        if (attrs.Alias) aliases.set(attrs.Alias, attrs.Namespace);
+      }
+    }
+    const qualify = (type: string): string => {
+      const collection = type.match(/^Collection\((.*)\)$/);
+      const name = collection ? collection[1] : type;
+      const dot = name.lastIndexOf('.');
+      const resolved = dot > 0 && aliases.has(name.substring(0, dot))
+        ? `${aliases.get(name.substring(0, dot))}${name.substring(dot)}`
+        : name;
+      return collection ? `Collection(${resolved})` : resolved;
+    };
+
+    for (const [, attributes, body] of schemas) {
+      const namespace = this.parseAttributes(attributes).Namespace || '';
+
+      for (const [, typeAttributes, typeBody = ''] of body.matchAll(/<(?:\w+:)?EntityType\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?EntityType>)/g)) {
+        const attrs = this.parseAttributes(typeAttributes);
+        if (!attrs.Name) continue;
+        const key = [...(typeBody.match(/<(?:\w+:)?Key\b[^>]*>([\s\S]*?)<\/(?:\w+:)?Key>/)?.[1] || '')
+          .matchAll(/<(?:\w+:)?PropertyRef\b([^>]*)\/?>/g)]
+          .map(([, refAttributes]) => this.parseAttributes(refAttributes).Name)
+          .filter(Boolean);
+
+        declared.set(`${namespace}.${attrs.Name}`, {
+          name: attrs.Name,
+          namespace,
+          key,
+          properties: this.parseProperties(typeBody, qualify),
+          navigationProperties: this.parseNavigationProperties(typeBody, qualify),
+          description: this.parseDescription(typeBody.replace(/<(?:\w+:)?(?:Property|NavigationProperty)\b[\s\S]*?(?:\/>|<\/(?:\w+:)?(?:Property|NavigationProperty)>)/g, '')),
+          baseType: attrs.BaseType ? qualify(attrs.BaseType) : undefined
+        });
+      }
+
+      for (const [, typeAttributes] of body.matchAll(/<(?:\w+:)?ComplexType\b([^>]*)>/g)) {
+        const name = this.parseAttributes(typeAttributes).Name;
+        if (name) metadata.complexTypes.push(`${namespace}.${name}`);
+      }
+      for (const [, typeAttributes] of body.matchAll(/<(?:\w+:)?EnumType\b([^>]*)>/g)) {
+        const name = this.parseAttributes(typeAttributes).Name;
+        if (name) metadata.enumTypes.push(`${namespace}.${name}`);
+      }
+      for (const [, setAttributes] of body.matchAll(/<(?:\w+:)?EntitySet\b([^>]*?)\/?>/g)) {
+        const attrs = this.parseAttributes(setAttributes);
+        if (attrs.Name && attrs.EntityType) metadata.entitySets[attrs.Name] = qualify(attrs.EntityType);
+      }
+    }
+
+    // Resolve BaseType chains: key and properties of the base type come first
+    const resolve = (qualifiedName: string, seen: Set<string>): ODataEntityTypeMetadata | undefined => {
+      const type = declared.get(qualifiedName);
+      if (!type) return undefined;
+      const base = type.baseType && !seen.has(type.baseType)
+        ? resolve(type.baseType, new Set(seen).add(qualifiedName))
+        : undefined;
+      return {
+        name: type.name,
+        namespace: type.namespace,
+        key: type.key.length > 0 ? type.key : base?.key || [],
+        properties: [...(base?.properties || []), ...type.properties],
+        navigationProperties: [...(base?.navigationProperties || []), ...type.navigationProperties],
+        description: type.description
+      };
+    };
+    for (const qualifiedName of declared.keys()) {
+      metadata.entityTypes[qualifiedName] = resolve(qualifiedName, new Set())!;
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Find an entity type by entity set name or entity type name (case-insensitive)
+   * @static
+   * @param {ODataServiceMetadata} metadata - Parsed $metadata document
+   * @param {string} entityName - Entity set (e.g., 'Orders') or type name (e.g., 'Order')
+   * @returns {{ entitySet?: string; entityType: ODataEntityTypeMetadata } | null} Matching entity type
+   */
+  static findEntityType(
+    metadata: ODataServiceMetadata,
+    entityName: string
+  ): { entitySet?: string; entityType: ODataEntityTypeMetadata } | null {
+    const wanted = entityName.toLowerCase();
+
+    const entitySet = Object.keys(metadata.entitySets).find(name => name.toLowerCase() === wanted);
+    if (entitySet && metadata.entityTypes[metadata.entitySets[entitySet]]) {
+      return { entitySet, entityType: metadata.entityTypes[metadata.entitySets[entitySet]] };
+    }
+
+    const entityType = Object.values(metadata.entityTypes).find(type =>
+      type.name.toLowerCase() === wanted || `${type.namespace}.${type.name}`.toLowerCase() === wanted
+    );
+    if (!entityType) return null;
+
+    const qualifiedName = `${entityType.namespace}.${entityType.name}`;
+    return {
+      entitySet: Object.keys(metadata.entitySets).find(name => metadata.entitySets[name] === qualifiedName),
+      entityType
+    };
+  }
+
+  /**
+   * Map an entity type to TableSchema
+   * Structural properties keep their Edm type (enums their qualified name, which
+   * SchemaExtractor.getLiteralType turns into enum literals); complex types become
+   * 'object' and navigation properties 'object' or 'array' so they show as expandable.
+   * @static
+   * @param {ODataServiceMetadata} metadata - Parsed $metadata document
+   * @param {string} entityName - Entity set or type name
+   * @param {string} [tenantId] - Tenant the schema belongs to
+   * @returns {TableSchema | null} Schema, or null when the entity is not in the document
+   *
+   * @example
+   * const schema = ODataMetadataParser.toTableSchema(metadata, 'Orders', 'MIDPORT_DEM');
+   * // schema.fields → [{ fieldName: 'ServiceOrder', dataType: 'Edm.String', isNullable: false, maxLength: 9, isPrimaryKey: true }, ...]
+   */
+  static toTableSchema(metadata: ODataServiceMetadata, entityName: string, tenantId?: string): TableSchema | null {
+    const match = this.findEntityType(metadata, entityName);
+    if (!match) return null;
+
+    const { entitySet, entityType } = match;
+    const complexTypes = new Set(metadata.complexTypes);
+
+    const fields: FieldSchema[] = entityType.properties.map(property => {
+      const isCollection = property.type.startsWith('Collection(');
+      const isComplex = complexTypes.has(property.type.replace(/^Collection\((.*)\)$/, '$1'));
+      return {
+        fieldName: property.name,
+        dataType: isCollection ? 'array' : isComplex ? 'object' : property.type,
+        isNullable: property.nullable,
+        maxLength: property.maxLength,
+        isPrimaryKey: entityType.key.includes(property.name),
+        description: property.description
+      };
+    });
+
+    for (const navigation of entityType.navigationProperties) {
+      fields.push({
+        fieldName: navigation.name,
+        dataType: navigation.isCollection ? 'array' : 'object',
+        isNullable: navigation.nullable,
+        description: `Navigation to ${navigation.type}${navigation.isCollection ? ' (collection)' : ''}`
+      });
+    }
+
+    return {
+      tableName: entitySet || entityType.name,
+      serviceType: 'OData',
+      fields,
+      totalFields: fields.length,
+      namespace: entityType.namespace,
+      odataEntitySet: entitySet,
+      apiVersion: 'OData v4',
+      extractedAt: new Date().toISOString(),
+      tenantId,
+      source: 'metadata'
+    };
+  }
+
+  /**
+   * Navigation property names of an entity (the fields $expand accepts)
+   * @static
+   * @param {ODataServiceMetadata} metadata - Parsed $metadata document
+   * @param {string} entityName - Entity set or type name
+   * @returns {string[]} Navigation property names
+   */
+  static getNavigationProperties(metadata: ODataServiceMetadata, entityName: string): string[] {
+    return this.findEntityType(metadata, entityName)?.entityType.navigationProperties.map(navigation => navigation.name) || [];
+  }
+
+  /**
+   * Parse Property elements of an entity type body
+   * @private
+   * @static
+   */
+  private static parseProperties(body: string, qualify: (type: string) => string): ODataPropertyMetadata[] {
+    const properties: ODataPropertyMetadata[] = [];
+
+    for (const [, attributes, content = ''] of body.matchAll(/<(?:\w+:)?Property\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?Property>)/g)) {
+      const attrs = this.parseAttributes(attributes);
+      if (!attrs.Name || !attrs.Type) continue;
+
+      properties.push({
+        name: attrs.Name,
+        type: qualify(attrs.Type),
+        nullable: attrs.Nullable?.toLowerCase() !== 'false',
+        maxLength: this.parseFacet(attrs.MaxLength),
+        precision: this.parseFacet(attrs.Precision),
+        scale: this.parseFacet(attrs.Scale),
+        description: this.parseDescription(content)
+      });
+    }
+
+    return properties;
+  }
+
+  /**
+   * Parse NavigationProperty elements of an entity type body
+   * @private
+   * @static
+   */
+  private static parseNavigationProperties(body: string, qualify: (type: string) => string): ODataNavigationPropertyMetadata[] {
+    const navigationProperties: ODataNavigationPropertyMetadata[] = [];
+
+    for (const [, attributes] of body.matchAll(/<(?:\w+:)?NavigationProperty\b([^>]*?)\/?>/g)) {
+      const attrs = this.parseAttributes(attributes);
+      if (!attrs.Name || !attrs.Type) continue;
+
+      const type = qualify(attrs.Type);
+      const isCollection = type.startsWith('Collection(');
+      navigationProperties.push({
+        name: attrs.Name,
+        type: isCollection ? type.slice('Collection('.length, -1) : type,
+        isCollection,
+        nullable: isCollection || attrs.Nullable?.toLowerCase() !== 'false',
+        partner: attrs.Partner
+      });
+    }
+
+    return navigationProperties;
+  }
+
+  /**
+   * Read the Core.Description annotation of an element body
+   * @private
+   * @static
+   */
+  private static parseDescription(content: string): string | undefined {
+    const annotation = content.match(/<(?:\w+:)?Annotation\b([^>]*?)\/?>/g)
+      ?.map(element => this.parseAttributes(element.replace(/^<(?:\w+:)?Annotation\b|\/?>$/g, '')))
+      .find(attrs => /(^|\.)Description$/.test(attrs.Term || ''));
+    return annotation?.String;
+  }
+
+  /**
+   * Parse a numeric facet; 'max' and 'variable' have no fixed value
+   * @private
+   * @static
+   */
+  private static parseFacet(value?: string): number | undefined {
+    if (!value || !/^\d+$/.test(value)) return undefined;
+    return parseInt(value, 10);
+  }
+
+  /**
+   * Parse the attributes of an XML start tag into a map (entities decoded)
+   * @private
+   * @static
+   */
+  private static parseAttributes(attributes: string): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [, name, doubleQuoted, singleQuoted] of attributes.matchAll(/([\w:.]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      result[name] = (doubleQuoted ?? singleQuoted)
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+    }
+    return result;
+  }
+}
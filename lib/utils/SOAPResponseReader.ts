@@ -0,0 +1,411 @@
+/**
+ * @fileoverview Converts ION SOAP responses into nested records shaped like OData JSON
+ * The response is read with XMLStreamParser. Records are the components under DataArea
+ * (one per ServiceCall, BusinessPartner, ...); nested elements become objects, repeated
+ * children become arrays (in every record once any record repeats them), xsi:nil becomes
+ * null and numeric/boolean text is typed. Attributes are kept the way OData writes
+ * annotations: "@name" inside objects and "Field@name" next to simple values.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import { XMLStreamParser } from './XMLStreamParser';
+import type { RemoteAPIError } from '@/Entities/RemoteAPI';
+
+/**
+ * SOAP fault reported instead of a response
+ */
+export interface SOAPFault {
+  /** faultcode (SOAP 1.1) or Code/Value (SOAP 1.2), e.g. "S:Server" */
+  code?: string;
+  /** faultstring (SOAP 1.1) or Reason/Text (SOAP 1.2) */
+  message: string;
+  /** Content of the detail element (LN error messages) */
+  detail?: unknown;
+}
+
+/**
+ * Records and fault read from a SOAP response
+ */
+export interface SOAPResponseContent {
+  records: Record<string, unknown>[];
+  fault?: SOAPFault;
+}
+
+/**
+ * Parsed SOAP response (RemoteAPIManager.parseSOAPResponse), used as the `data` of a query result
+ * Faults carry `fault`, unreadable XML `apiError`; both have no records.
+ */
+export interface ParsedSOAPResponse extends SOAPResponseContent {
+  success: boolean;
+  serviceType: string;
+  recordCount: number;
+  summary: string;
+  error?: boolean;
+  message?: string;
+  type?: 'SOAP_FAULT' | 'PARSE_ERROR';
+  apiError?: RemoteAPIError;
+  rawResponse: string;
+}
+
+/**
+ * SOAP response read from an HTTP response body
+ */
+export interface SOAPResponseRead {
+  /** Complete response text (kept as rawResponse) */
+  xml: string;
+  /** Records and fault, or the error when the XML is not well-formed */
+  content: SOAPResponseContent | Error;
+}
+
+/**
+ * Element being read
+ * @private
+ */
+interface ElementFrame {
+  /** Local name (namespace prefix removed) */
+  name: string;
+  /** Child elements and "@attribute" keys */
+  value: Record<string, unknown>;
+  /** Attributes to keep, by local name */
+  attributes: Record<string, string>;
+  text: string;
+  hasChildren: boolean;
+  nil: boolean;
+}
+
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+/**
+ * Reader for SOAP responses; feed chunks with write() and collect the records with end()
+ *
+ * @example
+ * const { records } = SOAPResponseReader.read(xml);
+ * // [{ ServiceCall: 'SC0001', Status: 'Open', Lines: [{ Line: 10, ... }], Address: { City: 'Oslo' } }, ...]
+ */
+export class SOAPResponseReader {
+  private readonly parser: XMLStreamParser;
+
+  /** Elements opened and not closed yet; the first frame is the document */
+  private readonly stack: ElementFrame[] = [SOAPResponseReader.createFrame('#document')];
+
+  /** Namespace prefixes bound to XMLSchema-instance (their attributes are not data) */
+  private readonly xsiPrefixes = new Set<string>(['xsi']);
+
+  constructor() {
+    this.parser = new XMLStreamParser({
+      openTag: (name, attributes) => this.openElement(name, attributes),
+      text: text => { this.stack[this.stack.length - 1].text += text; },
+      closeTag: () => this.closeElement()
+    });
+  }
+
+  /**
+   * Reads a complete SOAP response
+   * @static
+   * @param {string} xml - SOAP response XML
+   * @returns {SOAPResponseContent} Records under DataArea, or the fault
+   * @throws {Error} If the XML is not well-formed
+   */
+  static read(xml: string): SOAPResponseContent {
+    const reader = new SOAPResponseReader();
+    reader.write(xml);
+    return reader.end();
+  }
+
+  /**
+   * Reads a SOAP response body while it arrives: every chunk is parsed as soon as it is
+   * received, so the XML is parsed once and no second pass over the text is needed
+   * @static
+   * @async
+   * @param {Response} response - HTTP response of a SOAP request
+   * @returns {Promise<SOAPResponseRead>} Response text and its records; after a parse error
+   *   the rest of the body is still read for the text
+   */
+  static async readResponse(response: Response): Promise<SOAPResponseRead> {
+    if (!response.body) {
+      const xml = await response.text();
+      try {
+        return { xml, content: SOAPResponseReader.read(xml) };
+      } catch (error) {
+        return { xml, content: error instanceof Error ? error : new Error(String(error)) };
+      }
+    }
+
+    const reader = new SOAPResponseReader();
+    const decoder = new TextDecoder();
+    const stream = response.body.getReader();
+    const chunks: string[] = [];
+    let parseError: Error | null = null;
+
+    const feed = (chunk: string): void => {
+      chunks.push(chunk);
+      if (parseError || !chunk) return;
+      try {
+        reader.write(chunk);
+      } catch (error) {
+        parseError = error instanceof Error ? error : new Error(String(error));
+      }
+    };
+
+    while (true) {
+      const { done, value } = await stream.read();
+      if (done) break;
+      feed(decoder.decode(value, { stream: true }));
+    }
+    feed(decoder.decode());
+
+    const xml = chunks.join('');
+    if (parseError) {
+      return { xml, content: parseError };
+    }
+    try {
+      return { xml, content: reader.end() };
+    } catch (error) {
+      return { xml, content: error instanceof Error ? error : new Error(String(error)) };
+    }
+  }
+
+  /**
+   * Feeds the next chunk of the response
+   * @param {string} chunk - Next part of the response
+   * @throws {Error} If the XML is not well-formed
+   */
+  write(chunk: string): void {
+    this.parser.write(chunk);
+  }
+
+  /**
+   * Finishes reading and returns the records
+   * Records are the children of DataArea; without a DataArea, the response element
+   * in the body (e.g. ShowResponse) is returned as a single record
+   * @returns {SOAPResponseContent} Records and fault
+   * @throws {Error} If the XML is incomplete
+   */
+  end(): SOAPResponseContent {
+    this.parser.end();
+
+    const document = this.stack[0].value;
+    const body = SOAPResponseReader.findElement(document, 'Body') as Record<string, unknown> | undefined;
+    const container = body ?? document;
+
+    const fault = SOAPResponseReader.readFault(container.Fault);
+    if (fault) {
+      return { records: [], fault };
+    }
+
+    const records: Record<string, unknown>[] = [];
+    const dataArea = SOAPResponseReader.findElement(container, 'DataArea');
+
+    if (SOAPResponseReader.isObject(dataArea)) {
+      for (const [key, value] of Object.entries(dataArea)) {
+        if (key.includes('@')) continue;
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (SOAPResponseReader.isObject(item)) records.push(item);
+        }
+      }
+    } else if (dataArea === undefined) {
+      const response = Object.entries(container).find(([key]) => !key.includes('@'))?.[1];
+      if (SOAPResponseReader.isObject(response) && Object.keys(response).length > 0) {
+        records.push(response);
+      }
+    }
+
+    return { records: SOAPResponseReader.normalizeRepeated(records) };
+  }
+
+  /**
+   * Starts an element frame
+   * @private
+   */
+  private openElement(name: string, attributes: Record<string, string>): void {
+    this.stack[this.stack.length - 1].hasChildren = true;
+    const frame = SOAPResponseReader.createFrame(SOAPResponseReader.localName(name));
+
+    for (const [attribute, value] of Object.entries(attributes)) {
+      if (attribute.startsWith('xmlns:') && value === XSI_NAMESPACE) {
+        this.xsiPrefixes.add(attribute.slice(6));
+      }
+    }
+
+    for (const [attribute, value] of Object.entries(attributes)) {
+      const prefix = attribute.includes(':') ? attribute.slice(0, attribute.indexOf(':')) : '';
+      if (attribute === 'xmlns' || prefix === 'xmlns') continue;
+      if (this.xsiPrefixes.has(prefix)) {
+        if (SOAPResponseReader.localName(attribute) === 'nil' && (value === 'true' || value === '1')) {
+          frame.nil = true;
+        }
+        continue;
+      }
+      frame.attributes[SOAPResponseReader.localName(attribute)] = value;
+    }
+
+    // Objects carry their attributes as "@name" ahead of the child elements
+    for (const [attribute, value] of Object.entries(frame.attributes)) {
+      frame.value[`@${attribute}`] = value;
+    }
+
+    this.stack.push(frame);
+  }
+
+  /**
+   * Completes the current element and adds it to its parent
+   * @private
+   */
+  private closeElement(): void {
+    const frame = this.stack.pop() as ElementFrame;
+    const parent = this.stack[this.stack.length - 1].value;
+
+    if (frame.nil) {
+      SOAPResponseReader.addChild(parent, frame.name, null);
+    } else if (frame.hasChildren) {
+      SOAPResponseReader.addChild(parent, frame.name, frame.value);
+      return;
+    } else {
+      SOAPResponseReader.addChild(parent, frame.name, SOAPResponseReader.typeValue(frame.text.trim()));
+    }
+
+    // Simple values carry their attributes as "Field@name" siblings
+    for (const [attribute, value] of Object.entries(frame.attributes)) {
+      SOAPResponseReader.addChild(parent, `${frame.name}@${attribute}`, value);
+    }
+  }
+
+  /**
+   * Adds a child value; a name seen before turns into an array
+   * @private
+   * @static
+   */
+  private static addChild(parent: Record<string, unknown>, name: string, value: unknown): void {
+    if (!(name in parent)) {
+      parent[name] = value;
+    } else if (Array.isArray(parent[name])) {
+      (parent[name] as unknown[]).push(value);
+    } else {
+      parent[name] = [parent[name], value];
+    }
+  }
+
+  /**
+   * Types element text: canonical numbers and true/false; codes with leading zeros,
+   * padded values and numbers beyond double precision stay strings
+   * @private
+   * @static
+   */
+  private static typeValue(text: string): unknown {
+    if (text === 'true' || text === 'false') {
+      return text === 'true';
+    }
+    if (/^-?(0|[1-9]\d{0,14})(\.\d+)?$/.test(text)) {
+      return Number(text);
+    }
+    return text;
+  }
+
+  /**
+   * Wraps single values in arrays where another record (or another parent in the same
+   * record) repeats the element, so every record has the same shape
+   * @private
+   * @static
+   */
+  private static normalizeRepeated(records: Record<string, unknown>[]): Record<string, unknown>[] {
+    const repeatedPaths = new Set<string>();
+
+    const collect = (value: unknown, path: string): void => {
+      if (Array.isArray(value)) {
+        repeatedPaths.add(path);
+        value.forEach(item => collect(item, path));
+      } else if (SOAPResponseReader.isObject(value)) {
+        for (const [key, child] of Object.entries(value)) {
+          collect(child, path ? `${path}.${key}` : key);
+        }
+      }
+    };
+
+    const normalize = (value: unknown, path: string): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(item => normalize(item, path));
+      }
+      if (!SOAPResponseReader.isObject(value)) {
+        return value;
+      }
+      const normalized: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = path ? `${path}.${key}` : key;
+        const wrapped = repeatedPaths.has(childPath) && !Array.isArray(child) && child !== null ? [child] : child;
+        normalized[key] = normalize(wrapped, childPath);
+      }
+      return normalized;
+    };
+
+    records.forEach(record => collect(record, ''));
+    if (repeatedPaths.size === 0) {
+      return records;
+    }
+    return records.map(record => normalize(record, '') as Record<string, unknown>);
+  }
+
+  /**
+   * Reads a SOAP 1.1 or 1.2 Fault element
+   * @private
+   * @static
+   */
+  private static readFault(fault: unknown): SOAPFault | undefined {
+    if (!this.isObject(fault)) return undefined;
+
+    const reason = this.isObject(fault.Reason) ? fault.Reason.Text : undefined;
+    const code = this.isObject(fault.Code) ? fault.Code.Value : fault.faultcode;
+    const detail = fault.detail ?? fault.Detail;
+
+    return {
+      code: code !== undefined ? String(code) : undefined,
+      message: String(fault.faultstring ?? reason ?? 'Unknown SOAP fault'),
+      detail: detail === '' ? undefined : detail
+    };
+  }
+
+  /**
+   * Depth-first search for the first element with the given local name
+   * @private
+   * @static
+   */
+  private static findElement(value: Record<string, unknown>, name: string): unknown {
+    if (name in value) {
+      return value[name];
+    }
+    for (const child of Object.values(value)) {
+      for (const item of Array.isArray(child) ? child : [child]) {
+        if (this.isObject(item)) {
+          const found = this.findElement(item, name);
+          if (found !== undefined) return found;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * @private
+   * @static
+   */
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * @private
+   * @static
+   */
+  private static localName(name: string): string {
+    return name.substring(name.indexOf(':') + 1);
+  }
+
+  /**
+   * @private
+   * @static
+   */
+  private static createFrame(name: string): ElementFrame {
+    return { name, value: {}, attributes: {}, text: '', hasChildren: false, nil: false };
+  }
+}
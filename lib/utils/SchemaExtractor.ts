@@ -7,6 +7,7 @@
  */
 
 import type { RemoteAPIQueryResult } from '@/Entities/RemoteAPI';
+import { SQLParser, type FilterExpression, type LiteralType, type SelectColumn } from '@/lib/SQLParser';
 
 /**
  * Field schema information
@@ -52,6 +53,10 @@ export interface TableSchema {
   metadata?: ResponseMetadata;
   extractedAt?: string;
   tenantId?: string;
+  /** How the fields were discovered: the OData $metadata document, the SOAP WSDL or sampled response records */
+  source?: 'metadata' | 'wsdl' | 'response';
+  /** Operations offered by a SOAP business interface (List, Show, Create, Change, Delete, ...) */
+  operations?: string[];
 }
 
 /**
@@ -88,6 +93,7 @@ export class SchemaExtractor {
     
     schema.extractedAt = new Date().toISOString();
     schema.tenantId = tenantId;
+    schema.source = 'response';
 
     return schema;
   }
@@ -455,6 +461,115 @@ export class SchemaExtractor {
     }
   }
 
+  /**
+   * Restrict a schema to the columns requested in a SELECT list
+   * Fields are returned in SELECT order and renamed to their aliases;
+   * nested fields (e.g. LineRefs.Item) follow their parent column.
+   */
+  static projectSchema(schema: TableSchema, columns?: SelectColumn[]): TableSchema {
+    if (!columns || columns.length === 0) {
+      return schema;
+    }
+
+    const fields: FieldSchema[] = [];
+    columns.forEach(column => {
+      const outputName = column.alias || column.field;
+      const prefix = column.field.toLowerCase();
+
+      schema.fields.forEach(field => {
+        const name = field.fieldName.toLowerCase();
+        if (name === prefix) {
+          fields.push({ ...field, fieldName: outputName });
+        } else if (name.startsWith(`${prefix}.`)) {
+          fields.push({ ...field, fieldName: outputName + field.fieldName.slice(column.field.length) });
+        }
+      });
+    });
+
+    return {
+      ...schema,
+      fields,
+      totalFields: fields.length
+    };
+  }
+
+  /**
+   * Coerce untyped filter values to the types of their fields
+   * e.g. OrderDate > '2024-01-01' on a date field is sent as a date, not a string.
+   * Conditions with typed literals, LIKE patterns and values that do not fit
+   * the field type are left unchanged.
+   */
+  static coerceExpression(expression: FilterExpression | null, schema: TableSchema): FilterExpression | null {
+    if (!expression) {
+      return null;
+    }
+
+    return SQLParser.mapConditions(expression, condition => {
+      const field = schema.fields.find(f => f.fieldName.toLowerCase() === condition.field.toLowerCase());
+      const target = field ? this.getLiteralType(field.dataType) : null;
+      if (!target || condition.valueType || condition.value === null || ['like', 'ilike'].includes(condition.ionOperator)) {
+        return condition;
+      }
+
+      const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+      const coerced = values.map(value => SQLParser.normalizeLiteral(value, target.type));
+      const value2 = condition.value2 !== undefined ? SQLParser.normalizeLiteral(condition.value2, target.type) : undefined;
+      if (coerced.some(value => value === null) || value2 === null ||
+          (Array.isArray(condition.value) && coerced.some(value => typeof value === 'boolean'))) {
+        return condition;
+      }
+
+      return {
+        ...condition,
+        value: Array.isArray(condition.value) ? coerced as Array<string | number> : coerced[0],
+        ...(value2 !== undefined ? { value2: value2 as string | number } : {}),
+        valueType: target.type,
+        ...(target.enumType ? { enumType: target.enumType } : {})
+      };
+    });
+  }
+
+  /**
+   * Map a field data type to a filter literal type
+   * Accepts the types detected from responses (date, datetime, integer, ...) and
+   * OData EDM types (Edm.Date, Edm.DateTimeOffset, ...); other qualified names are LN enumerations.
+   * Numeric strings ('numeric') stay strings since the service returns them quoted.
+   */
+  static getLiteralType(dataType: string): { type: LiteralType; enumType?: string } | null {
+    const type = dataType.toLowerCase();
+    switch (type) {
+      case 'date':
+      case 'edm.date':
+        return { type: 'date' };
+      case 'datetime':
+      case 'edm.datetimeoffset':
+      case 'edm.datetime':
+        return { type: 'datetime' };
+      case 'boolean':
+      case 'edm.boolean':
+        return { type: 'boolean' };
+      case 'integer':
+      case 'decimal':
+      case 'edm.byte':
+      case 'edm.int16':
+      case 'edm.int32':
+      case 'edm.int64':
+      case 'edm.decimal':
+      case 'edm.double':
+      case 'edm.single':
+        return { type: 'number' };
+      case 'guid':
+      case 'edm.guid':
+        return { type: 'guid' };
+      case 'string':
+      case 'numeric':
+      case 'edm.string':
+        return { type: 'string' };
+      default:
+        return dataType.includes('.') && !type.startsWith('edm.') ? { type: 'enum', enumType: dataType } : null;
+    }
+  }
+
   /**
    * Create empty schema template
    */
@@ -486,6 +601,11 @@ export class SchemaExtractor {
       if (schema.extractedAt) {
         lines.push(`│ Extracted At            │ ${schema.extractedAt.padEnd(55).substring(0, 55)} │`);
       }
+      if (schema.source) {
+        const source = schema.source === 'metadata' ? 'OData $metadata (CSDL)'
+          : schema.source === 'wsdl' ? 'SOAP WSDL' : 'Sampled response records';
+        lines.push(`│ Schema Source           │ ${source.padEnd(55).substring(0, 55)} │`);
+      }
       if (schema.metadata.queryUsed) {
         const query = schema.metadata.queryUsed.length > 50 ? 
           schema.metadata.queryUsed.substring(0, 50) + '...' : schema.metadata.queryUsed;
@@ -510,6 +630,10 @@ export class SchemaExtractor {
         const ns = schema.namespace.length > 50 ? schema.namespace.substring(0, 50) + '...' : schema.namespace;
         lines.push(`│ Namespace               │ ${ns.padEnd(55).substring(0, 55)} │`);
       }
+      if (schema.operations && schema.operations.length > 0) {
+        const operations = schema.operations.join(', ');
+        lines.push(`│ Operations              │ ${operations.padEnd(55).substring(0, 55)} │`);
+      }
       if (schema.odataEntitySet) {
         const entity = schema.odataEntitySet.length > 50 ? schema.odataEntitySet.substring(0, 50) + '...' : schema.odataEntitySet;
         lines.push(`│ OData Entity Set        │ ${entity.padEnd(55).substring(0, 55)} │`);
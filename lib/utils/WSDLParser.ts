@@ -0,0 +1,445 @@
+/**
+ * @fileoverview WSDL / XSD reader for ION LN SOAP business interfaces (LN/c4ws/services/<Service>?wsdl)
+ * Lists the operations of a business interface (List, Show, Create, Change, Delete, ...) with
+ * the structure and field types of their request and response elements, and maps the
+ * business object component (e.g. ServiceCall) to the TableSchema used by DESCRIBE,
+ * the schema viewer and SOAP filter validation.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+import type { FieldSchema, TableSchema } from '@/lib/utils/SchemaExtractor';
+
+/**
+ * Element of a request or response message, with its nested elements
+ */
+export interface SOAPElementDescription {
+  name: string;
+  /** Field type for leaf elements (string, integer, decimal, boolean, date, datetime, ...); 'object' for complex elements */
+  type: string;
+  /** minOccurs > 0 */
+  required: boolean;
+  /** maxOccurs > 1 or unbounded */
+  repeated: boolean;
+  nillable: boolean;
+  maxLength?: number;
+  /** Allowed values of an enumerated simple type */
+  enumeration?: string[];
+  children?: SOAPElementDescription[];
+}
+
+/**
+ * Operation of a business interface
+ */
+export interface SOAPOperationDescription {
+  /** Operation name (the SOAP action, e.g. 'List') */
+  name: string;
+  request?: SOAPElementDescription;
+  response?: SOAPElementDescription;
+}
+
+/**
+ * Parsed WSDL of one business interface
+ */
+export interface SOAPServiceDescription {
+  service: string;
+  /** Target namespace (http://www.infor.com/businessinterface/<Service>) */
+  namespace: string;
+  operations: SOAPOperationDescription[];
+}
+
+/**
+ * Element of the parsed XML tree (prefixes stripped from names)
+ * @private
+ */
+interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+/**
+ * Lookup tables of the XSD schemas embedded in a WSDL
+ * @private
+ */
+interface SchemaIndex {
+  elements: Map<string, XmlNode>;
+  complexTypes: Map<string, XmlNode>;
+  simpleTypes: Map<string, XmlNode>;
+}
+
+/** Nesting depth at which recursive types are cut off */
+const MAX_DEPTH = 12;
+
+/**
+ * Parses business interface WSDLs and maps their components to TableSchema
+ */
+export class WSDLParser {
+
+  /**
+   * Parse a WSDL 1.1 document with embedded XSD types
+   * @static
+   * @param {string} xml - ?wsdl response body
+   * @param {string} service - Business interface name (e.g., 'ServiceCall_v2')
+   * @returns {SOAPServiceDescription} Operations with request/response structure
+   * @throws {Error} When the document has no WSDL definitions element
+   */
+  static parse(xml: string, service: string): SOAPServiceDescription {
+    const root = this.parseXmlTree(xml);
+    if (!root || root.name !== 'definitions') {
+      throw new Error(`Invalid WSDL document for ${service}: no definitions element found`);
+    }
+
+    const index: SchemaIndex = { elements: new Map(), complexTypes: new Map(), simpleTypes: new Map() };
+    for (const schema of this.findAll(root, 'schema')) {
+      for (const child of schema.children) {
+        const name = child.attributes.name;
+        if (!name) continue;
+        if (child.name === 'element') index.elements.set(name, child);
+        if (child.name === 'complexType') index.complexTypes.set(name, child);
+        if (child.name === 'simpleType') index.simpleTypes.set(name, child);
+      }
+    }
+
+    // message name → element of its (first) part
+    const messages = new Map<string, string>();
+    for (const message of root.children.filter(child => child.name === 'message')) {
+      const part = message.children.find(child => child.name === 'part');
+      const element = part?.attributes.element || part?.attributes.type;
+      if (message.attributes.name && element) {
+        messages.set(message.attributes.name, this.localName(element));
+      }
+    }
+
+    const describeMessage = (node?: XmlNode): SOAPElementDescription | undefined => {
+      const element = node?.attributes.message ? messages.get(this.localName(node.attributes.message)) : undefined;
+      const declaration = element ? index.elements.get(element) : undefined;
+      return declaration ? this.describeElement(declaration, index, 0) : undefined;
+    };
+
+    const operations: SOAPOperationDescription[] = [];
+    for (const portType of root.children.filter(child => child.name === 'portType')) {
+      for (const operation of portType.children.filter(child => child.name === 'operation')) {
+        if (!operation.attributes.name || operations.some(known => known.name === operation.attributes.name)) continue;
+        operations.push({
+          name: operation.attributes.name,
+          request: describeMessage(operation.children.find(child => child.name === 'input')),
+          response: describeMessage(operation.children.find(child => child.name === 'output'))
+        });
+      }
+    }
+
+    return {
+      service,
+      namespace: root.attributes.targetNamespace || `http://www.infor.com/businessinterface/${service}`,
+      operations
+    };
+  }
+
+  /**
+   * Find an operation by name (case-insensitive)
+   * @static
+   * @param {SOAPServiceDescription} description - Parsed WSDL
+   * @param {string} action - SOAP action (e.g., 'list')
+   * @returns {SOAPOperationDescription | undefined} Matching operation
+   */
+  static findOperation(description: SOAPServiceDescription, action: string): SOAPOperationDescription | undefined {
+    return description.operations.find(operation => operation.name.toLowerCase() === action.toLowerCase());
+  }
+
+  /**
+   * Business object component of a message: the element under DataArea
+   * (e.g. ListResponse/DataArea/ServiceCall)
+   * @static
+   * @param {SOAPElementDescription | undefined} message - Request or response element
+   * @returns {SOAPElementDescription | undefined} Component element
+   */
+  static findComponent(message: SOAPElementDescription | undefined): SOAPElementDescription | undefined {
+    if (!message?.children) return undefined;
+
+    const dataArea = message.children.find(child => child.name === 'DataArea');
+    if (dataArea) {
+      return dataArea.children?.find(child => child.children && child.children.length > 0) || dataArea.children?.[0];
+    }
+
+    // Wrapper elements (e.g. List → ListResponse) nest the DataArea one level deeper
+    for (const child of message.children) {
+      const component = this.findComponent(child);
+      if (component) return component;
+    }
+    return undefined;
+  }
+
+  /**
+   * Fields of the business object returned by List (or Show): nested elements are
+   * listed with dotted paths (e.g. 'Address.City'), like sampled response schemas
+   * @static
+   * @param {SOAPServiceDescription} description - Parsed WSDL
+   * @returns {SOAPElementDescription[]} Component fields keyed by path in `name`
+   */
+  static getComponentFields(description: SOAPServiceDescription): SOAPElementDescription[] {
+    const operation = this.findOperation(description, 'List') || this.findOperation(description, 'Show');
+    const component = this.findComponent(operation?.response);
+    return this.flattenFields(component?.children || [], '');
+  }
+
+  /**
+   * Attribute names accepted in a List filter (ComparisonExpression/attributeName)
+   * @static
+   * @param {SOAPServiceDescription} description - Parsed WSDL
+   * @returns {string[]} Field names and dotted paths of the component
+   */
+  static getFilterAttributes(description: SOAPServiceDescription): string[] {
+    return this.getComponentFields(description).map(field => field.name);
+  }
+
+  /**
+   * Map the business object component to TableSchema
+   * Key fields are the fields of the Show (or Delete) request component, which
+   * identifies one business object.
+   * @static
+   * @param {SOAPServiceDescription} description - Parsed WSDL
+   * @param {string} [tenantId] - Tenant the schema belongs to
+   * @returns {TableSchema} Schema with WSDL field types, the key and the available operations
+   *
+   * @example
+   * const schema = WSDLParser.toTableSchema(description, 'MIDPORT_DEM');
+   * // schema.operations → ['List', 'Show', 'Create', 'Change', 'Delete']
+   */
+  static toTableSchema(description: SOAPServiceDescription, tenantId?: string): TableSchema {
+    const keyOperation = this.findOperation(description, 'Show') || this.findOperation(description, 'Delete');
+    const keyFields = new Set(this.flattenFields(this.findComponent(keyOperation?.request)?.children || [], '')
+      .map(field => field.name));
+
+    const fields: FieldSchema[] = this.getComponentFields(description).map(field => ({
+      fieldName: field.name,
+      dataType: field.repeated ? 'array' : field.type,
+      isNullable: !field.required || field.nillable,
+      maxLength: field.maxLength,
+      isPrimaryKey: keyFields.has(field.name),
+      description: field.enumeration ? `One of: ${field.enumeration.join(', ')}` : undefined
+    }));
+
+    return {
+      tableName: description.service,
+      serviceType: 'SOAP',
+      fields,
+      totalFields: fields.length,
+      namespace: description.namespace,
+      apiVersion: 'WSDL 1.1',
+      extractedAt: new Date().toISOString(),
+      tenantId,
+      source: 'wsdl',
+      operations: description.operations.map(operation => operation.name)
+    };
+  }
+
+  /**
+   * Flatten nested elements into dotted field paths; complex elements are kept
+   * as 'object' (or 'array' when repeated) ahead of their children
+   * @private
+   * @static
+   */
+  private static flattenFields(elements: SOAPElementDescription[], prefix: string): SOAPElementDescription[] {
+    const fields: SOAPElementDescription[] = [];
+    for (const element of elements) {
+      const path = prefix ? `${prefix}.${element.name}` : element.name;
+      fields.push({ ...element, name: path, children: undefined });
+      if (element.children && element.children.length > 0) {
+        fields.push(...this.flattenFields(element.children, path));
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * Describe an xsd:element: occurrence, type (named, inline or built-in) and children
+   * @private
+   * @static
+   */
+  private static describeElement(node: XmlNode, index: SchemaIndex, depth: number): SOAPElementDescription {
+    const referenced = node.attributes.ref ? index.elements.get(this.localName(node.attributes.ref)) : undefined;
+    const declaration = referenced || node;
+    const maxOccurs = node.attributes.maxOccurs || '1';
+
+    const description: SOAPElementDescription = {
+      name: declaration.attributes.name || this.localName(node.attributes.ref || ''),
+      type: 'string',
+      required: (node.attributes.minOccurs ?? '1') !== '0',
+      repeated: maxOccurs === 'unbounded' || parseInt(maxOccurs, 10) > 1,
+      nillable: (declaration.attributes.nillable || node.attributes.nillable) === 'true'
+    };
+
+    const typeName = declaration.attributes.type ? this.localName(declaration.attributes.type) : undefined;
+    const complexType = declaration.children.find(child => child.name === 'complexType')
+      || (typeName ? index.complexTypes.get(typeName) : undefined);
+    const simpleType = declaration.children.find(child => child.name === 'simpleType')
+      || (typeName ? index.simpleTypes.get(typeName) : undefined);
+
+    if (complexType) {
+      description.type = 'object';
+      description.children = depth < MAX_DEPTH ? this.describeComplexType(complexType, index, depth + 1) : [];
+    } else if (simpleType) {
+      Object.assign(description, this.describeSimpleType(simpleType, index));
+    } else if (typeName) {
+      description.type = this.mapXsdType(typeName);
+    }
+
+    return description;
+  }
+
+  /**
+   * Child elements of a complexType (sequence/all/choice, complexContent extensions)
+   * @private
+   * @static
+   */
+  private static describeComplexType(node: XmlNode, index: SchemaIndex, depth: number): SOAPElementDescription[] {
+    const elements: SOAPElementDescription[] = [];
+
+    for (const child of node.children) {
+      switch (child.name) {
+        case 'element':
+          elements.push(this.describeElement(child, index, depth));
+          break;
+        case 'sequence':
+        case 'all':
+        case 'choice':
+          elements.push(...this.describeComplexType(child, index, depth));
+          break;
+        case 'complexContent':
+        case 'extension':
+        case 'restriction': {
+          const base = child.attributes.base ? index.complexTypes.get(this.localName(child.attributes.base)) : undefined;
+          if (base && child.name === 'extension' && depth < MAX_DEPTH) {
+            elements.push(...this.describeComplexType(base, index, depth + 1));
+          }
+          elements.push(...this.describeComplexType(child, index, depth));
+          break;
+        }
+      }
+    }
+
+    return elements;
+  }
+
+  /**
+   * Base type and facets (maxLength, enumeration) of a simpleType
+   * @private
+   * @static
+   */
+  private static describeSimpleType(node: XmlNode, index: SchemaIndex): Pick<SOAPElementDescription, 'type' | 'maxLength' | 'enumeration'> {
+    const restriction = node.children.find(child => child.name === 'restriction');
+    if (!restriction) {
+      return { type: 'string' };
+    }
+
+    const baseName = this.localName(restriction.attributes.base || 'string');
+    const base = index.simpleTypes.get(baseName);
+    const inherited = base && base !== node ? this.describeSimpleType(base, index) : { type: this.mapXsdType(baseName) };
+
+    const maxLength = restriction.children.find(child => child.name === 'maxLength' || child.name === 'length')?.attributes.value;
+    const enumeration = restriction.children
+      .filter(child => child.name === 'enumeration')
+      .map(child => child.attributes.value);
+
+    return {
+      type: inherited.type,
+      maxLength: maxLength !== undefined ? parseInt(maxLength, 10) : inherited.maxLength,
+      enumeration: enumeration.length > 0 ? enumeration : inherited.enumeration
+    };
+  }
+
+  /**
+   * Map built-in XSD types to the field types used by SchemaExtractor
+   * @private
+   * @static
+   */
+  private static mapXsdType(typeName: string): string {
+    switch (typeName) {
+      case 'int':
+      case 'integer':
+      case 'long':
+      case 'short':
+      case 'byte':
+      case 'nonNegativeInteger':
+      case 'positiveInteger':
+      case 'unsignedInt':
+      case 'unsignedLong':
+      case 'unsignedShort':
+        return 'integer';
+      case 'decimal':
+      case 'double':
+      case 'float':
+        return 'decimal';
+      case 'dateTime':
+        return 'datetime';
+      default:
+        return typeName;
+    }
+  }
+
+  /**
+   * All descendants with the given local name
+   * @private
+   * @static
+   */
+  private static findAll(node: XmlNode, name: string): XmlNode[] {
+    const found: XmlNode[] = [];
+    for (const child of node.children) {
+      if (child.name === name) found.push(child);
+      found.push(...this.findAll(child, name));
+    }
+    return found;
+  }
+
+  /**
+   * Name without namespace prefix (tns:ListRequest → ListRequest)
+   * @private
+   * @static
+   */
+  private static localName(name: string): string {
+    return name.substring(name.indexOf(':') + 1);
+  }
+
+  /**
+   * Parse XML into an element tree; text content, comments and processing
+   * instructions are skipped (the WSDL structure is in elements and attributes)
+   * @private
+   * @static
+   */
+  private static parseXmlTree(xml: string): XmlNode | null {
+    const tokenRegex = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<!DOCTYPE[^>]*>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+    const stack: XmlNode[] = [];
+    let root: XmlNode | null = null;
+
+    for (const [, closingName, openingName, attributes = '', selfClosing] of xml.matchAll(tokenRegex)) {
+      if (closingName) {
+        stack.pop();
+        continue;
+      }
+      if (!openingName) continue;
+
+      const node: XmlNode = { name: this.localName(openingName), attributes: {}, children: [] };
+      for (const [, name, doubleQuoted, singleQuoted] of attributes.matchAll(/([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        node.attributes[name] = (doubleQuoted ?? singleQuoted)
+          .replace(/&lt;/g, '<')
+          .replace(/&gt;/g, '>')
+          .replace(/&quot;/g, '"')
+          .replace(/&apos;/g, "'")
+          .replace(/&amp;/g, '&');
+      }
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(node);
+      } else if (!root) {
+        root = node;
+      }
+      if (!selfClosing) {
+        stack.push(node);
+      }
+    }
+
+    return root;
+  }
+}
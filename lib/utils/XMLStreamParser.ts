@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Incremental (SAX-style) XML parser for ION SOAP responses
+ * Markup is read as it arrives: chunks can be written in any size and events are
+ * reported for every complete tag and text run, so large List responses never need
+ * a DOM. Comments, processing instructions and DOCTYPE are skipped; CDATA is
+ * reported as text; the predefined and numeric entities are decoded.
+ * @author Mulugeta Forsido
+ * @company Midport Scandinavia
+ * @date October 2025
+ */
+
+/**
+ * Callbacks for parser events; element and attribute names are reported as written (with prefix)
+ */
+export interface XMLStreamHandler {
+  /** Start of an element; self-closing elements are followed by closeTag right away */
+  openTag?: (name: string, attributes: Record<string, string>) => void;
+  /** Decoded character data (CDATA included); one element's text can arrive in several calls */
+  text?: (text: string) => void;
+  /** End of an element */
+  closeTag?: (name: string) => void;
+}
+
+/**
+ * Incremental XML parser
+ *
+ * @example
+ * const parser = new XMLStreamParser({ openTag: name => console.log('open', name) });
+ * parser.write('<ListResponse><Data');
+ * parser.write('Area/></ListResponse>');
+ * parser.end();
+ * // open ListResponse, open DataArea
+ */
+export class XMLStreamParser {
+  /** Markup not processed yet (an incomplete tag or a text run not terminated by '<') */
+  private buffer = '';
+
+  /** Names of the elements opened and not closed yet */
+  private readonly openElements: string[] = [];
+
+  constructor(private readonly handler: XMLStreamHandler) {}
+
+  /**
+   * Parses a complete document
+   * @static
+   * @param {string} xml - XML document
+   * @param {XMLStreamHandler} handler - Event callbacks
+   * @throws {Error} If the document is not well-formed
+   */
+  static parse(xml: string, handler: XMLStreamHandler): void {
+    const parser = new XMLStreamParser(handler);
+    parser.write(xml);
+    parser.end();
+  }
+
+  /**
+   * Decodes the predefined XML entities and character references
+   * @static
+   * @param {string} text - Raw text or attribute value
+   * @returns {string} Decoded text
+   */
+  static decodeEntities(text: string): string {
+    if (!text.includes('&')) return text;
+    return text.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (entity, name: string) => {
+      switch (name) {
+        case 'lt': return '<';
+        case 'gt': return '>';
+        case 'amp': return '&';
+        case 'quot': return '"';
+        case 'apos': return "'";
+        default:
+          return String.fromCodePoint(name[1] === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+      }
+    });
+  }
+
+  /**
+   * Feeds the next chunk of the document; complete markup is reported immediately
+   * @param {string} chunk - Next part of the document
+   * @throws {Error} If the markup is not well-formed
+   */
+  write(chunk: string): void {
+    this.buffer += chunk;
+    let position = 0;
+
+    while (position < this.buffer.length) {
+      const markupStart = this.buffer.indexOf('<', position);
+
+      // Text is reported once the next markup starts, so entities are never split
+      if (markupStart === -1) break;
+      if (markupStart > position) {
+        this.emitText(this.buffer.slice(position, markupStart));
+        position = markupStart;
+      }
+
+      const markupEnd = this.findMarkupEnd(position);
+      if (markupEnd === -1) break;
+
+      this.handleMarkup(this.buffer.slice(position, markupEnd));
+      position = markupEnd;
+    }
+
+    this.buffer = this.buffer.slice(position);
+  }
+
+  /**
+   * Signals the end of the document
+   * @throws {Error} If markup is incomplete or elements are not closed
+   */
+  end(): void {
+    if (this.buffer.trim().startsWith('<')) {
+      throw new Error(`Malformed XML: incomplete markup "${this.buffer.trim().slice(0, 40)}"`);
+    }
+    if (this.buffer.trim()) {
+      this.emitText(this.buffer);
+    }
+    this.buffer = '';
+
+    if (this.openElements.length > 0) {
+      throw new Error(`Malformed XML: <${this.openElements[this.openElements.length - 1]}> is not closed`);
+    }
+  }
+
+  /**
+   * Finds the end (exclusive) of the markup starting at a '<', or -1 when it is not complete yet
+   * @private
+   */
+  private findMarkupEnd(start: number): number {
+    const terminator = (open: string, close: string): number => {
+      const end = this.buffer.indexOf(close, start + open.length);
+      return end === -1 ? -1 : end + close.length;
+    };
+
+    if (this.buffer.startsWith('<!--', start)) return terminator('<!--', '-->');
+    if (this.buffer.startsWith('<![CDATA[', start)) return terminator('<![CDATA[', ']]>');
+    if (this.buffer.startsWith('<?', start)) return terminator('<?', '?>');
+
+    // A shorter buffer may still turn into a comment or CDATA section
+    if (this.buffer.length - start < 9 && ('<![CDATA['.startsWith(this.buffer.slice(start)) || '<!--'.startsWith(this.buffer.slice(start)))) {
+      return -1;
+    }
+
+    // Tags (and DOCTYPE) end at the first '>' outside a quoted attribute value
+    let quote: string | null = null;
+    for (let index = start + 1; index < this.buffer.length; index++) {
+      const char = this.buffer[index];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '>') {
+        return index + 1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Reports one complete piece of markup
+   * @private
+   */
+  private handleMarkup(markup: string): void {
+    if (markup.startsWith('<!--') || markup.startsWith('<?') || markup.startsWith('<!DOCTYPE')) {
+      return;
+    }
+
+    if (markup.startsWith('<![CDATA[')) {
+      this.handler.text?.(markup.slice(9, -3));
+      return;
+    }
+
+    if (markup.startsWith('</')) {
+      const name = markup.slice(2, -1).trim();
+      const expected = this.openElements.pop();
+      if (expected !== name) {
+        throw new Error(`Malformed XML: expected </${expected ?? 'none'}> but found </${name}>`);
+      }
+      this.handler.closeTag?.(name);
+      return;
+    }
+
+    const tag = markup.match(/^<([^\s/>]+)([\s\S]*?)(\/?)>$/);
+    if (!tag) {
+      throw new Error(`Malformed XML: invalid tag "${markup.slice(0, 40)}"`);
+    }
+
+    const [, name, attributeText, selfClosing] = tag;
+    const attributes: Record<string, string> = {};
+    for (const [, attribute, doubleQuoted, singleQuoted] of attributeText.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[attribute] = XMLStreamParser.decodeEntities(doubleQuoted ?? singleQuoted);
+    }
+
+    this.handler.openTag?.(name, attributes);
+    if (selfClosing) {
+      this.handler.closeTag?.(name);
+    } else {
+      this.openElements.push(name);
+    }
+  }
+
+  /**
+   * Reports a text run; whitespace outside the root element is ignored
+   * @private
+   */
+  private emitText(text: string): void {
+    if (this.openElements.length === 0 && !text.trim()) return;
+    this.handler.text?.(XMLStreamParser.decodeEntities(text));
+  }
+}
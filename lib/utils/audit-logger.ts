@@ -22,6 +22,10 @@ export enum AuditEventType {
   ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
   RATE_LIMITED = 'RATE_LIMITED',
   SESSION_EXPIRED = 'SESSION_EXPIRED',
+  API_KEY_CREATED = 'API_KEY_CREATED',
+  API_KEY_ROTATED = 'API_KEY_ROTATED',
+  API_KEY_REVOKED = 'API_KEY_REVOKED',
+  API_KEY_REJECTED = 'API_KEY_REJECTED',
 }
 
 /**
@@ -217,10 +221,45 @@ export function logAccountLocked(
  */
 export function logRateLimited(
   identifier: string,
+  ipAddress?: string,
+  details: { tenant?: string; policy?: string; retryAfterSeconds?: number } = {}
+): void {
+  logAuditEvent(AuditEventType.RATE_LIMITED, identifier, details.tenant || 'system', {
+    ipAddress,
+    message: details.policy ? `Request rate limited by policy "${details.policy}"` : 'Request rate limited',
+    metadata: details.policy ? { policy: details.policy, retryAfterSeconds: details.retryAfterSeconds } : undefined,
+  });
+}
+
+/**
+ * Log creation, rotation or revocation of a gateway API key
+ */
+export function logApiKeyChange(
+  eventType: AuditEventType.API_KEY_CREATED | AuditEventType.API_KEY_ROTATED | AuditEventType.API_KEY_REVOKED,
+  adminUsername: string,
+  tenant: string,
+  apiKey: { id: number; name: string; keyPrefix: string },
+  ipAddress?: string
+): void {
+  const action = eventType === AuditEventType.API_KEY_CREATED ? 'created' : eventType === AuditEventType.API_KEY_ROTATED ? 'rotated' : 'revoked';
+  logAuditEvent(eventType, adminUsername, tenant, {
+    ipAddress,
+    message: `API key "${apiKey.name}" ${action}`,
+    metadata: { keyId: apiKey.id, keyPrefix: apiKey.keyPrefix },
+  });
+}
+
+/**
+ * Log a rejected gateway API key (unknown, revoked, expired or outside its scope)
+ */
+export function logApiKeyRejected(
+  keyPrefix: string,
+  tenant: string,
+  reason: string,
   ipAddress?: string
 ): void {
-  logAuditEvent(AuditEventType.RATE_LIMITED, identifier, 'system', {
+  logAuditEvent(AuditEventType.API_KEY_REJECTED, `apikey:${keyPrefix}`, tenant, {
     ipAddress,
-    message: 'Request rate limited',
+    message: `API key rejected: ${reason}`,
   });
 }
@@ -3,84 +3,249 @@
  * @author Mulugeta Forsido
  * @company Midport Scandinavia
  * @date October 2025
- * 
- * Implements in-memory rate limiting to prevent brute force attacks
- * on authentication endpoints.
+ *
+ * Implements named rate limit policies (fixed window, token bucket and daily quota)
+ * with counters persisted in SQLite, so limits survive restarts. Used to prevent
+ * brute force attacks on authentication endpoints and to keep a single client
+ * (API key or user) or tenant from exhausting the ION API quota.
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
+import { SQLiteManager } from '../sqlite';
+import { logRateLimited } from './audit-logger';
+import { IONAPIError } from './IONErrorParser';
+import type { GatewayPrincipal } from '@/Entities/Gateway';
 
-// In-memory store for rate limiting
-const rateLimitStore = new Map<string, RateLimitEntry>();
+/**
+ * Rate limit policy configuration
+ */
+export type RateLimitPolicy =
+  /** At most `limit` requests per window (e.g. login attempts) */
+  | { type: 'fixed_window'; limit: number; windowSeconds: number }
+  /** Bursts of up to `capacity` requests, refilled continuously at `refillPerSecond` */
+  | { type: 'token_bucket'; capacity: number; refillPerSecond: number }
+  /** At most `limit` requests per UTC day */
+  | { type: 'daily_quota'; limit: number };
 
 /**
- * Rate limiter configuration
+ * Named policies
+ * Gateway and remote query limits can be tuned with environment variables
  */
-const RATE_LIMIT_CONFIG = {
+export const RATE_LIMIT_POLICIES = {
   // Allow 5 attempts per 15 minutes
-  maxAttempts: 5,
-  windowMs: 15 * 60 * 1000, // 15 minutes
-};
+  login: { type: 'fixed_window', limit: 5, windowSeconds: 15 * 60 },
+  // Per API key / user on /api/gateway
+  gateway: {
+    type: 'token_bucket',
+    capacity: Number(process.env.GATEWAY_RATE_LIMIT_BURST) || 60,
+    refillPerSecond: (Number(process.env.GATEWAY_RATE_LIMIT_PER_MINUTE) || 60) / 60,
+  },
+  'gateway-daily': { type: 'daily_quota', limit: Number(process.env.GATEWAY_DAILY_QUOTA) || 10000 },
+  // Per user on /api/remote-query (query editor)
+  'remote-query': {
+    type: 'token_bucket',
+    capacity: Number(process.env.REMOTE_QUERY_RATE_LIMIT_BURST) || 30,
+    refillPerSecond: (Number(process.env.REMOTE_QUERY_RATE_LIMIT_PER_MINUTE) || 30) / 60,
+  },
+  // Per tenant across all clients, protects the tenant's ION API quota
+  'tenant-daily': { type: 'daily_quota', limit: Number(process.env.TENANT_DAILY_QUOTA) || 50000 },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
 
 /**
- * Clean up expired entries periodically
+ * One policy to apply to one client
  */
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, 60 * 1000); // Clean up every minute
+export interface RateLimitCheck {
+  policy: RateLimitPolicyName;
+  /** Client identifier (e.g. 'key:12', 'user:MIDPORT_DEM:john', 'MIDPORT_DEM') */
+  identifier: string;
+}
 
 /**
- * Check if a request should be rate limited
- * @param identifier - Unique identifier (IP address or username)
- * @returns Object with success status and remaining attempts
+ * Outcome of one policy check
  */
-export function checkRateLimit(identifier: string): {
-  success: boolean;
+export interface RateLimitResult {
+  policy: RateLimitPolicyName;
+  identifier: string;
+  allowed: boolean;
+  /** Requests allowed per window (bucket capacity) */
+  limit: number;
+  /** Requests left in the current window */
   remaining: number;
-  resetTime: number;
-} {
-  const now = Date.now();
-  const entry = rateLimitStore.get(identifier);
-
-  // No existing entry or expired entry
-  if (!entry || entry.resetTime < now) {
-    const resetTime = now + RATE_LIMIT_CONFIG.windowMs;
-    rateLimitStore.set(identifier, {
-      count: 1,
-      resetTime,
+  /** Seconds until the window resets (bucket is full again) */
+  resetSeconds: number;
+  /** Window length in seconds (RateLimit-Policy) */
+  windowSeconds: number;
+  /** Seconds to wait before retrying (denied requests only) */
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Outcome of a set of policy checks; a request is only counted when all policies allow it
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  results: RateLimitResult[];
+  /** The denying policy, or else the one with the fewest requests left */
+  limiting: RateLimitResult;
+}
+
+interface RateLimitCounter {
+  value: number;
+  windowStart: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Counters not updated for this long are removed */
+const COUNTER_RETENTION_MS = 2 * DAY_MS;
+
+/** Checks of the same counter are serialized (read-modify-write) */
+const counterLocks = new Map<string, Promise<void>>();
+
+let lastCleanup = 0;
+
+/**
+ * Check and count a request against one or more policies
+ * Denied requests are logged as RATE_LIMITED audit events.
+ * @param checks - Policies and clients to check (e.g. per API key and per tenant)
+ * @param options - cost: requests to count (e.g. size of a batch); tenant and ipAddress for the audit log
+ * @returns Decision with the result of every policy
+ */
+export async function consumeRateLimits(
+  checks: RateLimitCheck[],
+  options: { cost?: number; tenant?: string; ipAddress?: string } = {}
+): Promise<RateLimitDecision> {
+  const cost = Math.max(1, options.cost || 1);
+  const keys = [...new Set(checks.map(counterKey))].sort();
+
+  const decision = await withCounterLocks(keys, async () => {
+    const now = Date.now();
+    const counters = await Promise.all(checks.map(check => SQLiteManager.getRateLimitCounter(check.policy, check.identifier)));
+    const evaluated = checks.map((check, index) => evaluate(check, counters[index], cost, now));
+    const allowed = evaluated.every(({ result }) => result.allowed);
+
+    // Only count the request when every policy allows it
+    if (allowed) {
+      await Promise.all(evaluated.map(({ counter }, index) =>
+        SQLiteManager.saveRateLimitCounter(checks[index].policy, checks[index].identifier, counter.value, counter.windowStart)
+      ));
+    }
+
+    const results = evaluated.map(({ result }) => result);
+    const limiting = results.find(result => !result.allowed)
+      || results.reduce((lowest, result) => result.remaining / result.limit < lowest.remaining / lowest.limit ? result : lowest);
+    return { allowed, results, limiting };
+  });
+
+  if (!decision.allowed) {
+    logRateLimited(decision.limiting.identifier, options.ipAddress, {
+      tenant: options.tenant,
+      policy: decision.limiting.policy,
+      retryAfterSeconds: decision.limiting.retryAfterSeconds,
     });
-    return {
-      success: true,
-      remaining: RATE_LIMIT_CONFIG.maxAttempts - 1,
-      resetTime,
-    };
   }
 
-  // Existing entry - check if limit exceeded
-  if (entry.count >= RATE_LIMIT_CONFIG.maxAttempts) {
-    return {
-      success: false,
-      remaining: 0,
-      resetTime: entry.resetTime,
-    };
+  cleanupCounters();
+  return decision;
+}
+
+/**
+ * Standard rate limit response headers (IETF RateLimit fields) for a decision
+ * @param decision - Decision returned by consumeRateLimits
+ * @returns RateLimit-Limit/-Remaining/-Reset/-Policy, plus Retry-After when denied
+ */
+export function getRateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const { limiting } = decision;
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(limiting.limit),
+    'RateLimit-Remaining': String(limiting.remaining),
+    'RateLimit-Reset': String(limiting.resetSeconds),
+    'RateLimit-Policy': decision.results.map(result => `${result.limit};w=${result.windowSeconds}`).join(', '),
+  };
+  if (!decision.allowed && limiting.retryAfterSeconds !== undefined) {
+    headers['Retry-After'] = String(limiting.retryAfterSeconds);
   }
+  return headers;
+}
+
+/**
+ * Check and count a /api/gateway request: per API key (or user) and per tenant
+ * @param request - Incoming request
+ * @param principal - Authenticated caller
+ * @param tenant - Queried tenant
+ * @returns Decision with the result of every policy
+ */
+export async function checkGatewayRateLimit(request: Request, principal: GatewayPrincipal, tenant: string): Promise<RateLimitDecision> {
+  const client = principal.apiKey
+    ? `key:${principal.apiKey.id}`
+    : `user:${principal.tenant}:${principal.username}`;
+
+  return consumeRateLimits(
+    [
+      { policy: 'gateway', identifier: client },
+      { policy: 'gateway-daily', identifier: client },
+      { policy: 'tenant-daily', identifier: tenant.toUpperCase() },
+    ],
+    { tenant, ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined }
+  );
+}
+
+/**
+ * Check and count a /api/remote-query request: per signed-in user (else per IP) and per tenant
+ * @param request - Incoming request
+ * @param tenant - Queried tenant
+ * @param cost - Requests to count (number of queries in a batch)
+ * @returns Decision with the result of every policy
+ */
+export async function checkRemoteQueryRateLimit(request: Request, tenant: string, cost = 1): Promise<RateLimitDecision> {
+  const { auth } = await import('@/app/auth');
+  const session = await auth();
+  const ipAddress = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined;
+  const client = session?.user?.username
+    ? `user:${session.user.tenant}:${session.user.username}`
+    : `ip:${ipAddress || 'unknown'}`;
+
+  return consumeRateLimits(
+    [
+      { policy: 'remote-query', identifier: client },
+      { policy: 'tenant-daily', identifier: tenant.toUpperCase() },
+    ],
+    { cost, tenant, ipAddress }
+  );
+}
 
-  // Increment count
-  entry.count++;
-  rateLimitStore.set(identifier, entry);
+/**
+ * Structured RATE_LIMITED error for a denied decision (gateway error format, HTTP 429)
+ * @param decision - Denied decision
+ * @returns Error carrying the denying policy and Retry-After seconds
+ */
+export function toRateLimitError(decision: RateLimitDecision): IONAPIError {
+  const { limiting } = decision;
+  const scope = limiting.policy === 'tenant-daily' ? 'Daily request quota of the tenant' : `Rate limit "${limiting.policy}"`;
+  return new IONAPIError({
+    category: 'throttling',
+    code: 'RATE_LIMITED',
+    message: `${scope} exceeded (${limiting.limit} requests per ${formatWindow(limiting.windowSeconds)}). Retry in ${limiting.retryAfterSeconds} second${limiting.retryAfterSeconds === 1 ? '' : 's'}.`,
+    retryAfterSeconds: limiting.retryAfterSeconds,
+  });
+}
 
+/**
+ * Check if a request should be rate limited (login policy)
+ * @param identifier - Unique identifier (IP address or username)
+ * @returns Object with success status and remaining attempts
+ */
+export async function checkRateLimit(identifier: string): Promise<{
+  success: boolean;
+  remaining: number;
+  resetTime: number;
+}> {
+  const { limiting } = await consumeRateLimits([{ policy: 'login', identifier }]);
   return {
-    success: true,
-    remaining: RATE_LIMIT_CONFIG.maxAttempts - entry.count,
-    resetTime: entry.resetTime,
+    success: limiting.allowed,
+    remaining: limiting.remaining,
+    resetTime: Date.now() + limiting.resetSeconds * 1000,
   };
 }
 
@@ -88,21 +253,133 @@ export function checkRateLimit(identifier: string): {
  * Reset rate limit for a specific identifier
  * Used after successful authentication
  * @param identifier - Unique identifier to reset
+ * @param policy - Policy to reset (defaults to login)
  */
-export function resetRateLimit(identifier: string): void {
-  rateLimitStore.delete(identifier);
+export async function resetRateLimit(identifier: string, policy: RateLimitPolicyName = 'login'): Promise<void> {
+  await SQLiteManager.deleteRateLimitCounters({ policy, identifier });
 }
 
 /**
  * Get time remaining until rate limit reset
  * @param identifier - Unique identifier
+ * @param policy - Policy to check (defaults to login)
  * @returns Seconds until reset, or 0 if not rate limited
  */
-export function getRateLimitResetTime(identifier: string): number {
-  const entry = rateLimitStore.get(identifier);
-  if (!entry) return 0;
+export async function getRateLimitResetTime(identifier: string, policy: RateLimitPolicyName = 'login'): Promise<number> {
+  const counter = await SQLiteManager.getRateLimitCounter(policy, identifier);
+  if (!counter) return 0;
+
+  // Evaluate without counting to see whether the next request would be denied
+  const { result } = evaluate({ policy, identifier }, counter, 1, Date.now());
+  return result.allowed ? 0 : result.retryAfterSeconds || 0;
+}
+
+/**
+ * Applies a policy to a stored counter
+ * @returns The policy result and the counter after counting the request
+ */
+function evaluate(
+  check: RateLimitCheck,
+  stored: RateLimitCounter | null,
+  cost: number,
+  now: number
+): { result: RateLimitResult; counter: RateLimitCounter } {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[check.policy];
 
+  if (policy.type === 'token_bucket') {
+    // Requests larger than the bucket (big batches) need a full bucket
+    cost = Math.min(cost, policy.capacity);
+    const elapsedSeconds = stored ? Math.max(0, now - stored.windowStart) / 1000 : 0;
+    const tokens = stored ? Math.min(policy.capacity, stored.value + elapsedSeconds * policy.refillPerSecond) : policy.capacity;
+    const allowed = tokens >= cost;
+    const left = allowed ? tokens - cost : tokens;
+    return {
+      counter: { value: left, windowStart: now },
+      result: {
+        policy: check.policy,
+        identifier: check.identifier,
+        allowed,
+        limit: policy.capacity,
+        remaining: Math.floor(left),
+        resetSeconds: Math.ceil((policy.capacity - left) / policy.refillPerSecond),
+        windowSeconds: Math.round(policy.capacity / policy.refillPerSecond),
+        retryAfterSeconds: allowed ? undefined : Math.max(1, Math.ceil((cost - tokens) / policy.refillPerSecond)),
+      },
+    };
+  }
+
+  // Fixed window and daily quota count requests per window
+  const windowMs = policy.type === 'daily_quota' ? DAY_MS : policy.windowSeconds * 1000;
+  const currentWindowStart = policy.type === 'daily_quota' ? now - (now % DAY_MS) : now;
+  const inWindow = !!stored && stored.windowStart + windowMs > now;
+  const windowStart = inWindow ? stored!.windowStart : currentWindowStart;
+  const count = inWindow ? stored!.value : 0;
+  const allowed = count + cost <= policy.limit;
+  const counted = allowed ? count + cost : count;
+  const resetSeconds = Math.max(1, Math.ceil((windowStart + windowMs - now) / 1000));
+  return {
+    counter: { value: counted, windowStart },
+    result: {
+      policy: check.policy,
+      identifier: check.identifier,
+      allowed,
+      limit: policy.limit,
+      remaining: Math.max(0, policy.limit - counted),
+      resetSeconds,
+      windowSeconds: windowMs / 1000,
+      retryAfterSeconds: allowed ? undefined : resetSeconds,
+    },
+  };
+}
+
+/**
+ * Human readable window length (e.g. '15 minutes', 'day')
+ */
+function formatWindow(windowSeconds: number): string {
+  if (windowSeconds === DAY_MS / 1000) return 'day';
+  if (windowSeconds % 60 === 0) return windowSeconds === 60 ? 'minute' : `${windowSeconds / 60} minutes`;
+  return `${windowSeconds} seconds`;
+}
+
+/**
+ * Key of a counter in the lock map
+ */
+function counterKey(check: RateLimitCheck): string {
+  return `${check.policy}:${check.identifier}`;
+}
+
+/**
+ * Runs a task while holding the locks of the given counters (acquired in sorted order)
+ */
+async function withCounterLocks<T>(keys: string[], task: () => Promise<T>): Promise<T> {
+  const previous = keys.map(key => counterLocks.get(key) || Promise.resolve());
+  let release!: () => void;
+  const held = new Promise<void>(resolve => { release = resolve; });
+  const chained = Promise.all(previous).then(() => held);
+  keys.forEach(key => counterLocks.set(key, chained));
+
+  try {
+    await Promise.all(previous);
+    return await task();
+  } finally {
+    release();
+    keys.forEach(key => {
+      if (counterLocks.get(key) === chained) {
+        counterLocks.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Remove counters that have not been used for a while (at most once per hour)
+ */
+function cleanupCounters(): void {
   const now = Date.now();
-  const remaining = Math.max(0, entry.resetTime - now);
-  return Math.ceil(remaining / 1000); // Convert to seconds
+  if (now - lastCleanup < 60 * 60 * 1000) return;
+  lastCleanup = now;
+
+  SQLiteManager.deleteRateLimitCounters({ updatedBefore: now - COUNTER_RETENTION_MS }).catch(error => {
+    console.warn('⚠️ Rate limit counter cleanup failed:', error);
+  });
 }
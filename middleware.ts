@@ -11,9 +11,14 @@
  * - /credentials/* - Credentials management pages
  * - /api/credentials/* - Credentials API endpoints
  * - /api/tenants/* - Tenant management API endpoints
+ * - /api/schema/* - Schema (DESCRIBE) API endpoints
+ * - /api/catalog/* - Service catalog API endpoints
  * 
  * Unauthenticated users will be redirected to the home page (/) where
  * they can log in via the LoginDialog component.
+ *
+ * /api/gateway/* and the API explorer are not matched: machine clients
+ * authenticate there with an API key, checked by the route (ApiKeyManager).
  */
 
 export { auth as middleware } from '@/app/auth';
@@ -39,7 +44,8 @@ export const config = {
     '/api/remote-databases/:path*', // Protect remote databases API
     '/api/remote-query/:path*',   // Protect remote query API
     '/api/sqlite/:path*',         // Protect SQLite API
-    '/api/gateway/:path*',        // Protect gateway API
+    '/api/schema/:path*',         // Protect schema (DESCRIBE) API
+    '/api/catalog/:path*',        // Protect service catalog API
     '/api/admin/:path*',          // Protect admin API
   ]
 };